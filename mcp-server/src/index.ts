@@ -10,8 +10,11 @@ const rpcUrl = process.env.SOLANA_RPC_URL ||
                process.env.NEXT_PUBLIC_SOLANA_RPC_URL ||
                'https://api.mainnet-beta.solana.com'
 
+// Dashboard that serves token metadata (get_token_metadata)
+const dashboardUrl = process.env.DASHBOARD_URL || 'http://localhost:3000'
+
 // Create and start server
-const server = new CryptoProtocolMCPServer(rpcUrl)
+const server = new CryptoProtocolMCPServer(rpcUrl, dashboardUrl)
 server.start().catch((error) => {
   console.error('Failed to start MCP server:', error)
   process.exit(1)
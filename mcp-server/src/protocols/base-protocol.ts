@@ -4,7 +4,7 @@
  */
 
 import { Connection } from '@solana/web3.js'
-import { Position, TransactionResult, ClaimFeesParams, RebalanceParams, OpenPositionParams } from '../types'
+import { Position, TransactionResult, ClaimFeesParams, CompoundParams, RebalanceParams, ClosePositionParams, OpenPositionParams } from '../types'
 
 export abstract class BaseProtocol {
   protected connection: Connection
@@ -25,11 +25,21 @@ export abstract class BaseProtocol {
    */
   abstract buildClaimFeesTransaction(params: ClaimFeesParams): Promise<TransactionResult>
 
+  /**
+   * Build transaction to claim fees and add them back as liquidity
+   */
+  abstract buildCompoundTransaction(params: CompoundParams): Promise<TransactionResult>
+
   /**
    * Build transaction to rebalance position
    */
   abstract buildRebalanceTransaction(params: RebalanceParams): Promise<TransactionResult>
 
+  /**
+   * Build transaction to withdraw all liquidity, claim fees and close the position
+   */
+  abstract buildClosePositionTransaction(params: ClosePositionParams): Promise<TransactionResult>
+
   /**
    * Build transaction to open new position
    */
@@ -47,10 +47,18 @@ export class JupiterProtocol extends BaseProtocol {
     return { success: false, error: 'Jupiter claim fees not supported via MCP yet' }
   }
 
+  async buildCompoundTransaction(): Promise<TransactionResult> {
+    return { success: false, error: 'Jupiter compound not supported via MCP yet' }
+  }
+
   async buildRebalanceTransaction(_params: RebalanceParams): Promise<TransactionResult> {
     return { success: false, error: 'Jupiter rebalance not supported via MCP yet' }
   }
 
+  async buildClosePositionTransaction(): Promise<TransactionResult> {
+    return { success: false, error: 'Jupiter close position not supported via MCP yet' }
+  }
+
   async buildOpenPositionTransaction(_params: OpenPositionParams): Promise<TransactionResult> {
     return { success: false, error: 'Jupiter open position not supported via MCP yet' }
   }
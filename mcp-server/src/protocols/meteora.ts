@@ -5,7 +5,7 @@
 
 import { Connection, PublicKey, Transaction } from '@solana/web3.js'
 import { BaseProtocol } from './base-protocol'
-import { Position, TransactionResult, ClaimFeesParams, RebalanceParams, OpenPositionParams } from '../types'
+import { Position, TransactionResult, ClaimFeesParams, CompoundParams, RebalanceParams, ClosePositionParams, OpenPositionParams } from '../types'
 // import DLMM from '@meteora-ag/dlmm' // Uncomment when SDK is installed
 
 // NOTE:
@@ -127,6 +127,25 @@ export class MeteoraProtocol extends BaseProtocol {
     }
   }
 
+  /**
+   * Build transaction to compound Meteora position fees
+   * Claims swap fees and adds them back as liquidity to the same (or target) position
+   */
+  async buildCompoundTransaction(params: CompoundParams): Promise<TransactionResult> {
+    if (!params.positionNftAddress || !params.positionAddress) {
+      return {
+        success: false,
+        error: 'Position NFT address and position address are required'
+      }
+    }
+
+    // Needs both the ClaimFee and AddLiquidityByStrategy instructions of the SDK
+    return {
+      success: false,
+      error: 'Meteora compound not supported via MCP yet. Install @meteora-ag/dlmm to enable claim and add liquidity.'
+    }
+  }
+
   /**
    * Build transaction to rebalance Meteora position
    */
@@ -144,7 +163,7 @@ export class MeteoraProtocol extends BaseProtocol {
       // TODO: Implement using Meteora SDK
       // Rebalancing typically involves:
       // 1. Close current position (RemoveLiquidity)
-      // 2. Open new position at current price (InitializePosition)
+      // 2. Open new position at current price (InitializePosition), binsPerSide bins either side
 
       return {
         success: false,
@@ -158,6 +177,24 @@ export class MeteoraProtocol extends BaseProtocol {
     }
   }
 
+  /**
+   * Build transaction to close a Meteora position
+   */
+  async buildClosePositionTransaction(params: ClosePositionParams): Promise<TransactionResult> {
+    if (!params.positionNftAddress || !params.positionAddress) {
+      return {
+        success: false,
+        error: 'Position NFT address and position address are required'
+      }
+    }
+
+    // Needs the RemoveLiquidity (100%), ClaimFee and ClosePosition instructions of the SDK
+    return {
+      success: false,
+      error: 'Meteora close position not supported via MCP yet. Install @meteora-ag/dlmm to enable remove liquidity and close.'
+    }
+  }
+
   /**
    * Build transaction to open new Meteora position
    */
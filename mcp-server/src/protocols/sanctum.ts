@@ -59,10 +59,18 @@ export class SanctumProtocol extends BaseProtocol {
     return { success: false, error: 'Sanctum claim fees not supported via MCP yet' }
   }
 
+  async buildCompoundTransaction(): Promise<TransactionResult> {
+    return { success: false, error: 'Sanctum compound not supported via MCP yet' }
+  }
+
   async buildRebalanceTransaction(_params: RebalanceParams): Promise<TransactionResult> {
     return { success: false, error: 'Sanctum rebalance not supported via MCP yet' }
   }
 
+  async buildClosePositionTransaction(): Promise<TransactionResult> {
+    return { success: false, error: 'Sanctum close position not supported via MCP yet' }
+  }
+
   async buildOpenPositionTransaction(_params: OpenPositionParams): Promise<TransactionResult> {
     return { success: false, error: 'Sanctum open position not supported via MCP yet' }
   }
@@ -12,13 +12,15 @@ import {
   ReadResourceRequestSchema,
 } from '@modelcontextprotocol/sdk/types.js'
 import { ProtocolRegistry } from './protocols/index.js'
+import { TokenRegistry } from './token-registry.js'
 import { ClaimFeesParams, RebalanceParams, OpenPositionParams, GetPositionsParams } from './types.js'
 
 export class CryptoProtocolMCPServer {
   private server: Server
   private protocolRegistry: ProtocolRegistry
+  private tokenRegistry: TokenRegistry
 
-  constructor(rpcUrl: string) {
+  constructor(rpcUrl: string, dashboardUrl: string) {
     this.server = new Server(
       {
         name: 'crypto-protocol-mcp-server',
@@ -33,6 +35,7 @@ export class CryptoProtocolMCPServer {
     )
 
     this.protocolRegistry = new ProtocolRegistry(rpcUrl)
+    this.tokenRegistry = new TokenRegistry(dashboardUrl)
     this.setupHandlers()
   }
 
@@ -87,9 +90,71 @@ export class CryptoProtocolMCPServer {
               required: ['protocol', 'positionNftAddress', 'walletAddress'],
             },
           },
+          {
+            name: 'compound_fees',
+            description: 'Build transaction to claim fees and add them back as liquidity to the same or a target position',
+            inputSchema: {
+              type: 'object',
+              properties: {
+                protocol: {
+                  type: 'string',
+                  enum: ['meteora', 'jupiter', 'sanctum'],
+                  description: 'Protocol name',
+                },
+                positionNftAddress: {
+                  type: 'string',
+                  description: 'Position NFT address',
+                },
+                positionAddress: {
+                  type: 'string',
+                  description: 'Position account address',
+                },
+                walletAddress: {
+                  type: 'string',
+                  description: 'Wallet address',
+                },
+                targetPositionNftAddress: {
+                  type: 'string',
+                  description: 'Position NFT address to add the fees to (defaults to the source position)',
+                },
+              },
+              required: ['protocol', 'positionNftAddress', 'positionAddress', 'walletAddress'],
+            },
+          },
           {
             name: 'rebalance_position',
-            description: 'Build transaction to rebalance an out-of-range liquidity position',
+            description: 'Build transaction to rebalance an out-of-range or drifting liquidity position',
+            inputSchema: {
+              type: 'object',
+              properties: {
+                protocol: {
+                  type: 'string',
+                  enum: ['meteora', 'jupiter', 'sanctum'],
+                  description: 'Protocol name',
+                },
+                positionNftAddress: {
+                  type: 'string',
+                  description: 'Position NFT address',
+                },
+                positionAddress: {
+                  type: 'string',
+                  description: 'Position account address',
+                },
+                walletAddress: {
+                  type: 'string',
+                  description: 'Wallet address',
+                },
+                binsPerSide: {
+                  type: 'number',
+                  description: 'Bins either side of the active bin for the new range (optional)',
+                },
+              },
+              required: ['protocol', 'positionNftAddress', 'positionAddress', 'walletAddress'],
+            },
+          },
+          {
+            name: 'close_position',
+            description: 'Build transaction to withdraw all liquidity, claim fees and close a liquidity position',
             inputSchema: {
               type: 'object',
               properties: {
@@ -172,6 +237,21 @@ export class CryptoProtocolMCPServer {
               required: ['protocol', 'walletAddress'],
             },
           },
+          {
+            name: 'get_token_metadata',
+            description: 'Get symbol, name, decimals and metadata uri of token mints',
+            inputSchema: {
+              type: 'object',
+              properties: {
+                mints: {
+                  type: 'array',
+                  items: { type: 'string' },
+                  description: 'Token mint addresses',
+                },
+              },
+              required: ['mints'],
+            },
+          },
         ],
       }
     })
@@ -215,6 +295,38 @@ export class CryptoProtocolMCPServer {
             }
           }
 
+          case 'compound_fees': {
+            const protocol = this.protocolRegistry.getProtocol(args.protocol as string)
+            if (!protocol) {
+              return {
+                content: [
+                  {
+                    type: 'text',
+                    text: `Protocol ${args.protocol} not found. Available: ${this.protocolRegistry.getProtocolNames().join(', ')}`,
+                  },
+                ],
+                isError: true,
+              }
+            }
+
+            const result = await protocol.buildCompoundTransaction({
+              protocol: args.protocol as 'meteora' | 'jupiter' | 'sanctum',
+              positionNftAddress: args.positionNftAddress as string,
+              positionAddress: args.positionAddress as string,
+              walletAddress: args.walletAddress as string,
+              targetPositionNftAddress: args.targetPositionNftAddress as string | undefined,
+            })
+
+            return {
+              content: [
+                {
+                  type: 'text',
+                  text: JSON.stringify(result, null, 2),
+                },
+              ],
+            }
+          }
+
           case 'rebalance_position': {
             const protocol = this.protocolRegistry.getProtocol(args.protocol as string)
             if (!protocol) {
@@ -234,6 +346,38 @@ export class CryptoProtocolMCPServer {
               positionNftAddress: args.positionNftAddress as string,
               positionAddress: args.positionAddress as string,
               walletAddress: args.walletAddress as string,
+              binsPerSide: args.binsPerSide as number | undefined,
+            })
+
+            return {
+              content: [
+                {
+                  type: 'text',
+                  text: JSON.stringify(result, null, 2),
+                },
+              ],
+            }
+          }
+
+          case 'close_position': {
+            const protocol = this.protocolRegistry.getProtocol(args.protocol as string)
+            if (!protocol) {
+              return {
+                content: [
+                  {
+                    type: 'text',
+                    text: `Protocol ${args.protocol} not found. Available: ${this.protocolRegistry.getProtocolNames().join(', ')}`,
+                  },
+                ],
+                isError: true,
+              }
+            }
+
+            const result = await protocol.buildClosePositionTransaction({
+              protocol: args.protocol as 'meteora' | 'jupiter' | 'sanctum',
+              positionNftAddress: args.positionNftAddress as string,
+              positionAddress: args.positionAddress as string,
+              walletAddress: args.walletAddress as string,
             })
 
             return {
@@ -368,6 +512,31 @@ export class CryptoProtocolMCPServer {
             }
           }
 
+          case 'get_token_metadata': {
+            const mints = Array.isArray(args.mints) ? (args.mints as string[]) : []
+            if (mints.length === 0) {
+              return {
+                content: [
+                  {
+                    type: 'text',
+                    text: 'mints must be a non-empty array of mint addresses',
+                  },
+                ],
+                isError: true,
+              }
+            }
+
+            const tokens = await this.tokenRegistry.resolve(mints)
+            return {
+              content: [
+                {
+                  type: 'text',
+                  text: JSON.stringify(tokens, null, 2),
+                },
+              ],
+            }
+          }
+
           default:
             return {
               content: [
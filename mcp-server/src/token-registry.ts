@@ -0,0 +1,54 @@
+/**
+ * Token Registry
+ * Thin client of the dashboard's token metadata endpoint (GET /api/tokens/metadata), which reads
+ * mints and their Token-2022 / Metaplex metadata on chain and caches them
+ */
+
+// The dashboard endpoint takes up to 50 mints per request
+const MINTS_PER_REQUEST = 50
+const REQUEST_TIMEOUT_MS = 10000
+
+export type TokenMetadataSource = 'token-2022' | 'metaplex' | 'mint' | 'seed'
+
+export interface TokenMetadata {
+  mint: string
+  symbol: string
+  name: string
+  decimals: number
+  // Logo of well-known tokens; for others, the image in the off-chain metadata at uri
+  logoURI: string | null
+  // Off-chain metadata JSON the on-chain metadata points to
+  uri: string | null
+  source: TokenMetadataSource
+}
+
+export class TokenRegistry {
+  private dashboardUrl: string
+
+  constructor(dashboardUrl: string) {
+    this.dashboardUrl = dashboardUrl.replace(/\/+$/, '')
+  }
+
+  /**
+   * Resolve metadata for several mints; mints that are not token mints are left out
+   */
+  async resolve(mints: string[]): Promise<Record<string, TokenMetadata>> {
+    const unique = Array.from(new Set(mints.filter(Boolean)))
+    const resolved: Record<string, TokenMetadata> = {}
+
+    for (let i = 0; i < unique.length; i += MINTS_PER_REQUEST) {
+      const chunk = unique.slice(i, i + MINTS_PER_REQUEST)
+      const response = await fetch(
+        `${this.dashboardUrl}/api/tokens/metadata?mints=${chunk.map(encodeURIComponent).join(',')}`,
+        { signal: AbortSignal.timeout(REQUEST_TIMEOUT_MS) }
+      )
+      const data = (await response.json()) as { tokens?: Record<string, TokenMetadata>; error?: string }
+      if (!response.ok) {
+        throw new Error(data.error || `Token metadata request failed (${response.status})`)
+      }
+      Object.assign(resolved, data.tokens)
+    }
+
+    return resolved
+  }
+}
@@ -38,11 +38,29 @@ export interface ClaimFeesParams {
   walletAddress: string
 }
 
+export interface CompoundParams {
+  protocol: 'meteora' | 'jupiter' | 'sanctum'
+  positionNftAddress: string
+  positionAddress: string
+  walletAddress: string
+  // Position to add the claimed fees to (defaults to the source position)
+  targetPositionNftAddress?: string
+}
+
 export interface RebalanceParams {
   protocol: 'meteora' | 'jupiter' | 'sanctum'
   positionNftAddress: string
   positionAddress: string
   walletAddress: string
+  // Bins either side of the active bin for the new range (defaults to the current width)
+  binsPerSide?: number
+}
+
+export interface ClosePositionParams {
+  protocol: 'meteora' | 'jupiter' | 'sanctum'
+  positionNftAddress: string
+  positionAddress: string
+  walletAddress: string
 }
 
 export interface OpenPositionParams {
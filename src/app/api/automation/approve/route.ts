@@ -1,12 +1,53 @@
 /**
  * Automation Approval API
- * Endpoint to approve or reject pending automation actions
+ * GET previews the transaction an approval would sign (read-only)
+ * POST approves or rejects pending automation actions, one or a batch with a reason per approval;
+ * approving takes the messageHash of the preview shown, which must still match a live rebuild
  */
 
 import { NextRequest, NextResponse } from 'next/server'
 import { supabase } from '@/lib/supabase'
+import { AutomationLog } from '@/lib/automation/types'
+import { TransactionBuilder, getBuildParamsFromLog } from '@/lib/automation/transaction-builder'
+import { TransactionPolicy } from '@/lib/automation/transaction-policy'
+import { TransactionSimulator } from '@/lib/automation/transaction-simulator'
+import { TransactionPreviewer, getAccountLabels, getMessageHash } from '@/lib/automation/transaction-preview'
+import { ApprovalDecision, ApprovalLifecycle, MessageHashResolver } from '@/lib/automation/approval-lifecycle'
 
-export async function POST(request: NextRequest) {
+const MAX_BATCH_DECISIONS = 50
+
+/**
+ * Whether an entry of a batch is a well-formed decision
+ */
+function isDecision(entry: unknown): entry is ApprovalDecision {
+  if (!entry || typeof entry !== 'object') return false
+  const { approvalId, action, reason, messageHash } = entry as Record<string, unknown>
+  return typeof approvalId === 'string' && approvalId.length > 0 &&
+         (action === 'approve' || action === 'reject') &&
+         (reason === undefined || reason === null || typeof reason === 'string') &&
+         (messageHash === undefined || messageHash === null || typeof messageHash === 'string')
+}
+
+// An approval covers the previewed transaction only while a rebuild still produces it
+const resolveMessageHash: MessageHashResolver = async (approval) => {
+  const log = approval.automation_logs
+  const walletAddress = approval.automation_configs?.wallet_address
+  if (!log || !walletAddress) {
+    throw new Error('approval has no automation log or wallet')
+  }
+
+  const params = getBuildParamsFromLog(log, walletAddress)
+  const transaction = await new TransactionBuilder().buildTransaction(params)
+
+  const policy = await new TransactionPolicy().check(transaction, params)
+  if (!policy.allowed) {
+    throw new Error(`policy violation: ${policy.violations.join('; ')}`)
+  }
+
+  return getMessageHash(transaction)
+}
+
+export async function GET(request: NextRequest) {
   try {
     const {
       data: { user },
@@ -16,27 +57,19 @@ export async function POST(request: NextRequest) {
       return NextResponse.json({ error: 'Unauthorized' }, { status: 401 })
     }
 
-    const body = await request.json()
-    const { approvalId, action } = body // action: 'approve' or 'reject'
+    const { searchParams } = new URL(request.url)
+    const approvalId = searchParams.get('approvalId')
 
-    if (!approvalId || !action) {
+    if (!approvalId) {
       return NextResponse.json(
-        { error: 'approvalId and action are required' },
+        { error: 'approvalId is required' },
         { status: 400 }
       )
     }
 
-    if (action !== 'approve' && action !== 'reject') {
-      return NextResponse.json(
-        { error: "action must be 'approve' or 'reject'" },
-        { status: 400 }
-      )
-    }
-
-    // Get approval
     const { data: approval, error: approvalError } = await supabase
       .from('automation_approvals')
-      .select('*, automation_logs(*)')
+      .select('*, automation_logs(*), automation_configs(wallet_address)')
       .eq('id', approvalId)
       .eq('user_id', user.id)
       .single()
@@ -48,53 +81,140 @@ export async function POST(request: NextRequest) {
       )
     }
 
-    if (approval.status !== 'pending') {
+    const log = approval.automation_logs as AutomationLog | null
+    const walletAddress = approval.automation_configs?.wallet_address
+    const storedPreview = approval.details?.preview || null
+
+    if (!log || !walletAddress) {
+      return NextResponse.json({ approval, preview: storedPreview, live: false })
+    }
+
+    // Rebuild now, so the preview matches what the execute endpoint will hand to the wallet
+    const params = getBuildParamsFromLog(log, walletAddress)
+    let transaction
+    try {
+      transaction = await new TransactionBuilder().buildTransaction(params)
+    } catch (error: any) {
+      return NextResponse.json({
+        approval,
+        preview: storedPreview,
+        live: false,
+        previewError: `Transaction could not be rebuilt: ${error.message}`,
+      })
+    }
+
+    const policy = await new TransactionPolicy().check(transaction, params)
+    if (!policy.allowed) {
+      return NextResponse.json({ approval, preview: null, live: true, violations: policy.violations })
+    }
+
+    const simulation = await new TransactionSimulator().simulate(transaction, walletAddress).catch((error: any) => {
+      console.warn(`Simulation for approval ${approvalId} could not run: ${error.message}`)
+      return null
+    })
+
+    const preview = await new TransactionPreviewer().preview(
+      transaction,
+      getAccountLabels(params, approval.details?.positionInfo?.pair_address),
+      simulation
+    )
+
+    return NextResponse.json({
+      approval,
+      preview,
+      live: true,
+      ...(simulation && !simulation.success ? { simulationError: simulation.reason } : {}),
+    })
+  } catch (error: any) {
+    console.error('Error previewing approval:', error)
+    return NextResponse.json(
+      { error: error.message || 'Internal server error' },
+      { status: 500 }
+    )
+  }
+}
+
+export async function POST(request: NextRequest) {
+  try {
+    const {
+      data: { user },
+    } = await supabase.auth.getUser()
+
+    if (!user) {
+      return NextResponse.json({ error: 'Unauthorized' }, { status: 401 })
+    }
+
+    const body = await request.json()
+    const lifecycle = new ApprovalLifecycle(undefined, supabase, resolveMessageHash)
+
+    // Batch: { decisions: [{ approvalId, action, reason?, messageHash? }] }
+    if (Array.isArray(body.decisions)) {
+      const decisions: unknown[] = body.decisions
+      if (decisions.length === 0 || decisions.length > MAX_BATCH_DECISIONS) {
+        return NextResponse.json(
+          { error: `decisions must contain 1 to ${MAX_BATCH_DECISIONS} entries` },
+          { status: 400 }
+        )
+      }
+
+      if (!decisions.every(isDecision)) {
+        return NextResponse.json(
+          { error: "Each decision needs an approvalId and an action of 'approve' or 'reject'" },
+          { status: 400 }
+        )
+      }
+
+      const results = await lifecycle.decideAll(user.id, decisions.map(d => ({
+        approvalId: d.approvalId,
+        action: d.action,
+        reason: d.reason || undefined,
+        messageHash: d.messageHash || undefined,
+      })))
+
+      return NextResponse.json({
+        success: results.every(r => r.success),
+        approved: results.filter(r => r.success && r.status === 'approved').length,
+        rejected: results.filter(r => r.success && r.status === 'rejected').length,
+        failed: results.filter(r => !r.success).length,
+        results,
+      })
+    }
+
+    const { approvalId, action, messageHash } = body // action: 'approve' or 'reject'
+
+    if (!approvalId || !action) {
       return NextResponse.json(
-        { error: `Approval already ${approval.status}` },
+        { error: 'approvalId and action are required' },
         { status: 400 }
       )
     }
 
-    // Check if expired
-    if (new Date(approval.expires_at) < new Date()) {
-      await supabase
-        .from('automation_approvals')
-        .update({ status: 'expired' })
-        .eq('id', approvalId)
-
+    if (action !== 'approve' && action !== 'reject') {
       return NextResponse.json(
-        { error: 'Approval has expired' },
+        { error: "action must be 'approve' or 'reject'" },
         { status: 400 }
       )
     }
 
-    // Update approval
-    const updateData: any = {
-      status: action === 'approve' ? 'approved' : 'rejected',
-      [action === 'approve' ? 'approved_at' : 'rejected_at']: new Date().toISOString()
-    }
+    const result = await lifecycle.decide(user.id, {
+      approvalId,
+      action,
+      reason: body.reason || undefined,
+      messageHash: messageHash || undefined,
+    })
 
-    if (action === 'reject' && body.reason) {
-      updateData.rejection_reason = body.reason
+    if (!result.success) {
+      return NextResponse.json(
+        { error: result.error, errorCode: result.errorCode },
+        { status: result.errorCode === 'not_found' ? 404 : result.errorCode === 'preview_mismatch' ? 409 : 400 }
+      )
     }
 
-    await supabase
-      .from('automation_approvals')
-      .update(updateData)
-      .eq('id', approvalId)
-
-    // Update log status
-    const logStatus = action === 'approve' ? 'approved' : 'rejected'
-    await supabase
-      .from('automation_logs')
-      .update({ status: logStatus })
-      .eq('id', approval.log_id)
-
     return NextResponse.json({
       success: true,
       message: `Action ${action}d successfully`,
       approvalId,
-      status: logStatus
+      status: result.status
     })
   } catch (error: any) {
     console.error('Error processing approval:', error)
@@ -104,4 +224,3 @@ export async function POST(request: NextRequest) {
     )
   }
 }
-
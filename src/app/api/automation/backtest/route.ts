@@ -0,0 +1,87 @@
+/**
+ * Automation Backtest API
+ * Replays the wallet's position history through the automation rules
+ * Pass configOverrides to try different thresholds and cooldowns before saving them
+ */
+
+import { NextRequest, NextResponse } from 'next/server'
+import { supabase } from '@/lib/supabase'
+import { AutomationBacktester } from '@/lib/automation/backtest'
+import { AutomationConfig } from '@/lib/automation/types'
+
+// Config fields that identify the config or track its state, never overridable
+const PROTECTED_FIELDS = [
+  'id',
+  'user_id',
+  'wallet_address',
+  'spent_usd',
+  'is_active',
+  'last_run_at',
+  'locked_by',
+  'locked_until',
+  'created_at',
+  'updated_at'
+]
+
+export async function POST(request: NextRequest) {
+  try {
+    // Verify authentication
+    const {
+      data: { user },
+    } = await supabase.auth.getUser()
+
+    if (!user) {
+      return NextResponse.json({ error: 'Unauthorized' }, { status: 401 })
+    }
+
+    const body = await request.json()
+    const { walletAddress, from, stepHours, configOverrides } = body
+
+    if (!walletAddress) {
+      return NextResponse.json(
+        { error: 'walletAddress is required' },
+        { status: 400 }
+      )
+    }
+
+    if (stepHours !== undefined && (typeof stepHours !== 'number' || stepHours <= 0)) {
+      return NextResponse.json(
+        { error: 'stepHours must be a positive number' },
+        { status: 400 }
+      )
+    }
+
+    // Get automation config
+    const { data: config, error: configError } = await supabase
+      .from('automation_configs')
+      .select('*')
+      .eq('user_id', user.id)
+      .eq('wallet_address', walletAddress)
+      .single()
+
+    if (configError || !config) {
+      return NextResponse.json(
+        { error: 'Automation config not found. Please approve a plan first.' },
+        { status: 404 }
+      )
+    }
+
+    const overrides: Partial<AutomationConfig> = {}
+    for (const [key, value] of Object.entries(configOverrides || {})) {
+      if (key in config && !PROTECTED_FIELDS.includes(key)) {
+        (overrides as Record<string, unknown>)[key] = value
+      }
+    }
+
+    const backtester = new AutomationBacktester(config as AutomationConfig)
+    const result = await backtester.run({ from, stepHours, configOverrides: overrides })
+
+    return NextResponse.json(result)
+  } catch (error: any) {
+    console.error('Error running automation backtest:', error)
+    return NextResponse.json(
+      { error: error.message || 'Internal server error' },
+      { status: 500 }
+    )
+  }
+}
@@ -0,0 +1,113 @@
+/**
+ * Automation Circuit Breaker API
+ * GET lists open circuit breaker trips for a wallet's config
+ * POST resets one trip (tripId) or all of them so automation continues
+ */
+
+import { NextRequest, NextResponse } from 'next/server'
+import { supabase } from '@/lib/supabase'
+import { CircuitBreaker } from '@/lib/automation/circuit-breaker'
+import { AutomationConfig } from '@/lib/automation/types'
+
+async function getConfig(userId: string, walletAddress: string): Promise<AutomationConfig | null> {
+  const { data: config, error } = await supabase
+    .from('automation_configs')
+    .select('*')
+    .eq('user_id', userId)
+    .eq('wallet_address', walletAddress)
+    .single()
+
+  if (error || !config) return null
+  return config as AutomationConfig
+}
+
+export async function GET(request: NextRequest) {
+  try {
+    const {
+      data: { user },
+    } = await supabase.auth.getUser()
+
+    if (!user) {
+      return NextResponse.json({ error: 'Unauthorized' }, { status: 401 })
+    }
+
+    const { searchParams } = new URL(request.url)
+    const walletAddress = searchParams.get('walletAddress')
+
+    if (!walletAddress) {
+      return NextResponse.json(
+        { error: 'walletAddress is required' },
+        { status: 400 }
+      )
+    }
+
+    const config = await getConfig(user.id, walletAddress)
+    if (!config) {
+      return NextResponse.json(
+        { error: 'Automation config not found' },
+        { status: 404 }
+      )
+    }
+
+    const trips = await new CircuitBreaker(config).getOpenTrips()
+
+    return NextResponse.json({ trips })
+  } catch (error: any) {
+    console.error('Error loading circuit breakers:', error)
+    return NextResponse.json(
+      { error: error.message || 'Internal server error' },
+      { status: 500 }
+    )
+  }
+}
+
+export async function POST(request: NextRequest) {
+  try {
+    const {
+      data: { user },
+    } = await supabase.auth.getUser()
+
+    if (!user) {
+      return NextResponse.json({ error: 'Unauthorized' }, { status: 401 })
+    }
+
+    const body = await request.json()
+    const { walletAddress, tripId } = body
+
+    if (!walletAddress) {
+      return NextResponse.json(
+        { error: 'walletAddress is required' },
+        { status: 400 }
+      )
+    }
+
+    const config = await getConfig(user.id, walletAddress)
+    if (!config) {
+      return NextResponse.json(
+        { error: 'Automation config not found' },
+        { status: 404 }
+      )
+    }
+
+    const reset = await new CircuitBreaker(config).reset(tripId)
+
+    if (tripId && reset === 0) {
+      return NextResponse.json(
+        { error: 'Circuit breaker trip not found or already reset' },
+        { status: 404 }
+      )
+    }
+
+    return NextResponse.json({
+      success: true,
+      reset,
+      message: `Reset ${reset} circuit breaker trip(s)`
+    })
+  } catch (error: any) {
+    console.error('Error resetting circuit breaker:', error)
+    return NextResponse.json(
+      { error: error.message || 'Internal server error' },
+      { status: 500 }
+    )
+  }
+}
@@ -0,0 +1,119 @@
+import { beforeEach, describe, expect, it, vi } from 'vitest'
+import { NextRequest } from 'next/server'
+import { ComputeBudgetProgram, Keypair, Transaction } from '@solana/web3.js'
+
+let log: Record<string, unknown>
+let approval: { message_hash: string | null } | null
+const buildTransaction = vi.fn()
+
+// Every query on a table resolves to that table's row, whatever filters were chained
+const query = (row: () => unknown) => {
+  const chain: Record<string, unknown> = {}
+  for (const method of ['select', 'eq']) chain[method] = () => chain
+  chain.single = async () => ({ data: row(), error: null })
+  chain.maybeSingle = async () => ({ data: row(), error: null })
+  return chain
+}
+
+vi.mock('@/lib/supabase', () => ({
+  supabase: {
+    auth: { getUser: async () => ({ data: { user: { id: 'user-1' } } }) },
+    from: (table: string) => query(() => (table === 'automation_logs' ? log : approval))
+  }
+}))
+
+vi.mock('@/lib/automation/transaction-builder', () => ({
+  TransactionBuilder: class {
+    buildTransaction = buildTransaction
+  },
+  getBuildParamsFromLog: () => ({ actionType: 'rebalance', walletAddress: 'wallet-1' })
+}))
+
+vi.mock('@/lib/automation/execution-lifecycle', () => ({
+  ExecutionLifecycle: class {
+    async transition(current: Record<string, unknown>) {
+      return current
+    }
+  },
+  canBuild: () => true,
+  MAX_EXECUTION_ATTEMPTS: 3
+}))
+
+const { POST } = await import('./route')
+
+const { getMessageHash } = await import('@/lib/automation/transaction-preview')
+
+const execute = (signedTransaction?: string) => POST(new NextRequest('http://localhost/api/automation/execute', {
+  method: 'POST',
+  body: JSON.stringify({ logId: 'log-1', walletAddress: 'wallet-1', signedTransaction })
+}))
+
+describe('POST /api/automation/execute approval gate', () => {
+  beforeEach(() => {
+    buildTransaction.mockReset()
+    buildTransaction.mockRejectedValue(new Error('builder unavailable'))
+    approval = null
+  })
+
+  it('refuses to build an action whose approval is still pending', async () => {
+    log = { id: 'log-1', status: 'pending', execution_state: 'pending', metadata: { requiresApproval: true } }
+    approval = { message_hash: 'previewed-hash' }
+
+    const response = await execute()
+
+    expect(response.status).toBe(403)
+    expect(buildTransaction).not.toHaveBeenCalled()
+  })
+
+  it('refuses an approved action without a previewed message hash', async () => {
+    log = { id: 'log-1', status: 'approved', execution_state: 'pending', metadata: { requiresApproval: true } }
+    approval = { message_hash: null }
+
+    const response = await execute()
+
+    expect(response.status).toBe(403)
+    expect(buildTransaction).not.toHaveBeenCalled()
+  })
+
+  it('builds auto-executable actions while pending', async () => {
+    log = { id: 'log-1', status: 'pending', execution_state: 'pending', metadata: { requiresApproval: false } }
+
+    await execute()
+
+    expect(buildTransaction).toHaveBeenCalledOnce()
+  })
+})
+
+describe('POST /api/automation/execute signed transaction check', () => {
+  const blockhash = Keypair.generate().publicKey.toBase58()
+
+  const built = (microLamports: number) => {
+    const transaction = new Transaction({ feePayer: Keypair.generate().publicKey, recentBlockhash: blockhash })
+    transaction.add(ComputeBudgetProgram.setComputeUnitPrice({ microLamports }))
+    return transaction
+  }
+  const serialize = (transaction: Transaction) =>
+    transaction.serialize({ requireAllSignatures: false, verifySignatures: false }).toString('base64')
+
+  it('refuses a signed transaction whose compute budget differs from the built one', async () => {
+    const transaction = built(1000)
+    log = {
+      id: 'log-1', status: 'pending', execution_state: 'built', blockhash,
+      metadata: { requiresApproval: false, messageHash: getMessageHash(transaction) }
+    }
+    transaction.instructions[0] = ComputeBudgetProgram.setComputeUnitPrice({ microLamports: 500_000 })
+
+    const response = await execute(serialize(transaction))
+
+    expect(response.status).toBe(409)
+    expect((await response.json()).error).toMatch(/differs from the built transaction/)
+  })
+
+  it('refuses a signed transaction built before its message hash was recorded', async () => {
+    log = { id: 'log-1', status: 'pending', execution_state: 'built', blockhash, metadata: { requiresApproval: false } }
+
+    const response = await execute(serialize(built(1000)))
+
+    expect(response.status).toBe(409)
+  })
+})
@@ -1,14 +1,22 @@
 /**
  * Automation Execution API
  * Executes pending automation actions with wallet signing
+ * Drives the execution lifecycle: build → verify → simulate → submit → confirm, with rebuilds on
+ * expired blockhashes and retries after failures
  */
 
 import { NextRequest, NextResponse } from 'next/server'
 import { supabase } from '@/lib/supabase'
-import { AutomationLog, AutomationConfig } from '@/lib/automation/types'
-import { TransactionBuilder } from '@/lib/automation/transaction-builder'
-import { Connection, PublicKey, Transaction } from '@solana/web3.js'
+import { AutomationConfig, AutomationLog } from '@/lib/automation/types'
+import { BudgetManager } from '@/lib/automation/budget-manager'
+import { TransactionBuilder, getBuildParamsFromLog } from '@/lib/automation/transaction-builder'
+import { ExecutionLifecycle, canBuild, MAX_EXECUTION_ATTEMPTS } from '@/lib/automation/execution-lifecycle'
+import { TransactionSimulator, toSimulationMetadata } from '@/lib/automation/transaction-simulator'
+import { TransactionPolicy } from '@/lib/automation/transaction-policy'
+import { getMessageHash } from '@/lib/automation/transaction-preview'
+import { Connection, Transaction, TransactionExpiredBlockheightExceededError } from '@solana/web3.js'
 import { getServerRpcUrl } from '@/lib/env-config'
+import { getSolPriceUSD } from '@/lib/sol-price'
 
 export async function POST(request: NextRequest) {
   try {
@@ -46,21 +54,74 @@ export async function POST(request: NextRequest) {
       )
     }
 
-    // Check if log is in pending status
-    if (log.status !== 'pending') {
+    // Only pending or approved actions can be executed
+    if (log.status !== 'pending' && log.status !== 'approved') {
       return NextResponse.json(
-        { error: `Log is not pending (current status: ${log.status})` },
+        { error: `Log is not executable (current status: ${log.status})` },
         { status: 400 }
       )
     }
 
+    // Nothing can build these yet (e.g. close_position): the user carries them out by hand
+    if (log.metadata?.manualAction) {
+      return NextResponse.json(
+        { error: `${log.action_type} cannot be executed automatically yet; carry it out manually`, manual: true },
+        { status: 409 }
+      )
+    }
+
+    // Actions needing approval run only once approved, and only as the transaction the approver previewed
+    let approvedMessageHash: string | null = null
+    if (log.metadata?.requiresApproval) {
+      const { data: approval } = log.status === 'approved'
+        ? await supabase
+          .from('automation_approvals')
+          .select('message_hash')
+          .eq('log_id', log.id)
+          .eq('status', 'approved')
+          .maybeSingle()
+        : { data: null }
+
+      if (!approval?.message_hash) {
+        return NextResponse.json(
+          { error: 'Action requires an approved transaction preview before it can be executed' },
+          { status: 403 }
+        )
+      }
+      approvedMessageHash = approval.message_hash
+    }
+
+    const lifecycle = new ExecutionLifecycle()
+    const connection = new Connection(getServerRpcUrl(), 'confirmed')
+
     // If signed transaction is provided, send it
     if (signedTransaction) {
-      return await executeSignedTransaction(log, signedTransaction)
+      if (log.execution_state !== 'built') {
+        return NextResponse.json(
+          { error: `Transaction cannot be submitted from state '${log.execution_state}'` },
+          { status: 409 }
+        )
+      }
+      return await executeSignedTransaction(lifecycle, connection, log, signedTransaction, approvedMessageHash)
     }
 
     // Otherwise, build and return transaction for client-side signing
-    return await buildTransactionForSigning(log, walletAddress)
+    if (!canBuild(log)) {
+      // Out of attempts while waiting for a rebuild: close the log out as failed
+      if (log.execution_attempts >= MAX_EXECUTION_ATTEMPTS && log.execution_state === 'expired') {
+        await lifecycle.transition(log, 'failed', { error: 'Blockhash expired on final attempt' }).catch(() => null)
+      }
+      return NextResponse.json(
+        {
+          error: log.execution_attempts >= MAX_EXECUTION_ATTEMPTS
+            ? `Maximum execution attempts (${MAX_EXECUTION_ATTEMPTS}) reached`
+            : `Transaction cannot be built from state '${log.execution_state}'`
+        },
+        { status: 409 }
+      )
+    }
+
+    return await buildTransactionForSigning(lifecycle, connection, log, walletAddress, approvedMessageHash)
   } catch (error: any) {
     console.error('Error executing automation action:', error)
     return NextResponse.json(
@@ -74,22 +135,76 @@ export async function POST(request: NextRequest) {
  * Build transaction for client-side signing
  */
 async function buildTransactionForSigning(
+  lifecycle: ExecutionLifecycle,
+  connection: Connection,
   log: AutomationLog,
-  walletAddress: string
+  walletAddress: string,
+  approvedMessageHash: string | null
 ): Promise<NextResponse> {
   try {
     const builder = new TransactionBuilder()
 
-    const params = {
-      actionType: log.action_type as 'claim_fees' | 'rebalance' | 'open_position',
-      positionNftAddress: log.position_nft_address || undefined,
-      positionAddress: log.position_address || undefined,
-      poolAddress: log.metadata?.poolAddress || undefined,
-      walletAddress,
-    }
+    const params = getBuildParamsFromLog(log, walletAddress)
 
     const transaction = await builder.buildTransaction(params)
 
+    // The MCP server's transaction is untrusted until it passes the policy
+    const policy = await new TransactionPolicy(connection).check(transaction, params)
+    if (!policy.allowed) {
+      await lifecycle.transition(log, 'failed', {
+        error: `Policy violation: ${policy.violations.join('; ')}`,
+        terminal: true,
+        metadata: { violations: policy.violations },
+      })
+
+      return NextResponse.json(
+        {
+          error: `Policy violation: ${policy.violations.join('; ')}`,
+          violations: policy.violations,
+          retryable: false,
+        },
+        { status: 422 }
+      )
+    }
+
+    // An approved action may only sign the transaction the approver previewed
+    if (approvedMessageHash && getMessageHash(transaction) !== approvedMessageHash) {
+      const error = 'Rebuilt transaction differs from the approved preview (instructions or accounts changed)'
+      await lifecycle.transition(log, 'failed', { error, terminal: true })
+
+      return NextResponse.json({ error, retryable: false }, { status: 409 })
+    }
+
+    // Stamp a fresh blockhash unless the builder already partially signed the transaction
+    const { blockhash, lastValidBlockHeight } = await connection.getLatestBlockhash('confirmed')
+    if (!transaction.signatures.some(s => s.signature !== null)) {
+      transaction.recentBlockhash = blockhash
+    }
+
+    // Nothing goes to the wallet for signing unless it simulates cleanly
+    const simulation = await new TransactionSimulator(connection).simulate(transaction, walletAddress)
+    if (!simulation.success) {
+      await lifecycle.transition(log, 'failed', {
+        error: `Simulation failed: ${simulation.reason}`,
+        terminal: true,
+      })
+
+      return NextResponse.json(
+        {
+          error: `Simulation failed: ${simulation.reason}`,
+          logs: simulation.logs,
+          retryable: false,
+        },
+        { status: 422 }
+      )
+    }
+
+    const builtLog = await lifecycle.transition(log, 'built', {
+      blockhash: transaction.recentBlockhash || blockhash,
+      lastValidBlockHeight,
+      metadata: { simulation: toSimulationMetadata(simulation), messageHash: getMessageHash(transaction) },
+    })
+
     // Serialize transaction for client-side signing
     const serialized = transaction.serialize({
       requireAllSignatures: false,
@@ -101,23 +216,22 @@ async function buildTransactionForSigning(
       transaction: Buffer.from(serialized).toString('base64'),
       actionType: log.action_type,
       logId: log.id,
+      attempt: builtLog.execution_attempts,
+      lastValidBlockHeight,
+      simulation: builtLog.metadata?.simulation,
       message: 'Transaction built successfully. Sign and send from client.',
     })
   } catch (error: any) {
     console.error('Error building transaction:', error)
-    
-    // Update log status to failed
-    await supabase
-      .from('automation_logs')
-      .update({
-        status: 'failed',
-        error_message: error.message,
-        failed_at: new Date().toISOString(),
-      })
-      .eq('id', log.id)
+
+    // Record the failed attempt (terminal once attempts are exhausted)
+    const failedLog = await lifecycle.transition(log, 'failed', { error: error.message }).catch(() => null)
 
     return NextResponse.json(
-      { error: `Failed to build transaction: ${error.message}` },
+      {
+        error: `Failed to build transaction: ${error.message}`,
+        retryable: failedLog ? canBuild(failedLog) : false,
+      },
       { status: 500 }
     )
   }
@@ -127,15 +241,48 @@ async function buildTransactionForSigning(
  * Execute signed transaction
  */
 async function executeSignedTransaction(
+  lifecycle: ExecutionLifecycle,
+  connection: Connection,
   log: AutomationLog,
-  signedTransactionBase64: string
+  signedTransactionBase64: string,
+  approvedMessageHash: string | null
 ): Promise<NextResponse> {
-  try {
-    const connection = new Connection(getServerRpcUrl(), 'confirmed')
-    const signedTransaction = Transaction.from(
-      Buffer.from(signedTransactionBase64, 'base64')
+  const signedTransaction = Transaction.from(
+    Buffer.from(signedTransactionBase64, 'base64')
+  )
+
+  // The signed transaction must be the one we built
+  if (signedTransaction.recentBlockhash !== log.blockhash) {
+    return NextResponse.json(
+      { error: 'Signed transaction does not match the built transaction. Rebuild and sign again.', rebuild: true },
+      { status: 409 }
+    )
+  }
+
+  // ...down to its instructions, accounts and compute budget (for approved actions, the ones previewed)
+  const messageHash = getMessageHash(signedTransaction)
+  if (messageHash !== log.metadata?.messageHash || (approvedMessageHash && messageHash !== approvedMessageHash)) {
+    return NextResponse.json(
+      { error: 'Signed transaction differs from the built transaction (instructions, accounts or compute budget changed)' },
+      { status: 409 }
     )
+  }
+
+  // Blockhash expired while the user was signing: rebuild instead of sending
+  const { value: blockhashValid } = await connection.isBlockhashValid(log.blockhash as string, {
+    commitment: 'confirmed',
+  })
+  if (!blockhashValid) {
+    await lifecycle.transition(log, 'expired', { error: 'Blockhash expired before submission' })
+    return NextResponse.json(
+      { error: 'Blockhash expired before submission. Rebuild and sign again.', rebuild: true },
+      { status: 409 }
+    )
+  }
+
+  let current = log
 
+  try {
     // Send transaction
     const signature = await connection.sendRawTransaction(
       signedTransaction.serialize(),
@@ -145,32 +292,46 @@ async function executeSignedTransaction(
       }
     )
 
-    // Wait for confirmation
-    const confirmation = await connection.confirmTransaction(signature, 'confirmed')
+    current = await lifecycle.transition(current, 'submitted', { signature })
+
+    // Wait for confirmation until the blockhash expires
+    const confirmation = await connection.confirmTransaction(
+      {
+        signature,
+        blockhash: log.blockhash as string,
+        lastValidBlockHeight: log.last_valid_block_height as number,
+      },
+      'confirmed'
+    )
 
     if (confirmation.value.err) {
-      throw new Error(`Transaction failed: ${confirmation.value.err}`)
+      throw new Error(`Transaction failed: ${JSON.stringify(confirmation.value.err)}`)
     }
 
     // Get transaction fee
     const tx = await connection.getTransaction(signature, {
       commitment: 'confirmed',
+      maxSupportedTransactionVersion: 0,
     })
     const fee = tx?.meta?.fee || 0
     const feeSOL = fee / 1e9
-    const feeUSD = feeSOL * 190 // Rough SOL price
+    const feeUSD = feeSOL * await getSolPriceUSD()
 
-    // Update log with success
-    await supabase
-      .from('automation_logs')
-      .update({
-        status: 'executed',
-        transaction_signature: signature,
-        cost_usd: log.amount_usd + feeUSD,
-        gas_fee_sol: feeSOL,
-        executed_at: new Date().toISOString(),
+    // Finalization is picked up by the engine's reconcile step
+    // amount_usd is only the pre-build gas estimate; the network fee paid is the actual cost
+    await lifecycle.transition(current, 'confirmed', {
+      signature,
+      costUSD: feeUSD,
+      gasFeeSOL: feeSOL,
+    })
+
+    // The transaction landed: a failure to book its cost must not fail the log
+    const config = (log as AutomationLog & { automation_configs?: AutomationConfig | null }).automation_configs
+    if (config) {
+      await new BudgetManager(config).recordSpend(feeUSD).catch(error => {
+        console.error(`Error recording spend for automation log ${log.id}:`, error)
       })
-      .eq('id', log.id)
+    }
 
     return NextResponse.json({
       success: true,
@@ -181,20 +342,22 @@ async function executeSignedTransaction(
   } catch (error: any) {
     console.error('Error executing transaction:', error)
 
-    // Update log status to failed
-    await supabase
-      .from('automation_logs')
-      .update({
-        status: 'failed',
-        error_message: error.message,
-        failed_at: new Date().toISOString(),
-      })
-      .eq('id', log.id)
+    if (error instanceof TransactionExpiredBlockheightExceededError) {
+      await lifecycle.transition(current, 'expired', { error: error.message }).catch(() => null)
+      return NextResponse.json(
+        { error: 'Transaction expired before confirmation. Rebuild and sign again.', rebuild: true },
+        { status: 409 }
+      )
+    }
+
+    const failedLog = await lifecycle.transition(current, 'failed', { error: error.message }).catch(() => null)
 
     return NextResponse.json(
-      { error: `Transaction execution failed: ${error.message}` },
+      {
+        error: `Transaction execution failed: ${error.message}`,
+        retryable: failedLog ? canBuild(failedLog) : false,
+      },
       { status: 500 }
     )
   }
 }
-
@@ -0,0 +1,107 @@
+/**
+ * Automation Notifications API
+ * GET lists the user's approval reminders and expiry notices, newest first
+ * POST marks notifications read (notificationIds, or all of them)
+ */
+
+import { NextRequest, NextResponse } from 'next/server'
+import { supabase } from '@/lib/supabase'
+import { AutomationNotification } from '@/lib/automation/types'
+
+const DEFAULT_LIMIT = 20
+const MAX_LIMIT = 100
+
+export async function GET(request: NextRequest) {
+  try {
+    const {
+      data: { user },
+    } = await supabase.auth.getUser()
+
+    if (!user) {
+      return NextResponse.json({ error: 'Unauthorized' }, { status: 401 })
+    }
+
+    const { searchParams } = new URL(request.url)
+    const unreadOnly = searchParams.get('unreadOnly') === 'true'
+    const limit = Math.min(
+      parseInt(searchParams.get('limit') || '') || DEFAULT_LIMIT,
+      MAX_LIMIT
+    )
+
+    let query = supabase
+      .from('automation_notifications')
+      .select('*')
+      .eq('user_id', user.id)
+      .order('created_at', { ascending: false })
+      .limit(limit)
+
+    if (unreadOnly) {
+      query = query.is('read_at', null)
+    }
+
+    const { data, error } = await query
+    if (error) throw error
+
+    const { count, error: countError } = await supabase
+      .from('automation_notifications')
+      .select('id', { count: 'exact', head: true })
+      .eq('user_id', user.id)
+      .is('read_at', null)
+    if (countError) throw countError
+
+    return NextResponse.json({
+      notifications: (data || []) as AutomationNotification[],
+      unreadCount: count || 0,
+    })
+  } catch (error: any) {
+    console.error('Error loading automation notifications:', error)
+    return NextResponse.json(
+      { error: error.message || 'Internal server error' },
+      { status: 500 }
+    )
+  }
+}
+
+export async function POST(request: NextRequest) {
+  try {
+    const {
+      data: { user },
+    } = await supabase.auth.getUser()
+
+    if (!user) {
+      return NextResponse.json({ error: 'Unauthorized' }, { status: 401 })
+    }
+
+    const body = await request.json()
+    const { notificationIds, all } = body
+
+    const hasIds = Array.isArray(notificationIds) && notificationIds.length > 0
+    if (!hasIds && all !== true) {
+      return NextResponse.json(
+        { error: 'notificationIds or all is required' },
+        { status: 400 }
+      )
+    }
+
+    let query = supabase
+      .from('automation_notifications')
+      .update({ read_at: new Date().toISOString() })
+      .eq('user_id', user.id)
+      .is('read_at', null)
+
+    if (hasIds) {
+      query = query.in('id', notificationIds)
+    }
+
+    const { data, error } = await query.select('id')
+    if (error) throw error
+
+    return NextResponse.json({ success: true, marked: data?.length || 0 })
+  } catch (error: any) {
+    console.error('Error marking automation notifications read:', error)
+    return NextResponse.json(
+      { error: error.message || 'Internal server error' },
+      { status: 500 }
+    )
+  }
+}
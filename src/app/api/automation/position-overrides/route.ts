@@ -0,0 +1,190 @@
+/**
+ * Automation Position Overrides API
+ * GET lists the wallet's active positions with their overrides
+ * POST sets the override of one position, DELETE clears it
+ */
+
+import { NextRequest, NextResponse } from 'next/server'
+import { supabase } from '@/lib/supabase'
+import { PositionOverrides } from '@/lib/automation/position-overrides'
+import { PositionFetcher } from '@/lib/automation/position-fetcher'
+import { AutomationConfig } from '@/lib/automation/types'
+
+async function getConfig(userId: string, walletAddress: string): Promise<AutomationConfig | null> {
+  const { data: config, error } = await supabase
+    .from('automation_configs')
+    .select('*')
+    .eq('user_id', userId)
+    .eq('wallet_address', walletAddress)
+    .single()
+
+  if (error || !config) return null
+  return config as AutomationConfig
+}
+
+/**
+ * Optional non-negative number from the request body (null clears the override)
+ */
+function parseOptionalNumber(value: unknown, field: string): number | null {
+  if (value === undefined || value === null || value === '') return null
+  const parsed = Number(value)
+  if (!Number.isFinite(parsed) || parsed < 0) {
+    throw new Error(`${field} must be a non-negative number`)
+  }
+  return parsed
+}
+
+export async function GET(request: NextRequest) {
+  try {
+    const {
+      data: { user },
+    } = await supabase.auth.getUser()
+
+    if (!user) {
+      return NextResponse.json({ error: 'Unauthorized' }, { status: 401 })
+    }
+
+    const { searchParams } = new URL(request.url)
+    const walletAddress = searchParams.get('walletAddress')
+
+    if (!walletAddress) {
+      return NextResponse.json(
+        { error: 'walletAddress is required' },
+        { status: 400 }
+      )
+    }
+
+    const config = await getConfig(user.id, walletAddress)
+    if (!config) {
+      return NextResponse.json(
+        { error: 'Automation config not found' },
+        { status: 404 }
+      )
+    }
+
+    const positions = await new PositionFetcher().getActivePositions(user.id, walletAddress)
+    const overrides = await new PositionOverrides(config).getAll()
+
+    return NextResponse.json({
+      positions: positions.map(position => ({
+        ...position,
+        override: overrides.get(position.position_nft_address) || null
+      })),
+      // Overrides of positions that are no longer active
+      orphanedOverrides: Array.from(overrides.values())
+        .filter(o => !positions.some(p => p.position_nft_address === o.position_nft_address)),
+      defaults: {
+        claim_fee_threshold_usd: config.claim_fee_threshold_usd,
+        rebalance_cooldown_hours: config.rebalance_cooldown_hours
+      }
+    })
+  } catch (error: any) {
+    console.error('Error loading position overrides:', error)
+    return NextResponse.json(
+      { error: error.message || 'Internal server error' },
+      { status: 500 }
+    )
+  }
+}
+
+export async function POST(request: NextRequest) {
+  try {
+    const {
+      data: { user },
+    } = await supabase.auth.getUser()
+
+    if (!user) {
+      return NextResponse.json({ error: 'Unauthorized' }, { status: 401 })
+    }
+
+    const body = await request.json()
+    const { walletAddress, positionNftAddress } = body
+
+    if (!walletAddress || !positionNftAddress) {
+      return NextResponse.json(
+        { error: 'walletAddress and positionNftAddress are required' },
+        { status: 400 }
+      )
+    }
+
+    let claimFeeThresholdUSD: number | null
+    let rebalanceCooldownHours: number | null
+    try {
+      claimFeeThresholdUSD = parseOptionalNumber(body.claimFeeThresholdUSD, 'claimFeeThresholdUSD')
+      rebalanceCooldownHours = parseOptionalNumber(body.rebalanceCooldownHours, 'rebalanceCooldownHours')
+    } catch (error: any) {
+      return NextResponse.json({ error: error.message }, { status: 400 })
+    }
+
+    const config = await getConfig(user.id, walletAddress)
+    if (!config) {
+      return NextResponse.json(
+        { error: 'Automation config not found' },
+        { status: 404 }
+      )
+    }
+
+    const override = await new PositionOverrides(config).upsert(positionNftAddress, {
+      excluded: body.excluded === true,
+      claim_fee_threshold_usd: claimFeeThresholdUSD,
+      rebalance_cooldown_hours: rebalanceCooldownHours !== null ? Math.round(rebalanceCooldownHours) : null,
+      require_approval: body.requireApproval === true
+    })
+
+    return NextResponse.json({ success: true, override })
+  } catch (error: any) {
+    console.error('Error saving position override:', error)
+    return NextResponse.json(
+      { error: error.message || 'Internal server error' },
+      { status: 500 }
+    )
+  }
+}
+
+export async function DELETE(request: NextRequest) {
+  try {
+    const {
+      data: { user },
+    } = await supabase.auth.getUser()
+
+    if (!user) {
+      return NextResponse.json({ error: 'Unauthorized' }, { status: 401 })
+    }
+
+    const { searchParams } = new URL(request.url)
+    const walletAddress = searchParams.get('walletAddress')
+    const positionNftAddress = searchParams.get('positionNftAddress')
+
+    if (!walletAddress || !positionNftAddress) {
+      return NextResponse.json(
+        { error: 'walletAddress and positionNftAddress are required' },
+        { status: 400 }
+      )
+    }
+
+    const config = await getConfig(user.id, walletAddress)
+    if (!config) {
+      return NextResponse.json(
+        { error: 'Automation config not found' },
+        { status: 404 }
+      )
+    }
+
+    const removed = await new PositionOverrides(config).remove(positionNftAddress)
+
+    if (!removed) {
+      return NextResponse.json(
+        { error: 'No override for this position' },
+        { status: 404 }
+      )
+    }
+
+    return NextResponse.json({ success: true })
+  } catch (error: any) {
+    console.error('Error removing position override:', error)
+    return NextResponse.json(
+      { error: error.message || 'Internal server error' },
+      { status: 500 }
+    )
+  }
+}
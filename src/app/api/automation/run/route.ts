@@ -2,6 +2,7 @@
  * Automation Runner API
  * Endpoint to trigger automation cycle
  * Can be called manually or via cron job
+ * Pass dryRun: true to preview actions without writing logs or approvals
  */
 
 import { NextRequest, NextResponse } from 'next/server'
@@ -21,7 +22,7 @@ export async function POST(request: NextRequest) {
     }
 
     const body = await request.json()
-    const { walletAddress } = body
+    const { walletAddress, dryRun } = body
 
     if (!walletAddress) {
       return NextResponse.json(
@@ -47,12 +48,15 @@ export async function POST(request: NextRequest) {
 
     // Create engine and run
     const engine = new AutomationEngine(config as AutomationConfig)
-    const result = await engine.run()
+    const result = await engine.run({ dryRun: dryRun === true })
 
     return NextResponse.json({
       success: result.success,
+      dryRun: result.dryRun,
       actionsExecuted: result.actionsExecuted,
       actionsPendingApproval: result.actionsPendingApproval,
+      plannedActions: result.dryRun ? result.plannedActions : undefined,
+      droppedResults: result.droppedResults,
       errors: result.errors,
       timestamp: new Date().toISOString()
     })
@@ -54,15 +54,15 @@ export async function GET(request: NextRequest) {
                          tx.token_y_symbol === 'USDC' ? parseFloat(tx.token_y_amount || '0') : 0;
       const usd = parseFloat(tx.total_usd || '0');
       
-      if (tx.tx_type === 'position_open') {
+      if (tx.tx_type === 'position_open' || tx.tx_type === 'liquidity_add') {
         totalDeposit += usd;
         depositSOL += solAmount;
         depositUSDC += usdcAmount;
-      } else if (tx.tx_type === 'fee_claim') {
+      } else if (tx.tx_type === 'fee_claim' || tx.tx_type === 'reward_claim') {
         totalFees += usd;
         feeSOL += solAmount;
         feeUSDC += usdcAmount;
-      } else if (tx.tx_type === 'position_close') {
+      } else if (tx.tx_type === 'position_close' || tx.tx_type === 'liquidity_remove') {
         totalWithdraw += usd;
         withdrawSOL += solAmount;
         withdrawUSDC += usdcAmount;
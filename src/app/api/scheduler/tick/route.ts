@@ -0,0 +1,47 @@
+/**
+ * Scheduler Tick API
+ * Runs one scheduler tick: due farming schedules and active automation configs
+ * Intended for cron callers (e.g. Vercel Cron every 5 minutes)
+ */
+
+import { NextRequest, NextResponse } from 'next/server'
+import { AutomationScheduler } from '@/lib/scheduler/scheduler'
+
+// SECURITY: Requires CRON_SECRET, sent as "Authorization: Bearer <secret>"
+function isAuthorized(request: NextRequest): boolean {
+  const secret = process.env.CRON_SECRET
+  if (!secret) {
+    return false
+  }
+  return request.headers.get('authorization') === `Bearer ${secret}`
+}
+
+async function runTick(request: NextRequest) {
+  if (!isAuthorized(request)) {
+    return NextResponse.json({ error: 'Unauthorized' }, { status: 401 })
+  }
+
+  try {
+    const scheduler = new AutomationScheduler()
+    const result = await scheduler.tick()
+
+    return NextResponse.json({
+      success: result.errors.length === 0,
+      ...result
+    })
+  } catch (error) {
+    console.error('Error running scheduler tick:', error)
+    return NextResponse.json(
+      { error: error instanceof Error ? error.message : 'Internal server error' },
+      { status: 500 }
+    )
+  }
+}
+
+export async function GET(request: NextRequest) {
+  return runTick(request)
+}
+
+export async function POST(request: NextRequest) {
+  return runTick(request)
+}
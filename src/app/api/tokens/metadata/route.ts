@@ -0,0 +1,45 @@
+import { NextRequest, NextResponse } from 'next/server'
+import { resolveTokens } from '@/lib/token-registry'
+
+const MAX_MINTS = 50
+
+/**
+ * GET /api/tokens/metadata?mints=xxx,yyy
+ * Symbol, name, decimals and metadata uri of token mints (from the token registry);
+ * logos of tokens outside the seed list are read from the uri by the client
+ */
+export async function GET(request: NextRequest) {
+  try {
+    const { searchParams } = new URL(request.url)
+    const mints = Array.from(new Set(
+      (searchParams.get('mints') || '').split(',').map(mint => mint.trim()).filter(Boolean)
+    ))
+
+    if (mints.length === 0) {
+      return NextResponse.json(
+        { error: 'mints is required' },
+        { status: 400 }
+      )
+    }
+
+    if (mints.length > MAX_MINTS) {
+      return NextResponse.json(
+        { error: `At most ${MAX_MINTS} mints per request` },
+        { status: 400 }
+      )
+    }
+
+    const tokens = await resolveTokens(mints)
+
+    return NextResponse.json({
+      success: true,
+      tokens,
+    })
+  } catch (error: any) {
+    console.error('Error resolving token metadata:', error)
+    return NextResponse.json(
+      { error: error.message || 'Failed to resolve token metadata' },
+      { status: 500 }
+    )
+  }
+}
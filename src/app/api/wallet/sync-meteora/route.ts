@@ -23,6 +23,29 @@ import {
 export const runtime = 'nodejs';
 export const dynamic = 'force-dynamic';
 
+/**
+ * Columns of a position_transactions row that come from parsing the transaction
+ * (amounts and their USD values are always written together, so they describe the same record)
+ */
+function parsedColumns(tx: ParsedMeteoraTransaction) {
+  return {
+    tx_type: tx.type,
+    position_nft_address: tx.positionNftAddress,
+    pool_address: tx.poolAddress,
+    token_x_mint: tx.tokenX?.mint || null,
+    token_y_mint: tx.tokenY?.mint || null,
+    token_x_amount: tx.tokenX?.amount || null,
+    token_y_amount: tx.tokenY?.amount || null,
+    token_x_symbol: tx.tokenX?.symbol || null,
+    token_y_symbol: tx.tokenY?.symbol || null,
+    token_x_usd: tx.tokenX?.valueUSD ?? null,
+    token_y_usd: tx.tokenY?.valueUSD ?? null,
+    total_usd: tx.totalValueUSD,
+    price_source: tx.priceSource,
+    sol_change: tx.solChange,
+  };
+}
+
 export async function POST(request: NextRequest) {
   try {
     // Ensure we always return JSON, even if request parsing fails
@@ -156,73 +179,130 @@ export async function POST(request: NextRequest) {
       walletAddress
     );
 
-    console.log(`Successfully parsed ${parsedTransactions.length} transactions`);
+    console.log(`Successfully parsed ${parsedTransactions.length} position records`);
 
     // Step 5: Store in database
     console.log('Storing transactions in database...');
     const stored: ParsedMeteoraTransaction[] = [];
+    const repriced: ParsedMeteoraTransaction[] = [];
+    const reclassified: ParsedMeteoraTransaction[] = [];
+    // Signatures whose rows were replaced because they predate per-position records
+    const resynced: string[] = [];
     const errors: string[] = [];
 
+    // Records of each transaction (multi-position transactions parse into one record per position)
+    const recordsBySignature = new Map<string, ParsedMeteoraTransaction[]>();
     for (const tx of parsedTransactions) {
+      const records = recordsBySignature.get(tx.signature) || [];
+      records.push(tx);
+      recordsBySignature.set(tx.signature, records);
+    }
+
+    for (const [signature, records] of recordsBySignature) {
       try {
-        // Check if transaction already exists
-        const { data: existing } = await supabase
+        const { data: existingRows, error: selectError } = await supabase
           .from('position_transactions')
-          .select('id')
-          .eq('signature', tx.signature)
-          .single();
+          .select('id, position_index, tx_type, price_source')
+          .eq('signature', signature);
+
+        if (selectError) throw selectError;
+
+        // Rows stored before per-position parsing hold the whole transaction's amounts at position_index 0;
+        // when the stored rows do not line up with the parsed positions, all of them are replaced
+        let rows = existingRows || [];
+        const aligned = rows.length === records.length &&
+          records.every((tx) => rows.some((row) => row.position_index === tx.positionIndex));
 
-        if (existing) {
-          console.log(`Transaction ${tx.signature} already exists, skipping`);
-          continue; // Skip if already stored
+        if (rows.length > 0 && !aligned) {
+          const { error: deleteError } = await supabase
+            .from('position_transactions')
+            .delete()
+            .eq('signature', signature);
+
+          if (deleteError) {
+            errors.push(`${signature}: ${deleteError.message}`);
+            continue;
+          }
+
+          console.log(`Transaction ${signature} stored as ${rows.length} row(s), re-inserting ${records.length}`);
+          rows = [];
+          resynced.push(signature);
         }
 
-        // Insert new transaction
-        const { error: insertError } = await supabase
-          .from('position_transactions')
-          .insert({
-            user_id: user.id,
-            wallet_address: walletAddress,
-            signature: tx.signature,
-            block_time: tx.blockTime,
-            slot: tx.slot,
-            tx_type: tx.type,
-            position_nft_address: tx.positionNftAddress,
-            pool_address: tx.poolAddress,
-            token_x_mint: tx.tokenX?.mint || null,
-            token_y_mint: tx.tokenY?.mint || null,
-            token_x_amount: tx.tokenX?.amount || null,
-            token_y_amount: tx.tokenY?.amount || null,
-            token_x_symbol: tx.tokenX?.symbol || null,
-            token_y_symbol: tx.tokenY?.symbol || null,
-            token_x_usd: tx.tokenX?.valueUSD || null,
-            token_y_usd: tx.tokenY?.valueUSD || null,
-            total_usd: tx.totalValueUSD,
-            sol_change: tx.solChange,
-            status: tx.success ? 'success' : 'failed',
-            error_message: tx.errorMessage,
-            raw_transaction_data: tx.rawTransaction,
-          });
-
-        if (insertError) {
-          console.error(`Error inserting transaction ${tx.signature}:`, insertError);
-          errors.push(`${tx.signature}: ${insertError.message}`);
-        } else {
-          stored.push(tx);
+        for (const tx of records) {
+          const existing = rows.find((row) => row.position_index === tx.positionIndex);
+
+          if (existing) {
+            // Rows stored before block-time pricing, or before adds, partial withdrawals and reward
+            // claims had their own types, are rewritten from the current parse (amounts and type included,
+            // so the USD values match the stored amounts)
+            const reprice = !existing.price_source && !!tx.priceSource;
+            const reclassify = existing.tx_type !== tx.type;
+            if (reprice || reclassify) {
+              const { error: updateError } = await supabase
+                .from('position_transactions')
+                .update({
+                  ...parsedColumns(tx),
+                  updated_at: new Date().toISOString(),
+                })
+                .eq('id', existing.id);
+
+              if (updateError) {
+                errors.push(`${tx.signature}: ${updateError.message}`);
+              } else {
+                if (reprice) repriced.push(tx);
+                if (reclassify) reclassified.push(tx);
+              }
+            }
+            console.log(`Transaction ${tx.signature} (position ${tx.positionIndex}) already exists, skipping`);
+            continue; // Skip if already stored
+          }
+
+          // Insert new transaction
+          const { error: insertError } = await supabase
+            .from('position_transactions')
+            .insert({
+              user_id: user.id,
+              wallet_address: walletAddress,
+              signature: tx.signature,
+              position_index: tx.positionIndex,
+              block_time: tx.blockTime,
+              slot: tx.slot,
+              ...parsedColumns(tx),
+              status: tx.success ? 'success' : 'failed',
+              error_message: tx.errorMessage,
+              raw_transaction_data: tx.rawTransaction,
+            });
+
+          if (insertError) {
+            console.error(`Error inserting transaction ${tx.signature}:`, insertError);
+            errors.push(`${tx.signature}: ${insertError.message}`);
+          } else {
+            stored.push(tx);
+          }
         }
       } catch (error: any) {
-        console.error(`Error processing transaction ${tx.signature}:`, error);
-        errors.push(`${tx.signature}: ${error.message}`);
+        console.error(`Error processing transaction ${signature}:`, error);
+        errors.push(`${signature}: ${error.message}`);
       }
     }
 
     // Step 6: Calculate statistics
     const stats = {
       totalTransactions: actualLimit,
-      meteoraTransactions: parsedTransactions.length,
+      meteoraTransactions: meteoraTransactions.length,
+      positionRecordsParsed: parsedTransactions.length,
       transactionsStored: stored.length,
+      transactionsRepriced: repriced.length,
+      transactionsReclassified: reclassified.length,
+      transactionsResynced: resynced.length,
+      transactionsPriced: stored.filter((tx) => tx.totalValueUSD !== null).length,
       positionsFound: stored.filter((tx) => tx.type === 'position_open').length,
+      liquidityAddsFound: stored.filter((tx) => tx.type === 'liquidity_add').length,
+      liquidityRemovesFound: stored.filter((tx) => tx.type === 'liquidity_remove')
+        .length,
       feeClaimsFound: stored.filter((tx) => tx.type === 'fee_claim').length,
+      rewardClaimsFound: stored.filter((tx) => tx.type === 'reward_claim').length,
       positionsClosedFound: stored.filter((tx) => tx.type === 'position_close')
         .length,
     };
@@ -296,11 +376,14 @@ export async function POST(request: NextRequest) {
       stats,
       transactions: stored.map((tx) => ({
         signature: tx.signature,
+        positionIndex: tx.positionIndex,
+        positionNftAddress: tx.positionNftAddress,
         type: tx.type,
         blockTime: tx.blockTime,
         tokenX: tx.tokenX?.symbol,
         tokenY: tx.tokenY?.symbol,
         solChange: tx.solChange,
+        totalValueUSD: tx.totalValueUSD,
       })),
       errors: errors.length > 0 ? errors : undefined,
     });
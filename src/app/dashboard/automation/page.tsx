@@ -1,18 +1,30 @@
 'use client'
 
-import { useEffect, useState } from 'react'
+import { useCallback, useEffect, useState } from 'react'
 import { useRouter } from 'next/navigation'
 import { supabase } from '@/lib/supabase'
 import { User } from '@supabase/supabase-js'
 import DashboardLayout from '@/components/DashboardLayout'
+import TransactionPreviewPanel, { ApprovalPreview } from '@/components/TransactionPreviewPanel'
 import { useWallet } from '@solana/wallet-adapter-react'
 
 interface AutomationConfig {
   auto_claim_fees: boolean
   claim_fee_threshold_usd: number
   claim_fee_interval_hours: number
+  auto_compound: boolean
+  compound_threshold_usd: number
+  compound_interval_hours: number
+  compound_target_position: string | null
   auto_rebalance: boolean
   rebalance_threshold_percent: number
+  rebalance_volatility_scaling: boolean
+  rebalance_range_volatility_multiple: number
+  auto_close_position: boolean
+  stop_loss_percent: number | null
+  stop_loss_usd: number | null
+  take_profit_percent: number | null
+  take_profit_usd: number | null
   is_active: boolean
 }
 
@@ -24,14 +36,66 @@ interface AutomationLog {
   created_at: string
 }
 
+interface PositionOverride {
+  excluded: boolean
+  claim_fee_threshold_usd: number | null
+  rebalance_cooldown_hours: number | null
+  require_approval: boolean
+}
+
+interface AutomatedPosition {
+  position_nft_address: string
+  token_x_symbol: string
+  token_y_symbol: string
+  total_usd: number
+  unclaimed_fees_usd: number
+  is_out_of_range: boolean
+  override: PositionOverride | null
+}
+
+// Form state per position (numbers kept as text so fields can be left empty)
+interface PositionOverrideDraft {
+  excluded: boolean
+  claimFeeThresholdUSD: string
+  rebalanceCooldownHours: string
+  requireApproval: boolean
+}
+
 interface PendingApproval {
   id: string
   action_type: string
   amount_usd: number
   position_info: any
+  details: { manualAction?: boolean } | null
   created_at: string
+  expires_at: string
+}
+
+interface AutomationNotice {
+  id: string
+  type: 'approval_reminder' | 'approval_expired'
+  title: string
+  message: string
+  read_at: string | null
+  created_at: string
+}
+
+// Display names for automation action types, shared by the approval queue and the activity log
+const ACTION_LABELS: Record<string, string> = {
+  claim_fees: 'Claim Fees',
+  compound: 'Compound Fees',
+  open_position: 'Open Position',
+  close_position: 'Close Position',
+  rebalance: 'Rebalance Position',
 }
 
+const toDraft = (override: PositionOverride | null): PositionOverrideDraft => ({
+  excluded: override?.excluded ?? false,
+  claimFeeThresholdUSD: override?.claim_fee_threshold_usd?.toString() ?? '',
+  rebalanceCooldownHours: override?.rebalance_cooldown_hours?.toString() ?? '',
+  requireApproval: override?.require_approval ?? false,
+})
+
 export default function AutomationPage() {
   const [user, setUser] = useState<User | null>(null)
   const [loading, setLoading] = useState(true)
@@ -39,14 +103,34 @@ export default function AutomationPage() {
     auto_claim_fees: true,
     claim_fee_threshold_usd: 5.00,
     claim_fee_interval_hours: 24,
+    auto_compound: false,
+    compound_threshold_usd: 10.00,
+    compound_interval_hours: 24,
+    compound_target_position: null,
     auto_rebalance: true,
     rebalance_threshold_percent: 20,
+    rebalance_volatility_scaling: true,
+    rebalance_range_volatility_multiple: 2,
+    auto_close_position: false,
+    stop_loss_percent: null,
+    stop_loss_usd: null,
+    take_profit_percent: null,
+    take_profit_usd: null,
     is_active: true,
   })
   const [logs, setLogs] = useState<AutomationLog[]>([])
   const [pendingApprovals, setPendingApprovals] = useState<PendingApproval[]>([])
   const [saving, setSaving] = useState(false)
-  const [activeTab, setActiveTab] = useState<'settings' | 'approvals' | 'logs'>('settings')
+  const [activeTab, setActiveTab] = useState<'settings' | 'positions' | 'approvals' | 'logs'>('settings')
+  const [positions, setPositions] = useState<AutomatedPosition[]>([])
+  const [overrideDrafts, setOverrideDrafts] = useState<Record<string, PositionOverrideDraft>>({})
+  const [overrideDefaults, setOverrideDefaults] = useState({ claim_fee_threshold_usd: 5, rebalance_cooldown_hours: 6 })
+  const [loadingPositions, setLoadingPositions] = useState(false)
+  const [savingOverride, setSavingOverride] = useState<string | null>(null)
+  const [approvalPreviews, setApprovalPreviews] = useState<Record<string, ApprovalPreview>>({})
+  const [loadingPreview, setLoadingPreview] = useState<string | null>(null)
+  const [deciding, setDeciding] = useState<string | null>(null)
+  const [notices, setNotices] = useState<AutomationNotice[]>([])
   const router = useRouter()
   const { publicKey, connected } = useWallet()
 
@@ -68,9 +152,37 @@ export default function AutomationPage() {
       loadAutomationConfig()
       loadAutomationLogs()
       loadPendingApprovals()
+      loadNotices()
     }
   }, [user, connected, publicKey])
 
+  const loadPositionOverrides = useCallback(async () => {
+    if (!publicKey) return
+    setLoadingPositions(true)
+
+    try {
+      const response = await fetch(`/api/automation/position-overrides?walletAddress=${publicKey.toBase58()}`)
+      const data = await response.json()
+      if (!response.ok) throw new Error(data.error)
+
+      setPositions(data.positions)
+      setOverrideDefaults(data.defaults)
+      setOverrideDrafts(Object.fromEntries(
+        data.positions.map((p: AutomatedPosition) => [p.position_nft_address, toDraft(p.override)])
+      ))
+    } catch (error) {
+      console.error('Error loading position overrides:', error)
+    } finally {
+      setLoadingPositions(false)
+    }
+  }, [publicKey])
+
+  useEffect(() => {
+    if (activeTab === 'positions' && user && connected && publicKey) {
+      loadPositionOverrides()
+    }
+  }, [activeTab, user, connected, publicKey, loadPositionOverrides])
+
   const loadAutomationConfig = async () => {
     if (!user || !publicKey) return
     
@@ -87,8 +199,19 @@ export default function AutomationPage() {
           auto_claim_fees: data.auto_claim_fees,
           claim_fee_threshold_usd: data.claim_fee_threshold_usd,
           claim_fee_interval_hours: data.claim_fee_interval_hours,
+          auto_compound: data.auto_compound ?? false,
+          compound_threshold_usd: data.compound_threshold_usd ?? 10,
+          compound_interval_hours: data.compound_interval_hours ?? 24,
+          compound_target_position: data.compound_target_position ?? null,
           auto_rebalance: data.auto_rebalance,
           rebalance_threshold_percent: data.rebalance_threshold_percent,
+          rebalance_volatility_scaling: data.rebalance_volatility_scaling ?? true,
+          rebalance_range_volatility_multiple: data.rebalance_range_volatility_multiple ?? 2,
+          auto_close_position: data.auto_close_position ?? false,
+          stop_loss_percent: data.stop_loss_percent ?? null,
+          stop_loss_usd: data.stop_loss_usd ?? null,
+          take_profit_percent: data.take_profit_percent ?? null,
+          take_profit_usd: data.take_profit_usd ?? null,
           is_active: data.is_active,
         })
       }
@@ -137,6 +260,154 @@ export default function AutomationPage() {
     }
   }
 
+  // Unread approval reminders and expiry notices from the scheduler
+  const loadNotices = async () => {
+    try {
+      const response = await fetch('/api/automation/notifications?unreadOnly=true')
+      const data = await response.json()
+      if (!response.ok) throw new Error(data.error)
+
+      setNotices(data.notifications)
+    } catch (error) {
+      console.error('Error loading automation notifications:', error)
+    }
+  }
+
+  const markNoticesRead = async (notificationIds?: string[]) => {
+    try {
+      const response = await fetch('/api/automation/notifications', {
+        method: 'POST',
+        headers: { 'Content-Type': 'application/json' },
+        body: JSON.stringify(notificationIds ? { notificationIds } : { all: true }),
+      })
+      if (!response.ok) {
+        const data = await response.json()
+        throw new Error(data.error)
+      }
+
+      setNotices(notificationIds ? notices.filter(n => !notificationIds.includes(n.id)) : [])
+    } catch (error: any) {
+      console.error('Error marking notifications read:', error)
+      alert(`Failed to dismiss notifications: ${error.message}`)
+    }
+  }
+
+  const loadApprovalPreview = async (approvalId: string) => {
+    setLoadingPreview(approvalId)
+
+    try {
+      const response = await fetch(`/api/automation/approve?approvalId=${approvalId}`)
+      const data = await response.json()
+      if (!response.ok) throw new Error(data.error)
+
+      setApprovalPreviews({ ...approvalPreviews, [approvalId]: data })
+    } catch (error: any) {
+      console.error('Error loading transaction preview:', error)
+      alert(`Failed to load transaction preview: ${error.message}`)
+    } finally {
+      setLoadingPreview(null)
+    }
+  }
+
+  // Approving sends the hash of the live preview on screen; the server refuses it if the transaction has changed
+  const decideApproval = async (approvalId: string, action: 'approve' | 'reject') => {
+    const shown = approvalPreviews[approvalId]
+    const messageHash = shown?.live ? shown.preview?.messageHash : undefined
+    if (action === 'approve' && !messageHash) {
+      alert('Preview the transaction before approving it')
+      return
+    }
+
+    setDeciding(approvalId)
+
+    try {
+      const response = await fetch('/api/automation/approve', {
+        method: 'POST',
+        headers: { 'Content-Type': 'application/json' },
+        body: JSON.stringify({ approvalId, action, messageHash }),
+      })
+      const data = await response.json()
+      if (!response.ok) {
+        // The transaction changed since it was previewed: show the new one before asking again
+        if (data.errorCode === 'preview_mismatch') await loadApprovalPreview(approvalId)
+        throw new Error(data.error)
+      }
+
+      setPendingApprovals(pendingApprovals.filter(a => a.id !== approvalId))
+      loadAutomationLogs()
+    } catch (error: any) {
+      console.error(`Error ${action === 'approve' ? 'approving' : 'rejecting'} action:`, error)
+      alert(`Failed to ${action} action: ${error.message}`)
+    } finally {
+      setDeciding(null)
+    }
+  }
+
+  const updateOverrideDraft = (positionNftAddress: string, changes: Partial<PositionOverrideDraft>) => {
+    setOverrideDrafts({
+      ...overrideDrafts,
+      [positionNftAddress]: { ...overrideDrafts[positionNftAddress], ...changes },
+    })
+  }
+
+  const savePositionOverride = async (positionNftAddress: string) => {
+    if (!publicKey) return
+    const draft = overrideDrafts[positionNftAddress]
+    setSavingOverride(positionNftAddress)
+
+    try {
+      const response = await fetch('/api/automation/position-overrides', {
+        method: 'POST',
+        headers: { 'Content-Type': 'application/json' },
+        body: JSON.stringify({
+          walletAddress: publicKey.toBase58(),
+          positionNftAddress,
+          excluded: draft.excluded,
+          claimFeeThresholdUSD: draft.claimFeeThresholdUSD,
+          rebalanceCooldownHours: draft.rebalanceCooldownHours,
+          requireApproval: draft.requireApproval,
+        }),
+      })
+      const data = await response.json()
+      if (!response.ok) throw new Error(data.error)
+
+      setPositions(positions.map(p =>
+        p.position_nft_address === positionNftAddress ? { ...p, override: data.override } : p
+      ))
+    } catch (error: any) {
+      console.error('Error saving position override:', error)
+      alert(`Failed to save override: ${error.message}`)
+    } finally {
+      setSavingOverride(null)
+    }
+  }
+
+  const resetPositionOverride = async (positionNftAddress: string) => {
+    if (!publicKey) return
+    setSavingOverride(positionNftAddress)
+
+    try {
+      const response = await fetch(
+        `/api/automation/position-overrides?walletAddress=${publicKey.toBase58()}&positionNftAddress=${positionNftAddress}`,
+        { method: 'DELETE' }
+      )
+      if (!response.ok) {
+        const data = await response.json()
+        throw new Error(data.error)
+      }
+
+      setPositions(positions.map(p =>
+        p.position_nft_address === positionNftAddress ? { ...p, override: null } : p
+      ))
+      updateOverrideDraft(positionNftAddress, toDraft(null))
+    } catch (error: any) {
+      console.error('Error resetting position override:', error)
+      alert(`Failed to reset override: ${error.message}`)
+    } finally {
+      setSavingOverride(null)
+    }
+  }
+
   const saveConfig = async () => {
     if (!user || !publicKey) return
     setSaving(true)
@@ -245,10 +516,58 @@ export default function AutomationPage() {
           </div>
         )}
 
+        {/* Notifications */}
+        {notices.length > 0 && (
+          <div className="bg-slate-800/30 rounded-2xl border border-violet-500/30 p-4">
+            <div className="flex items-center justify-between mb-3">
+              <h3 className="text-white font-semibold">🔔 Notifications ({notices.length})</h3>
+              <button
+                onClick={() => markNoticesRead()}
+                className="text-sm text-slate-400 hover:text-white transition-colors"
+              >
+                Mark all read
+              </button>
+            </div>
+            <div className="space-y-2">
+              {notices.map((notice) => (
+                <div
+                  key={notice.id}
+                  className="flex items-start justify-between gap-4 bg-slate-900/50 rounded-xl px-4 py-3"
+                >
+                  <div>
+                    <p className={`text-sm font-medium ${notice.type === 'approval_expired' ? 'text-amber-400' : 'text-cyan-400'}`}>
+                      {notice.title}
+                    </p>
+                    <p className="text-slate-400 text-sm">{notice.message}</p>
+                    <p className="text-slate-500 text-xs mt-1">{new Date(notice.created_at).toLocaleString()}</p>
+                  </div>
+                  <div className="flex items-center gap-3 shrink-0">
+                    {notice.type === 'approval_reminder' && (
+                      <button
+                        onClick={() => setActiveTab('approvals')}
+                        className="text-sm text-cyan-400 hover:text-cyan-300 transition-colors"
+                      >
+                        Review
+                      </button>
+                    )}
+                    <button
+                      onClick={() => markNoticesRead([notice.id])}
+                      className="text-sm text-slate-400 hover:text-white transition-colors"
+                    >
+                      Dismiss
+                    </button>
+                  </div>
+                </div>
+              ))}
+            </div>
+          </div>
+        )}
+
         {/* Tabs */}
         <div className="flex items-center gap-2 p-1 bg-slate-800/30 rounded-xl border border-slate-700/50 w-fit">
           {[
             { key: 'settings', label: '⚙️ Settings' },
+            { key: 'positions', label: '📍 Positions' },
             { key: 'approvals', label: `📋 Approvals ${pendingApprovals.length > 0 ? `(${pendingApprovals.length})` : ''}` },
             { key: 'logs', label: '📜 Execution Log' },
           ].map((tab) => (
@@ -320,6 +639,72 @@ export default function AutomationPage() {
               )}
             </div>
 
+            {/* Auto-Compound */}
+            <div className="bg-slate-800/30 rounded-2xl border border-slate-700/50 p-6">
+              <div className="flex items-start justify-between mb-4">
+                <div className="flex items-center gap-3">
+                  <span className="text-2xl">🔁</span>
+                  <div>
+                    <h3 className="text-lg font-semibold text-white">Auto-Compound</h3>
+                    <p className="text-slate-400 text-sm">Claim fees and add them back as liquidity (replaces auto-claim for that position)</p>
+                  </div>
+                </div>
+                <button
+                  onClick={() => setConfig({ ...config, auto_compound: !config.auto_compound })}
+                  className={`relative w-12 h-6 rounded-full transition-colors ${
+                    config.auto_compound ? 'bg-cyan-500' : 'bg-slate-700'
+                  }`}
+                >
+                  <span
+                    className={`absolute top-1 left-1 w-4 h-4 rounded-full bg-white transition-transform ${
+                      config.auto_compound ? 'translate-x-6' : ''
+                    }`}
+                  />
+                </button>
+              </div>
+              
+              {config.auto_compound && (
+                <div className="mt-4 pt-4 border-t border-slate-700/50 space-y-4">
+                  <div className="grid grid-cols-2 gap-4">
+                    <div>
+                      <label className="text-slate-400 text-sm mb-2 block">Minimum Threshold (USD)</label>
+                      <input
+                        type="number"
+                        value={config.compound_threshold_usd}
+                        onChange={(e) => setConfig({ ...config, compound_threshold_usd: parseFloat(e.target.value) || 0 })}
+                        className="w-full bg-slate-900/50 border border-slate-700/50 rounded-xl px-4 py-2.5 text-white focus:outline-none focus:border-cyan-500/50"
+                        min="0"
+                        step="0.5"
+                      />
+                    </div>
+                    <div>
+                      <label className="text-slate-400 text-sm mb-2 block">Cooldown (hours)</label>
+                      <input
+                        type="number"
+                        value={config.compound_interval_hours}
+                        onChange={(e) => setConfig({ ...config, compound_interval_hours: parseInt(e.target.value) || 24 })}
+                        className="w-full bg-slate-900/50 border border-slate-700/50 rounded-xl px-4 py-2.5 text-white focus:outline-none focus:border-cyan-500/50"
+                        min="1"
+                      />
+                    </div>
+                  </div>
+                  <div>
+                    <label className="text-slate-400 text-sm mb-2 block">Target Position (optional)</label>
+                    <input
+                      type="text"
+                      value={config.compound_target_position ?? ''}
+                      onChange={(e) => setConfig({ ...config, compound_target_position: e.target.value.trim() || null })}
+                      placeholder="Position NFT address"
+                      className="w-full bg-slate-900/50 border border-slate-700/50 rounded-xl px-4 py-2.5 text-white font-mono text-sm focus:outline-none focus:border-cyan-500/50"
+                    />
+                    <p className="text-slate-500 text-xs mt-2">
+                      Leave empty to compound fees back into the position they were earned in
+                    </p>
+                  </div>
+                </div>
+              )}
+            </div>
+
             {/* Auto-Rebalance */}
             <div className="bg-slate-800/30 rounded-2xl border border-slate-700/50 p-6">
               <div className="flex items-start justify-between mb-4">
@@ -327,7 +712,7 @@ export default function AutomationPage() {
                   <span className="text-2xl">⚖️</span>
                   <div>
                     <h3 className="text-lg font-semibold text-white">Auto-Rebalance</h3>
-                    <p className="text-slate-400 text-sm">Rebalance positions when they go out of range</p>
+                    <p className="text-slate-400 text-sm">Rebalance positions before they drift out of range</p>
                   </div>
                 </div>
                 <button
@@ -345,18 +730,107 @@ export default function AutomationPage() {
               </div>
               
               {config.auto_rebalance && (
-                <div className="mt-4 pt-4 border-t border-slate-700/50">
-                  <label className="text-slate-400 text-sm mb-2 block">Threshold (%)</label>
-                  <input
-                    type="number"
-                    value={config.rebalance_threshold_percent}
-                    onChange={(e) => setConfig({ ...config, rebalance_threshold_percent: parseFloat(e.target.value) || 20 })}
-                    className="w-full max-w-xs bg-slate-900/50 border border-slate-700/50 rounded-xl px-4 py-2.5 text-white focus:outline-none focus:border-cyan-500/50"
-                    min="5"
-                    max="100"
+                <div className="mt-4 pt-4 border-t border-slate-700/50 space-y-4">
+                  <div className="grid grid-cols-2 gap-4">
+                    <div>
+                      <label className="text-slate-400 text-sm mb-2 block">Edge Threshold (%)</label>
+                      <input
+                        type="number"
+                        value={config.rebalance_threshold_percent}
+                        onChange={(e) => setConfig({ ...config, rebalance_threshold_percent: parseFloat(e.target.value) || 20 })}
+                        className="w-full bg-slate-900/50 border border-slate-700/50 rounded-xl px-4 py-2.5 text-white focus:outline-none focus:border-cyan-500/50"
+                        min="0"
+                        max="50"
+                      />
+                    </div>
+                    <div>
+                      <label className="text-slate-400 text-sm mb-2 block">New Range (daily moves)</label>
+                      <input
+                        type="number"
+                        value={config.rebalance_range_volatility_multiple}
+                        onChange={(e) => setConfig({ ...config, rebalance_range_volatility_multiple: parseFloat(e.target.value) || 2 })}
+                        className="w-full bg-slate-900/50 border border-slate-700/50 rounded-xl px-4 py-2.5 text-white focus:outline-none focus:border-cyan-500/50"
+                        min="0.5"
+                        step="0.5"
+                      />
+                    </div>
+                  </div>
+                  <div className="flex items-center justify-between">
+                    <div>
+                      <p className="text-white text-sm">Scale threshold by volatility</p>
+                      <p className="text-slate-500 text-xs">Rebalance earlier on volatile pairs, later on calm ones</p>
+                    </div>
+                    <button
+                      onClick={() => setConfig({ ...config, rebalance_volatility_scaling: !config.rebalance_volatility_scaling })}
+                      className={`relative w-12 h-6 rounded-full transition-colors ${
+                        config.rebalance_volatility_scaling ? 'bg-cyan-500' : 'bg-slate-700'
+                      }`}
+                    >
+                      <span
+                        className={`absolute top-1 left-1 w-4 h-4 rounded-full bg-white transition-transform ${
+                          config.rebalance_volatility_scaling ? 'translate-x-6' : ''
+                        }`}
+                      />
+                    </button>
+                  </div>
+                  <p className="text-slate-500 text-xs">
+                    Rebalance when the active bin is within {config.rebalance_threshold_percent}% of the range width from an edge.
+                    The new range covers {config.rebalance_range_volatility_multiple}× the daily price move either side.
+                  </p>
+                </div>
+              )}
+            </div>
+
+            {/* Stop-Loss / Take-Profit */}
+            <div className="bg-slate-800/30 rounded-2xl border border-slate-700/50 p-6">
+              <div className="flex items-start justify-between mb-4">
+                <div className="flex items-center gap-3">
+                  <span className="text-2xl">🛑</span>
+                  <div>
+                    <h3 className="text-lg font-semibold text-white">Stop-Loss / Take-Profit</h3>
+                    <p className="text-slate-400 text-sm">Close positions when PnL crosses a limit (vs. cost basis)</p>
+                  </div>
+                </div>
+                <button
+                  onClick={() => setConfig({ ...config, auto_close_position: !config.auto_close_position })}
+                  className={`relative w-12 h-6 rounded-full transition-colors ${
+                    config.auto_close_position ? 'bg-cyan-500' : 'bg-slate-700'
+                  }`}
+                >
+                  <span
+                    className={`absolute top-1 left-1 w-4 h-4 rounded-full bg-white transition-transform ${
+                      config.auto_close_position ? 'translate-x-6' : ''
+                    }`}
                   />
-                  <p className="text-slate-500 text-xs mt-2">
-                    Rebalance when position is more than {config.rebalance_threshold_percent}% out of range
+                </button>
+              </div>
+
+              {config.auto_close_position && (
+                <div className="grid grid-cols-2 gap-4 mt-4 pt-4 border-t border-slate-700/50">
+                  {([
+                    { key: 'stop_loss_percent', label: 'Stop-Loss (%)', step: '0.5' },
+                    { key: 'stop_loss_usd', label: 'Stop-Loss (USD)', step: '1' },
+                    { key: 'take_profit_percent', label: 'Take-Profit (%)', step: '0.5' },
+                    { key: 'take_profit_usd', label: 'Take-Profit (USD)', step: '1' },
+                  ] as const).map((field) => (
+                    <div key={field.key}>
+                      <label className="text-slate-400 text-sm mb-2 block">{field.label}</label>
+                      <input
+                        type="number"
+                        value={config[field.key] ?? ''}
+                        onChange={(e) => setConfig({
+                          ...config,
+                          [field.key]: e.target.value === '' ? null : parseFloat(e.target.value),
+                        })}
+                        placeholder="Disabled"
+                        className="w-full bg-slate-900/50 border border-slate-700/50 rounded-xl px-4 py-2.5 text-white focus:outline-none focus:border-cyan-500/50"
+                        min="0"
+                        step={field.step}
+                      />
+                    </div>
+                  ))}
+                  <p className="col-span-2 text-slate-500 text-xs">
+                    Leave a field empty to disable it. Losses are entered as positive numbers.
                   </p>
                 </div>
               )}
@@ -373,6 +847,131 @@ export default function AutomationPage() {
           </div>
         )}
 
+        {/* Positions Tab */}
+        {activeTab === 'positions' && (
+          <div className="space-y-4">
+            {loadingPositions ? (
+              <div className="flex items-center justify-center h-32">
+                <div className="animate-spin rounded-full h-8 w-8 border-2 border-cyan-500 border-t-transparent"></div>
+              </div>
+            ) : positions.length > 0 ? (
+              positions.map((position) => {
+                const draft = overrideDrafts[position.position_nft_address] || toDraft(position.override)
+                const busy = savingOverride === position.position_nft_address
+
+                return (
+                  <div
+                    key={position.position_nft_address}
+                    className={`bg-slate-800/30 rounded-2xl border p-6 ${
+                      draft.excluded ? 'border-slate-700/30 opacity-70' : 'border-slate-700/50'
+                    }`}
+                  >
+                    <div className="flex items-start justify-between mb-4">
+                      <div>
+                        <h3 className="text-white font-semibold">
+                          {position.token_x_symbol}-{position.token_y_symbol}
+                          {position.override && (
+                            <span className="ml-2 px-2 py-0.5 rounded-full text-xs bg-violet-500/20 text-violet-300">Custom</span>
+                          )}
+                        </h3>
+                        <p className="text-slate-500 text-xs font-mono mt-1">{position.position_nft_address}</p>
+                        <p className="text-slate-400 text-sm mt-1">
+                          ${position.total_usd.toFixed(2)} · Fees ${position.unclaimed_fees_usd.toFixed(2)}
+                          {position.is_out_of_range && <span className="text-amber-400"> · Out of range</span>}
+                        </p>
+                      </div>
+                      <div className="flex items-center gap-3">
+                        <span className="text-slate-400 text-sm">Exclude</span>
+                        <button
+                          onClick={() => updateOverrideDraft(position.position_nft_address, { excluded: !draft.excluded })}
+                          className={`relative w-12 h-6 rounded-full transition-colors ${
+                            draft.excluded ? 'bg-red-500' : 'bg-slate-700'
+                          }`}
+                        >
+                          <span
+                            className={`absolute top-1 left-1 w-4 h-4 rounded-full bg-white transition-transform ${
+                              draft.excluded ? 'translate-x-6' : ''
+                            }`}
+                          />
+                        </button>
+                      </div>
+                    </div>
+
+                    <div className="grid grid-cols-3 gap-4 pt-4 border-t border-slate-700/50">
+                      <div>
+                        <label className="text-slate-400 text-sm mb-2 block">Claim Threshold (USD)</label>
+                        <input
+                          type="number"
+                          value={draft.claimFeeThresholdUSD}
+                          onChange={(e) => updateOverrideDraft(position.position_nft_address, { claimFeeThresholdUSD: e.target.value })}
+                          placeholder={`Default ${overrideDefaults.claim_fee_threshold_usd}`}
+                          disabled={draft.excluded}
+                          className="w-full bg-slate-900/50 border border-slate-700/50 rounded-xl px-4 py-2.5 text-white focus:outline-none focus:border-cyan-500/50 disabled:opacity-50"
+                          min="0"
+                          step="0.5"
+                        />
+                      </div>
+                      <div>
+                        <label className="text-slate-400 text-sm mb-2 block">Rebalance Cooldown (hours)</label>
+                        <input
+                          type="number"
+                          value={draft.rebalanceCooldownHours}
+                          onChange={(e) => updateOverrideDraft(position.position_nft_address, { rebalanceCooldownHours: e.target.value })}
+                          placeholder={`Default ${overrideDefaults.rebalance_cooldown_hours}`}
+                          disabled={draft.excluded}
+                          className="w-full bg-slate-900/50 border border-slate-700/50 rounded-xl px-4 py-2.5 text-white focus:outline-none focus:border-cyan-500/50 disabled:opacity-50"
+                          min="0"
+                        />
+                      </div>
+                      <div>
+                        <label className="text-slate-400 text-sm mb-2 block">Approve Everything</label>
+                        <button
+                          onClick={() => updateOverrideDraft(position.position_nft_address, { requireApproval: !draft.requireApproval })}
+                          disabled={draft.excluded}
+                          className={`relative w-12 h-6 mt-2 rounded-full transition-colors disabled:opacity-50 ${
+                            draft.requireApproval ? 'bg-cyan-500' : 'bg-slate-700'
+                          }`}
+                        >
+                          <span
+                            className={`absolute top-1 left-1 w-4 h-4 rounded-full bg-white transition-transform ${
+                              draft.requireApproval ? 'translate-x-6' : ''
+                            }`}
+                          />
+                        </button>
+                      </div>
+                    </div>
+
+                    <div className="flex items-center justify-end gap-2 mt-4">
+                      {position.override && (
+                        <button
+                          onClick={() => resetPositionOverride(position.position_nft_address)}
+                          disabled={busy}
+                          className="px-4 py-2 bg-slate-700/50 hover:bg-slate-700 text-slate-300 rounded-xl text-sm transition-colors disabled:opacity-50"
+                        >
+                          Use Defaults
+                        </button>
+                      )}
+                      <button
+                        onClick={() => savePositionOverride(position.position_nft_address)}
+                        disabled={busy}
+                        className="px-4 py-2 bg-gradient-to-r from-cyan-500 to-violet-500 text-white rounded-xl text-sm font-semibold hover:opacity-90 transition-opacity disabled:opacity-50"
+                      >
+                        {busy ? 'Saving...' : 'Save'}
+                      </button>
+                    </div>
+                  </div>
+                )
+              })
+            ) : (
+              <div className="bg-slate-800/30 rounded-2xl border border-slate-700/50 p-12 text-center">
+                <span className="text-4xl mb-4 block">📭</span>
+                <p className="text-white font-semibold mb-1">No Active Positions</p>
+                <p className="text-slate-400 text-sm">Positions tracked for this wallet will appear here</p>
+              </div>
+            )}
+          </div>
+        )}
+
         {/* Approvals Tab */}
         {activeTab === 'approvals' && (
           <div className="space-y-4">
@@ -384,25 +983,50 @@ export default function AutomationPage() {
                       <span className="text-2xl">⏳</span>
                       <div>
                         <h3 className="text-white font-semibold">
-                          {approval.action_type === 'fee_claim' ? 'Claim Fees' : 'Rebalance Position'}
+                          {ACTION_LABELS[approval.action_type] ?? approval.action_type}
                         </h3>
+                        {approval.details?.manualAction && (
+                          <p className="text-amber-400 text-xs mt-1">
+                            Cannot be executed automatically yet: close this position manually, then reject the request
+                          </p>
+                        )}
                         <p className="text-slate-400 text-sm">
                           Amount: ${approval.amount_usd?.toFixed(2) || '0.00'}
                         </p>
                         <p className="text-slate-500 text-xs mt-1">
-                          {new Date(approval.created_at).toLocaleString()}
+                          {new Date(approval.created_at).toLocaleString()} · expires {new Date(approval.expires_at).toLocaleString()}
                         </p>
                       </div>
                     </div>
                     <div className="flex items-center gap-2">
-                      <button className="px-4 py-2 bg-slate-700/50 hover:bg-slate-700 text-slate-300 rounded-xl text-sm transition-colors">
+                      <button
+                        onClick={() => loadApprovalPreview(approval.id)}
+                        disabled={loadingPreview === approval.id}
+                        className="px-4 py-2 bg-slate-700/50 hover:bg-slate-700 text-slate-300 rounded-xl text-sm transition-colors disabled:opacity-50"
+                      >
+                        {loadingPreview === approval.id ? 'Decoding...' : approvalPreviews[approval.id] ? 'Refresh Preview' : 'Preview Transaction'}
+                      </button>
+                      <button
+                        onClick={() => decideApproval(approval.id, 'reject')}
+                        disabled={deciding === approval.id}
+                        className="px-4 py-2 bg-slate-700/50 hover:bg-slate-700 text-slate-300 rounded-xl text-sm transition-colors disabled:opacity-50"
+                      >
                         Reject
                       </button>
-                      <button className="px-4 py-2 bg-gradient-to-r from-cyan-500 to-emerald-500 text-white rounded-xl text-sm font-semibold hover:opacity-90 transition-opacity">
+                      <button
+                        onClick={() => decideApproval(approval.id, 'approve')}
+                        disabled={deciding === approval.id || !approvalPreviews[approval.id]?.live || !approvalPreviews[approval.id]?.preview}
+                        title={approvalPreviews[approval.id]?.live ? undefined : 'Preview the transaction before approving'}
+                        className="px-4 py-2 bg-gradient-to-r from-cyan-500 to-emerald-500 text-white rounded-xl text-sm font-semibold hover:opacity-90 transition-opacity disabled:opacity-50"
+                      >
                         Approve & Sign
                       </button>
                     </div>
                   </div>
+
+                  {approvalPreviews[approval.id] && (
+                    <TransactionPreviewPanel result={approvalPreviews[approval.id]} />
+                  )}
                 </div>
               ))
             ) : (
@@ -431,8 +1055,7 @@ export default function AutomationPage() {
                         </span>
                         <div>
                           <p className="text-white font-medium">
-                            {log.action_type === 'fee_claim' ? 'Fee Claim' :
-                             log.action_type === 'rebalance' ? 'Rebalance' : log.action_type}
+                            {ACTION_LABELS[log.action_type] ?? log.action_type}
                           </p>
                           <p className="text-slate-500 text-xs">
                             {new Date(log.created_at).toLocaleString()}
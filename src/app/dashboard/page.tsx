@@ -10,6 +10,7 @@ import { PublicKey, ParsedAccountData } from '@solana/web3.js'
 import Link from 'next/link'
 import AirdropQuest from '@/components/AirdropQuest'
 import { checkSanctumLST, getSanctumLSTBalance } from '@/lib/jupiter-api'
+import { fetchSolPriceUSD, FALLBACK_SOL_PRICE_USD } from '@/lib/sol-price'
 
 const USDC_MINT = 'EPjFWdd5AufqSSqeM2qN1xzybapC8G4wEGGkZwyTDt1v'
 
@@ -61,7 +62,7 @@ export default function HomePage() {
   })
   const [showPnLInSOL, setShowPnLInSOL] = useState(false)
   const [initialInvestmentSOL, setInitialInvestmentSOL] = useState(5) // User's starting SOL amount
-  const [solPriceUSD, setSolPriceUSD] = useState(190)
+  const [solPriceUSD, setSolPriceUSD] = useState(FALLBACK_SOL_PRICE_USD)
   const [recentActivity, setRecentActivity] = useState<RecentActivity[]>([])
   const [allTransactions, setAllTransactions] = useState<any[]>([])
   const [loadingStats, setLoadingStats] = useState(false)
@@ -93,15 +94,10 @@ export default function HomePage() {
   }, [connected, publicKey, connection, user, solPriceUSD])
 
   const fetchSolPrice = async () => {
-    try {
-      const response = await fetch('https://api.coingecko.com/api/v3/simple/price?ids=solana&vs_currencies=usd')
-      if (response.ok) {
-        const data = await response.json()
-        if (data.solana?.usd) {
-          setSolPriceUSD(data.solana.usd)
-        }
-      }
-    } catch (error) {
+    const price = await fetchSolPriceUSD()
+    if (price) {
+      setSolPriceUSD(price)
+    } else {
       console.warn('Failed to fetch SOL price, using fallback')
     }
   }
@@ -206,15 +202,21 @@ export default function HomePage() {
       // Calculate P&L
       const opens = transactions?.filter(tx => tx.tx_type === 'position_open') || []
       const closes = transactions?.filter(tx => tx.tx_type === 'position_close') || []
-      const fees = transactions?.filter(tx => tx.tx_type === 'fee_claim') || []
+      const adds = transactions?.filter(tx => tx.tx_type === 'liquidity_add') || []
+      const removes = transactions?.filter(tx => tx.tx_type === 'liquidity_remove') || []
+      const fees = transactions?.filter(tx => tx.tx_type === 'fee_claim' || tx.tx_type === 'reward_claim') || []
+      // Adds and partial removals move capital in and out of positions that stay open
+      const deposits = [...opens, ...adds]
+      const withdrawals = [...closes, ...removes]
 
       // NOTE:
-      // - `total_usd` stored for Meteora txs can be inaccurate (older parser used a fixed SOL price).
-      // - Prefer recomputing USD from token amounts + current SOL price to avoid portfolio mismatches
-      //   against Phantom/Jupiter holdings when positions are closed.
+      // - Rows with a `price_source` were valued with token prices at block time; use their `total_usd`.
+      // - Older rows' `total_usd` is inaccurate (the parser used a fixed SOL price), so recompute those
+      //   from token amounts + current SOL price.
       const SOL_MINT = 'So11111111111111111111111111111111111111112'
       const getTxUsd = (tx: any): number => {
         const abs = (n: number) => Math.abs(Number.isFinite(n) ? n : 0)
+        if (tx.price_source && tx.total_usd != null) return abs(parseFloat(tx.total_usd) || 0)
         let usd = 0
 
         const xMint = tx.token_x_mint as string | null | undefined
@@ -235,8 +237,8 @@ export default function HomePage() {
         return usd
       }
 
-      const totalInvested = opens.reduce((sum, tx) => sum + getTxUsd(tx), 0)
-      const totalWithdrawn = closes.reduce((sum, tx) => sum + getTxUsd(tx), 0)
+      const totalInvested = deposits.reduce((sum, tx) => sum + getTxUsd(tx), 0)
+      const totalWithdrawn = withdrawals.reduce((sum, tx) => sum + getTxUsd(tx), 0)
       const totalFees = fees.reduce((sum, tx) => sum + getTxUsd(tx), 0)
 
       // Match opens to closes by position_nft_address
@@ -339,13 +341,13 @@ export default function HomePage() {
             const netPositions = openCount - closeCount
             
             if (netPositions > 0) {
-              const deposits = opens
+              const deposited = deposits
                 .filter(tx => tx.position_nft_address === nft)
                 .reduce((sum, tx) => sum + getTxUsd(tx), 0)
-              const withdrawals = closes
+              const withdrawn = withdrawals
                 .filter(tx => tx.position_nft_address === nft)
                 .reduce((sum, tx) => sum + getTxUsd(tx), 0)
-              meteoraLPValueUSD += Math.max(0, deposits - withdrawals)
+              meteoraLPValueUSD += Math.max(0, deposited - withdrawn)
             }
           })
           console.log('🌊 Fallback Meteora LP estimate:', meteoraLPValueUSD.toFixed(2))
@@ -444,7 +446,10 @@ export default function HomePage() {
             type: tx.tx_type,
             description: tx.tx_type === 'position_open' ? '🌊 Meteora LP Opened' :
                         tx.tx_type === 'position_close' ? '🌊 Meteora LP Closed' :
-                        tx.tx_type === 'fee_claim' ? '🌊 Meteora Fees Claimed' : '🌊 Meteora Transaction',
+                        tx.tx_type === 'liquidity_add' ? '🌊 Meteora Liquidity Added' :
+                        tx.tx_type === 'liquidity_remove' ? '🌊 Meteora Liquidity Removed' :
+                        tx.tx_type === 'fee_claim' ? '🌊 Meteora Fees Claimed' :
+                        tx.tx_type === 'reward_claim' ? '🌊 Meteora Rewards Claimed' : '🌊 Meteora Transaction',
             amount: `$${Math.abs(parseFloat(tx.total_usd) || 0).toFixed(2)}`,
             timestamp: new Date(tx.block_time * 1000),
           })
@@ -9,15 +9,42 @@ import { useWallet, useConnection } from '@solana/wallet-adapter-react'
 import { PublicKey, ParsedAccountData } from '@solana/web3.js'
 import ManualMeteoraPositionModal from '@/components/ManualMeteoraPositionModal'
 import MetlexPnLOverrideModal from '@/components/MetlexPnLOverrideModal'
+import { fetchSolPriceUSD, FALLBACK_SOL_PRICE_USD } from '@/lib/sol-price'
 
 const USDC_MINT = 'EPjFWdd5AufqSSqeM2qN1xzybapC8G4wEGGkZwyTDt1v'
 
+// Transaction types that move capital into a position, out of it, or pay out earnings
+const DEPOSIT_TX_TYPES = ['position_open', 'liquidity_add']
+const WITHDRAW_TX_TYPES = ['position_close', 'liquidity_remove']
+const EARNING_TX_TYPES = ['fee_claim', 'reward_claim']
+
+const TX_TYPE_DISPLAY: Record<string, { icon: string; label: string }> = {
+  position_open: { icon: '📈', label: 'Position Opened' },
+  liquidity_add: { icon: '➕', label: 'Liquidity Added' },
+  liquidity_remove: { icon: '➖', label: 'Liquidity Removed' },
+  position_close: { icon: '📉', label: 'Position Closed' },
+  fee_claim: { icon: '💰', label: 'Fees Claimed' },
+  reward_claim: { icon: '🎁', label: 'Rewards Claimed' },
+}
+
+type HistoryFilter = 'all' | 'opens' | 'adds' | 'removes' | 'closes' | 'fees' | 'rewards'
+
+const HISTORY_FILTER_TYPES: Record<Exclude<HistoryFilter, 'all'>, string> = {
+  opens: 'position_open',
+  adds: 'liquidity_add',
+  removes: 'liquidity_remove',
+  closes: 'position_close',
+  fees: 'fee_claim',
+  rewards: 'reward_claim',
+}
+
 interface Transaction {
   id: string
   tx_type: string
   sol_change: number
   usdc_change: number
   total_usd: string
+  price_source?: string | null
   block_time: number
   signature: string
   position_nft_address: string
@@ -29,6 +56,10 @@ interface Position {
   pool_name: string
   token_x: string
   token_y: string
+  token_x_mint?: string | null
+  token_y_mint?: string | null
+  token_x_logo?: string | null
+  token_y_logo?: string | null
   value_usd: number
   unclaimed_fees: number
   apr_24h: number
@@ -37,6 +68,23 @@ interface Position {
   source?: 'auto' | 'manual'
 }
 
+type TokenMetadataResponse = {
+  tokens?: Record<string, { symbol: string; logoURI: string | null; uri: string | null }>
+}
+
+// Image of a token's off-chain metadata JSON, fetched by the browser rather than the server
+const fetchMetadataImage = async (uri: string): Promise<string | null> => {
+  if (!uri.startsWith('https://')) return null
+  try {
+    const resp = await fetch(uri, { signal: AbortSignal.timeout(3000) })
+    if (!resp.ok) return null
+    const json = await resp.json()
+    return typeof json.image === 'string' && json.image.startsWith('https://') ? json.image : null
+  } catch {
+    return null
+  }
+}
+
 type MeteoraPositionsValueResponse = {
   success?: boolean
   totalValueUSD?: number
@@ -56,11 +104,11 @@ export default function PortfolioPage() {
   const [loading, setLoading] = useState(true)
   const [solBalance, setSolBalance] = useState(0)
   const [usdcBalance, setUsdcBalance] = useState(0)
-  const [solPriceUSD, setSolPriceUSD] = useState(190)
+  const [solPriceUSD, setSolPriceUSD] = useState(FALLBACK_SOL_PRICE_USD)
   const [transactions, setTransactions] = useState<Transaction[]>([])
   const [positions, setPositions] = useState<Position[]>([])
   const [activeTab, setActiveTab] = useState<'positions' | 'history'>('positions')
-  const [historyFilter, setHistoryFilter] = useState<'all' | 'opens' | 'closes' | 'fees'>('all')
+  const [historyFilter, setHistoryFilter] = useState<HistoryFilter>('all')
   const [syncing, setSyncing] = useState(false)
   const [syncStatus, setSyncStatus] = useState('')
   const [loadingBalances, setLoadingBalances] = useState(false)
@@ -106,9 +154,11 @@ export default function PortfolioPage() {
   }, [router])
 
   const getTxUsd = (tx: any): number => {
-    // Same fix as dashboard: avoid relying on historical total_usd derived from hardcoded SOL price.
+    // Same fix as dashboard: rows with a price_source were valued at block time; older rows'
+    // total_usd came from a hardcoded SOL price, so those are recomputed at today's price.
     const SOL_MINT = 'So11111111111111111111111111111111111111112'
     const abs = (n: number) => Math.abs(Number.isFinite(n) ? n : 0)
+    if (tx.price_source && tx.total_usd != null) return abs(parseFloat(tx.total_usd) || 0)
     let usd = 0
     const xMint = tx.token_x_mint as string | null | undefined
     const yMint = tx.token_y_mint as string | null | undefined
@@ -123,15 +173,10 @@ export default function PortfolioPage() {
   }
 
   const fetchSolPrice = async () => {
-    try {
-      const response = await fetch('https://api.coingecko.com/api/v3/simple/price?ids=solana&vs_currencies=usd')
-      if (response.ok) {
-        const data = await response.json()
-        if (data.solana?.usd) {
-          setSolPriceUSD(data.solana.usd)
-        }
-      }
-    } catch (error) {
+    const price = await fetchSolPriceUSD()
+    if (price) {
+      setSolPriceUSD(price)
+    } else {
       console.warn('Failed to fetch SOL price')
     }
   }
@@ -219,6 +264,15 @@ export default function PortfolioPage() {
         }
       })
       
+      // Cost basis of each position: later adds and partial removals move it from the open amount
+      const nftLiquidityChange = new Map<string, number>()
+      txData.forEach(tx => {
+        if (!tx.position_nft_address) return
+        const sign = tx.tx_type === 'liquidity_add' ? 1 : tx.tx_type === 'liquidity_remove' ? -1 : 0
+        if (sign === 0) return
+        nftLiquidityChange.set(tx.position_nft_address, (nftLiquidityChange.get(tx.position_nft_address) || 0) + sign * getTxUsd(tx))
+      })
+      
       // Build active positions list
       const activePositions: Position[] = []
       
@@ -237,7 +291,9 @@ export default function PortfolioPage() {
             pool_name: openTx?.position_data?.pool_name || `${openTx?.token_x_symbol || 'SOL'}-${openTx?.token_y_symbol || 'USDC'}`,
             token_x: openTx?.token_x_symbol || 'SOL',
             token_y: openTx?.token_y_symbol || 'USDC',
-            value_usd: getTxUsd(openTx),
+            token_x_mint: openTx?.token_x_mint || null,
+            token_y_mint: openTx?.token_y_mint || null,
+            value_usd: Math.max(0, getTxUsd(openTx) + (nftLiquidityChange.get(nftAddr) || 0)),
             unclaimed_fees: 0,
             apr_24h: 0,
             is_in_range: true,
@@ -303,6 +359,8 @@ export default function PortfolioPage() {
             pool_name: pd.pair_name || 'Meteora (Manual)',
             token_x: pd.token_x_symbol || 'SOL',
             token_y: pd.token_y_symbol || 'USDC',
+            token_x_mint: pd.token_x_mint || null,
+            token_y_mint: pd.token_y_mint || null,
             value_usd: Number(pd.value_usd || 0),
             unclaimed_fees: 0,
             apr_24h: 0,
@@ -323,12 +381,46 @@ export default function PortfolioPage() {
         manualPositions: dedupedManual.length,
       })
 
-      setPositions([...activePositions, ...dedupedManual])
+      const allPositions = [...activePositions, ...dedupedManual]
+      await applyTokenMetadata(allPositions)
+      setPositions(allPositions)
     } catch (error) {
       console.error('Error loading positions:', error)
     }
   }
 
+  // Symbols and logos from the token registry for positions that recorded their mints
+  const applyTokenMetadata = async (list: Position[]) => {
+    const mints = Array.from(new Set(
+      list.flatMap((p) => [p.token_x_mint, p.token_y_mint]).filter((mint): mint is string => !!mint)
+    ))
+    if (mints.length === 0) return
+
+    try {
+      const resp = await fetch(`/api/tokens/metadata?mints=${mints.slice(0, 50).join(',')}`)
+      if (!resp.ok) return
+      const { tokens = {} } = (await resp.json()) as TokenMetadataResponse
+
+      const logos: Record<string, string | null> = {}
+      await Promise.all(Object.entries(tokens).map(async ([mint, token]) => {
+        logos[mint] = token.logoURI || (token.uri ? await fetchMetadataImage(token.uri) : null)
+      }))
+
+      for (const p of list) {
+        const x = p.token_x_mint ? tokens[p.token_x_mint] : undefined
+        const y = p.token_y_mint ? tokens[p.token_y_mint] : undefined
+        const placeholderName = !p.pool_name || p.pool_name.includes('Unknown') || p.pool_name.includes('UNKNOWN')
+        if (x && (!p.token_x || p.token_x === 'UNKNOWN' || placeholderName)) p.token_x = x.symbol
+        if (y && (!p.token_y || p.token_y === 'UNKNOWN' || placeholderName)) p.token_y = y.symbol
+        if (placeholderName && x && y) p.pool_name = `${x.symbol}-${y.symbol}`
+        p.token_x_logo = (p.token_x_mint && logos[p.token_x_mint]) || null
+        p.token_y_logo = (p.token_y_mint && logos[p.token_y_mint]) || null
+      }
+    } catch {
+      // Non-fatal: keep the recorded symbols
+    }
+  }
+
   const loadPnLOverrides = async () => {
     if (!user) return
     try {
@@ -473,23 +565,20 @@ export default function PortfolioPage() {
 
   const filteredTransactions = transactions.filter(tx => {
     if (historyFilter === 'all') return true
-    if (historyFilter === 'opens') return tx.tx_type === 'position_open'
-    if (historyFilter === 'closes') return tx.tx_type === 'position_close'
-    if (historyFilter === 'fees') return tx.tx_type === 'fee_claim'
-    return true
+    return tx.tx_type === HISTORY_FILTER_TYPES[historyFilter]
   })
 
   // Calculate P&L
   const totalInvested = transactions
-    .filter(tx => tx.tx_type === 'position_open')
+    .filter(tx => DEPOSIT_TX_TYPES.includes(tx.tx_type))
     .reduce((sum, tx) => sum + getTxUsd(tx), 0)
   
   const totalWithdrawn = transactions
-    .filter(tx => tx.tx_type === 'position_close')
+    .filter(tx => WITHDRAW_TX_TYPES.includes(tx.tx_type))
     .reduce((sum, tx) => sum + getTxUsd(tx), 0)
   
   const totalFees = transactions
-    .filter(tx => tx.tx_type === 'fee_claim')
+    .filter(tx => EARNING_TX_TYPES.includes(tx.tx_type))
     .reduce((sum, tx) => sum + getTxUsd(tx), 0)
 
   const currentPositionValue = positions.reduce((sum, pos) => sum + pos.value_usd, 0)
@@ -500,9 +589,9 @@ export default function PortfolioPage() {
     if (!nft) continue
     const entry = perPosition.get(nft) || { deposit: 0, withdraw: 0, fees: 0 }
     const usd = getTxUsd(tx)
-    if (tx.tx_type === 'position_open') entry.deposit += usd
-    if (tx.tx_type === 'position_close') entry.withdraw += usd
-    if (tx.tx_type === 'fee_claim') entry.fees += usd
+    if (DEPOSIT_TX_TYPES.includes(tx.tx_type)) entry.deposit += usd
+    if (WITHDRAW_TX_TYPES.includes(tx.tx_type)) entry.withdraw += usd
+    if (EARNING_TX_TYPES.includes(tx.tx_type)) entry.fees += usd
     perPosition.set(nft, entry)
   }
 
@@ -715,7 +804,16 @@ export default function PortfolioPage() {
                       <div className="flex items-start justify-between mb-4">
                         <div className="flex items-center gap-3">
                           <div className="w-12 h-12 bg-gradient-to-br from-slate-700 to-slate-800 rounded-xl flex items-center justify-center">
-                            <span className="text-xl">💎</span>
+                            {position.token_x_logo || position.token_y_logo ? (
+                              <div className="flex -space-x-2">
+                                {[position.token_x_logo, position.token_y_logo].filter(Boolean).map((logo) => (
+                                  // eslint-disable-next-line @next/next/no-img-element
+                                  <img key={logo} src={logo!} alt="" className="w-6 h-6 rounded-full border border-slate-700" />
+                                ))}
+                              </div>
+                            ) : (
+                              <span className="text-xl">💎</span>
+                            )}
                           </div>
                           <div>
                             <h3 className="text-lg font-semibold text-white">{position.pool_name}</h3>
@@ -822,8 +920,11 @@ export default function PortfolioPage() {
                   {[
                     { key: 'all', label: 'All' },
                     { key: 'opens', label: 'Opens' },
+                    { key: 'adds', label: 'Adds' },
+                    { key: 'removes', label: 'Removes' },
                     { key: 'closes', label: 'Closes' },
                     { key: 'fees', label: 'Fees' },
+                    { key: 'rewards', label: 'Rewards' },
                   ].map((filter) => (
                     <button
                       key={filter.key}
@@ -856,15 +957,11 @@ export default function PortfolioPage() {
                           <div className="flex items-center justify-between">
                             <div className="flex items-center gap-3">
                               <span className="text-2xl">
-                                {tx.tx_type === 'position_open' ? '📈' : 
-                                 tx.tx_type === 'position_close' ? '📉' : 
-                                 tx.tx_type === 'fee_claim' ? '💰' : '📋'}
+                                {TX_TYPE_DISPLAY[tx.tx_type]?.icon || '📋'}
                               </span>
                               <div>
                                 <p className="text-white font-medium">
-                                  {tx.tx_type === 'position_open' ? 'Position Opened' :
-                                   tx.tx_type === 'position_close' ? 'Position Closed' :
-                                   tx.tx_type === 'fee_claim' ? 'Fees Claimed' : tx.tx_type}
+                                  {TX_TYPE_DISPLAY[tx.tx_type]?.label || tx.tx_type}
                                   {tx.tx_type === 'position_close' && (tx as any).position_nft_address && pnlOverrides[(tx as any).position_nft_address] && (
                                     <span className="ml-2 rounded-full bg-violet-500/20 px-2 py-0.5 text-[10px] font-semibold text-violet-300 border border-violet-500/30">
                                       P&L Overridden
@@ -878,10 +975,10 @@ export default function PortfolioPage() {
                             </div>
                             <div className="text-right">
                               <p className={`font-semibold ${
-                                tx.tx_type === 'position_open' ? 'text-red-400' :
-                                tx.tx_type === 'position_close' || tx.tx_type === 'fee_claim' ? 'text-emerald-400' : 'text-white'
+                                DEPOSIT_TX_TYPES.includes(tx.tx_type) ? 'text-red-400' :
+                                WITHDRAW_TX_TYPES.includes(tx.tx_type) || EARNING_TX_TYPES.includes(tx.tx_type) ? 'text-emerald-400' : 'text-white'
                               }`}>
-                                {tx.tx_type === 'position_open' ? '-' : '+'}${getTxUsd(tx).toFixed(2)}
+                                {DEPOSIT_TX_TYPES.includes(tx.tx_type) ? '-' : '+'}${getTxUsd(tx).toFixed(2)}
                               </p>
                               {tx.tx_type === 'position_close' && (tx as any).position_nft_address && (
                                 <button
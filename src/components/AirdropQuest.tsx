@@ -144,7 +144,7 @@ interface ActivityStatus {
 const analyzeMeteoraActivity = (transactions: any[]): Omit<ActivityStatus, 'hasJupiterSwapToday' | 'hasJupiterLimitOrderToday' | 'hasJupiterPerpsToday' | 'hasSanctumLST'> => {
   const opens = transactions.filter(tx => tx.tx_type === 'position_open')
   const closes = transactions.filter(tx => tx.tx_type === 'position_close')
-  const fees = transactions.filter(tx => tx.tx_type === 'fee_claim')
+  const fees = transactions.filter(tx => tx.tx_type === 'fee_claim' || tx.tx_type === 'reward_claim')
   
   // Check if there's an active position (more opens than closes)
   const hasActivePosition = opens.length > closes.length
@@ -465,7 +465,7 @@ export default function AirdropQuest({ userId, walletAddress, transactions }: Ai
       
       // === CALCULATE METEORA POINTS ===
       const opens = transactions.filter(tx => tx.tx_type === 'position_open')
-      const fees = transactions.filter(tx => tx.tx_type === 'fee_claim')
+      const fees = transactions.filter(tx => tx.tx_type === 'fee_claim' || tx.tx_type === 'reward_claim')
       const uniqueDays = new Set(transactions.map(tx => 
         new Date(tx.block_time * 1000).toDateString()
       ))
@@ -0,0 +1,127 @@
+'use client'
+
+interface PreviewAccount {
+  address: string
+  label: string | null
+  signer: boolean
+  writable: boolean
+}
+
+interface TransactionPreview {
+  feePayer: string | null
+  instructions: { index: number; program: string; name: string; accounts: PreviewAccount[] }[]
+  accounts: PreviewAccount[]
+  tokenChanges: { mint: string; symbol: string | null; amount: number }[] | null
+  computeUnits: number | null
+  estimatedFeeSOL: number | null
+  // Sent back when approving, so the approval covers exactly this transaction
+  messageHash: string
+  generatedAt: string
+}
+
+// Response of GET /api/automation/approve
+export interface ApprovalPreview {
+  preview: TransactionPreview | null
+  // False when the transaction could not be rebuilt and the preview is the one stored with the approval
+  live: boolean
+  violations?: string[]
+  simulationError?: string
+  previewError?: string
+}
+
+const shortAddress = (address: string) => `${address.slice(0, 4)}…${address.slice(-4)}`
+
+/**
+ * Decoded transaction of a pending approval: fee, balance changes and instructions
+ */
+export default function TransactionPreviewPanel({ result }: { result: ApprovalPreview }) {
+  const { preview, live, violations, simulationError, previewError } = result
+
+  return (
+    <div className="mt-4 pt-4 border-t border-slate-700/50 space-y-3 text-sm">
+      {violations && violations.length > 0 && (
+        <div className="bg-red-500/10 border border-red-500/20 rounded-xl p-3 text-red-400">
+          <p className="font-semibold mb-1">Blocked by transaction policy</p>
+          {violations.map((violation, i) => <p key={i}>{violation}</p>)}
+        </div>
+      )}
+      {simulationError && (
+        <p className="text-red-400">Simulation failed: {simulationError}</p>
+      )}
+      {(previewError || !live) && preview && (
+        <p className="text-amber-400 text-xs">
+          {previewError || 'Could not rebuild the transaction'}; showing the preview from when the approval was requested.
+        </p>
+      )}
+      {preview ? (
+        <>
+          <div className="grid grid-cols-2 md:grid-cols-3 gap-3">
+            <div>
+              <p className="text-slate-500 text-xs">Estimated Fee</p>
+              <p className="text-white">
+                {preview.estimatedFeeSOL !== null ? `${preview.estimatedFeeSOL.toFixed(6)} SOL` : 'Unknown'}
+              </p>
+            </div>
+            <div>
+              <p className="text-slate-500 text-xs">Compute Units</p>
+              <p className="text-white">{preview.computeUnits?.toLocaleString() ?? 'Not simulated'}</p>
+            </div>
+            <div>
+              <p className="text-slate-500 text-xs">Fee Payer</p>
+              <p className="text-white font-mono">{preview.feePayer ? shortAddress(preview.feePayer) : 'None'}</p>
+            </div>
+          </div>
+
+          <div>
+            <p className="text-slate-500 text-xs mb-1">Expected Balance Changes</p>
+            {preview.tokenChanges === null ? (
+              <p className="text-slate-400">Not simulated</p>
+            ) : preview.tokenChanges.length === 0 ? (
+              <p className="text-slate-400">No balance changes</p>
+            ) : (
+              preview.tokenChanges.map(change => (
+                <p key={change.mint} className={change.amount >= 0 ? 'text-emerald-400' : 'text-red-400'}>
+                  {change.amount >= 0 ? '+' : ''}{change.amount.toLocaleString(undefined, { maximumFractionDigits: 6 })}{' '}
+                  {change.symbol || shortAddress(change.mint)}
+                </p>
+              ))
+            )}
+          </div>
+
+          <div>
+            <p className="text-slate-500 text-xs mb-1">Instructions</p>
+            <div className="space-y-2">
+              {preview.instructions.map(instruction => (
+                <div key={instruction.index} className="bg-slate-900/50 rounded-xl p-3">
+                  <p className="text-white">
+                    {instruction.index + 1}. {instruction.program} · <span className="font-mono text-cyan-400">{instruction.name}</span>
+                  </p>
+                  <div className="mt-1 flex flex-wrap gap-1">
+                    {instruction.accounts.map((account, i) => (
+                      <span
+                        key={i}
+                        title={account.address}
+                        className={`px-2 py-0.5 rounded text-xs font-mono ${
+                          account.writable ? 'bg-amber-500/10 text-amber-300' : 'bg-slate-700/50 text-slate-400'
+                        }`}
+                      >
+                        {account.label || shortAddress(account.address)}
+                        {account.signer ? ' ✍' : ''}
+                      </span>
+                    ))}
+                  </div>
+                </div>
+              ))}
+            </div>
+            <p className="text-slate-500 text-xs mt-2">
+              {preview.accounts.length} accounts touched, {preview.accounts.filter(a => a.writable).length} writable (highlighted). Decoded{' '}
+              {new Date(preview.generatedAt).toLocaleString()}.
+            </p>
+          </div>
+        </>
+      ) : !violations?.length && (
+        <p className="text-slate-400">{previewError || 'No transaction preview available'}</p>
+      )}
+    </div>
+  )
+}
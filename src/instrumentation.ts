@@ -0,0 +1,24 @@
+/**
+ * Next.js Instrumentation
+ * Starts the long-lived scheduler worker when SCHEDULER_WORKER=true
+ * (self-hosted deployments; on Vercel use the /api/scheduler/tick cron endpoint instead)
+ */
+
+export async function register() {
+  if (process.env.NEXT_RUNTIME !== 'nodejs' || process.env.SCHEDULER_WORKER !== 'true') {
+    return
+  }
+
+  const { AutomationScheduler } = await import('@/lib/scheduler/scheduler')
+  const intervalSeconds = parseInt(process.env.SCHEDULER_INTERVAL_SECONDS || '60', 10)
+
+  const controller = new AbortController()
+  process.once('SIGTERM', () => controller.abort())
+  process.once('SIGINT', () => controller.abort())
+
+  // Not awaited: the worker loop runs for the lifetime of the server
+  void new AutomationScheduler().start({
+    intervalMs: Math.max(intervalSeconds, 10) * 1000,
+    signal: controller.signal
+  })
+}
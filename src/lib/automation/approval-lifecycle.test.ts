@@ -0,0 +1,93 @@
+import { describe, expect, it, vi } from 'vitest'
+import type { SupabaseClient } from '@supabase/supabase-js'
+
+vi.mock('@/lib/supabase', () => ({ supabase: {} }))
+
+const { ApprovalLifecycle } = await import('./approval-lifecycle')
+
+const NOW = Date.parse('2026-10-19T12:00:00Z')
+
+// Records approval updates and the filters they were made under
+function makeDb() {
+  const updates: { row: Record<string, unknown>; filters: Record<string, unknown> }[] = []
+  const approval = {
+    id: 'approval-1',
+    user_id: 'user-1',
+    log_id: 'log-1',
+    status: 'pending',
+    expires_at: '2026-10-20T12:00:00Z',
+    message_hash: 'stored-hash',
+    automation_logs: { id: 'log-1', metadata: {} },
+    automation_configs: { wallet_address: 'wallet-1' }
+  }
+
+  const db = {
+    from: () => {
+      const filters: Record<string, unknown> = {}
+      let row: Record<string, unknown> | null = null
+      const chain = {
+        select: () => chain,
+        eq: (column: string, value: unknown) => {
+          filters[column] = value
+          return chain
+        },
+        update: (values: Record<string, unknown>) => {
+          row = values
+          updates.push({ row: values, filters })
+          return chain
+        },
+        single: async () => ({ data: approval, error: null }),
+        then: (resolve: (value: { data: unknown; error: null }) => unknown) =>
+          resolve({ data: row ? [{ id: 'approval-1' }] : [], error: null })
+      }
+      return chain
+    }
+  } as unknown as SupabaseClient
+
+  return { db, updates }
+}
+
+describe('ApprovalLifecycle.decide', () => {
+  it('stores the previewed hash on approval, guarded by the pending status', async () => {
+    const { db, updates } = makeDb()
+    const lifecycle = new ApprovalLifecycle(() => NOW, db, async () => 'previewed-hash')
+
+    const result = await lifecycle.decide('user-1', { approvalId: 'approval-1', action: 'approve', messageHash: 'previewed-hash' })
+
+    expect(result).toMatchObject({ success: true, status: 'approved' })
+    expect(updates[0].row).toMatchObject({ status: 'approved', message_hash: 'previewed-hash' })
+    expect(updates[0].filters).toMatchObject({ id: 'approval-1', status: 'pending' })
+  })
+
+  it('refuses to approve a hash that differs from the live rebuild', async () => {
+    const { db, updates } = makeDb()
+    const lifecycle = new ApprovalLifecycle(() => NOW, db, async () => 'rebuilt-hash')
+
+    const result = await lifecycle.decide('user-1', { approvalId: 'approval-1', action: 'approve', messageHash: 'previewed-hash' })
+
+    expect(result).toMatchObject({ success: false, errorCode: 'preview_mismatch' })
+    expect(updates).toHaveLength(0)
+  })
+
+  it('refuses to approve without a previewed hash', async () => {
+    const { db, updates } = makeDb()
+    const lifecycle = new ApprovalLifecycle(() => NOW, db, async () => 'rebuilt-hash')
+
+    const result = await lifecycle.decide('user-1', { approvalId: 'approval-1', action: 'approve' })
+
+    expect(result).toMatchObject({ success: false, errorCode: 'preview_mismatch' })
+    expect(updates).toHaveLength(0)
+  })
+
+  it('rejects without a hash or a rebuild', async () => {
+    const { db, updates } = makeDb()
+    const resolve = vi.fn()
+    const lifecycle = new ApprovalLifecycle(() => NOW, db, resolve)
+
+    const result = await lifecycle.decide('user-1', { approvalId: 'approval-1', action: 'reject', reason: 'Not now' })
+
+    expect(result).toMatchObject({ success: true, status: 'rejected' })
+    expect(resolve).not.toHaveBeenCalled()
+    expect(updates[0].row).not.toHaveProperty('message_hash')
+  })
+})
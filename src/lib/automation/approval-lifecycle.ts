@@ -0,0 +1,291 @@
+/**
+ * Approval Lifecycle
+ * Expires approvals past expires_at (cancelling their logs and releasing their budget reservation),
+ * reminds users before an approval expires, and applies approve/reject decisions
+ */
+
+import { AutomationApproval, AutomationLog, AutomationNotificationType } from './types'
+import { SupabaseClient } from '@supabase/supabase-js'
+import { supabase } from '@/lib/supabase'
+
+export interface ApprovalDecision {
+  approvalId: string
+  action: 'approve' | 'reject'
+  reason?: string
+  // Message hash of the transaction preview the approver was shown (required to approve)
+  messageHash?: string
+}
+
+export interface ApprovalDecisionResult {
+  approvalId: string
+  success: boolean
+  // Status of the approval after the decision
+  status?: AutomationApproval['status']
+  error?: string
+  errorCode?: 'not_found' | 'not_pending' | 'expired' | 'preview_mismatch'
+}
+
+export interface ApprovalLifecycleResult {
+  expired: number
+  remindersSent: number
+  errors: string[]
+}
+
+export type DecisionApprovalRow = AutomationApproval & {
+  automation_logs: AutomationLog | null
+  automation_configs: { wallet_address: string } | null
+}
+
+// Rebuilds the transaction of an approval and returns its message hash
+export type MessageHashResolver = (approval: DecisionApprovalRow) => Promise<string>
+
+type PendingApprovalRow = AutomationApproval & {
+  automation_configs: { approval_reminder_hours: number | null } | null
+}
+
+export class ApprovalLifecycle {
+  private now: () => number
+  private db: SupabaseClient
+  private resolveMessageHash?: MessageHashResolver
+
+  // Runs across all users (expiry, reminders) need a service-role client; decisions can use the user's
+  // Approvals are only accepted when resolveMessageHash rebuilds the transaction the approver previewed
+  constructor(now?: () => number, db: SupabaseClient = supabase, resolveMessageHash?: MessageHashResolver) {
+    this.now = now || (() => Date.now())
+    this.db = db
+    this.resolveMessageHash = resolveMessageHash
+  }
+
+  /**
+   * Expire overdue approvals and send reminders for ones about to expire (all users)
+   */
+  async run(): Promise<ApprovalLifecycleResult> {
+    const result: ApprovalLifecycleResult = { expired: 0, remindersSent: 0, errors: [] }
+
+    try {
+      result.expired = await this.expireDue()
+    } catch (error: any) {
+      result.errors.push(`Error expiring approvals: ${error.message}`)
+    }
+
+    try {
+      result.remindersSent = await this.sendReminders()
+    } catch (error: any) {
+      result.errors.push(`Error sending approval reminders: ${error.message}`)
+    }
+
+    return result
+  }
+
+  /**
+   * Move pending approvals past expires_at to 'expired'
+   */
+  async expireDue(): Promise<number> {
+    const { data, error } = await this.db
+      .from('automation_approvals')
+      .select('*')
+      .eq('status', 'pending')
+      .lte('expires_at', new Date(this.now()).toISOString())
+
+    if (error) throw error
+
+    let expired = 0
+    for (const approval of (data || []) as AutomationApproval[]) {
+      if (await this.expire(approval)) expired++
+    }
+    return expired
+  }
+
+  /**
+   * Expire one approval and cancel its log
+   * Returns false when the approval was no longer pending (decided or expired elsewhere)
+   */
+  async expire(approval: AutomationApproval): Promise<boolean> {
+    const { data, error } = await this.db
+      .from('automation_approvals')
+      .update({ status: 'expired' })
+      .eq('id', approval.id)
+      .eq('status', 'pending')
+      .select('id')
+
+    if (error) throw error
+    if (!data || data.length === 0) return false
+
+    // Cancelling frees the log's idempotency key, so the rule can queue the action again
+    await this.db
+      .from('automation_logs')
+      .update({ status: 'cancelled', error_message: 'Approval expired' })
+      .eq('id', approval.log_id)
+      .eq('status', 'pending')
+
+    await this.notify(approval, 'approval_expired', 'Approval expired',
+      `The ${approval.action_type.replace('_', ' ')} awaiting your approval expired and was cancelled.`)
+
+    return true
+  }
+
+  /**
+   * Remind users of pending approvals within their config's approval_reminder_hours of expiry
+   * Each approval gets one reminder
+   */
+  async sendReminders(): Promise<number> {
+    const now = this.now()
+    const { data, error } = await this.db
+      .from('automation_approvals')
+      .select('*, automation_configs(approval_reminder_hours)')
+      .eq('status', 'pending')
+      .gt('expires_at', new Date(now).toISOString())
+
+    if (error) throw error
+
+    let sent = 0
+    for (const approval of (data || []) as PendingApprovalRow[]) {
+      const reminderHours = approval.automation_configs?.approval_reminder_hours
+      if (!reminderHours) continue
+
+      const hoursLeft = (new Date(approval.expires_at).getTime() - now) / (60 * 60 * 1000)
+      if (hoursLeft > reminderHours) continue
+
+      const notified = await this.notify(approval, 'approval_reminder', 'Approval expiring soon',
+        `The ${approval.action_type.replace('_', ' ')} awaiting your approval ($${approval.estimated_cost_usd.toFixed(2)}) ` +
+        `expires in ${hoursLeft < 1 ? `${Math.max(1, Math.round(hoursLeft * 60))} minutes` : `${hoursLeft.toFixed(1)} hours`}.`)
+      if (notified) sent++
+    }
+    return sent
+  }
+
+  /**
+   * Approve or reject several approvals of a user; each decision succeeds or fails on its own
+   */
+  async decideAll(userId: string, decisions: ApprovalDecision[]): Promise<ApprovalDecisionResult[]> {
+    const results: ApprovalDecisionResult[] = []
+    for (const decision of decisions) {
+      try {
+        results.push(await this.decide(userId, decision))
+      } catch (error: any) {
+        results.push({ approvalId: decision.approvalId, success: false, error: error.message || 'Decision failed' })
+      }
+    }
+    return results
+  }
+
+  /**
+   * Approve or reject one pending approval and move its log along
+   * Approving stores the previewed message hash, which must match a live rebuild of the transaction
+   */
+  async decide(userId: string, decision: ApprovalDecision): Promise<ApprovalDecisionResult> {
+    const { approvalId, action, reason, messageHash } = decision
+
+    const { data: approval, error: approvalError } = await this.db
+      .from('automation_approvals')
+      .select('*, automation_logs(*), automation_configs(wallet_address)')
+      .eq('id', approvalId)
+      .eq('user_id', userId)
+      .single()
+
+    if (approvalError || !approval) {
+      return { approvalId, success: false, error: 'Approval not found', errorCode: 'not_found' }
+    }
+
+    if (approval.status !== 'pending') {
+      return { approvalId, success: false, status: approval.status, error: `Approval already ${approval.status}`, errorCode: 'not_pending' }
+    }
+
+    if (new Date(approval.expires_at).getTime() <= this.now()) {
+      await this.expire(approval as AutomationApproval)
+      return { approvalId, success: false, status: 'expired', error: 'Approval has expired', errorCode: 'expired' }
+    }
+
+    if (action === 'approve') {
+      const mismatch = await this.checkPreviewedHash(approval as DecisionApprovalRow, messageHash)
+      if (mismatch) {
+        return { approvalId, success: false, error: mismatch, errorCode: 'preview_mismatch' }
+      }
+    }
+
+    const decidedAt = new Date(this.now()).toISOString()
+    const status = action === 'approve' ? 'approved' : 'rejected'
+
+    const { data: updated, error } = await this.db
+      .from('automation_approvals')
+      .update({
+        status,
+        [action === 'approve' ? 'approved_at' : 'rejected_at']: decidedAt,
+        ...(action === 'approve' ? { message_hash: messageHash } : {}),
+        ...(action === 'reject' && reason ? { rejection_reason: reason } : {})
+      })
+      .eq('id', approvalId)
+      .eq('status', 'pending')
+      .select('id')
+
+    if (error) throw error
+    if (!updated || updated.length === 0) {
+      return { approvalId, success: false, error: 'Approval was decided concurrently', errorCode: 'not_pending' }
+    }
+
+    await this.db
+      .from('automation_logs')
+      .update({
+        status,
+        metadata: {
+          ...(approval.automation_logs?.metadata || {}),
+          approvalDecision: { action, reason: reason || null, decidedAt }
+        }
+      })
+      .eq('id', approval.log_id)
+
+    return { approvalId, success: true, status }
+  }
+
+  /**
+   * Why an approval of the previewed message hash cannot be accepted, or null when it can
+   */
+  private async checkPreviewedHash(approval: DecisionApprovalRow, messageHash?: string): Promise<string | null> {
+    if (!messageHash) return 'Preview the transaction before approving it'
+    if (!this.resolveMessageHash) return 'Approvals cannot be verified against a rebuilt transaction here'
+
+    let liveHash: string
+    try {
+      liveHash = await this.resolveMessageHash(approval)
+    } catch (error) {
+      return `Transaction could not be rebuilt: ${error instanceof Error ? error.message : String(error)}`
+    }
+
+    return liveHash === messageHash
+      ? null
+      : 'The transaction changed since it was previewed. Refresh the preview and approve again.'
+  }
+
+  /**
+   * Record a notification for the approval's user (at most one per approval and type)
+   * Returns false when it was already sent
+   */
+  private async notify(
+    approval: AutomationApproval,
+    type: AutomationNotificationType,
+    title: string,
+    message: string
+  ): Promise<boolean> {
+    const { data, error } = await this.db
+      .from('automation_notifications')
+      .upsert({
+        user_id: approval.user_id,
+        config_id: approval.config_id,
+        approval_id: approval.id,
+        type,
+        title,
+        message
+      }, {
+        onConflict: 'approval_id,type',
+        ignoreDuplicates: true
+      })
+      .select('id')
+
+    if (error) {
+      console.error(`Error recording ${type} notification for approval ${approval.id}:`, error)
+      return false
+    }
+
+    return !!data && data.length > 0
+  }
+}
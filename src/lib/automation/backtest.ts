@@ -0,0 +1,574 @@
+/**
+ * Automation Backtester
+ * Replays a wallet's position history through the rules, safety checks and budget
+ * to show what a config would have done, without writing anything
+ */
+
+import {
+  AutomationConfig,
+  BacktestAction,
+  BacktestBudgetPoint,
+  BacktestOptions,
+  BacktestResult,
+  AutomationActionType,
+  CircuitBreakerTrip,
+  CustomAutomationRule,
+  PositionInfo,
+  PositionTransactionRow,
+  RuleEvaluationResult
+} from './types'
+import { supabase } from '@/lib/supabase'
+import { fetchMeteoraPositionsValues, MeteoraPositionValue } from '@/lib/meteora-positions'
+import { RulesEvaluator } from './rules'
+import { CustomRulesEvaluator } from './custom-rules'
+import { BudgetManager, DEFAULT_PROTOCOL, localDate, SpendEntry } from './budget-manager'
+import { AutomationExecutor } from './executor'
+import { CostEstimator } from './cost-estimator'
+import { CircuitBreaker } from './circuit-breaker'
+import { TokenRiskChecker } from './token-risk'
+import { ConflictResolver } from './conflict-resolver'
+
+const DEFAULT_STEP_HOURS = 6
+const MAX_STEPS = 5000
+
+const HOUR_MS = 60 * 60 * 1000
+const YEAR_MS = 365 * 24 * HOUR_MS
+
+/**
+ * Simulated time shared by the evaluators and budget manager of one backtest
+ */
+interface BacktestClock {
+  now: number
+}
+
+/**
+ * Per-position state rebuilt from position_transactions, then advanced by simulated actions
+ */
+interface ReplayedPosition {
+  nftAddress: string
+  positionAddress: string
+  tokenXSymbol: string
+  tokenYSymbol: string
+  tokenXAmount: number
+  tokenYAmount: number
+  openedAt: number
+  closedAt: number | null
+  depositUSD: number
+  endValueUSD: number
+  feeRatePerMs: number
+  outOfRangeAt: number[]
+  outOfRangeAtEnd: boolean
+  // Simulated state
+  lastClaimAt: number | null
+  lastRebalanceAt: number | null
+  lastCompoundAt: number | null
+  claimedFeesUSD: number
+  compoundedUSD: number
+  simulatedCloseAt: number | null
+}
+
+class BacktestRulesEvaluator extends RulesEvaluator {
+  private clock: BacktestClock
+  private activeCount: () => number
+  private lastCompoundAt: (positionNftAddress: string) => number | null
+
+  constructor(
+    config: AutomationConfig,
+    customRulesEvaluator: CustomRulesEvaluator,
+    costEstimator: CostEstimator,
+    clock: BacktestClock,
+    activeCount: () => number,
+    lastCompoundAt: (positionNftAddress: string) => number | null
+  ) {
+    super(config, customRulesEvaluator, costEstimator)
+    this.clock = clock
+    this.activeCount = activeCount
+    this.lastCompoundAt = lastCompoundAt
+  }
+
+  protected now(): number {
+    return this.clock.now
+  }
+
+  // Historical transactions cannot be rebuilt; price them at today's network fees
+  protected async estimateCostUSD(actionType: AutomationActionType): Promise<number> {
+    return (await this.costEstimator.estimateDefault(actionType)).costUSD
+  }
+
+  protected async getLastOpenAt(): Promise<string | null> {
+    return null
+  }
+
+  protected async getActivePositionCount(): Promise<number> {
+    return this.activeCount()
+  }
+
+  protected async getLastCompoundAt(positionNftAddress: string): Promise<string | null> {
+    const at = this.lastCompoundAt(positionNftAddress)
+    return at !== null ? new Date(at).toISOString() : null
+  }
+
+  // Simulated actions apply immediately, so nothing is ever left pending
+  protected async hasActiveAction(): Promise<boolean> {
+    return false
+  }
+}
+
+class BacktestCustomRulesEvaluator extends CustomRulesEvaluator {
+  private clock: BacktestClock
+  private rules: CustomAutomationRule[] | null = null
+  private firedAt = new Map<string, number>()
+
+  constructor(config: AutomationConfig, costEstimator: CostEstimator, clock: BacktestClock) {
+    super(config, costEstimator)
+    this.clock = clock
+  }
+
+  protected now(): number {
+    return this.clock.now
+  }
+
+  protected async estimateCostUSD(actionType: AutomationActionType): Promise<number> {
+    return (await this.costEstimator.estimateDefault(actionType)).costUSD
+  }
+
+  /**
+   * Load the stored rules once for the whole replay
+   */
+  async loadRules(): Promise<CustomAutomationRule[]> {
+    if (!this.rules) {
+      this.rules = await super.loadRules()
+    }
+    return this.rules
+  }
+
+  recordFired(ruleName: string, positionNftAddress: string, at: number): void {
+    this.firedAt.set(`${ruleName}:${positionNftAddress}`, at)
+  }
+
+  protected async getLastFiredAt(rule: CustomAutomationRule, position: PositionInfo): Promise<string | null> {
+    const at = this.firedAt.get(`${rule.name}:${position.position_nft_address}`)
+    return at !== undefined ? new Date(at).toISOString() : null
+  }
+}
+
+/**
+ * Budget manager backed by an in-memory spend ledger instead of automation_logs
+ */
+class SimulatedBudgetManager extends BudgetManager {
+  private clock: BacktestClock
+  private ledger: SpendEntry[] = []
+
+  constructor(config: AutomationConfig, clock: BacktestClock) {
+    super(config)
+    this.clock = clock
+  }
+
+  protected now(): number {
+    return this.clock.now
+  }
+
+  protected async getSpendEntries(since: number): Promise<SpendEntry[]> {
+    return this.ledger.filter(entry => entry.at >= since)
+  }
+
+  protected async getReservedUSD(): Promise<number> {
+    return 0
+  }
+
+  /**
+   * Record an action's cost as if it had executed now
+   */
+  recordAction(ruleResult: RuleEvaluationResult): void {
+    this.ledger.push({
+      at: this.now(),
+      amount: ruleResult.estimatedCostUSD,
+      actionType: ruleResult.actionType,
+      protocol: ruleResult.protocol || DEFAULT_PROTOCOL
+    })
+    this.config.spent_usd += ruleResult.estimatedCostUSD
+  }
+
+  /**
+   * Spend per day with running totals
+   */
+  getTimeline(): BacktestBudgetPoint[] {
+    const byDate = new Map<string, number>()
+    for (const entry of this.ledger) {
+      const date = localDate(entry.at, this.config.budget_timezone || 'UTC')
+      byDate.set(date, (byDate.get(date) || 0) + entry.amount)
+    }
+
+    let cumulative = 0
+    return Array.from(byDate.entries()).map(([date, spentUSD]) => {
+      cumulative += spentUSD
+      return {
+        date,
+        spentUSD,
+        cumulativeSpentUSD: cumulative,
+        availableUSD: this.config.total_budget_usd - cumulative
+      }
+    })
+  }
+}
+
+/**
+ * Live circuit breaker trips say nothing about the past, so the replay ignores them
+ */
+class BacktestCircuitBreaker extends CircuitBreaker {
+  async getOpenTrips(): Promise<CircuitBreakerTrip[]> {
+    return []
+  }
+}
+
+/**
+ * Token risk reflects today's mints and pools, not the replayed ones, so it is not checked
+ */
+class BacktestTokenRiskChecker extends TokenRiskChecker {
+  async check(): Promise<string[]> {
+    return []
+  }
+}
+
+export class AutomationBacktester {
+  private config: AutomationConfig
+
+  constructor(config: AutomationConfig) {
+    this.config = config
+  }
+
+  /**
+   * Replay history from the first position transaction (or options.from) until now
+   */
+  async run(options: BacktestOptions = {}): Promise<BacktestResult> {
+    const errors: string[] = []
+    const assumptions: string[] = [
+      'Position value moves linearly from the deposit to the current (or closing) value',
+      'Fees accrue at a constant rate estimated from claimed plus currently unclaimed fees',
+      'Positions are out of range only just before recorded rebalances, and at the end if currently out of range',
+      'Bin ranges are not replayed, so rebalances fire on leaving the range rather than nearing its edge',
+      'Historical claims, rebalances and closes are replaced by the simulated ones',
+      'Actions that require approval are assumed to be approved immediately',
+      'Token risk checks are skipped; they reflect current mints and pools',
+      'The SOL reserve is not checked; the wallet balance is not replayed',
+      'Gas is priced with default compute units at current priority fees and SOL price',
+      'Compounded fees add to position value but do not earn additional fees',
+      'Auto-open is not simulated; the replay only covers positions that exist in history'
+    ]
+
+    // Simulated config: start with nothing spent, never touch the stored row
+    const config: AutomationConfig = {
+      ...this.config,
+      ...options.configOverrides,
+      id: this.config.id,
+      user_id: this.config.user_id,
+      wallet_address: this.config.wallet_address,
+      spent_usd: 0,
+      auto_open_position: false,
+      // The wallet's SOL balance is not replayed
+      min_sol_reserve: 0
+    }
+
+    const { data: txs, error } = await supabase
+      .from('position_transactions')
+      .select('*')
+      .eq('user_id', config.user_id)
+      .eq('wallet_address', config.wallet_address)
+      .not('position_nft_address', 'is', null)
+      .order('block_time', { ascending: true })
+
+    if (error) throw error
+
+    const to = Date.now()
+    let stepHours = Math.max(1, options.stepHours ?? DEFAULT_STEP_HOURS)
+    const firstTxAt = txs && txs.length > 0 ? txs[0].block_time * 1000 : to
+    const from = options.from ? new Date(options.from).getTime() : firstTxAt
+
+    if (isNaN(from)) {
+      throw new Error(`Invalid backtest start date: ${options.from}`)
+    }
+
+    if ((to - from) / (stepHours * HOUR_MS) > MAX_STEPS) {
+      stepHours = Math.ceil((to - from) / (MAX_STEPS * HOUR_MS))
+      assumptions.push(`Step widened to ${stepHours}h to stay under ${MAX_STEPS} evaluations`)
+    }
+    const stepMs = stepHours * HOUR_MS
+
+    const positions = await this.replayPositions((txs || []) as PositionTransactionRow[], to, stepMs, errors)
+
+    const clock: BacktestClock = { now: from }
+    const budgetManager = new SimulatedBudgetManager(config, clock)
+    const costEstimator = new CostEstimator(config.wallet_address)
+    const customRules = new BacktestCustomRulesEvaluator(config, costEstimator, clock)
+    const activeAt = (t: number) => positions.filter(p => isActiveAt(p, t))
+    const rules = new BacktestRulesEvaluator(
+      config,
+      customRules,
+      costEstimator,
+      clock,
+      () => activeAt(clock.now).length,
+      nftAddress => positions.find(p => p.nftAddress === nftAddress)?.lastCompoundAt ?? null
+    )
+    const executor = new AutomationExecutor(
+      config,
+      budgetManager,
+      new BacktestCircuitBreaker(config),
+      undefined,
+      new BacktestTokenRiskChecker(config)
+    )
+    const conflictResolver = new ConflictResolver(config, budgetManager)
+
+    const actions: BacktestAction[] = []
+    let dropped = 0
+
+    for (let t = from; t <= to; t += stepMs) {
+      clock.now = t
+      const active = activeAt(t)
+      if (active.length === 0) continue
+
+      const snapshots = active.map(p => snapshotAt(p, t, to, stepMs))
+      const resolved = await conflictResolver.resolve(await rules.evaluateRules(snapshots))
+      dropped += resolved.dropped.length
+
+      for (const ruleResult of resolved.accepted) {
+        const position = active.find(p => p.nftAddress === ruleResult.positionNftAddress)
+        const snapshot = snapshots.find(s => s.position_nft_address === ruleResult.positionNftAddress)
+
+        // An earlier action this step already closed the position
+        if (position && position.simulatedCloseAt !== null) continue
+
+        const planned = await executor.planAction(ruleResult, snapshot)
+        const action: BacktestAction = {
+          at: new Date(t).toISOString(),
+          actionType: ruleResult.actionType,
+          positionNftAddress: ruleResult.positionNftAddress || null,
+          ruleName: ruleResult.ruleName || `auto_${ruleResult.actionType}`,
+          reason: ruleResult.reason,
+          decision: planned.decision,
+          estimatedCostUSD: ruleResult.estimatedCostUSD
+        }
+
+        if (planned.decision === 'blocked') {
+          action.blockedReason = planned.safetyCheck.reason
+        } else {
+          if ((ruleResult.actionType === 'claim_fees' || ruleResult.actionType === 'compound') && snapshot) {
+            action.feesClaimedUSD = snapshot.unclaimed_fees_usd
+          }
+          budgetManager.recordAction(ruleResult)
+          if (position) {
+            const compoundTarget = positions.find(p => p.nftAddress === config.compound_target_position)
+            this.applyAction(position, ruleResult, t, snapshot, compoundTarget)
+            customRules.recordFired(action.ruleName, position.nftAddress, t)
+          }
+        }
+
+        actions.push(action)
+      }
+    }
+
+    const applied = actions.filter(a => a.decision !== 'blocked')
+    const budgetTimeline = budgetManager.getTimeline()
+
+    return {
+      from: new Date(from).toISOString(),
+      to: new Date(to).toISOString(),
+      stepHours,
+      positionsReplayed: positions.length,
+      actions,
+      budgetTimeline,
+      summary: {
+        claims: applied.filter(a => a.actionType === 'claim_fees').length,
+        compounds: applied.filter(a => a.actionType === 'compound').length,
+        rebalances: applied.filter(a => a.actionType === 'rebalance').length,
+        closes: applied.filter(a => a.actionType === 'close_position').length,
+        monitors: applied.filter(a => a.actionType === 'monitor').length,
+        pendingApproval: applied.filter(a => a.decision === 'approval').length,
+        blocked: actions.length - applied.length,
+        dropped,
+        totalGasUSD: applied.reduce((sum, a) => sum + a.estimatedCostUSD, 0),
+        feesClaimedUSD: applied
+          .filter(a => a.actionType !== 'compound')
+          .reduce((sum, a) => sum + (a.feesClaimedUSD || 0), 0),
+        feesCompoundedUSD: applied
+          .filter(a => a.actionType === 'compound')
+          .reduce((sum, a) => sum + (a.feesClaimedUSD || 0), 0),
+        endingAvailableUSD: config.total_budget_usd - config.spent_usd
+      },
+      assumptions,
+      errors
+    }
+  }
+
+  /**
+   * Group transactions by position and combine them with current on-chain values
+   */
+  private async replayPositions(
+    txs: PositionTransactionRow[],
+    to: number,
+    stepMs: number,
+    errors: string[]
+  ): Promise<ReplayedPosition[]> {
+    const groups = new Map<string, PositionTransactionRow[]>()
+    for (const tx of txs) {
+      if (!groups.has(tx.position_nft_address)) {
+        groups.set(tx.position_nft_address, [])
+      }
+      groups.get(tx.position_nft_address)!.push(tx)
+    }
+
+    const openAddresses = Array.from(groups.entries())
+      .filter(([, group]) => !group.some(t => t.tx_type === 'position_close'))
+      .map(([address]) => address)
+
+    const current = new Map<string, MeteoraPositionValue>()
+    if (openAddresses.length > 0) {
+      const values = await fetchMeteoraPositionsValues(openAddresses)
+      values.positions.forEach(p => current.set(p.positionAddress, p))
+      errors.push(...values.errors)
+    }
+
+    const positions: ReplayedPosition[] = []
+
+    for (const [nftAddress, group] of groups.entries()) {
+      const openTxs = group.filter(t => t.tx_type === 'position_open')
+      if (openTxs.length === 0) {
+        errors.push(`No position_open transaction for ${nftAddress}, skipped`)
+        continue
+      }
+
+      const openTx = openTxs[0]
+      const closeTx = group.find(t => t.tx_type === 'position_close')
+      const value = current.get(nftAddress)
+
+      if (!closeTx && !value) {
+        errors.push(`No current value for open position ${nftAddress}, using its deposit value`)
+      }
+
+      const usd = (t: PositionTransactionRow) => Math.abs(Number(t.total_usd) || 0)
+      const openedAt = openTx.block_time * 1000
+      const closedAt = closeTx ? closeTx.block_time * 1000 : null
+      // Net of liquidity added to and partially withdrawn from the position after opening
+      const depositUSD = Math.max(0, group.reduce((sum, t) => {
+        if (t.tx_type === 'position_open' || t.tx_type === 'liquidity_add') return sum + usd(t)
+        if (t.tx_type === 'liquidity_remove') return sum - usd(t)
+        return sum
+      }, 0))
+      const endValueUSD = closeTx ? usd(closeTx) : value ? value.totalValueUSD : depositUSD
+
+      const claimedUSD = group
+        .filter(t => t.tx_type === 'fee_claim' || t.tx_type === 'reward_claim')
+        .reduce((sum, t) => sum + usd(t), 0)
+      const totalFeesUSD = claimedUSD + (value?.unclaimedFeesUSD || 0)
+      const lifetimeMs = Math.max((closedAt ?? to) - openedAt, stepMs)
+
+      positions.push({
+        nftAddress,
+        positionAddress: value?.positionAddress || nftAddress,
+        tokenXSymbol: openTx.token_x_symbol || value?.tokenX.symbol || 'SOL',
+        tokenYSymbol: openTx.token_y_symbol || value?.tokenY.symbol || 'USDC',
+        tokenXAmount: value ? value.tokenX.amount : Number(openTx.token_x_amount) || 0,
+        tokenYAmount: value ? value.tokenY.amount : Number(openTx.token_y_amount) || 0,
+        openedAt,
+        closedAt,
+        depositUSD,
+        endValueUSD,
+        feeRatePerMs: totalFeesUSD / lifetimeMs,
+        outOfRangeAt: group
+          .filter(t => t.tx_type === 'rebalance')
+          .map(t => t.block_time * 1000),
+        outOfRangeAtEnd: !closeTx && !!value?.isOutOfRange,
+        lastClaimAt: null,
+        lastRebalanceAt: null,
+        lastCompoundAt: null,
+        claimedFeesUSD: 0,
+        compoundedUSD: 0,
+        simulatedCloseAt: null
+      })
+    }
+
+    return positions
+  }
+
+  /**
+   * Update the simulated position after an action goes through
+   */
+  private applyAction(
+    position: ReplayedPosition,
+    ruleResult: RuleEvaluationResult,
+    at: number,
+    snapshot?: PositionInfo,
+    compoundTarget?: ReplayedPosition
+  ): void {
+    switch (ruleResult.actionType) {
+      case 'claim_fees':
+        position.claimedFeesUSD += snapshot?.unclaimed_fees_usd || 0
+        position.lastClaimAt = at
+        break
+      case 'compound': {
+        // Fees leave this position and become liquidity in the target (or itself)
+        const target = compoundTarget || position
+        target.compoundedUSD += snapshot?.unclaimed_fees_usd || 0
+        position.lastClaimAt = at
+        position.lastCompoundAt = at
+        break
+      }
+      case 'rebalance':
+        position.lastRebalanceAt = at
+        break
+      case 'close_position':
+        position.simulatedCloseAt = at
+        break
+    }
+  }
+}
+
+function isActiveAt(position: ReplayedPosition, t: number): boolean {
+  return position.openedAt <= t &&
+         (position.closedAt === null || t < position.closedAt) &&
+         (position.simulatedCloseAt === null || t < position.simulatedCloseAt)
+}
+
+/**
+ * PositionInfo as it would have looked at time t
+ */
+function snapshotAt(position: ReplayedPosition, t: number, to: number, stepMs: number): PositionInfo {
+  const endAt = position.closedAt ?? to
+  const progress = endAt > position.openedAt
+    ? Math.min(1, (t - position.openedAt) / (endAt - position.openedAt))
+    : 1
+  const totalUSD = position.depositUSD + (position.endValueUSD - position.depositUSD) * progress + position.compoundedUSD
+
+  const accrualStart = Math.max(position.openedAt, position.lastClaimAt ?? position.openedAt)
+  const unclaimedFeesUSD = position.feeRatePerMs * (t - accrualStart)
+
+  // Out of range in the step leading up to a recorded rebalance, unless one was simulated since
+  const rebalancedSince = (at: number) => position.lastRebalanceAt !== null && position.lastRebalanceAt >= at - stepMs
+  const isOutOfRange =
+    position.outOfRangeAt.some(at => t <= at && t > at - stepMs && !rebalancedSince(at)) ||
+    (position.outOfRangeAtEnd && t > endAt - stepMs && !rebalancedSince(endAt))
+
+  return {
+    position_nft_address: position.nftAddress,
+    position_address: position.positionAddress,
+    token_x_symbol: position.tokenXSymbol,
+    token_y_symbol: position.tokenYSymbol,
+    token_x_amount: position.tokenXAmount,
+    token_y_amount: position.tokenYAmount,
+    total_usd: totalUSD,
+    unclaimed_fees_usd: unclaimedFeesUSD,
+    is_out_of_range: isOutOfRange,
+    // History has no bin ranges, so only leaving the range is replayed
+    pair_address: null,
+    bin_step: null,
+    lower_bin_id: null,
+    upper_bin_id: null,
+    active_bin_id: null,
+    edge_distance_percent: null,
+    fee_apr_24h: isOutOfRange || totalUSD <= 0 ? 0 : (position.feeRatePerMs * YEAR_MS / totalUSD) * 100,
+    cost_basis_usd: position.depositUSD,
+    claimed_fees_usd: position.claimedFeesUSD,
+    opened_at: new Date(position.openedAt).toISOString(),
+    last_claim_at: position.lastClaimAt !== null ? new Date(position.lastClaimAt).toISOString() : null,
+    last_rebalance_at: position.lastRebalanceAt !== null ? new Date(position.lastRebalanceAt).toISOString() : null
+  }
+}
@@ -0,0 +1,115 @@
+import { describe, expect, it } from 'vitest'
+import { AutomationConfig } from './types'
+import { BudgetManager, localDate, SpendEntry } from './budget-manager'
+
+// 2026-10-15 02:00 UTC, still 2026-10-14 in New York
+const NOW = Date.parse('2026-10-15T02:00:00Z')
+
+class FixedBudgetManager extends BudgetManager {
+  constructor(config: AutomationConfig, private entries: SpendEntry[], private reservedUSD = 0) {
+    super(config)
+  }
+
+  protected now(): number {
+    return NOW
+  }
+
+  protected async getSpendEntries(since: number): Promise<SpendEntry[]> {
+    return this.entries.filter(entry => entry.at >= since)
+  }
+
+  protected async getReservedUSD(): Promise<number> {
+    return this.reservedUSD
+  }
+}
+
+function makeConfig(overrides: Partial<AutomationConfig> = {}): AutomationConfig {
+  return {
+    id: 'config-1',
+    user_id: 'user-1',
+    total_budget_usd: 100,
+    spent_usd: 20,
+    max_daily_spend_usd: 10,
+    weekly_spend_limit_usd: null,
+    monthly_spend_limit_usd: null,
+    budget_timezone: 'UTC',
+    sub_budgets: [],
+    ...overrides
+  } as AutomationConfig
+}
+
+const spend = (hoursAgo: number, amount: number, overrides: Partial<SpendEntry> = {}): SpendEntry => ({
+  at: NOW - hoursAgo * 60 * 60 * 1000,
+  amount,
+  actionType: 'claim_fees',
+  protocol: 'meteora',
+  ...overrides
+})
+
+describe('localDate', () => {
+  it('formats the calendar date in the timezone', () => {
+    expect(localDate(NOW, 'UTC')).toBe('2026-10-15')
+    expect(localDate(NOW, 'America/New_York')).toBe('2026-10-14')
+  })
+
+  it('falls back to UTC for an invalid timezone', () => {
+    expect(localDate(NOW, 'Not/AZone')).toBe('2026-10-15')
+  })
+})
+
+describe('BudgetManager buckets', () => {
+  it('subtracts pending reservations from the total budget', async () => {
+    const state = await new FixedBudgetManager(makeConfig(), [], 5).getBudgetState()
+
+    expect(state.availableUSD).toBe(75)
+    expect(state.buckets[0]).toMatchObject({ window: 'total', spentUSD: 25, remainingUSD: 75 })
+  })
+
+  it('counts the daily limit from local midnight in the budget timezone', async () => {
+    // 4h ago was still the 14th in UTC; in New York both spends fall on the 14th
+    const entries = [spend(1, 2), spend(4, 3)]
+
+    const utc = await new FixedBudgetManager(makeConfig(), entries).getBudgetState()
+    const newYork = await new FixedBudgetManager(makeConfig({ budget_timezone: 'America/New_York' }), entries).getBudgetState()
+
+    expect(utc.buckets.find(b => b.window === 'daily')?.spentUSD).toBe(2)
+    expect(newYork.buckets.find(b => b.window === 'daily')?.spentUSD).toBe(5)
+  })
+
+  it('sums rolling weekly and monthly windows', async () => {
+    const config = makeConfig({ weekly_spend_limit_usd: 20, monthly_spend_limit_usd: 50 })
+    const entries = [spend(24, 4), spend(6 * 24, 5), spend(8 * 24, 6), spend(31 * 24, 100)]
+
+    const { buckets } = await new FixedBudgetManager(config, entries).getBudgetState()
+
+    expect(buckets.find(b => b.window === 'weekly')).toMatchObject({ spentUSD: 9, remainingUSD: 11 })
+    expect(buckets.find(b => b.window === 'monthly')).toMatchObject({ spentUSD: 15, remainingUSD: 35 })
+  })
+
+  it('scopes sub-budgets to their protocol and action type', async () => {
+    const config = makeConfig({
+      sub_budgets: [
+        { name: 'Rebalances', protocol: null, action_type: 'rebalance', window: 'weekly', limit_usd: 6 },
+        { name: 'Orca', protocol: 'orca', action_type: null, window: 'daily', limit_usd: 1 }
+      ]
+    })
+    const entries = [spend(1, 5, { actionType: 'rebalance' }), spend(2, 0.5)]
+
+    const manager = new FixedBudgetManager(config, entries)
+    const { buckets } = await manager.getBudgetState()
+    expect(buckets.find(b => b.name === 'Rebalances')?.spentUSD).toBe(5)
+    expect(buckets.find(b => b.name === 'Orca')?.spentUSD).toBe(0)
+
+    expect(await manager.canSpend(2, 'rebalance')).toMatchObject({ allowed: false, blockedBy: 'Rebalances' })
+    expect(await manager.canSpend(2, 'claim_fees')).toEqual({ allowed: true })
+    expect(await manager.canSpend(2, 'claim_fees', 'orca')).toMatchObject({ allowed: false, blockedBy: 'Orca' })
+  })
+
+  it('blocks on the daily limit before the total budget runs out', async () => {
+    const manager = new FixedBudgetManager(makeConfig(), [spend(1, 9)])
+
+    const result = await manager.canSpend(2, 'claim_fees')
+    expect(result).toMatchObject({ allowed: false, blockedBy: 'Daily limit' })
+    expect(result.reason).toContain('Spent: $9.00 of $10.00 (daily)')
+  })
+})
@@ -1,95 +1,216 @@
 /**
  * Budget Manager
  * Tracks and enforces budget limits for automation
+ * Total budget, daily limit (in the config's timezone), rolling 7/30-day limits
+ * and per-protocol / per-action sub-budgets
  */
 
-import { AutomationConfig, BudgetState } from './types'
+import {
+  AutomationActionType,
+  AutomationConfig,
+  BudgetBucket,
+  BudgetState,
+  BudgetWindow,
+  SpendCheckResult
+} from './types'
+import { SupabaseClient } from '@supabase/supabase-js'
 import { supabase } from '@/lib/supabase'
 
+// All automation currently runs against Meteora DLMM
+export const DEFAULT_PROTOCOL = 'meteora'
+
+const DAY_MS = 24 * 60 * 60 * 1000
+
+const WINDOW_DAYS: Record<Exclude<BudgetWindow, 'daily'>, number> = {
+  weekly: 7,
+  monthly: 30
+}
+
+/**
+ * An executed spend, as recorded on automation_logs
+ */
+export interface SpendEntry {
+  at: number
+  amount: number
+  actionType: AutomationActionType
+  protocol: string
+}
+
+/**
+ * Calendar date (YYYY-MM-DD) of a timestamp in the given timezone
+ */
+export function localDate(ms: number, timeZone: string): string {
+  try {
+    // en-CA formats as YYYY-MM-DD
+    return new Intl.DateTimeFormat('en-CA', {
+      timeZone,
+      year: 'numeric',
+      month: '2-digit',
+      day: '2-digit'
+    }).format(new Date(ms))
+  } catch {
+    console.warn(`Invalid budget timezone "${timeZone}", using UTC`)
+    return new Date(ms).toISOString().split('T')[0]
+  }
+}
+
 export class BudgetManager {
-  private config: AutomationConfig
+  protected config: AutomationConfig
+  protected db: SupabaseClient
 
-  constructor(config: AutomationConfig) {
+  constructor(config: AutomationConfig, db: SupabaseClient = supabase) {
     this.config = config
+    this.db = db
   }
 
   /**
-   * Get current budget state
+   * Current time in ms (overridden when replaying history)
    */
-  async getBudgetState(): Promise<BudgetState> {
-    // Get today's date in YYYY-MM-DD format
-    const today = new Date().toISOString().split('T')[0]
-    
-    // Get today's spend from automation logs
-    const { data: logs } = await supabase
-      .from('automation_logs')
-      .select('cost_usd, created_at')
-      .eq('user_id', this.config.user_id)
-      .eq('config_id', this.config.id)
-      .eq('status', 'executed')
-      .gte('created_at', today)
-
-    const todaySpend = logs?.reduce((sum, log) => sum + (log.cost_usd || 0), 0) || 0
+  protected now(): number {
+    return Date.now()
+  }
 
-    // Get last 7 days of spending
-    const sevenDaysAgo = new Date()
-    sevenDaysAgo.setDate(sevenDaysAgo.getDate() - 7)
-    
-    const { data: recentLogs } = await supabase
+  /**
+   * Executed spend since a point in time
+   */
+  protected async getSpendEntries(since: number): Promise<SpendEntry[]> {
+    const { data: logs } = await this.db
       .from('automation_logs')
-      .select('cost_usd, created_at')
+      .select('cost_usd, created_at, action_type, protocol')
       .eq('user_id', this.config.user_id)
       .eq('config_id', this.config.id)
       .eq('status', 'executed')
-      .gte('created_at', sevenDaysAgo.toISOString())
-
-    // Group by date
-    const dailySpend: Record<string, number> = {}
-    recentLogs?.forEach(log => {
-      const date = new Date(log.created_at).toISOString().split('T')[0]
-      dailySpend[date] = (dailySpend[date] || 0) + (log.cost_usd || 0)
-    })
+      .gte('created_at', new Date(since).toISOString())
+
+    return (logs || []).map(log => ({
+      at: new Date(log.created_at).getTime(),
+      amount: log.cost_usd || 0,
+      actionType: log.action_type,
+      protocol: log.protocol || DEFAULT_PROTOCOL
+    }))
+  }
 
-    // Get reserved amount from pending approvals
-    const { data: approvals } = await supabase
+  /**
+   * Amount held by pending approvals
+   */
+  protected async getReservedUSD(): Promise<number> {
+    const { data: approvals } = await this.db
       .from('automation_approvals')
       .select('estimated_cost_usd')
       .eq('user_id', this.config.user_id)
       .eq('status', 'pending')
-      .gt('expires_at', new Date().toISOString())
+      .gt('expires_at', new Date(this.now()).toISOString())
 
-    const reservedUSD = approvals?.reduce((sum, a) => sum + (a.estimated_cost_usd || 0), 0) || 0
+    return approvals?.reduce((sum, a) => sum + (a.estimated_cost_usd || 0), 0) || 0
+  }
+
+  /**
+   * Get current budget state
+   */
+  async getBudgetState(): Promise<BudgetState> {
+    const now = this.now()
+    const timezone = this.config.budget_timezone || 'UTC'
+    const today = localDate(now, timezone)
+
+    // The longest window decides how far back to look
+    const entries = await this.getSpendEntries(now - WINDOW_DAYS.monthly * DAY_MS)
+    const reservedUSD = await this.getReservedUSD()
+    const availableUSD = this.config.total_budget_usd - this.config.spent_usd - reservedUSD
+
+    // Group the last 7 days by local date
+    const dailySpend: Record<string, number> = {}
+    entries
+      .filter(entry => entry.at >= now - WINDOW_DAYS.weekly * DAY_MS)
+      .forEach(entry => {
+        const date = localDate(entry.at, timezone)
+        dailySpend[date] = (dailySpend[date] || 0) + entry.amount
+      })
+
+    const spentIn = (window: BudgetWindow, protocol: string | null, actionType: AutomationActionType | null) =>
+      entries
+        .filter(entry => window === 'daily'
+          ? localDate(entry.at, timezone) === today
+          : entry.at >= now - WINDOW_DAYS[window] * DAY_MS)
+        .filter(entry => protocol === null || entry.protocol === protocol)
+        .filter(entry => actionType === null || entry.actionType === actionType)
+        .reduce((sum, entry) => sum + entry.amount, 0)
+
+    const bucket = (
+      name: string,
+      window: BudgetWindow,
+      limitUSD: number,
+      protocol: string | null = null,
+      actionType: AutomationActionType | null = null
+    ): BudgetBucket => {
+      const spentUSD = spentIn(window, protocol, actionType)
+      return { name, window, protocol, actionType, limitUSD, spentUSD, remainingUSD: limitUSD - spentUSD }
+    }
+
+    const buckets: BudgetBucket[] = [
+      {
+        name: 'Total budget',
+        window: 'total',
+        protocol: null,
+        actionType: null,
+        limitUSD: this.config.total_budget_usd,
+        spentUSD: this.config.spent_usd + reservedUSD,
+        remainingUSD: availableUSD
+      },
+      bucket('Daily limit', 'daily', this.config.max_daily_spend_usd)
+    ]
+
+    if (this.config.weekly_spend_limit_usd !== null && this.config.weekly_spend_limit_usd !== undefined) {
+      buckets.push(bucket('Weekly limit', 'weekly', this.config.weekly_spend_limit_usd))
+    }
+
+    if (this.config.monthly_spend_limit_usd !== null && this.config.monthly_spend_limit_usd !== undefined) {
+      buckets.push(bucket('Monthly limit', 'monthly', this.config.monthly_spend_limit_usd))
+    }
+
+    for (const subBudget of this.config.sub_budgets || []) {
+      buckets.push(bucket(
+        subBudget.name,
+        subBudget.window,
+        subBudget.limit_usd,
+        subBudget.protocol,
+        subBudget.action_type
+      ))
+    }
 
     return {
       totalBudgetUSD: this.config.total_budget_usd,
       spentUSD: this.config.spent_usd,
       reservedUSD,
-      availableUSD: this.config.total_budget_usd - this.config.spent_usd - reservedUSD,
-      dailySpend: Object.entries(dailySpend).map(([date, amount]) => ({ date, amount }))
+      availableUSD,
+      timezone,
+      dailySpend: Object.entries(dailySpend).map(([date, amount]) => ({ date, amount })),
+      buckets
     }
   }
 
   /**
    * Check if action is allowed based on budget
+   * Every bucket that covers the action's protocol and type must have room for it
    */
-  async canSpend(amountUSD: number): Promise<{ allowed: boolean; reason?: string }> {
+  async canSpend(
+    amountUSD: number,
+    actionType?: AutomationActionType,
+    protocol: string = DEFAULT_PROTOCOL
+  ): Promise<SpendCheckResult> {
     const budget = await this.getBudgetState()
 
-    // Check total budget
-    if (amountUSD > budget.availableUSD) {
-      return {
-        allowed: false,
-        reason: `Insufficient budget. Available: $${budget.availableUSD.toFixed(2)}, Required: $${amountUSD.toFixed(2)}`
-      }
-    }
-
-    // Check daily limit
-    const today = new Date().toISOString().split('T')[0]
-    const todaySpend = budget.dailySpend.find(d => d.date === today)?.amount || 0
-    if (todaySpend + amountUSD > this.config.max_daily_spend_usd) {
-      return {
-        allowed: false,
-        reason: `Daily limit exceeded. Today's spend: $${todaySpend.toFixed(2)}, Limit: $${this.config.max_daily_spend_usd.toFixed(2)}`
+    for (const bucket of budget.buckets) {
+      if (bucket.protocol !== null && bucket.protocol !== protocol) continue
+      if (bucket.actionType !== null && bucket.actionType !== actionType) continue
+
+      if (amountUSD > bucket.remainingUSD) {
+        return {
+          allowed: false,
+          blockedBy: bucket.name,
+          reason: bucket.window === 'total'
+            ? `Insufficient budget. Available: $${bucket.remainingUSD.toFixed(2)}, Required: $${amountUSD.toFixed(2)}`
+            : `${bucket.name} exceeded. Spent: $${bucket.spentUSD.toFixed(2)} of $${bucket.limitUSD.toFixed(2)} (${bucket.window}), Required: $${amountUSD.toFixed(2)}`
+        }
       }
     }
 
@@ -102,9 +223,9 @@ export class BudgetManager {
   async recordSpend(amountUSD: number): Promise<void> {
     const newSpent = this.config.spent_usd + amountUSD
 
-    await supabase
+    await this.db
       .from('automation_configs')
-      .update({ 
+      .update({
         spent_usd: newSpent,
         updated_at: new Date().toISOString()
       })
@@ -122,4 +243,3 @@ export class BudgetManager {
     return budget.availableUSD
   }
 }
-
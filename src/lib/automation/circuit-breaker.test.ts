@@ -0,0 +1,122 @@
+import { beforeEach, describe, expect, it, vi } from 'vitest'
+import { AutomationConfig, CircuitBreakerTrip } from './types'
+import type { LogOutcome } from './circuit-breaker'
+
+let trips: Partial<CircuitBreakerTrip>[] = []
+let logs: LogOutcome[] = []
+const updates: Record<string, unknown>[] = []
+const inserts: Record<string, unknown>[] = []
+
+// Chainable query stub: every filter returns itself, awaiting it resolves the table's rows
+function query(table: string) {
+  const chain = {
+    select: () => chain,
+    eq: () => chain,
+    is: () => chain,
+    gte: () => chain,
+    order: () => chain,
+    update: (row: Record<string, unknown>) => {
+      updates.push(row)
+      return chain
+    },
+    insert: (row: Record<string, unknown>) => {
+      inserts.push(row)
+      return { select: () => ({ single: async () => ({ data: { id: 'trip-new', ...row }, error: null }) }) }
+    },
+    then: (resolve: (value: { data: unknown; error: null }) => unknown) =>
+      resolve({ data: table === 'automation_logs' ? logs : trips, error: null })
+  }
+  return chain
+}
+
+vi.mock('@/lib/supabase', () => ({
+  supabase: { from: (table: string) => query(table) }
+}))
+
+const { CircuitBreaker, isFailure, isSuccess } = await import('./circuit-breaker')
+
+const config = {
+  id: 'config-1',
+  user_id: 'user-1',
+  breaker_window_hours: 24,
+  breaker_max_consecutive_failures: 3,
+  breaker_failure_rate_percent: 50,
+  breaker_cooldown_hours: 6
+} as AutomationConfig
+
+function outcome(overrides: Partial<LogOutcome> = {}): LogOutcome {
+  return {
+    action_type: 'claim_fees',
+    position_nft_address: 'position-1',
+    status: 'failed',
+    execution_state: 'failed',
+    error_message: 'Transaction expired',
+    metadata: {},
+    created_at: new Date().toISOString(),
+    ...overrides
+  }
+}
+
+const hoursFromNow = (hours: number) => new Date(Date.now() + hours * 60 * 60 * 1000).toISOString()
+
+describe('CircuitBreaker open trips', () => {
+  beforeEach(() => {
+    updates.length = 0
+    trips = [
+      { id: 'open', scope: 'config', scope_key: '', reset_at: null, resume_at: hoursFromNow(2), tripped_at: hoursFromNow(-1) },
+      { id: 'expired', scope: 'position', scope_key: 'position-1', reset_at: null, resume_at: hoursFromNow(-1), tripped_at: hoursFromNow(-7) }
+    ]
+  })
+
+  it('closes out expired trips', async () => {
+    const open = await new CircuitBreaker(config).getOpenTrips()
+
+    expect(open.map(trip => trip.id)).toEqual(['open'])
+    expect(updates).toEqual([{ reset_at: trips[1].resume_at }])
+  })
+
+  it('writes nothing while read-only', async () => {
+    const breaker = new CircuitBreaker(config)
+    breaker.setReadOnly(true)
+
+    const open = await breaker.getOpenTrips()
+    expect(open.map(trip => trip.id)).toEqual(['open'])
+    expect(await breaker.evaluate()).toEqual([])
+    expect(updates).toEqual([])
+  })
+})
+
+describe('CircuitBreaker outcomes', () => {
+  beforeEach(() => {
+    trips = []
+    logs = []
+    inserts.length = 0
+  })
+
+  it('counts execution failures', () => {
+    expect(isFailure(outcome())).toBe(true)
+    expect(isFailure(outcome({ status: 'approved', execution_state: 'failed' }))).toBe(true)
+    expect(isFailure(outcome({ metadata: { violations: ['Unknown program'] }, execution_state: 'failed' }))).toBe(true)
+    expect(isSuccess(outcome({ status: 'executed', execution_state: 'finalized' }))).toBe(true)
+  })
+
+  it('ignores safety refusals and monitor logs', () => {
+    expect(isFailure(outcome({ metadata: { safetyRefusal: true }, error_message: 'Insufficient budget' }))).toBe(false)
+    expect(isSuccess(outcome({ action_type: 'monitor', status: 'executed', execution_state: 'finalized' }))).toBe(false)
+  })
+
+  it('does not trip on repeated safety refusals', async () => {
+    logs = Array.from({ length: 5 }, () => outcome({ metadata: { safetyRefusal: true } }))
+
+    expect(await new CircuitBreaker(config).evaluate()).toEqual([])
+    expect(inserts).toEqual([])
+  })
+
+  it('trips after consecutive execution failures', async () => {
+    logs = Array.from({ length: 3 }, () => outcome())
+
+    const tripped = await new CircuitBreaker(config).evaluate()
+    expect(tripped).toHaveLength(1)
+    expect(inserts[0]).toMatchObject({ scope: 'config', consecutive_failures: 3 })
+  })
+})
@@ -0,0 +1,267 @@
+/**
+ * Circuit Breaker
+ * Pauses a config, an action type or a single position after repeated failures
+ * Trips stay open until their cooldown passes or they are reset manually
+ */
+
+import {
+  AutomationActionType,
+  AutomationConfig,
+  AutomationLog,
+  CircuitBreakerScope,
+  CircuitBreakerTrip
+} from './types'
+import { SupabaseClient } from '@supabase/supabase-js'
+import { supabase } from '@/lib/supabase'
+
+// Failure rate is only meaningful with enough outcomes in the window
+const MIN_OUTCOMES_FOR_RATE = 5
+
+export type LogOutcome = Pick<AutomationLog, 'action_type' | 'position_nft_address' | 'status' | 'execution_state' | 'error_message' | 'metadata' | 'created_at'>
+
+/**
+ * Whether a log is an execution attempt at all: monitor logs never execute, and safety refusals
+ * (budget, gas vs fees, fee threshold, token risk, SOL reserve) stop the action before it is built
+ */
+export function isExecutionOutcome(log: LogOutcome): boolean {
+  return log.action_type !== 'monitor' && log.metadata?.safetyRefusal !== true
+}
+
+/**
+ * Failed execution: rejected by policy or simulation, or failed to build, submit or confirm
+ */
+export function isFailure(log: LogOutcome): boolean {
+  return isExecutionOutcome(log) && (log.status === 'failed' || log.execution_state === 'failed')
+}
+
+export function isSuccess(log: LogOutcome): boolean {
+  return isExecutionOutcome(log) && log.status === 'executed'
+}
+
+/**
+ * Whether a trip is still in force at the given time
+ */
+export function isTripOpen(trip: CircuitBreakerTrip, now: number = Date.now()): boolean {
+  if (trip.reset_at) return false
+  return trip.resume_at === null || new Date(trip.resume_at).getTime() > now
+}
+
+export class CircuitBreaker {
+  private config: AutomationConfig
+  private openTrips: CircuitBreakerTrip[] | null = null
+  private readOnly = false
+  private db: SupabaseClient
+
+  constructor(config: AutomationConfig, db: SupabaseClient = supabase) {
+    this.config = config
+    this.db = db
+  }
+
+  /**
+   * Read-only breakers (dry runs) report trips but never close expired ones or trip new ones
+   */
+  setReadOnly(readOnly: boolean): void {
+    this.readOnly = readOnly
+  }
+
+  /**
+   * Open trips for this config (loaded once per instance)
+   */
+  async getOpenTrips(): Promise<CircuitBreakerTrip[]> {
+    if (this.openTrips) return this.openTrips
+
+    const { data, error } = await this.db
+      .from('automation_circuit_breakers')
+      .select('*')
+      .eq('config_id', this.config.id)
+      .is('reset_at', null)
+      .order('tripped_at', { ascending: false })
+
+    if (error) {
+      console.error('Error loading circuit breakers:', error)
+      return []
+    }
+
+    const trips = (data || []) as CircuitBreakerTrip[]
+
+    // Close out trips whose cooldown has passed so the scope can trip again later
+    const expired = this.readOnly ? [] : trips.filter(trip => !isTripOpen(trip))
+    for (const trip of expired) {
+      await this.db
+        .from('automation_circuit_breakers')
+        .update({ reset_at: trip.resume_at })
+        .eq('id', trip.id)
+        .is('reset_at', null)
+    }
+
+    this.openTrips = trips.filter(trip => isTripOpen(trip))
+    return this.openTrips
+  }
+
+  /**
+   * The open trip that blocks an action, if any (config-wide trips block everything)
+   */
+  async getBlockingTrip(
+    actionType?: AutomationActionType,
+    positionNftAddress?: string | null
+  ): Promise<CircuitBreakerTrip | null> {
+    const trips = await this.getOpenTrips()
+
+    return trips.find(trip =>
+      trip.scope === 'config' ||
+      (trip.scope === 'action_type' && trip.scope_key === actionType) ||
+      (trip.scope === 'position' && !!positionNftAddress && trip.scope_key === positionNftAddress)
+    ) || null
+  }
+
+  /**
+   * Check recent outcomes and trip any scope that crossed a threshold
+   * Returns the trips created by this evaluation
+   */
+  async evaluate(): Promise<CircuitBreakerTrip[]> {
+    if (this.readOnly) return []
+
+    const now = Date.now()
+    const windowStart = now - this.config.breaker_window_hours * 60 * 60 * 1000
+
+    const { data: logs, error } = await this.db
+      .from('automation_logs')
+      .select('action_type, position_nft_address, status, execution_state, error_message, metadata, created_at')
+      .eq('config_id', this.config.id)
+      .gte('created_at', new Date(windowStart).toISOString())
+      .order('created_at', { ascending: false })
+
+    if (error) throw error
+    if (!logs || logs.length === 0) return []
+
+    // Failures before the last trip of a scope ended do not count towards a new trip
+    const { data: recentTrips } = await this.db
+      .from('automation_circuit_breakers')
+      .select('*')
+      .eq('config_id', this.config.id)
+      .gte('tripped_at', new Date(windowStart).toISOString())
+
+    const tripped: CircuitBreakerTrip[] = []
+    const openTrips = await this.getOpenTrips()
+    const outcomes = logs as LogOutcome[]
+
+    const check = async (scope: CircuitBreakerScope, scopeKey: string, scopeLogs: LogOutcome[]) => {
+      if (openTrips.some(t => t.scope === scope && t.scope_key === scopeKey)) return false
+
+      const lastEnded = ((recentTrips || []) as CircuitBreakerTrip[])
+        .filter(t => t.scope === scope && t.scope_key === scopeKey)
+        .map(t => new Date(t.reset_at || t.resume_at || t.tripped_at).getTime())
+        .reduce((max, t) => Math.max(max, t), windowStart)
+
+      const trip = await this.checkScope(scope, scopeKey, scopeLogs.filter(l => new Date(l.created_at).getTime() >= lastEnded))
+      if (trip) tripped.push(trip)
+      return !!trip
+    }
+
+    // A config-wide trip covers every narrower scope
+    if (await check('config', '', outcomes)) {
+      return tripped
+    }
+
+    const actionTypes = new Set(outcomes.map(l => l.action_type))
+    for (const actionType of actionTypes) {
+      await check('action_type', actionType, outcomes.filter(l => l.action_type === actionType))
+    }
+
+    const positions = new Set(outcomes.map(l => l.position_nft_address).filter((p): p is string => !!p))
+    for (const position of positions) {
+      await check('position', position, outcomes.filter(l => l.position_nft_address === position))
+    }
+
+    return tripped
+  }
+
+  /**
+   * Manually reset one trip, or every open trip of the config
+   */
+  async reset(tripId?: string): Promise<number> {
+    let query = this.db
+      .from('automation_circuit_breakers')
+      .update({ reset_at: new Date().toISOString() })
+      .eq('config_id', this.config.id)
+      .is('reset_at', null)
+
+    if (tripId) {
+      query = query.eq('id', tripId)
+    }
+
+    const { data, error } = await query.select('id')
+    if (error) throw error
+
+    this.openTrips = null
+    return data?.length || 0
+  }
+
+  /**
+   * Trip a scope if its outcomes (newest first) cross either threshold
+   */
+  private async checkScope(
+    scope: CircuitBreakerScope,
+    scopeKey: string,
+    logs: LogOutcome[]
+  ): Promise<CircuitBreakerTrip | null> {
+    const outcomes = logs.filter(l => isFailure(l) || isSuccess(l))
+    if (outcomes.length === 0) return null
+
+    let consecutiveFailures = 0
+    for (const log of outcomes) {
+      if (!isFailure(log)) break
+      consecutiveFailures++
+    }
+
+    const failures = outcomes.filter(isFailure).length
+    const failureRate = (failures / outcomes.length) * 100
+
+    let reason: string | null = null
+    if (consecutiveFailures >= this.config.breaker_max_consecutive_failures) {
+      reason = `${consecutiveFailures} consecutive failures`
+    } else if (outcomes.length >= MIN_OUTCOMES_FOR_RATE && failureRate >= this.config.breaker_failure_rate_percent) {
+      reason = `Failure rate ${failureRate.toFixed(0)}% (${failures}/${outcomes.length}) over ${this.config.breaker_window_hours}h`
+    }
+
+    if (!reason) return null
+
+    const lastError = outcomes.find(l => isFailure(l) && l.error_message)?.error_message
+    if (lastError) {
+      reason += `. Last error: ${lastError}`
+    }
+
+    const now = new Date()
+    const resumeAt = this.config.breaker_cooldown_hours !== null
+      ? new Date(now.getTime() + this.config.breaker_cooldown_hours * 60 * 60 * 1000).toISOString()
+      : null
+
+    const { data, error } = await this.db
+      .from('automation_circuit_breakers')
+      .insert({
+        user_id: this.config.user_id,
+        config_id: this.config.id,
+        scope,
+        scope_key: scopeKey,
+        reason,
+        consecutive_failures: consecutiveFailures,
+        failure_rate_percent: failureRate,
+        tripped_at: now.toISOString(),
+        resume_at: resumeAt
+      })
+      .select()
+      .single()
+
+    if (error) {
+      // Another run tripped the same scope first (unique open trip per scope)
+      if (error.code === '23505') return null
+      throw error
+    }
+
+    const trip = data as CircuitBreakerTrip
+    this.openTrips = [...(this.openTrips || []), trip]
+    console.warn(`⚡ Circuit breaker tripped for config ${this.config.id} (${scope}${scopeKey ? ` ${scopeKey}` : ''}): ${reason}`)
+
+    return trip
+  }
+}
@@ -0,0 +1,141 @@
+import { describe, expect, it } from 'vitest'
+import { AutomationConfig, BudgetBucket, BudgetState, RuleEvaluationResult } from './types'
+import { BudgetManager } from './budget-manager'
+import { ConflictResolver } from './conflict-resolver'
+
+class FixedBudgetManager extends BudgetManager {
+  constructor(config: AutomationConfig, private buckets: BudgetBucket[]) {
+    super(config)
+  }
+
+  async getBudgetState(): Promise<BudgetState> {
+    return {
+      totalBudgetUSD: 100,
+      spentUSD: 0,
+      reservedUSD: 0,
+      availableUSD: 100,
+      timezone: 'UTC',
+      dailySpend: [],
+      buckets: this.buckets
+    }
+  }
+}
+
+const bucket = (name: string, remainingUSD: number, overrides: Partial<BudgetBucket> = {}): BudgetBucket => ({
+  name,
+  window: 'daily',
+  protocol: null,
+  actionType: null,
+  limitUSD: remainingUSD,
+  spentUSD: 0,
+  remainingUSD,
+  ...overrides
+})
+
+function makeResolver(overrides: Partial<AutomationConfig> = {}, buckets: BudgetBucket[] = [bucket('Total budget', 100)]) {
+  const config = {
+    id: 'config-1',
+    user_id: 'user-1',
+    max_actions_per_cycle: 0,
+    action_priorities: {},
+    ...overrides
+  } as AutomationConfig
+  return new ConflictResolver(config, new FixedBudgetManager(config, buckets))
+}
+
+const result = (
+  actionType: RuleEvaluationResult['actionType'],
+  positionNftAddress: string | undefined,
+  overrides: Partial<RuleEvaluationResult> = {}
+): RuleEvaluationResult => ({
+  shouldExecute: true,
+  actionType,
+  reason: `${actionType} matched`,
+  estimatedCostUSD: 1,
+  requiresApproval: false,
+  positionNftAddress,
+  ...overrides
+})
+
+describe('ConflictResolver', () => {
+  it('orders by priority and keeps evaluation order for ties', async () => {
+    const { accepted } = await makeResolver().resolve([
+      result('claim_fees', 'a'),
+      result('open_position', undefined),
+      result('claim_fees', 'b'),
+      result('close_position', 'c')
+    ])
+
+    expect(accepted.map(r => `${r.actionType}:${r.positionNftAddress}`)).toEqual([
+      'close_position:c',
+      'claim_fees:a',
+      'claim_fees:b',
+      'open_position:undefined'
+    ])
+  })
+
+  it('honours config and custom rule priorities', async () => {
+    const { accepted } = await makeResolver({ action_priorities: { claim_fees: 200 } }).resolve([
+      result('rebalance', 'a'),
+      result('claim_fees', 'b'),
+      result('compound', 'c', { priority: 300 })
+    ])
+
+    expect(accepted.map(r => r.actionType)).toEqual(['compound', 'claim_fees', 'rebalance'])
+  })
+
+  it('keeps one position-changing action per position', async () => {
+    const { accepted, dropped } = await makeResolver().resolve([
+      result('claim_fees', 'a', { ruleName: 'claim' }),
+      result('rebalance', 'a', { ruleName: 'edge' }),
+      result('rebalance', 'a', { ruleName: 'volatility' }),
+      result('monitor', 'a')
+    ])
+
+    expect(accepted.map(r => r.ruleName || r.actionType)).toEqual(['edge', 'monitor'])
+    expect(dropped.map(d => [d.ruleResult.ruleName, d.reason, d.droppedBy])).toEqual([
+      ['volatility', 'Duplicate rebalance for this position', 'rebalance (edge)'],
+      ['claim', 'Covered by rebalance (edge) on the same position', 'rebalance (edge)']
+    ])
+  })
+
+  it('drops actions conflicting with a higher-priority action it does not cover', async () => {
+    const { dropped } = await makeResolver({ action_priorities: { claim_fees: 90 } }).resolve([
+      result('claim_fees', 'a'),
+      result('rebalance', 'a')
+    ])
+
+    expect(dropped[0].reason).toBe('Conflicts with higher-priority claim_fees (auto_claim_fees) on the same position')
+  })
+
+  it('drops actions the shared budget cannot cover after higher-priority ones', async () => {
+    const buckets = [
+      bucket('Total budget', 50, { window: 'total' }),
+      bucket('Daily limit', 3),
+      // Sub-budgets are left to the safety checks
+      bucket('Rebalances', 0, { actionType: 'rebalance' })
+    ]
+    const { accepted, dropped } = await makeResolver({}, buckets).resolve([
+      result('claim_fees', 'a', { estimatedCostUSD: 1 }),
+      result('rebalance', 'b', { estimatedCostUSD: 1.5 }),
+      result('compound', 'c', { estimatedCostUSD: 1 }),
+      result('monitor', 'd', { estimatedCostUSD: 0 })
+    ])
+
+    expect(accepted.map(r => r.actionType)).toEqual(['rebalance', 'compound', 'monitor'])
+    expect(dropped).toHaveLength(1)
+    expect(dropped[0].reason).toBe('Budget left after higher-priority actions is $0.50, needs $1.00')
+  })
+
+  it('caps actions per cycle without counting monitors', async () => {
+    const { accepted, dropped } = await makeResolver({ max_actions_per_cycle: 2 }).resolve([
+      result('claim_fees', 'a'),
+      result('claim_fees', 'b'),
+      result('claim_fees', 'c'),
+      result('monitor', 'c')
+    ])
+
+    expect(accepted.map(r => `${r.actionType}:${r.positionNftAddress}`)).toEqual(['claim_fees:a', 'claim_fees:b', 'monitor:c'])
+    expect(dropped[0].reason).toBe('Per-cycle action cap (2) reached')
+  })
+})
@@ -0,0 +1,125 @@
+/**
+ * Conflict Resolver
+ * Orders one cycle's rule results by priority and drops the ones that conflict:
+ * a second action on the same position, actions the remaining budget cannot cover
+ * once higher-priority actions are paid for, and anything over the per-cycle cap
+ */
+
+import { AutomationActionType, AutomationConfig, DroppedRuleResult, RuleEvaluationResult } from './types'
+import { BudgetManager } from './budget-manager'
+
+// Higher runs first; overridable per config (action_priorities) and per custom rule
+export const DEFAULT_ACTION_PRIORITIES: Record<AutomationActionType, number> = {
+  close_position: 100,
+  rebalance: 80,
+  compound: 60,
+  claim_fees: 50,
+  open_position: 30,
+  monitor: 10
+}
+
+// Actions that change a position: only one of them per position per cycle
+const POSITION_EXCLUSIVE_ACTIONS: AutomationActionType[] = ['close_position', 'rebalance', 'compound', 'claim_fees']
+
+// What each action already does to the position (a rebalance claims the fees on the way out)
+const COVERS: Partial<Record<AutomationActionType, AutomationActionType[]>> = {
+  close_position: ['rebalance', 'compound', 'claim_fees'],
+  rebalance: ['compound', 'claim_fees'],
+  compound: ['claim_fees']
+}
+
+export interface ResolvedRuleResults {
+  // In execution order
+  accepted: RuleEvaluationResult[]
+  dropped: DroppedRuleResult[]
+}
+
+function describe(result: RuleEvaluationResult): string {
+  return `${result.actionType} (${result.ruleName || `auto_${result.actionType}`})`
+}
+
+export class ConflictResolver {
+  private config: AutomationConfig
+  private budgetManager: BudgetManager
+
+  constructor(config: AutomationConfig, budgetManager?: BudgetManager) {
+    this.config = config
+    this.budgetManager = budgetManager || new BudgetManager(config)
+  }
+
+  /**
+   * Priority of a rule result (custom rule priority, then config override, then default)
+   */
+  getPriority(result: RuleEvaluationResult): number {
+    return result.priority ??
+           this.config.action_priorities?.[result.actionType] ??
+           DEFAULT_ACTION_PRIORITIES[result.actionType]
+  }
+
+  /**
+   * Decide which of a cycle's rule results go ahead, and in what order
+   */
+  async resolve(results: RuleEvaluationResult[]): Promise<ResolvedRuleResults> {
+    const accepted: RuleEvaluationResult[] = []
+    const dropped: DroppedRuleResult[] = []
+
+    // Stable sort: equal priorities keep evaluation order
+    const ordered = results
+      .map((result, index) => ({ result, index, priority: this.getPriority(result) }))
+      .sort((a, b) => b.priority - a.priority || a.index - b.index)
+
+    // Budget shared by every action (total and account-wide windows, not sub-budgets)
+    const budget = await this.budgetManager.getBudgetState()
+    let remainingUSD = Math.min(
+      ...budget.buckets
+        .filter(bucket => bucket.protocol === null && bucket.actionType === null)
+        .map(bucket => bucket.remainingUSD)
+    )
+
+    const cap = this.config.max_actions_per_cycle
+    let counted = 0
+
+    for (const { result } of ordered) {
+      const drop = (reason: string, droppedBy?: RuleEvaluationResult) => {
+        dropped.push({ ruleResult: result, reason, droppedBy: droppedBy ? describe(droppedBy) : undefined })
+      }
+
+      const position = result.positionNftAddress
+      if (position && POSITION_EXCLUSIVE_ACTIONS.includes(result.actionType)) {
+        const winner = accepted.find(a =>
+          a.positionNftAddress === position && POSITION_EXCLUSIVE_ACTIONS.includes(a.actionType))
+
+        if (winner) {
+          if (winner.actionType === result.actionType) {
+            drop(`Duplicate ${result.actionType} for this position`, winner)
+          } else if (COVERS[winner.actionType]?.includes(result.actionType)) {
+            drop(`Covered by ${describe(winner)} on the same position`, winner)
+          } else {
+            drop(`Conflicts with higher-priority ${describe(winner)} on the same position`, winner)
+          }
+          continue
+        }
+      }
+
+      // Monitoring only writes a log, so it is neither capped nor budgeted
+      if (result.actionType !== 'monitor') {
+        if (cap > 0 && counted >= cap) {
+          drop(`Per-cycle action cap (${cap}) reached`)
+          continue
+        }
+
+        if (result.estimatedCostUSD > remainingUSD) {
+          drop(`Budget left after higher-priority actions is $${Math.max(remainingUSD, 0).toFixed(2)}, needs $${result.estimatedCostUSD.toFixed(2)}`)
+          continue
+        }
+
+        remainingUSD -= result.estimatedCostUSD
+        counted++
+      }
+
+      accepted.push(result)
+    }
+
+    return { accepted, dropped }
+  }
+}
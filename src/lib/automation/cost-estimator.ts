@@ -0,0 +1,198 @@
+/**
+ * Cost Estimator
+ * Estimates the network cost of an automation action from the actual transaction:
+ * compute units from simulation, recent prioritization fees and the current SOL price
+ */
+
+import { Connection, LAMPORTS_PER_SOL, PublicKey, Transaction, VersionedTransaction } from '@solana/web3.js'
+import { AutomationActionType, PositionInfo } from './types'
+import { TransactionBuilder } from './transaction-builder'
+import { getServerRpcUrl } from '@/lib/env-config'
+import { getSolPriceUSD } from '@/lib/sol-price'
+
+const LAMPORTS_PER_SIGNATURE = 5000
+
+// Total compute units per action, used when the transaction cannot be built or simulated
+const DEFAULT_COMPUTE_UNITS: Record<AutomationActionType, number> = {
+  claim_fees: 100_000,
+  compound: 250_000,
+  rebalance: 400_000,
+  open_position: 300_000,
+  close_position: 200_000,
+  monitor: 0
+}
+
+// Rebalance is a close followed by an open when estimated without a built transaction
+const DEFAULT_TRANSACTION_COUNT: Record<AutomationActionType, number> = {
+  claim_fees: 1,
+  compound: 1,
+  rebalance: 2,
+  open_position: 1,
+  close_position: 1,
+  monitor: 0
+}
+
+// Percentile of recent prioritization fees to pay (landing reliably without overpaying)
+const PRIORITY_FEE_PERCENTILE = 0.75
+
+export interface CostEstimate {
+  actionType: AutomationActionType
+  source: 'simulation' | 'default'
+  transactionCount: number
+  computeUnits: number
+  priorityFeeMicroLamports: number
+  feeLamports: number
+  feeSOL: number
+  solPriceUSD: number
+  costUSD: number
+}
+
+/**
+ * Fee in lamports: base fee per signature plus priority fee on the compute units used
+ */
+export function calculateFeeLamports(
+  signatures: number,
+  computeUnits: number,
+  priorityFeeMicroLamports: number
+): number {
+  return signatures * LAMPORTS_PER_SIGNATURE + Math.ceil((computeUnits * priorityFeeMicroLamports) / 1_000_000)
+}
+
+export class CostEstimator {
+  private walletAddress: string
+  private connection: Connection
+  private builder: TransactionBuilder
+  // Priority fees do not move much within one automation run
+  private priorityFeeCache = new Map<string, number>()
+
+  constructor(walletAddress: string, connection?: Connection, builder?: TransactionBuilder) {
+    this.walletAddress = walletAddress
+    this.connection = connection || new Connection(getServerRpcUrl(), 'confirmed')
+    this.builder = builder || new TransactionBuilder()
+  }
+
+  /**
+   * Estimate an action by building and simulating its transaction
+   * Falls back to default compute units when the transaction cannot be built
+   */
+  async estimate(actionType: AutomationActionType, position?: PositionInfo): Promise<CostEstimate> {
+    if (actionType === 'claim_fees' || actionType === 'compound' || actionType === 'rebalance' || actionType === 'close_position') {
+      if (position) {
+        try {
+          const transaction = await this.builder.buildTransaction({
+            actionType,
+            positionNftAddress: position.position_nft_address,
+            positionAddress: position.position_address,
+            walletAddress: this.walletAddress
+          })
+          return await this.estimateTransaction(actionType, transaction)
+        } catch (error: any) {
+          console.warn(`Cost estimate for ${actionType} fell back to defaults: ${error.message}`)
+        }
+      }
+    }
+
+    return this.estimateDefault(actionType)
+  }
+
+  /**
+   * Estimate from default compute units and the current network priority fee
+   */
+  async estimateDefault(actionType: AutomationActionType): Promise<CostEstimate> {
+    const transactionCount = DEFAULT_TRANSACTION_COUNT[actionType]
+    const computeUnits = DEFAULT_COMPUTE_UNITS[actionType]
+    const priorityFee = transactionCount > 0 ? await this.getPriorityFee([]) : 0
+
+    return this.toEstimate(actionType, 'default', transactionCount, 1, computeUnits, priorityFee)
+  }
+
+  /**
+   * Estimate a built transaction: simulated compute units, priority fee for its writable accounts
+   */
+  async estimateTransaction(actionType: AutomationActionType, transaction: Transaction): Promise<CostEstimate> {
+    if (!transaction.feePayer) {
+      throw new Error('Transaction has no fee payer')
+    }
+    if (!transaction.recentBlockhash) {
+      transaction.recentBlockhash = (await this.connection.getLatestBlockhash('confirmed')).blockhash
+    }
+
+    const message = transaction.compileMessage()
+    const simulation = await this.connection.simulateTransaction(new VersionedTransaction(message), {
+      sigVerify: false,
+      replaceRecentBlockhash: true,
+      commitment: 'confirmed'
+    })
+
+    if (simulation.value.err) {
+      throw new Error(`Simulation failed: ${JSON.stringify(simulation.value.err)}`)
+    }
+
+    const computeUnits = simulation.value.unitsConsumed ?? DEFAULT_COMPUTE_UNITS[actionType]
+    const writableAccounts = message.accountKeys
+      .filter((_, index) => message.isAccountWritable(index))
+      .map(key => key.toBase58())
+    const priorityFee = await this.getPriorityFee(writableAccounts)
+
+    return this.toEstimate(
+      actionType,
+      'simulation',
+      1,
+      message.header.numRequiredSignatures,
+      computeUnits,
+      priorityFee
+    )
+  }
+
+  /**
+   * Recent prioritization fee (micro-lamports per compute unit) for the given accounts
+   */
+  private async getPriorityFee(writableAccounts: string[]): Promise<number> {
+    const cacheKey = [...writableAccounts].sort().join(',')
+    const cachedFee = this.priorityFeeCache.get(cacheKey)
+    if (cachedFee !== undefined) return cachedFee
+
+    let fee = 0
+    try {
+      const recent = await this.connection.getRecentPrioritizationFees({
+        lockedWritableAccounts: writableAccounts.map(address => new PublicKey(address))
+      })
+      const fees = recent.map(f => f.prioritizationFee).sort((a, b) => a - b)
+      if (fees.length > 0) {
+        fee = fees[Math.min(fees.length - 1, Math.floor(fees.length * PRIORITY_FEE_PERCENTILE))]
+      }
+    } catch (error: any) {
+      console.warn(`Could not fetch prioritization fees: ${error.message}`)
+    }
+
+    this.priorityFeeCache.set(cacheKey, fee)
+    return fee
+  }
+
+  private async toEstimate(
+    actionType: AutomationActionType,
+    source: CostEstimate['source'],
+    transactionCount: number,
+    signaturesPerTransaction: number,
+    computeUnits: number,
+    priorityFeeMicroLamports: number
+  ): Promise<CostEstimate> {
+    const perTransactionUnits = transactionCount > 0 ? computeUnits / transactionCount : 0
+    const feeLamports = transactionCount *
+      calculateFeeLamports(signaturesPerTransaction, perTransactionUnits, priorityFeeMicroLamports)
+    const feeSOL = feeLamports / LAMPORTS_PER_SOL
+    const solPriceUSD = await getSolPriceUSD()
+
+    return {
+      actionType,
+      source,
+      transactionCount,
+      computeUnits,
+      priorityFeeMicroLamports,
+      feeLamports,
+      feeSOL,
+      solPriceUSD,
+      costUSD: feeSOL * solPriceUSD
+    }
+  }
+}
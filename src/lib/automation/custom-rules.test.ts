@@ -0,0 +1,236 @@
+import { beforeEach, describe, expect, it, vi } from 'vitest'
+import type { SupabaseClient } from '@supabase/supabase-js'
+import {
+  AutomationConfig,
+  CustomAutomationRule,
+  PositionInfo,
+  RuleCondition,
+  RuleConditionGroup
+} from './types'
+import type { CostEstimator } from './cost-estimator'
+
+const inserted: Record<string, unknown>[] = []
+
+// The executor writes its logs through the default client
+vi.mock('@/lib/supabase', () => ({
+  supabase: {
+    from: () => ({
+      insert: (row: Record<string, unknown>) => {
+        inserted.push(row)
+        return { select: () => ({ single: async () => ({ data: { id: 'log-1', ...row }, error: null }) }) }
+      }
+    })
+  }
+}))
+
+const { CustomRulesEvaluator, matchesCondition, matchesGroup } = await import('./custom-rules')
+const { AutomationExecutor } = await import('./executor')
+
+const NOW = Date.parse('2026-10-19T12:00:00Z')
+const HOUR_MS = 60 * 60 * 1000
+
+const config = {
+  id: 'config-1',
+  user_id: 'user-1',
+  wallet_address: 'wallet-1',
+  require_manual_approval: false,
+  approval_threshold_usd: 10
+} as AutomationConfig
+
+const position: PositionInfo = {
+  position_nft_address: 'position-1',
+  position_address: 'position-account-1',
+  token_x_symbol: 'SOL',
+  token_y_symbol: 'USDC',
+  token_x_amount: 1,
+  token_y_amount: 150,
+  total_usd: 300,
+  unclaimed_fees_usd: 8,
+  is_out_of_range: false,
+  pair_address: 'pair-1',
+  bin_step: 10,
+  lower_bin_id: -30,
+  upper_bin_id: 30,
+  active_bin_id: 0,
+  edge_distance_percent: null,
+  fee_apr_24h: 24,
+  cost_basis_usd: 280,
+  claimed_fees_usd: 4,
+  opened_at: '2026-10-01T00:00:00Z',
+  last_claim_at: null,
+  last_rebalance_at: null
+}
+
+const condition = (
+  field: RuleCondition['field'],
+  operator: RuleCondition['operator'],
+  value: RuleCondition['value']
+): RuleCondition => ({ field, operator, value })
+
+const costEstimator = { estimate: async () => ({ costUSD: 0.01 }) } as unknown as CostEstimator
+
+// Answers the cooldown lookup with lastFiredAt and records the filters it was asked with
+function makeDb(lastFiredAt: string | null) {
+  const filters: Record<string, unknown> = {}
+  const chain = {
+    select: () => chain,
+    eq: (column: string, value: unknown) => {
+      filters[column] = value
+      return chain
+    },
+    in: () => chain,
+    gte: () => chain,
+    order: () => chain,
+    limit: async () => ({ data: lastFiredAt ? [{ created_at: lastFiredAt }] : [], error: null })
+  }
+  return { db: { from: () => chain } as unknown as SupabaseClient, filters }
+}
+
+class FixedClockEvaluator extends CustomRulesEvaluator {
+  protected now(): number {
+    return NOW
+  }
+}
+
+function rule(overrides: Partial<CustomAutomationRule> = {}): CustomAutomationRule {
+  return {
+    id: 'rule-1',
+    user_id: 'user-1',
+    config_id: 'config-1',
+    name: 'fees over 5',
+    description: null,
+    conditions: { logic: 'AND', conditions: [condition('unclaimed_fees_usd', '>', 5)] },
+    action_type: 'claim_fees',
+    cooldown_hours: 0,
+    priority: null,
+    requires_approval: false,
+    is_active: true,
+    created_at: '2026-10-01T00:00:00Z',
+    updated_at: '2026-10-01T00:00:00Z',
+    ...overrides
+  }
+}
+
+describe('matchesCondition', () => {
+  it.each([
+    ['>', 8, false],
+    ['>', 7.5, true],
+    ['>=', 8, true],
+    ['>=', 8.5, false],
+    ['<', 8, false],
+    ['<', 9, true],
+    ['<=', 8, true],
+    ['<=', 7, false],
+    ['==', 8, true],
+    ['==', 7, false],
+    ['!=', 7, true],
+    ['!=', 8, false]
+  ] as const)('unclaimed_fees_usd (8) %s %s is %s', (operator, value, expected) => {
+    expect(matchesCondition(condition('unclaimed_fees_usd', operator, value), position)).toBe(expected)
+  })
+
+  it('compares booleans by equality', () => {
+    expect(matchesCondition(condition('is_out_of_range', '==', false), position)).toBe(true)
+    expect(matchesCondition(condition('is_out_of_range', '!=', false), position)).toBe(false)
+  })
+
+  it('does not order non-numeric fields', () => {
+    expect(matchesCondition(condition('token_x_symbol', '>', 0), position)).toBe(false)
+    expect(matchesCondition(condition('token_x_symbol', '==', 'SOL'), position)).toBe(true)
+  })
+
+  it('never matches a missing or null field, whatever the operator', () => {
+    const partial = { ...position, edge_distance_percent: null } as PositionInfo
+    const missing = { ...position } as Partial<PositionInfo>
+    delete missing.bin_step
+
+    for (const operator of ['>', '>=', '<', '<=', '==', '!='] as const) {
+      expect(matchesCondition(condition('edge_distance_percent', operator, 0), partial)).toBe(false)
+      expect(matchesCondition(condition('bin_step', operator, 0), missing as PositionInfo)).toBe(false)
+    }
+  })
+})
+
+describe('matchesGroup', () => {
+  const fees = condition('unclaimed_fees_usd', '>', 5)
+  const lowApr = condition('fee_apr_24h', '<', 20)
+  const outOfRange = condition('is_out_of_range', '==', true)
+
+  it('needs every condition of an AND group', () => {
+    expect(matchesGroup({ logic: 'AND', conditions: [fees] }, position)).toBe(true)
+    expect(matchesGroup({ logic: 'AND', conditions: [fees, lowApr] }, position)).toBe(false)
+  })
+
+  it('needs one condition of an OR group', () => {
+    expect(matchesGroup({ logic: 'OR', conditions: [lowApr, fees] }, position)).toBe(true)
+    expect(matchesGroup({ logic: 'OR', conditions: [lowApr, outOfRange] }, position)).toBe(false)
+  })
+
+  it('evaluates nested groups', () => {
+    const nested: RuleConditionGroup = {
+      logic: 'AND',
+      conditions: [fees, { logic: 'OR', conditions: [lowApr, condition('total_usd', '>=', 300)] }]
+    }
+    expect(matchesGroup(nested, position)).toBe(true)
+    expect(matchesGroup(nested, { ...position, total_usd: 250 })).toBe(false)
+  })
+
+  it('fails an OR group whose only match is a null field', () => {
+    const group: RuleConditionGroup = { logic: 'OR', conditions: [condition('edge_distance_percent', '<', 10), lowApr] }
+    expect(matchesGroup(group, position)).toBe(false)
+  })
+
+  it('never matches an empty group', () => {
+    expect(matchesGroup({ logic: 'AND', conditions: [] }, position)).toBe(false)
+    expect(matchesGroup({ logic: 'OR', conditions: [] }, position)).toBe(false)
+  })
+})
+
+describe('CustomRulesEvaluator cooldown', () => {
+  it('holds a rule that fired for the position within its cooldown', async () => {
+    const { db, filters } = makeDb(new Date(NOW - 2 * HOUR_MS).toISOString())
+    const evaluator = new FixedClockEvaluator(config, costEstimator, db)
+
+    const result = await evaluator.evaluateRule(rule({ cooldown_hours: 6 }), position)
+
+    expect(result.shouldExecute).toBe(false)
+    expect(result.reason).toBe('Rule "fees over 5" cooldown active. 4.0 hours remaining')
+    expect(filters).toMatchObject({ config_id: 'config-1', rule_name: 'fees over 5', position_nft_address: 'position-1' })
+  })
+
+  it('fires again once nothing was logged within the cooldown', async () => {
+    const { db } = makeDb(null)
+    const evaluator = new FixedClockEvaluator(config, costEstimator, db)
+
+    const result = await evaluator.evaluateRule(rule({ cooldown_hours: 6 }), position)
+
+    expect(result).toMatchObject({ shouldExecute: true, ruleName: 'fees over 5', estimatedCostUSD: 0.01 })
+  })
+
+  it('skips the lookup without a cooldown', async () => {
+    const { db, filters } = makeDb(new Date(NOW).toISOString())
+    const evaluator = new FixedClockEvaluator(config, costEstimator, db)
+
+    const result = await evaluator.evaluateRule(rule(), position)
+
+    expect(result.shouldExecute).toBe(true)
+    expect(filters).toEqual({})
+  })
+})
+
+describe('custom rule logs', () => {
+  beforeEach(() => {
+    inserted.length = 0
+  })
+
+  it('records the fired rule name on the log', async () => {
+    const { db } = makeDb(null)
+    const evaluator = new FixedClockEvaluator(config, costEstimator, db)
+    const result = await evaluator.evaluateRule(rule({ name: 'watch fees', action_type: 'monitor' }), position)
+
+    await new AutomationExecutor(config).executeAction(result, position)
+
+    expect(inserted).toHaveLength(1)
+    expect(inserted[0]).toMatchObject({ action_type: 'monitor', rule_name: 'watch fees', position_nft_address: 'position-1' })
+  })
+})
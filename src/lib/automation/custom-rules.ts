@@ -0,0 +1,238 @@
+/**
+ * Custom Automation Rules
+ * Evaluates user-defined rules stored in the automation_rules table
+ */
+
+import {
+  AutomationActionType,
+  AutomationConfig,
+  CustomAutomationRule,
+  PositionInfo,
+  RuleCondition,
+  RuleConditionGroup,
+  RuleEvaluationResult
+} from './types'
+import { SupabaseClient } from '@supabase/supabase-js'
+import { supabase } from '@/lib/supabase'
+import { CostEstimator } from './cost-estimator'
+
+// Actions a custom rule may trigger (rules are evaluated per position)
+const CUSTOM_RULE_ACTIONS: CustomAutomationRule['action_type'][] = [
+  'claim_fees',
+  'compound',
+  'rebalance',
+  'close_position',
+  'monitor'
+]
+
+export class CustomRulesEvaluator {
+  protected config: AutomationConfig
+  protected costEstimator: CostEstimator
+  private db: SupabaseClient
+
+  constructor(config: AutomationConfig, costEstimator?: CostEstimator, db: SupabaseClient = supabase) {
+    this.config = config
+    this.costEstimator = costEstimator || new CostEstimator(config.wallet_address)
+    this.db = db
+  }
+
+  /**
+   * Current time in ms (overridden when replaying history)
+   */
+  protected now(): number {
+    return Date.now()
+  }
+
+  /**
+   * Network cost of an action in USD (built and simulated when possible)
+   */
+  protected async estimateCostUSD(actionType: AutomationActionType, position: PositionInfo): Promise<number> {
+    const estimate = await this.costEstimator.estimate(actionType, position)
+    return estimate.costUSD
+  }
+
+  /**
+   * Load active custom rules for this config
+   */
+  async loadRules(): Promise<CustomAutomationRule[]> {
+    const { data, error } = await this.db
+      .from('automation_rules')
+      .select('*')
+      .eq('config_id', this.config.id)
+      .eq('is_active', true)
+      .order('created_at', { ascending: true })
+
+    if (error) {
+      console.error('Error loading custom automation rules:', error)
+      return []
+    }
+
+    return ((data || []) as CustomAutomationRule[]).filter(rule => {
+      if (!CUSTOM_RULE_ACTIONS.includes(rule.action_type)) {
+        console.warn(`Skipping custom rule "${rule.name}": unsupported action ${rule.action_type}`)
+        return false
+      }
+      return true
+    })
+  }
+
+  /**
+   * Evaluate all custom rules against every position
+   */
+  async evaluateRules(positions: PositionInfo[]): Promise<RuleEvaluationResult[]> {
+    const rules = await this.loadRules()
+    const results: RuleEvaluationResult[] = []
+
+    for (const rule of rules) {
+      for (const position of positions) {
+        const result = await this.evaluateRule(rule, position)
+        if (result.shouldExecute) {
+          results.push(result)
+        }
+      }
+    }
+
+    return results
+  }
+
+  /**
+   * Evaluate a single rule against a single position
+   */
+  async evaluateRule(rule: CustomAutomationRule, position: PositionInfo): Promise<RuleEvaluationResult> {
+    if (!matchesGroup(rule.conditions, position)) {
+      return {
+        shouldExecute: false,
+        actionType: rule.action_type,
+        estimatedCostUSD: 0,
+        reason: `Conditions for rule "${rule.name}" not met`,
+        requiresApproval: false,
+        ruleName: rule.name
+      }
+    }
+
+    // Check cooldown against the last time this rule fired for this position
+    if (rule.cooldown_hours > 0) {
+      const cooldownMs = rule.cooldown_hours * 60 * 60 * 1000
+      const lastFiredAt = await this.getLastFiredAt(rule, position, cooldownMs)
+
+      if (lastFiredAt) {
+        const timeSinceFired = this.now() - new Date(lastFiredAt).getTime()
+        if (timeSinceFired < cooldownMs) {
+          const hoursRemaining = (cooldownMs - timeSinceFired) / (60 * 60 * 1000)
+          return {
+            shouldExecute: false,
+            actionType: rule.action_type,
+            estimatedCostUSD: 0,
+            reason: `Rule "${rule.name}" cooldown active. ${hoursRemaining.toFixed(1)} hours remaining`,
+            requiresApproval: false,
+            ruleName: rule.name
+          }
+        }
+      }
+    }
+
+    const estimatedCostUSD = await this.estimateCostUSD(rule.action_type, position)
+    // Compounding moves the fees, not the position, so it is gated on the fee amount
+    const amountAtRiskUSD = rule.action_type === 'compound' ? position.unclaimed_fees_usd : position.total_usd
+    const requiresApproval = rule.requires_approval ||
+                            (this.config.require_manual_approval &&
+                             rule.action_type !== 'claim_fees' &&
+                             amountAtRiskUSD > this.config.approval_threshold_usd)
+
+    return {
+      shouldExecute: true,
+      actionType: rule.action_type,
+      positionAddress: position.position_address,
+      positionNftAddress: position.position_nft_address,
+      estimatedCostUSD,
+      reason: `Custom rule "${rule.name}" matched: ${describeGroup(rule.conditions)}`,
+      requiresApproval,
+      ruleName: rule.name,
+      priority: rule.priority ?? undefined
+    }
+  }
+
+  /**
+   * Last time this rule fired for the position within the cooldown window
+   */
+  protected async getLastFiredAt(
+    rule: CustomAutomationRule,
+    position: PositionInfo,
+    cooldownMs: number
+  ): Promise<string | null> {
+    const since = new Date(this.now() - cooldownMs).toISOString()
+
+    const { data: lastFired } = await this.db
+      .from('automation_logs')
+      .select('created_at')
+      .eq('config_id', this.config.id)
+      .eq('rule_name', rule.name)
+      .eq('position_nft_address', position.position_nft_address)
+      .in('status', ['pending', 'approved', 'executed'])
+      .gte('created_at', since)
+      .order('created_at', { ascending: false })
+      .limit(1)
+
+    return lastFired && lastFired.length > 0 ? lastFired[0].created_at : null
+  }
+}
+
+function isConditionGroup(node: RuleCondition | RuleConditionGroup): node is RuleConditionGroup {
+  return Array.isArray((node as RuleConditionGroup).conditions)
+}
+
+/**
+ * Evaluate an AND/OR condition group (nested groups allowed)
+ */
+export function matchesGroup(group: RuleConditionGroup, position: PositionInfo): boolean {
+  if (!group.conditions || group.conditions.length === 0) {
+    return false
+  }
+
+  const matches = (node: RuleCondition | RuleConditionGroup) =>
+    isConditionGroup(node) ? matchesGroup(node, position) : matchesCondition(node, position)
+
+  return group.logic === 'OR'
+    ? group.conditions.some(matches)
+    : group.conditions.every(matches)
+}
+
+/**
+ * Evaluate a single comparison against a position field
+ */
+export function matchesCondition(condition: RuleCondition, position: PositionInfo): boolean {
+  const actual = position[condition.field]
+  const expected = condition.value
+
+  if (actual === undefined || actual === null) {
+    return false
+  }
+
+  switch (condition.operator) {
+    case '==':
+      return actual === expected
+    case '!=':
+      return actual !== expected
+    case '>':
+      return typeof actual === 'number' && actual > Number(expected)
+    case '>=':
+      return typeof actual === 'number' && actual >= Number(expected)
+    case '<':
+      return typeof actual === 'number' && actual < Number(expected)
+    case '<=':
+      return typeof actual === 'number' && actual <= Number(expected)
+    default:
+      return false
+  }
+}
+
+/**
+ * Render a condition group as readable text, e.g. "unclaimed_fees_usd > 5 AND fee_apr_24h < 20"
+ */
+export function describeGroup(group: RuleConditionGroup): string {
+  return group.conditions
+    .map(node => isConditionGroup(node)
+      ? `(${describeGroup(node)})`
+      : `${node.field} ${node.operator} ${node.value}`)
+    .join(` ${group.logic} `)
+}
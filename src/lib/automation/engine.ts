@@ -3,68 +3,145 @@
  * Main orchestrator for automation system
  */
 
-import { AutomationConfig, PositionInfo, AutomationLog } from './types'
+import { AutomationConfig, AutomationLog, AutomationRunOptions, BudgetState, CircuitBreakerTrip, DroppedRuleResult, PlannedAction } from './types'
 import { RulesEvaluator } from './rules'
 import { AutomationExecutor } from './executor'
+import { BudgetManager } from './budget-manager'
 import { PositionFetcher } from './position-fetcher'
+import { ExecutionLifecycle } from './execution-lifecycle'
+import { CircuitBreaker } from './circuit-breaker'
+import { ConflictResolver } from './conflict-resolver'
+import { PositionOverrides } from './position-overrides'
+import { SupabaseClient } from '@supabase/supabase-js'
 import { supabase } from '@/lib/supabase'
+import { getServerRpcUrl } from '@/lib/env-config'
+import { Connection } from '@solana/web3.js'
 
 export class AutomationEngine {
   private config: AutomationConfig
   private rulesEvaluator: RulesEvaluator
   private executor: AutomationExecutor
   private positionFetcher: PositionFetcher
-
-  constructor(config: AutomationConfig) {
+  private lifecycle: ExecutionLifecycle
+  private circuitBreaker: CircuitBreaker
+  private budgetManager: BudgetManager
+  private conflictResolver: ConflictResolver
+  private db: SupabaseClient
+
+  // API routes run under the user's session; the scheduler passes a service-role client
+  constructor(config: AutomationConfig, db: SupabaseClient = supabase) {
     this.config = config
-    this.rulesEvaluator = new RulesEvaluator(config)
-    this.executor = new AutomationExecutor(config)
-    this.positionFetcher = new PositionFetcher()
+    this.db = db
+    this.circuitBreaker = new CircuitBreaker(config, db)
+    this.budgetManager = new BudgetManager(config, db)
+    const positionOverrides = new PositionOverrides(config, db)
+    this.rulesEvaluator = new RulesEvaluator(config, undefined, undefined, undefined, positionOverrides, db)
+    this.conflictResolver = new ConflictResolver(config, this.budgetManager)
+    this.executor = new AutomationExecutor(config, this.budgetManager, this.circuitBreaker, positionOverrides, undefined, db)
+    this.positionFetcher = new PositionFetcher(db)
+    this.lifecycle = new ExecutionLifecycle(db)
   }
 
   /**
    * Run automation cycle
    * This is called periodically (e.g., every 5 minutes)
+   * With dryRun, returns the planned actions instead of writing logs/approvals
    */
-  async run(): Promise<{
+  async run(options: AutomationRunOptions = {}): Promise<{
     success: boolean
+    dryRun: boolean
     actionsExecuted: number
     actionsPendingApproval: number
+    plannedActions: PlannedAction[]
+    droppedResults: DroppedRuleResult[]
     errors: string[]
   }> {
     const errors: string[] = []
+    const dryRun = options.dryRun === true
+    const plannedActions: PlannedAction[] = []
+    let droppedResults: DroppedRuleResult[] = []
+
+    // Dry runs must not close expired trips either
+    this.circuitBreaker.setReadOnly(dryRun)
 
     try {
       // Check if automation is active
       if (!this.config.is_active) {
         return {
           success: true,
+          dryRun,
           actionsExecuted: 0,
           actionsPendingApproval: 0,
+          plannedActions,
+          droppedResults,
           errors: ['Automation is not active']
         }
       }
 
+      // Whole config paused by the circuit breaker
+      const configTrip = (await this.circuitBreaker.getOpenTrips()).find(trip => trip.scope === 'config')
+      if (configTrip) {
+        return {
+          success: true,
+          dryRun,
+          actionsExecuted: 0,
+          actionsPendingApproval: 0,
+          plannedActions,
+          droppedResults,
+          errors: [`Automation paused by circuit breaker ${configTrip.resume_at ? `until ${configTrip.resume_at}` : 'until manually reset'}: ${configTrip.reason}`]
+        }
+      }
+
+      // Advance transactions submitted in earlier cycles (confirmations/expiry)
+      if (!dryRun) {
+        try {
+          const connection = new Connection(getServerRpcUrl(), 'confirmed')
+          const reconciled = await this.lifecycle.reconcile(this.config.id, connection)
+          errors.push(...reconciled.errors)
+        } catch (error: any) {
+          errors.push(`Error reconciling transactions: ${error.message}`)
+        }
+      }
+
       // Fetch current positions
       const positions = await this.positionFetcher.getActivePositions(
         this.config.user_id,
         this.config.wallet_address
       )
 
-      // Evaluate rules
+      // Evaluate rules, then order them by priority and drop conflicting ones
       const ruleResults = await this.rulesEvaluator.evaluateRules(positions)
+      const resolved = await this.conflictResolver.resolve(ruleResults)
+      droppedResults = resolved.dropped
 
       let actionsExecuted = 0
       let actionsPendingApproval = 0
 
       // Execute each action
-      for (const ruleResult of ruleResults) {
+      for (const ruleResult of resolved.accepted) {
         try {
           const positionInfo = positions.find(
             p => p.position_nft_address === ruleResult.positionNftAddress
           )
 
-          const result = await this.executor.executeAction(ruleResult, positionInfo)
+          if (dryRun) {
+            const plan = await this.executor.planAction(ruleResult, positionInfo, { verify: true })
+            plannedActions.push(plan)
+
+            if (plan.decision === 'approval') {
+              actionsPendingApproval++
+            } else if (plan.decision === 'execute') {
+              actionsExecuted++
+            }
+            continue
+          }
+
+          const result = await this.executor.executeAction(ruleResult, positionInfo, options.triggeredBy)
+
+          // Already queued by an overlapping run, or paused by the circuit breaker
+          if (result.duplicate || result.paused) {
+            continue
+          }
 
           if (result.requiresApproval) {
             actionsPendingApproval++
@@ -77,24 +154,46 @@ export class AutomationEngine {
         }
       }
 
-      // Update last run time
-      await supabase
-        .from('automation_configs')
-        .update({ last_run_at: new Date().toISOString() })
-        .eq('id', this.config.id)
+      // Trip the circuit breaker on repeated failures (including this cycle's)
+      if (!dryRun) {
+        try {
+          const trips = await this.circuitBreaker.evaluate()
+          errors.push(...trips.map(trip =>
+            `Circuit breaker tripped (${trip.scope}${trip.scope_key ? ` ${trip.scope_key}` : ''}): ${trip.reason}`))
+        } catch (error: any) {
+          errors.push(`Error evaluating circuit breaker: ${error.message}`)
+        }
+      }
+
+      // Update last run time (dry runs leave no trace)
+      if (!dryRun) {
+        const { error: lastRunError } = await this.db
+          .from('automation_configs')
+          .update({ last_run_at: new Date().toISOString() })
+          .eq('id', this.config.id)
+        if (lastRunError) {
+          errors.push(`Error updating last run time: ${lastRunError.message}`)
+        }
+      }
 
       return {
         success: true,
+        dryRun,
         actionsExecuted,
         actionsPendingApproval,
+        plannedActions,
+        droppedResults,
         errors
       }
     } catch (error: any) {
       errors.push(`Engine error: ${error.message}`)
       return {
         success: false,
+        dryRun,
         actionsExecuted: 0,
         actionsPendingApproval: 0,
+        plannedActions,
+        droppedResults,
         errors
       }
     }
@@ -109,20 +208,22 @@ export class AutomationEngine {
     activePositions: number
     pendingApprovals: number
     recentLogs: AutomationLog[]
+    budget: BudgetState
+    circuitBreakers: CircuitBreakerTrip[]
   }> {
     const positions = await this.positionFetcher.getActivePositions(
       this.config.user_id,
       this.config.wallet_address
     )
 
-    const { data: approvals } = await supabase
+    const { data: approvals } = await this.db
       .from('automation_approvals')
       .select('id')
       .eq('user_id', this.config.user_id)
       .eq('status', 'pending')
       .gt('expires_at', new Date().toISOString())
 
-    const { data: logs } = await supabase
+    const { data: logs } = await this.db
       .from('automation_logs')
       .select('*')
       .eq('user_id', this.config.user_id)
@@ -130,12 +231,17 @@ export class AutomationEngine {
       .order('created_at', { ascending: false })
       .limit(10)
 
+    const budget = await this.budgetManager.getBudgetState()
+    const circuitBreakers = await this.circuitBreaker.getOpenTrips()
+
     return {
       isActive: this.config.is_active,
       lastRunAt: this.config.last_run_at,
       activePositions: positions.length,
       pendingApprovals: approvals?.length || 0,
-      recentLogs: (logs || []) as AutomationLog[]
+      recentLogs: (logs || []) as AutomationLog[],
+      budget,
+      circuitBreakers
     }
   }
 }
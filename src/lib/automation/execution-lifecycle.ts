@@ -0,0 +1,217 @@
+/**
+ * Execution Lifecycle
+ * State machine for automation transactions:
+ * pending → built → submitted → confirmed → finalized
+ * with failed (retryable) and expired (blockhash rebuild) branches
+ */
+
+import { Connection } from '@solana/web3.js'
+import {
+  AutomationConfig,
+  AutomationLog,
+  ExecutionState,
+  ExecutionTransition,
+  RuleEvaluationResult
+} from './types'
+import { SupabaseClient } from '@supabase/supabase-js'
+import { supabase } from '@/lib/supabase'
+
+// Builds allowed per log before a failure becomes terminal
+export const MAX_EXECUTION_ATTEMPTS = 3
+
+const TRANSITIONS: Record<ExecutionState, ExecutionState[]> = {
+  pending: ['built', 'failed'],
+  built: ['built', 'submitted', 'expired', 'failed'],
+  submitted: ['confirmed', 'finalized', 'expired', 'failed'],
+  confirmed: ['finalized', 'failed'],
+  finalized: [],
+  failed: ['built', 'failed'],
+  expired: ['built', 'failed']
+}
+
+/**
+ * Key identifying one rule result, shared by overlapping runs
+ * Only one pending/approved log may hold a key at a time (see partial unique index)
+ */
+export function buildIdempotencyKey(config: AutomationConfig, ruleResult: RuleEvaluationResult): string {
+  return [
+    config.id,
+    ruleResult.ruleName || `auto_${ruleResult.actionType}`,
+    ruleResult.actionType,
+    ruleResult.positionNftAddress || 'wallet'
+  ].join(':')
+}
+
+export function canTransition(from: ExecutionState, to: ExecutionState): boolean {
+  return TRANSITIONS[from]?.includes(to) ?? false
+}
+
+/**
+ * Whether a log can (re)build a transaction from its current state
+ */
+export function canBuild(log: AutomationLog): boolean {
+  return canTransition(log.execution_state, 'built') &&
+         log.execution_attempts < MAX_EXECUTION_ATTEMPTS
+}
+
+export class ExecutionLifecycle {
+  private db: SupabaseClient
+
+  constructor(db: SupabaseClient = supabase) {
+    this.db = db
+  }
+
+  /**
+   * Move a log to a new execution state
+   * Uses compare-and-set on execution_state so concurrent runs cannot both advance it
+   */
+  async transition(
+    log: AutomationLog,
+    to: ExecutionState,
+    details: {
+      signature?: string
+      blockhash?: string
+      lastValidBlockHeight?: number
+      error?: string
+      costUSD?: number
+      gasFeeSOL?: number
+      // Fail the log outright instead of leaving the attempt retryable
+      terminal?: boolean
+      // Merged into the log's metadata
+      metadata?: Record<string, unknown>
+    } = {}
+  ): Promise<AutomationLog> {
+    const from = log.execution_state
+
+    if (!canTransition(from, to)) {
+      throw new Error(`Invalid execution transition ${from} → ${to} for log ${log.id}`)
+    }
+
+    const now = new Date().toISOString()
+    // Every build counts as an attempt, including builds that fail before producing a transaction
+    const isBuildAttempt = to === 'built' || (to === 'failed' && from !== 'built' && from !== 'submitted' && from !== 'confirmed')
+    const attempt = isBuildAttempt ? log.execution_attempts + 1 : log.execution_attempts
+
+    const entry: ExecutionTransition = { from, to, at: now, attempt }
+    if (details.signature) entry.signature = details.signature
+    if (details.blockhash) entry.blockhash = details.blockhash
+    if (details.error) entry.error = details.error
+
+    const updateData: Record<string, unknown> = {
+      execution_state: to,
+      execution_attempts: attempt,
+      execution_history: [...(log.execution_history || []), entry]
+    }
+
+    if (to === 'built') {
+      updateData.blockhash = details.blockhash ?? null
+      updateData.last_valid_block_height = details.lastValidBlockHeight ?? null
+      updateData.transaction_signature = null
+      updateData.error_message = null
+    }
+
+    if (details.signature) {
+      updateData.transaction_signature = details.signature
+    }
+
+    if (details.metadata) {
+      updateData.metadata = { ...(log.metadata || {}), ...details.metadata }
+    }
+
+    if (to === 'confirmed' || to === 'finalized') {
+      updateData.status = 'executed'
+      if (!log.executed_at) updateData.executed_at = now
+      if (details.costUSD !== undefined) updateData.cost_usd = details.costUSD
+      if (details.gasFeeSOL !== undefined) updateData.gas_fee_sol = details.gasFeeSOL
+    }
+
+    if (to === 'expired') {
+      updateData.error_message = details.error || 'Blockhash expired before confirmation'
+    }
+
+    if (to === 'failed') {
+      updateData.error_message = details.error || 'Execution failed'
+      // Out of attempts (or a failure retrying cannot fix): the failure is final
+      if (attempt >= MAX_EXECUTION_ATTEMPTS || details.terminal) {
+        updateData.status = 'failed'
+        updateData.failed_at = now
+      }
+    }
+
+    const { data, error } = await this.db
+      .from('automation_logs')
+      .update(updateData)
+      .eq('id', log.id)
+      .eq('execution_state', from)
+      .select()
+      .maybeSingle()
+
+    if (error) throw error
+    if (!data) {
+      throw new Error(`Log ${log.id} changed state concurrently (expected ${from})`)
+    }
+
+    return data as AutomationLog
+  }
+
+  /**
+   * Advance in-flight transactions for a config based on their on-chain status
+   * submitted → confirmed/finalized/failed, confirmed → finalized, or expired once
+   * the blockhash is past its last valid block height
+   */
+  async reconcile(configId: string, connection: Connection): Promise<{ updated: number; errors: string[] }> {
+    const errors: string[] = []
+    let updated = 0
+
+    const { data: logs, error } = await this.db
+      .from('automation_logs')
+      .select('*')
+      .eq('config_id', configId)
+      .in('execution_state', ['submitted', 'confirmed'])
+      .not('transaction_signature', 'is', null)
+
+    if (error) throw error
+    if (!logs || logs.length === 0) return { updated, errors }
+
+    const inFlight = logs as AutomationLog[]
+    const { value: statuses } = await connection.getSignatureStatuses(
+      inFlight.map(log => log.transaction_signature as string),
+      { searchTransactionHistory: true }
+    )
+    const blockHeight = await connection.getBlockHeight('confirmed')
+
+    for (let i = 0; i < inFlight.length; i++) {
+      const log = inFlight[i]
+      const status = statuses[i]
+
+      try {
+        if (status?.err) {
+          await this.transition(log, 'failed', {
+            error: `Transaction failed: ${JSON.stringify(status.err)}`
+          })
+          updated++
+        } else if (status?.confirmationStatus === 'finalized') {
+          await this.transition(log, 'finalized')
+          updated++
+        } else if (status?.confirmationStatus === 'confirmed' && log.execution_state === 'submitted') {
+          await this.transition(log, 'confirmed')
+          updated++
+        } else if (
+          !status &&
+          log.execution_state === 'submitted' &&
+          log.last_valid_block_height !== null &&
+          blockHeight > log.last_valid_block_height
+        ) {
+          await this.transition(log, 'expired', {
+            error: `Blockhash expired at block height ${log.last_valid_block_height} before landing`
+          })
+          updated++
+        }
+      } catch (err: any) {
+        errors.push(`Reconcile ${log.id}: ${err.message}`)
+      }
+    }
+
+    return { updated, errors }
+  }
+}
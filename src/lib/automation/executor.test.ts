@@ -0,0 +1,110 @@
+import { beforeEach, describe, expect, it, vi } from 'vitest'
+import { AutomationConfig, RuleEvaluationResult, SafetyCheckResult } from './types'
+
+const inserted: Record<string, unknown>[] = []
+// What the stubbed safety checker answers (null: safety checks must not run)
+let safetyResult: SafetyCheckResult | null = null
+
+vi.mock('@/lib/supabase', () => ({
+  supabase: {
+    from: () => ({
+      insert: (row: Record<string, unknown>) => {
+        inserted.push(row)
+        return { select: () => ({ single: async () => ({ data: { id: 'log-1', ...row }, error: null }) }) }
+      }
+    })
+  }
+}))
+
+vi.mock('./safety-checks', () => ({
+  SafetyChecker: class {
+    async checkAction() {
+      if (!safetyResult) throw new Error('Safety checks must not run for monitor actions')
+      return safetyResult
+    }
+  }
+}))
+
+const { AutomationExecutor } = await import('./executor')
+
+const config = {
+  id: 'config-1',
+  user_id: 'user-1',
+  wallet_address: 'wallet-1',
+  require_manual_approval: false,
+  approval_threshold_usd: 10
+} as AutomationConfig
+
+const monitor: RuleEvaluationResult = {
+  shouldExecute: true,
+  actionType: 'monitor',
+  reason: 'Position drifted',
+  estimatedCostUSD: 0,
+  requiresApproval: false,
+  positionNftAddress: 'position-1',
+  ruleName: 'watch drift'
+}
+
+describe('AutomationExecutor monitor actions', () => {
+  beforeEach(() => {
+    inserted.length = 0
+    safetyResult = null
+  })
+
+  it('writes a completed log without safety checks', async () => {
+    const executor = new AutomationExecutor(config)
+    const result = await executor.executeAction(monitor)
+
+    expect(result.requiresApproval).toBe(false)
+    expect(inserted).toHaveLength(1)
+    expect(inserted[0]).toMatchObject({
+      action_type: 'monitor',
+      status: 'executed',
+      execution_state: 'finalized',
+      rule_name: 'watch drift'
+    })
+  })
+
+  it('plans monitor actions as executable', async () => {
+    const executor = new AutomationExecutor(config)
+    const plan = await executor.planAction(monitor)
+
+    expect(plan.decision).toBe('execute')
+    expect(plan.safetyCheck.allowed).toBe(true)
+  })
+})
+
+describe('AutomationExecutor safety refusals', () => {
+  beforeEach(() => {
+    inserted.length = 0
+    safetyResult = { allowed: false, reason: 'Gas cost exceeds 10% of fees' }
+  })
+
+  it('tags the failed log so the circuit breaker can ignore it', async () => {
+    const executor = new AutomationExecutor(config)
+    await executor.executeAction({ ...monitor, actionType: 'claim_fees', estimatedCostUSD: 0.5 })
+
+    expect(inserted).toHaveLength(1)
+    expect(inserted[0]).toMatchObject({
+      action_type: 'claim_fees',
+      status: 'failed',
+      error_message: 'Gas cost exceeds 10% of fees',
+      metadata: expect.objectContaining({ safetyRefusal: true })
+    })
+  })
+})
+
+describe('AutomationExecutor manual actions', () => {
+  beforeEach(() => {
+    inserted.length = 0
+    safetyResult = { allowed: true }
+  })
+
+  it('always plans a position close for approval', async () => {
+    const executor = new AutomationExecutor(config)
+    const plan = await executor.planAction({ ...monitor, actionType: 'close_position', estimatedCostUSD: 0.01 })
+
+    expect(plan.decision).toBe('approval')
+    expect(plan.requiresApproval).toBe(true)
+  })
+})
@@ -3,36 +3,93 @@
  * Handles execution of automation actions (or creates approvals)
  */
 
-import { AutomationConfig, AutomationLog, RuleEvaluationResult, PositionInfo } from './types'
+import { AutomationActionType, AutomationConfig, AutomationLog, RuleEvaluationResult, PositionInfo, PlannedAction, PoolSelection, RebalanceRange, TriggerSource } from './types'
+import { SupabaseClient } from '@supabase/supabase-js'
 import { supabase } from '@/lib/supabase'
 import { SafetyChecker } from './safety-checks'
-import { BudgetManager } from './budget-manager'
+import { BudgetManager, DEFAULT_PROTOCOL } from './budget-manager'
+import { buildIdempotencyKey, ExecutionLifecycle } from './execution-lifecycle'
+import { CircuitBreaker } from './circuit-breaker'
+import { PositionOverrides } from './position-overrides'
+import { TokenRiskChecker } from './token-risk'
+import { SimulationResult, TransactionSimulator, toSimulationMetadata } from './transaction-simulator'
+import { TransactionBuilder, BuildTransactionParams } from './transaction-builder'
+import { TransactionPolicy } from './transaction-policy'
+import { TransactionPreview, TransactionPreviewer, getAccountLabels } from './transaction-preview'
+
+// Actions no protocol builds a transaction for yet: they always wait for approval and are
+// flagged for the user to carry out by hand, instead of being queued for the execute endpoint
+const MANUAL_ACTIONS: AutomationActionType[] = ['close_position']
 
 export class AutomationExecutor {
   private config: AutomationConfig
   private safetyChecker: SafetyChecker
   private budgetManager: BudgetManager
+  private lifecycle: ExecutionLifecycle
+  private builder: TransactionBuilder
+  private policy: TransactionPolicy
+  private simulator: TransactionSimulator
+  private previewer: TransactionPreviewer
+  private db: SupabaseClient
 
-  constructor(config: AutomationConfig) {
+  constructor(
+    config: AutomationConfig,
+    budgetManager?: BudgetManager,
+    circuitBreaker?: CircuitBreaker,
+    positionOverrides?: PositionOverrides,
+    tokenRiskChecker?: TokenRiskChecker,
+    db: SupabaseClient = supabase
+  ) {
     this.config = config
-    this.safetyChecker = new SafetyChecker(config)
-    this.budgetManager = new BudgetManager(config)
+    this.db = db
+    this.budgetManager = budgetManager || new BudgetManager(config, db)
+    this.safetyChecker = new SafetyChecker(
+      config,
+      this.budgetManager,
+      circuitBreaker || new CircuitBreaker(config, db),
+      positionOverrides || new PositionOverrides(config, db),
+      tokenRiskChecker
+    )
+    this.lifecycle = new ExecutionLifecycle(db)
+    this.builder = new TransactionBuilder()
+    this.policy = new TransactionPolicy()
+    this.simulator = new TransactionSimulator()
+    this.previewer = new TransactionPreviewer()
   }
 
   /**
    * Execute an automation action
-   * Returns the created log entry
+   * Returns the created log entry (none when a circuit breaker paused the action)
    */
   async executeAction(
     ruleResult: RuleEvaluationResult,
-    positionInfo?: PositionInfo
-  ): Promise<{ log: AutomationLog; requiresApproval: boolean; approvalId?: string }> {
-    // Safety check
-    const safetyCheck = await this.safetyChecker.checkAction(
-      ruleResult.actionType,
-      ruleResult.estimatedCostUSD,
-      positionInfo
-    )
+    positionInfo?: PositionInfo,
+    triggeredBy: TriggerSource = 'rule'
+  ): Promise<{ log: AutomationLog | null; requiresApproval: boolean; approvalId?: string; duplicate?: boolean; paused?: boolean }> {
+    // Monitoring only records that the rule matched: nothing is checked, built or spent
+    if (ruleResult.actionType === 'monitor') {
+      const log = await this.createLog({
+        actionType: ruleResult.actionType,
+        status: 'executed',
+        positionAddress: ruleResult.positionAddress || null,
+        positionNftAddress: ruleResult.positionNftAddress || null,
+        estimatedCostUSD: 0,
+        reason: ruleResult.reason,
+        ruleName: ruleResult.ruleName,
+        protocol: ruleResult.protocol,
+        triggeredBy
+      })
+      if (!log) throw new Error('Failed to create automation log')
+
+      return { log, requiresApproval: false }
+    }
+
+    const { safetyCheck, requiresApproval } = await this.planAction(ruleResult, positionInfo)
+
+    // Paused actions are not logged, or they would keep feeding the breaker
+    if (safetyCheck.paused) {
+      return { log: null, requiresApproval: false, paused: true }
+    }
 
     if (!safetyCheck.allowed) {
       // Create a failed log entry
@@ -43,18 +100,65 @@ export class AutomationExecutor {
         positionNftAddress: ruleResult.positionNftAddress || null,
         estimatedCostUSD: ruleResult.estimatedCostUSD,
         reason: safetyCheck.reason || 'Safety check failed',
-        errorMessage: safetyCheck.reason
+        errorMessage: safetyCheck.reason,
+        ruleName: ruleResult.ruleName,
+        protocol: ruleResult.protocol,
+        triggeredBy,
+        risks: safetyCheck.risks,
+        safetyRefusal: true
       })
+      if (!log) throw new Error('Failed to create automation log')
 
       return { log, requiresApproval: false }
     }
 
-    // Check if approval is required
-    const requiresApproval = ruleResult.requiresApproval || 
-                            (this.config.require_manual_approval && 
-                             ruleResult.estimatedCostUSD > this.config.approval_threshold_usd)
+    // Another run already queued this rule result and it has not finished yet
+    const idempotencyKey = buildIdempotencyKey(this.config, ruleResult)
+    const existing = await this.findActiveLog(idempotencyKey)
+    if (existing) {
+      return { log: existing, requiresApproval: existing.status === 'pending' && requiresApproval, duplicate: true }
+    }
 
     if (requiresApproval) {
+      // Verify and simulate before asking for approval (skipped while the transaction cannot be built)
+      const { violations, simulation, preview } = await this.verifyAction(ruleResult, positionInfo)
+      if (violations.length > 0) {
+        const log = await this.createLog({
+          actionType: ruleResult.actionType,
+          status: 'failed',
+          positionAddress: ruleResult.positionAddress || null,
+          positionNftAddress: ruleResult.positionNftAddress || null,
+          estimatedCostUSD: ruleResult.estimatedCostUSD,
+          reason: `Policy violation: ${violations.join('; ')}`,
+          errorMessage: violations[0],
+          ruleName: ruleResult.ruleName,
+          protocol: ruleResult.protocol,
+          triggeredBy,
+          violations
+        })
+        if (!log) throw new Error('Failed to create automation log')
+
+        return { log, requiresApproval: false }
+      }
+
+      if (simulation && !simulation.success) {
+        const log = await this.createLog({
+          actionType: ruleResult.actionType,
+          status: 'failed',
+          positionAddress: ruleResult.positionAddress || null,
+          positionNftAddress: ruleResult.positionNftAddress || null,
+          estimatedCostUSD: ruleResult.estimatedCostUSD,
+          reason: `Simulation failed: ${simulation.reason}`,
+          errorMessage: simulation.reason,
+          ruleName: ruleResult.ruleName,
+          protocol: ruleResult.protocol,
+          triggeredBy
+        })
+        if (!log) throw new Error('Failed to create automation log')
+
+        return { log, requiresApproval: false }
+      }
+
       // Create pending log and approval request
       const log = await this.createLog({
         actionType: ruleResult.actionType,
@@ -63,35 +167,218 @@ export class AutomationExecutor {
         positionNftAddress: ruleResult.positionNftAddress || null,
         estimatedCostUSD: ruleResult.estimatedCostUSD,
         reason: ruleResult.reason,
-        requiresApproval: true
+        requiresApproval: true,
+        ruleName: ruleResult.ruleName,
+        protocol: ruleResult.protocol,
+        idempotencyKey,
+        triggeredBy,
+        poolSelection: ruleResult.poolSelection,
+        rebalanceRange: ruleResult.rebalanceRange,
+        warnings: safetyCheck.warnings,
+        simulation: simulation || undefined
       })
 
-      const approvalId = await this.createApprovalRequest(log, ruleResult, positionInfo)
+      if (!log) {
+        const raced = await this.findActiveLog(idempotencyKey)
+        if (!raced) throw new Error(`Could not create log for ${idempotencyKey}`)
+        return { log: raced, requiresApproval: true, duplicate: true }
+      }
+
+      // A pending log without its approval could never be approved, and would hold the idempotency key
+      let approvalId: string
+      try {
+        approvalId = await this.createApprovalRequest(log, ruleResult, positionInfo, preview)
+      } catch (error) {
+        const message = error instanceof Error ? error.message : String((error as { message?: string })?.message || error)
+        await this.lifecycle.transition(log, 'failed', {
+          error: `Approval request could not be created: ${message}`,
+          terminal: true
+        })
+        throw error
+      }
 
       return { log, requiresApproval: true, approvalId }
     }
 
     // Auto-executable action (e.g., small fee claims)
-    // For now, we'll create a log entry marked as "pending"
-    // Actual execution requires wallet connection (to be implemented)
+    // The log enters the execution lifecycle in the 'pending' state; the execute
+    // endpoint builds it, the wallet signs it, and reconciliation confirms it
     const log = await this.createLog({
       actionType: ruleResult.actionType,
-      status: 'pending', // Will be updated to 'executed' when transaction completes
+      status: 'pending', // Becomes 'executed' once the transaction is confirmed
       positionAddress: ruleResult.positionAddress || null,
       positionNftAddress: ruleResult.positionNftAddress || null,
       estimatedCostUSD: ruleResult.estimatedCostUSD,
       reason: ruleResult.reason,
-      requiresApproval: false
+      requiresApproval: false,
+      ruleName: ruleResult.ruleName,
+      protocol: ruleResult.protocol,
+      idempotencyKey,
+      triggeredBy,
+      poolSelection: ruleResult.poolSelection,
+      rebalanceRange: ruleResult.rebalanceRange,
+      warnings: safetyCheck.warnings
     })
 
-    // TODO: Execute transaction via wallet connection
-    // For now, log is created and can be executed manually or via scheduled job
+    if (!log) {
+      const raced = await this.findActiveLog(idempotencyKey)
+      if (!raced) throw new Error(`Could not create log for ${idempotencyKey}`)
+      return { log: raced, requiresApproval: false, duplicate: true }
+    }
 
     return { log, requiresApproval: false }
   }
 
+  /**
+   * Build the transaction of an action, check it against the transaction policy, simulate it
+   * and decode it for the approver
+   * Nothing is reported while there is no transaction yet (unsupported action type, or the build failed)
+   */
+  private async verifyAction(
+    ruleResult: RuleEvaluationResult,
+    positionInfo?: PositionInfo
+  ): Promise<{ violations: string[]; simulation: SimulationResult | null; preview: TransactionPreview | null }> {
+    const none = { violations: [], simulation: null, preview: null }
+    const params = this.getBuildParams(ruleResult)
+    if (!params) return none
+
+    let transaction
+    try {
+      transaction = await this.builder.buildTransaction(params)
+    } catch (error: any) {
+      console.warn(`${params.actionType} could not be built for verification: ${error.message}`)
+      return none
+    }
+
+    const policy = await this.policy.check(transaction, params)
+    if (!policy.allowed) {
+      return { ...none, violations: policy.violations }
+    }
+
+    let simulation: SimulationResult | null = null
+    try {
+      simulation = await this.simulator.simulate(transaction, params.walletAddress)
+    } catch (error: any) {
+      console.warn(`Simulation of ${params.actionType} could not run: ${error.message}`)
+    }
+    if (simulation && !simulation.success) {
+      return { ...none, simulation }
+    }
+
+    let preview: TransactionPreview | null = null
+    try {
+      preview = await this.previewer.preview(
+        transaction,
+        getAccountLabels(params, positionInfo?.pair_address),
+        simulation
+      )
+    } catch (error: any) {
+      console.warn(`Preview of ${params.actionType} could not be built: ${error.message}`)
+    }
+
+    return { violations: [], simulation, preview }
+  }
+
+  /**
+   * Transaction builder params of an action (null for actions without a transaction)
+   */
+  private getBuildParams(ruleResult: RuleEvaluationResult): BuildTransactionParams | null {
+    const { actionType } = ruleResult
+    if (actionType !== 'claim_fees' && actionType !== 'compound' && actionType !== 'rebalance' &&
+        actionType !== 'close_position' && actionType !== 'open_position') {
+      return null
+    }
+
+    return {
+      actionType,
+      positionNftAddress: ruleResult.positionNftAddress,
+      positionAddress: ruleResult.positionAddress,
+      targetPositionNftAddress: actionType === 'compound' ? this.config.compound_target_position || undefined : undefined,
+      poolAddress: ruleResult.poolSelection?.poolAddress,
+      amountTokenX: ruleResult.poolSelection?.amountTokenX,
+      amountTokenY: ruleResult.poolSelection?.amountTokenY,
+      tokenXMint: ruleResult.poolSelection?.tokenXMint,
+      tokenYMint: ruleResult.poolSelection?.tokenYMint,
+      binsPerSide: ruleResult.rebalanceRange?.binsPerSide,
+      walletAddress: this.config.wallet_address
+    }
+  }
+
+  /**
+   * Find the pending/approved log holding an idempotency key, if any
+   */
+  private async findActiveLog(idempotencyKey: string): Promise<AutomationLog | null> {
+    const { data } = await this.db
+      .from('automation_logs')
+      .select('*')
+      .eq('idempotency_key', idempotencyKey)
+      .in('status', ['pending', 'approved'])
+      .limit(1)
+
+    return data && data.length > 0 ? (data[0] as AutomationLog) : null
+  }
+
+  /**
+   * Decide what would happen to an action without writing anything
+   * Runs safety and budget checks and resolves the approval requirement
+   * With verify, actions needing approval are also built, policy-checked and simulated as a real run would
+   */
+  async planAction(
+    ruleResult: RuleEvaluationResult,
+    positionInfo?: PositionInfo,
+    options: { verify?: boolean } = {}
+  ): Promise<PlannedAction> {
+    if (ruleResult.actionType === 'monitor') {
+      return { ruleResult, safetyCheck: { allowed: true }, requiresApproval: false, decision: 'execute' }
+    }
+
+    // Safety check
+    const safetyCheck = await this.safetyChecker.checkAction(
+      ruleResult.actionType,
+      ruleResult.estimatedCostUSD,
+      positionInfo,
+      ruleResult.protocol,
+      ruleResult.poolSelection,
+      ruleResult.estimatedGasUSD
+    )
+
+    // Check if approval is required
+    const requiresApproval = ruleResult.requiresApproval ||
+                            MANUAL_ACTIONS.includes(ruleResult.actionType) ||
+                            (this.config.require_manual_approval && 
+                             ruleResult.estimatedCostUSD > this.config.approval_threshold_usd)
+
+    if (options.verify && safetyCheck.allowed && requiresApproval) {
+      const { violations, simulation } = await this.verifyAction(ruleResult, positionInfo)
+      if (violations.length > 0) {
+        return {
+          ruleResult,
+          safetyCheck: { allowed: false, reason: `Policy violation: ${violations.join('; ')}` },
+          requiresApproval: false,
+          decision: 'blocked'
+        }
+      }
+      if (simulation && !simulation.success) {
+        return {
+          ruleResult,
+          safetyCheck: { allowed: false, reason: `Simulation failed: ${simulation.reason}` },
+          requiresApproval: false,
+          decision: 'blocked'
+        }
+      }
+    }
+
+    return {
+      ruleResult,
+      safetyCheck,
+      requiresApproval: safetyCheck.allowed && requiresApproval,
+      decision: !safetyCheck.allowed ? 'blocked' : requiresApproval ? 'approval' : 'execute'
+    }
+  }
+
   /**
    * Create automation log entry
+   * Returns null when another run inserted a log with the same idempotency key first
    */
   private async createLog(data: {
     actionType: RuleEvaluationResult['actionType']
@@ -102,7 +389,18 @@ export class AutomationExecutor {
     reason: string
     errorMessage?: string
     requiresApproval?: boolean
-  }): Promise<AutomationLog> {
+    ruleName?: string
+    protocol?: string
+    idempotencyKey?: string
+    triggeredBy?: TriggerSource
+    poolSelection?: PoolSelection
+    rebalanceRange?: RebalanceRange
+    risks?: string[]
+    warnings?: string[]
+    simulation?: SimulationResult
+    violations?: string[]
+    safetyRefusal?: boolean
+  }): Promise<AutomationLog | null> {
     const logData = {
       user_id: this.config.user_id,
       config_id: this.config.id,
@@ -111,23 +409,59 @@ export class AutomationExecutor {
       position_address: data.positionAddress,
       position_nft_address: data.positionNftAddress,
       amount_usd: data.estimatedCostUSD,
-      triggered_by: 'rule' as const,
-      rule_name: `auto_${data.actionType}`,
+      triggered_by: data.triggeredBy || 'rule',
+      rule_name: data.ruleName || `auto_${data.actionType}`,
+      protocol: data.protocol || DEFAULT_PROTOCOL,
       error_message: data.errorMessage || null,
       cost_usd: 0, // Will be updated after execution
       gas_fee_sol: 0, // Will be updated after execution
       metadata: {
         reason: data.reason,
-        requiresApproval: data.requiresApproval || false
-      }
+        requiresApproval: data.requiresApproval || false,
+        // Has to be carried out by hand (see MANUAL_ACTIONS); the execute endpoint refuses it
+        ...(MANUAL_ACTIONS.includes(data.actionType) ? { manualAction: true } : {}),
+        // Fixed when queued so a later config change does not redirect the fees
+        ...(data.actionType === 'compound' && this.config.compound_target_position
+          ? { targetPositionNftAddress: this.config.compound_target_position }
+          : {}),
+        // What the execute endpoint needs to build the open_position transaction
+        ...(data.poolSelection
+          ? {
+              poolAddress: data.poolSelection.poolAddress,
+              tokenXMint: data.poolSelection.tokenXMint,
+              tokenYMint: data.poolSelection.tokenYMint,
+              amountTokenX: data.poolSelection.amountTokenX,
+              amountTokenY: data.poolSelection.amountTokenY
+            }
+          : {}),
+        // Width of the range the rebalanced position is reopened with
+        ...(data.rebalanceRange ? { binsPerSide: data.rebalanceRange.binsPerSide } : {}),
+        // Each token risk that blocked the action
+        ...(data.risks ? { risks: data.risks } : {}),
+        // Refused by a safety check before anything was built (not an execution failure for the circuit breaker)
+        ...(data.safetyRefusal ? { safetyRefusal: true } : {}),
+        // Each transaction policy rule the built transaction broke
+        ...(data.violations ? { violations: data.violations } : {}),
+        // Safety warnings that did not block the action (e.g. SOL close to the reserve)
+        ...(data.warnings?.length ? { warnings: data.warnings } : {}),
+        // Compute units and expected token changes from the pre-approval simulation
+        ...(data.simulation ? { simulation: toSimulationMetadata(data.simulation) } : {})
+      },
+      idempotency_key: data.idempotencyKey || null,
+      // Monitor logs are complete when written (there is no transaction to build or reconcile)
+      execution_state: data.status === 'failed' ? 'failed' as const : data.status === 'executed' ? 'finalized' as const : 'pending' as const,
+      execution_attempts: 0,
+      execution_history: []
     }
 
-    const { data: log, error } = await supabase
+    const { data: log, error } = await this.db
       .from('automation_logs')
       .insert(logData)
       .select()
       .single()
 
+    // Unique violation on the active idempotency key index
+    if (error?.code === '23505' && data.idempotencyKey) return null
     if (error) throw error
 
     return log as AutomationLog
@@ -139,7 +473,8 @@ export class AutomationExecutor {
   private async createApprovalRequest(
     log: AutomationLog,
     ruleResult: RuleEvaluationResult,
-    positionInfo?: PositionInfo
+    positionInfo?: PositionInfo,
+    preview?: TransactionPreview | null
   ): Promise<string> {
     const approvalData = {
       log_id: log.id,
@@ -150,17 +485,33 @@ export class AutomationExecutor {
         positionAddress: ruleResult.positionAddress,
         positionNftAddress: ruleResult.positionNftAddress,
         positionInfo: positionInfo ? {
+          pair_address: positionInfo.pair_address,
           total_usd: positionInfo.total_usd,
           unclaimed_fees_usd: positionInfo.unclaimed_fees_usd,
-          is_out_of_range: positionInfo.is_out_of_range
+          is_out_of_range: positionInfo.is_out_of_range,
+          edge_distance_percent: positionInfo.edge_distance_percent
         } : null,
-        reason: ruleResult.reason
+        reason: ruleResult.reason,
+        ruleName: ruleResult.ruleName || null,
+        manualAction: MANUAL_ACTIONS.includes(ruleResult.actionType),
+        ...(ruleResult.actionType === 'compound'
+          ? { targetPositionNftAddress: this.config.compound_target_position || ruleResult.positionNftAddress }
+          : {}),
+        // Chosen pool, range, size and the justification for them
+        poolSelection: ruleResult.poolSelection || null,
+        rebalanceRange: ruleResult.rebalanceRange || null,
+        warnings: log.metadata?.warnings || [],
+        simulation: log.metadata?.simulation || null,
+        // Decoded transaction as built when the approval was requested
+        preview: preview || null
       },
       estimated_cost_usd: ruleResult.estimatedCostUSD,
+      // The execute endpoint only hands the wallet a rebuilt transaction with the same hash
+      message_hash: preview?.messageHash || null,
       status: 'pending' as const
     }
 
-    const { data: approval, error } = await supabase
+    const { data: approval, error } = await this.db
       .from('automation_approvals')
       .insert(approvalData)
       .select()
@@ -170,35 +521,4 @@ export class AutomationExecutor {
 
     return approval.id
   }
-
-  /**
-   * Update log after execution
-   */
-  async updateLogAfterExecution(
-    logId: string,
-    transactionSignature: string,
-    actualCostUSD: number,
-    gasFeeSOL: number,
-    success: boolean
-  ): Promise<void> {
-    const updateData: any = {
-      transaction_signature: transactionSignature,
-      cost_usd: actualCostUSD,
-      gas_fee_sol: gasFeeSOL,
-      status: success ? 'executed' : 'failed',
-      executed_at: success ? new Date().toISOString() : null,
-      failed_at: success ? null : new Date().toISOString()
-    }
-
-    await supabase
-      .from('automation_logs')
-      .update(updateData)
-      .eq('id', logId)
-
-    // Update budget if successful
-    if (success) {
-      await this.budgetManager.recordSpend(actualCostUSD)
-    }
-  }
 }
-
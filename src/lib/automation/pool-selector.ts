@@ -0,0 +1,335 @@
+/**
+ * Pool Selector
+ * Ranks Meteora DLMM pools for auto-open by fee APR, volume/TVL and airdrop weighting,
+ * then sizes the position and picks its bin range
+ */
+
+import { AutomationConfig, PoolSelection } from './types'
+import { SOL_MINT, USDC_MINT } from '@/lib/meteora-transaction-parser'
+import { getSolPriceUSD } from '@/lib/sol-price'
+
+export const USDT_MINT = 'Es9vMFrzaCERmJfrF4H2FYD4KCoNkY11McCe8BenwNYB'
+
+const POOLS_URL = 'https://dlmm-api.meteora.ag/pair/all_by_groups?page=0&limit=50&sort_key=volume&order_by=desc'
+
+// A DLMM position spans at most 70 bins: the active bin plus 34 either side
+const RANGE_BINS_PER_SIDE = 34
+
+// Never provide more than this share of a pool's TVL
+const MAX_TVL_SHARE = 0.01
+
+// Volume/TVL above this scores the same (very high turnover is usually short-lived)
+const MAX_VOLUME_TO_TVL = 2
+
+const SCORE_WEIGHTS = {
+  feeApr: 0.4,
+  volumeToTvl: 0.3,
+  airdrop: 0.3
+}
+
+type AirdropPotential = 'confirmed' | 'high' | 'medium' | 'low'
+
+// Same scale as the airdrop potential shown on the dashboard
+const AIRDROP_POTENTIAL_WEIGHT: Record<AirdropPotential, number> = {
+  confirmed: 1,
+  high: 0.75,
+  medium: 0.5,
+  low: 0.25
+}
+
+// Tokens of protocols we farm; every DLMM pool already counts towards Meteora's confirmed airdrop
+const AIRDROP_TOKENS: Record<string, AirdropPotential> = {
+  JUP: 'high',
+  JUPSOL: 'high',
+  INF: 'high',
+  ME: 'medium',
+  KMNO: 'medium'
+}
+
+/**
+ * Pair of the Meteora DLMM API (only the fields read here)
+ */
+export interface MeteoraPairResponse {
+  address: string
+  name: string
+  mint_x: string
+  mint_y: string
+  bin_step: number
+  // Pool TVL in USD, sent as a decimal string
+  liquidity: string
+  trade_volume_24h: number
+  apr: number
+  current_price: number
+  hide?: boolean
+  is_blacklisted?: boolean
+}
+
+/**
+ * Group of the all_by_groups endpoint (pairs of the same token pair)
+ */
+interface MeteoraPairGroupResponse {
+  pairs?: MeteoraPairResponse[]
+}
+
+/**
+ * DLMM pool as returned by the Meteora API, reduced to what ranking needs
+ */
+export interface PoolCandidate {
+  address: string
+  name: string
+  tokenXMint: string
+  tokenYMint: string
+  tokenXSymbol: string
+  tokenYSymbol: string
+  binStep: number
+  tvlUSD: number
+  volume24hUSD: number
+  feeAprPercent: number
+  currentPrice: number
+}
+
+/**
+ * Map a pair from the Meteora DLMM API to a PoolCandidate
+ */
+export function toPoolCandidate(pair: MeteoraPairResponse): PoolCandidate {
+  const [tokenXSymbol = '', tokenYSymbol = ''] = String(pair.name || '').split('-')
+  return {
+    address: pair.address,
+    name: pair.name,
+    tokenXMint: pair.mint_x,
+    tokenYMint: pair.mint_y,
+    tokenXSymbol,
+    tokenYSymbol,
+    binStep: Number(pair.bin_step) || 0,
+    tvlUSD: parseFloat(pair.liquidity) || 0,
+    volume24hUSD: Number(pair.trade_volume_24h) || 0,
+    feeAprPercent: Number(pair.apr) || 0,
+    currentPrice: Number(pair.current_price) || 0
+  }
+}
+
+export interface PoolSelectionResult {
+  selection: PoolSelection | null
+  // Why candidates were left out (also the reason when nothing was selected)
+  rejected: string[]
+}
+
+export class PoolSelector {
+  private config: AutomationConfig
+
+  constructor(config: AutomationConfig) {
+    this.config = config
+  }
+
+  /**
+   * Rank candidate pools and size a position in the best one
+   * reservedUSD is held back from max_position_size_usd (e.g. for gas)
+   */
+  async select(reservedUSD: number = 0): Promise<PoolSelectionResult> {
+    const rejected: string[] = []
+    const candidates = await this.fetchCandidates()
+
+    if (candidates.length === 0) {
+      return { selection: null, rejected: ['No DLMM pools returned by the Meteora API'] }
+    }
+
+    const maxSizeUSD = this.config.max_position_size_usd - reservedUSD
+    const eligible = candidates.filter(pool => {
+      const reason = this.rejectReason(pool, maxSizeUSD)
+      if (reason) rejected.push(`${pool.name}: ${reason}`)
+      return !reason
+    })
+
+    if (eligible.length === 0) {
+      return { selection: null, rejected }
+    }
+
+    const maxApr = Math.max(...eligible.map(pool => pool.feeAprPercent), 0)
+    const ranked = eligible
+      .map(pool => {
+        const scores = {
+          feeApr: maxApr > 0 ? pool.feeAprPercent / maxApr : 0,
+          volumeToTvl: Math.min(pool.volume24hUSD / pool.tvlUSD, MAX_VOLUME_TO_TVL) / MAX_VOLUME_TO_TVL,
+          airdrop: this.airdropWeight(pool)
+        }
+        const score = scores.feeApr * SCORE_WEIGHTS.feeApr +
+                      scores.volumeToTvl * SCORE_WEIGHTS.volumeToTvl +
+                      scores.airdrop * SCORE_WEIGHTS.airdrop
+        return { pool, scores, score }
+      })
+      .sort((a, b) => b.score - a.score)
+
+    for (const { pool, scores, score } of ranked) {
+      const prices = await this.priceTokens(pool)
+      if (!prices) {
+        rejected.push(`${pool.name}: neither token is priced against USD or SOL`)
+        continue
+      }
+
+      // Better pools get a larger share of the allowed size range, never more than 1% of TVL
+      const minSizeUSD = this.config.min_position_size_usd
+      const sizeUSD = Math.min(
+        minSizeUSD + (maxSizeUSD - minSizeUSD) * score,
+        maxSizeUSD,
+        pool.tvlUSD * MAX_TVL_SHARE
+      )
+
+      const binFactor = 1 + pool.binStep / 10_000
+      const range = {
+        binsPerSide: RANGE_BINS_PER_SIDE,
+        currentPrice: pool.currentPrice,
+        lowerPrice: pool.currentPrice * Math.pow(binFactor, -RANGE_BINS_PER_SIDE),
+        upperPrice: pool.currentPrice * Math.pow(binFactor, RANGE_BINS_PER_SIDE)
+      }
+
+      const alternatives = ranked
+        .filter(r => r.pool.address !== pool.address)
+        .slice(0, 3)
+        .map(r => ({ poolAddress: r.pool.address, poolName: r.pool.name, score: r.score }))
+
+      const rangePercent = (Math.pow(binFactor, RANGE_BINS_PER_SIDE) - 1) * 100
+      const justification = [
+        `${pool.name} ranked first of ${eligible.length} eligible pools (score ${(score * 100).toFixed(0)}/100).`,
+        `Fee APR ${pool.feeAprPercent.toFixed(1)}% (${(scores.feeApr * 100).toFixed(0)}% of the best),`,
+        `24h volume/TVL ${(pool.volume24hUSD / pool.tvlUSD).toFixed(2)} on $${pool.tvlUSD.toFixed(0)} TVL,`,
+        `airdrop weight ${scores.airdrop.toFixed(2)}.`,
+        `Bin step ${pool.binStep} gives ±${rangePercent.toFixed(1)}% over ${RANGE_BINS_PER_SIDE} bins each side`,
+        `(${range.lowerPrice.toPrecision(6)} - ${range.upperPrice.toPrecision(6)}).`,
+        `Size $${sizeUSD.toFixed(2)} within $${minSizeUSD.toFixed(2)}-$${maxSizeUSD.toFixed(2)}, split evenly between ${pool.tokenXSymbol} and ${pool.tokenYSymbol}.`,
+        alternatives.length > 0
+          ? `Next best: ${alternatives.map(a => `${a.poolName} (${(a.score * 100).toFixed(0)})`).join(', ')}.`
+          : ''
+      ].filter(Boolean).join(' ')
+
+      return {
+        selection: {
+          poolAddress: pool.address,
+          poolName: pool.name,
+          tokenXMint: pool.tokenXMint,
+          tokenYMint: pool.tokenYMint,
+          binStep: pool.binStep,
+          score,
+          scores,
+          sizeUSD,
+          amountTokenX: sizeUSD / 2 / prices.tokenXUSD,
+          amountTokenY: sizeUSD / 2 / prices.tokenYUSD,
+          range,
+          justification,
+          alternatives
+        },
+        rejected
+      }
+    }
+
+    return { selection: null, rejected }
+  }
+
+  /**
+   * DLMM pools from the Meteora API (top pools by 24h volume)
+   */
+  protected async fetchCandidates(): Promise<PoolCandidate[]> {
+    try {
+      const response = await fetch(POOLS_URL, { headers: { Accept: 'application/json' } })
+      if (!response.ok) {
+        console.warn(`Pool list fetch failed: ${response.status}`)
+        return []
+      }
+
+      const data = await response.json()
+      const pairs: MeteoraPairResponse[] = Array.isArray(data?.groups)
+        ? (data.groups as MeteoraPairGroupResponse[]).flatMap(group => group.pairs || [])
+        : Array.isArray(data) ? data : []
+
+      return pairs
+        .filter(pair => !pair.hide && !pair.is_blacklisted)
+        .map(toPoolCandidate)
+        .filter(pool => pool.address && pool.tokenXMint && pool.tokenYMint)
+    } catch (error) {
+      console.warn(`Could not fetch DLMM pools: ${error instanceof Error ? error.message : String(error)}`)
+      return []
+    }
+  }
+
+  /**
+   * Why a pool cannot be used, or null if it is eligible
+   */
+  private rejectReason(pool: PoolCandidate, maxSizeUSD: number): string | null {
+    const allowlist = (this.config.pool_token_allowlist || []).map(entry => entry.toUpperCase())
+    if (allowlist.length > 0) {
+      const allowed = (mint: string, symbol: string) =>
+        allowlist.includes(mint.toUpperCase()) || allowlist.includes(symbol.toUpperCase())
+      if (!allowed(pool.tokenXMint, pool.tokenXSymbol) || !allowed(pool.tokenYMint, pool.tokenYSymbol)) {
+        return 'token not on allowlist'
+      }
+    }
+
+    // Pools the token risk check would block anyway
+    const denylist = (this.config.token_denylist || []).map(entry => entry.toUpperCase())
+    const denied = [pool.tokenXMint, pool.tokenYMint, pool.tokenXSymbol, pool.tokenYSymbol]
+      .some(entry => denylist.includes(entry.toUpperCase()))
+    if (denied) {
+      return 'token on denylist'
+    }
+
+    if (pool.tvlUSD < this.config.min_pool_tvl_usd) {
+      return `TVL $${pool.tvlUSD.toFixed(0)} below minimum $${this.config.min_pool_tvl_usd.toFixed(0)}`
+    }
+
+    if (pool.binStep < this.config.pool_min_bin_step || pool.binStep > this.config.pool_max_bin_step) {
+      return `bin step ${pool.binStep} outside ${this.config.pool_min_bin_step}-${this.config.pool_max_bin_step}`
+    }
+
+    if (pool.tvlUSD <= 0 || pool.currentPrice <= 0) {
+      return 'no liquidity or price'
+    }
+
+    if (maxSizeUSD < this.config.min_position_size_usd) {
+      return `max position size $${maxSizeUSD.toFixed(2)} after costs is below the minimum`
+    }
+
+    if (pool.tvlUSD * MAX_TVL_SHARE < this.config.min_position_size_usd) {
+      return `TVL $${pool.tvlUSD.toFixed(0)} too small for a $${this.config.min_position_size_usd.toFixed(2)} position`
+    }
+
+    return null
+  }
+
+  /**
+   * Airdrop weight of a pool: the highest weight of its two tokens
+   */
+  private airdropWeight(pool: PoolCandidate): number {
+    const overrides = this.config.pool_airdrop_weights || {}
+    const weightOf = (mint: string, symbol: string) => {
+      const override = overrides[mint] ?? overrides[symbol.toUpperCase()]
+      if (override !== undefined) return Math.max(0, Math.min(1, override))
+      const potential = AIRDROP_TOKENS[symbol.toUpperCase()]
+      return potential ? AIRDROP_POTENTIAL_WEIGHT[potential] : 0
+    }
+
+    return Math.max(weightOf(pool.tokenXMint, pool.tokenXSymbol), weightOf(pool.tokenYMint, pool.tokenYSymbol))
+  }
+
+  /**
+   * USD prices of both tokens, from whichever side is a stablecoin or SOL
+   * current_price is token Y per token X
+   */
+  private async priceTokens(pool: PoolCandidate): Promise<{ tokenXUSD: number; tokenYUSD: number } | null> {
+    const knownPrice = async (mint: string): Promise<number | null> => {
+      if (mint === USDC_MINT || mint === USDT_MINT) return 1
+      if (mint === SOL_MINT) return getSolPriceUSD()
+      return null
+    }
+
+    const tokenYUSD = await knownPrice(pool.tokenYMint)
+    if (tokenYUSD !== null) {
+      return { tokenXUSD: pool.currentPrice * tokenYUSD, tokenYUSD }
+    }
+
+    const tokenXUSD = await knownPrice(pool.tokenXMint)
+    if (tokenXUSD !== null) {
+      return { tokenXUSD, tokenYUSD: tokenXUSD / pool.currentPrice }
+    }
+
+    return null
+  }
+}
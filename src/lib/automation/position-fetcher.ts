@@ -3,10 +3,18 @@
  * Fetches current position data from database and Meteora API
  */
 
+import { SupabaseClient } from '@supabase/supabase-js'
 import { supabase } from '@/lib/supabase'
-import { PositionInfo } from './types'
+import { PositionInfo, PositionTransactionRow } from './types'
+import { edgeDistancePercent } from './range-monitor'
 
 export class PositionFetcher {
+  private db: SupabaseClient
+
+  constructor(db: SupabaseClient = supabase) {
+    this.db = db
+  }
+
   /**
    * Get all active positions for a wallet
    */
@@ -15,7 +23,7 @@ export class PositionFetcher {
 
     try {
       // Get positions from database
-      const { data: dbPositions, error } = await supabase
+      const { data: dbPositions, error } = await this.db
         .from('position_transactions')
         .select('*')
         .eq('user_id', userId)
@@ -25,9 +33,10 @@ export class PositionFetcher {
       if (error) throw error
 
       // Group by position_nft_address to get current state
-      const positionGroups = new Map<string, any[]>()
+      const positionGroups = new Map<string, PositionTransactionRow[]>()
+      const rows = (dbPositions || []) as PositionTransactionRow[]
 
-      dbPositions?.forEach(tx => {
+      rows.forEach(tx => {
         if (tx.position_nft_address) {
           if (!positionGroups.has(tx.position_nft_address)) {
             positionGroups.set(tx.position_nft_address, [])
@@ -52,6 +61,18 @@ export class PositionFetcher {
           ? feeClaims.sort((a, b) => b.block_time - a.block_time)[0]
           : null
 
+        // Cost basis: USD deposited at open time and by later adds, less partial withdrawals
+        // Fees and rewards already claimed are counted separately, as claimed_fees_usd
+        const usd = (t: PositionTransactionRow) => Math.abs(Number(t.total_usd) || 0)
+        const costBasisUSD = Math.max(0, txs.reduce((sum, t) => {
+          if (t.tx_type === 'position_open' || t.tx_type === 'liquidity_add') return sum + usd(t)
+          if (t.tx_type === 'liquidity_remove') return sum - usd(t)
+          return sum
+        }, 0))
+        const claimedFeesUSD = txs
+          .filter(t => t.tx_type === 'fee_claim' || t.tx_type === 'reward_claim')
+          .reduce((sum, t) => sum + usd(t), 0)
+
         // Calculate current position value and unclaimed fees
         // This is a simplified version - in production, fetch from Meteora API
         const positionInfo = await this.fetchPositionDetails(nftAddress, openTx)
@@ -67,7 +88,15 @@ export class PositionFetcher {
             total_usd: positionInfo.total_usd,
             unclaimed_fees_usd: positionInfo.unclaimed_fees_usd,
             is_out_of_range: positionInfo.is_out_of_range,
+            pair_address: positionInfo.pair_address,
+            bin_step: positionInfo.bin_step,
+            lower_bin_id: positionInfo.lower_bin_id,
+            upper_bin_id: positionInfo.upper_bin_id,
+            active_bin_id: positionInfo.active_bin_id,
+            edge_distance_percent: positionInfo.edge_distance_percent,
             fee_apr_24h: positionInfo.fee_apr_24h,
+            cost_basis_usd: costBasisUSD,
+            claimed_fees_usd: claimedFeesUSD,
             opened_at: new Date(openTx.block_time * 1000).toISOString(),
             last_claim_at: lastClaim ? new Date(lastClaim.block_time * 1000).toISOString() : null,
             last_rebalance_at: null // Would need to track rebalances
@@ -91,6 +120,12 @@ export class PositionFetcher {
     total_usd: number
     unclaimed_fees_usd: number
     is_out_of_range: boolean
+    pair_address: string
+    bin_step: number | null
+    lower_bin_id: number | null
+    upper_bin_id: number | null
+    active_bin_id: number | null
+    edge_distance_percent: number | null
     fee_apr_24h: number
   } | null> {
     try {
@@ -136,9 +171,22 @@ export class PositionFetcher {
 
       const totalUSD = (tokenXAmount * tokenXPrice) + (tokenYAmount * 1) // USDC = $1
       const unclaimedFeesUSD = (unclaimedFeeX * tokenXPrice) + (unclaimedFeeY * 1)
-      const isOutOfRange = posData.fee_apr_24h === 0 || posData.fee_apr_24h === null
       const feeApr24h = posData.fee_apr_24h || 0
 
+      // Bin range of the position and the pool's active bin
+      const lowerBinId = Number.isFinite(Number(posData.lower_bin_id)) ? Number(posData.lower_bin_id) : null
+      const upperBinId = Number.isFinite(Number(posData.upper_bin_id)) ? Number(posData.upper_bin_id) : null
+      const pool = await this.fetchActiveBin(pairAddress, tokenXDecimals, tokenYDecimals)
+      const activeBinId = pool?.activeBinId ?? null
+
+      // Without the bin range, a position earning no fees is assumed to be out of range
+      let isOutOfRange = posData.fee_apr_24h === 0 || posData.fee_apr_24h === null
+      let edgeDistance: number | null = null
+      if (lowerBinId !== null && upperBinId !== null && activeBinId !== null) {
+        isOutOfRange = activeBinId < lowerBinId || activeBinId > upperBinId
+        edgeDistance = edgeDistancePercent(lowerBinId, upperBinId, activeBinId)
+      }
+
       return {
         position_address: position.position_address || nftAddress,
         token_x_amount: tokenXAmount,
@@ -146,6 +194,12 @@ export class PositionFetcher {
         total_usd: totalUSD,
         unclaimed_fees_usd: unclaimedFeesUSD,
         is_out_of_range: isOutOfRange,
+        pair_address: pairAddress,
+        bin_step: pool?.binStep ?? null,
+        lower_bin_id: lowerBinId,
+        upper_bin_id: upperBinId,
+        active_bin_id: activeBinId,
+        edge_distance_percent: edgeDistance,
         fee_apr_24h: feeApr24h
       }
     } catch (error) {
@@ -153,5 +207,33 @@ export class PositionFetcher {
       return null
     }
   }
-}
+  /**
+   * Bin step and active bin of a pool
+   * The active bin is derived from the pool price: price per lamport = (1 + binStep / 10000) ^ binId
+   */
+  private async fetchActiveBin(
+    pairAddress: string,
+    tokenXDecimals: number,
+    tokenYDecimals: number
+  ): Promise<{ binStep: number; activeBinId: number | null } | null> {
+    try {
+      const response = await fetch(`https://dlmm-api.meteora.ag/pair/${pairAddress}`)
+      if (!response.ok) return null
+
+      const pair = await response.json()
+      const binStep = Number(pair.bin_step) || 0
+      const price = Number(pair.current_price) || 0
+      if (binStep <= 0) return null
+      if (price <= 0) return { binStep, activeBinId: null }
 
+      const pricePerLamport = price * Math.pow(10, tokenYDecimals - tokenXDecimals)
+      return {
+        binStep,
+        activeBinId: Math.round(Math.log(pricePerLamport) / Math.log(1 + binStep / 10_000))
+      }
+    } catch (error) {
+      console.error('Error fetching pool active bin:', error)
+      return null
+    }
+  }
+}
@@ -0,0 +1,109 @@
+/**
+ * Position Overrides
+ * Per-position settings keyed by position NFT address: exclude a position,
+ * use its own claim threshold or rebalance cooldown, or require approval for everything
+ */
+
+import { AutomationConfig, PositionOverride, PositionOverrideValues } from './types'
+import { SupabaseClient } from '@supabase/supabase-js'
+import { supabase } from '@/lib/supabase'
+
+export class PositionOverrides {
+  private config: AutomationConfig
+  private overrides: Map<string, PositionOverride> | null = null
+  private db: SupabaseClient
+
+  constructor(config: AutomationConfig, db: SupabaseClient = supabase) {
+    this.config = config
+    this.db = db
+  }
+
+  /**
+   * All overrides of the config by position NFT address (loaded once per instance)
+   */
+  async getAll(): Promise<Map<string, PositionOverride>> {
+    if (this.overrides) return this.overrides
+
+    const { data, error } = await this.db
+      .from('automation_position_overrides')
+      .select('*')
+      .eq('config_id', this.config.id)
+
+    if (error) {
+      console.error('Error loading position overrides:', error)
+      return new Map()
+    }
+
+    this.overrides = new Map(
+      ((data || []) as PositionOverride[]).map(override => [override.position_nft_address, override])
+    )
+    return this.overrides
+  }
+
+  async get(positionNftAddress: string): Promise<PositionOverride | null> {
+    return (await this.getAll()).get(positionNftAddress) || null
+  }
+
+  /**
+   * Whether a position is excluded from automation
+   */
+  async isExcluded(positionNftAddress: string): Promise<boolean> {
+    return (await this.get(positionNftAddress))?.excluded === true
+  }
+
+  /**
+   * Claim threshold for a position (override or config)
+   */
+  async getClaimFeeThresholdUSD(positionNftAddress: string): Promise<number> {
+    return (await this.get(positionNftAddress))?.claim_fee_threshold_usd ?? this.config.claim_fee_threshold_usd
+  }
+
+  /**
+   * Rebalance cooldown for a position (override or config)
+   */
+  async getRebalanceCooldownHours(positionNftAddress: string): Promise<number> {
+    return (await this.get(positionNftAddress))?.rebalance_cooldown_hours ?? this.config.rebalance_cooldown_hours
+  }
+
+  /**
+   * Create or replace the override of a position
+   */
+  async upsert(positionNftAddress: string, values: PositionOverrideValues): Promise<PositionOverride> {
+    const { data, error } = await this.db
+      .from('automation_position_overrides')
+      .upsert({
+        user_id: this.config.user_id,
+        config_id: this.config.id,
+        position_nft_address: positionNftAddress,
+        ...values,
+        updated_at: new Date().toISOString()
+      }, {
+        onConflict: 'config_id,position_nft_address'
+      })
+      .select()
+      .single()
+
+    if (error) throw error
+
+    const override = data as PositionOverride
+    this.overrides?.set(positionNftAddress, override)
+    return override
+  }
+
+  /**
+   * Remove the override of a position so it follows the config again
+   */
+  async remove(positionNftAddress: string): Promise<boolean> {
+    const { data, error } = await this.db
+      .from('automation_position_overrides')
+      .delete()
+      .eq('config_id', this.config.id)
+      .eq('position_nft_address', positionNftAddress)
+      .select('id')
+
+    if (error) throw error
+
+    this.overrides?.delete(positionNftAddress)
+    return (data?.length || 0) > 0
+  }
+}
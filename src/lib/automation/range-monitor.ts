@@ -0,0 +1,191 @@
+/**
+ * Range Monitor
+ * Measures how close a position's active bin is to the edge of its range, scales the
+ * rebalance threshold by recent price volatility and sizes the new range from it
+ */
+
+import { AutomationConfig, PositionInfo, RebalanceRange } from './types'
+
+// Hourly candles of a pool (GeckoTerminal indexes Meteora DLMM pools by pair address)
+const OHLCV_URL = (pairAddress: string) =>
+  `https://api.geckoterminal.com/api/v2/networks/solana/pools/${pairAddress}/ohlcv/hour?aggregate=1&limit=72`
+
+const CACHE_TTL_MS = 10 * 60 * 1000
+
+// Fewer hourly returns than this is not enough to call a pair calm or volatile
+const MIN_RETURNS = 12
+
+// Daily volatility at which rebalance_threshold_percent applies unchanged
+const REFERENCE_DAILY_VOLATILITY_PERCENT = 5
+
+// Volatility moves the threshold by at most this factor either way
+const MAX_THRESHOLD_SCALE = 2
+
+// Centered is 50% from either edge, so a larger threshold would always fire
+const MAX_THRESHOLD_PERCENT = 50
+
+// Same maximum as auto-open (70 bins); narrower ranges would be rebalanced constantly
+const MAX_BINS_PER_SIDE = 34
+const MIN_BINS_PER_SIDE = 5
+
+const volatilityCache = new Map<string, { value: number | null; fetchedAt: number }>()
+
+export interface RangeAssessment {
+  shouldRebalance: boolean
+  outOfRange: boolean
+  edgeDistancePercent: number | null
+  // rebalance_threshold_percent after volatility scaling
+  thresholdPercent: number
+  dailyVolatilityPercent: number | null
+  reason: string
+}
+
+/**
+ * Bins between the active bin and the nearest edge, as % of the range width
+ */
+export function edgeDistancePercent(lowerBinId: number, upperBinId: number, activeBinId: number): number {
+  if (activeBinId < lowerBinId || activeBinId > upperBinId) return 0
+  const widthBins = upperBinId - lowerBinId + 1
+  return (Math.min(activeBinId - lowerBinId, upperBinId - activeBinId) / widthBins) * 100
+}
+
+export class RangeMonitor {
+  private config: AutomationConfig
+
+  constructor(config: AutomationConfig) {
+    this.config = config
+  }
+
+  /**
+   * Whether a position should be rebalanced: out of range, or drifting within the threshold of an edge
+   */
+  async assess(position: PositionInfo): Promise<RangeAssessment> {
+    const dailyVolatilityPercent = this.config.rebalance_volatility_scaling && position.pair_address
+      ? await this.getDailyVolatilityPercent(position.pair_address)
+      : null
+    const thresholdPercent = this.getThresholdPercent(dailyVolatilityPercent)
+    const edge = position.edge_distance_percent
+
+    const base = {
+      outOfRange: position.is_out_of_range,
+      edgeDistancePercent: edge,
+      thresholdPercent,
+      dailyVolatilityPercent
+    }
+    const thresholdNote = dailyVolatilityPercent !== null
+      ? `threshold ${thresholdPercent.toFixed(1)}% at ${dailyVolatilityPercent.toFixed(1)}% daily volatility`
+      : `threshold ${thresholdPercent.toFixed(1)}%`
+
+    if (position.is_out_of_range) {
+      return { ...base, shouldRebalance: true, reason: 'Position out of range, earning no fees' }
+    }
+
+    // Without the bin range only leaving the range can be detected
+    if (edge === null) {
+      return { ...base, shouldRebalance: false, reason: 'Position is in range, no rebalance needed' }
+    }
+
+    if (edge <= thresholdPercent) {
+      return {
+        ...base,
+        shouldRebalance: true,
+        reason: `Active bin is ${edge.toFixed(1)}% of the range width from the edge (${thresholdNote})`
+      }
+    }
+
+    return {
+      ...base,
+      shouldRebalance: false,
+      reason: `Position is in range, ${edge.toFixed(1)}% from the edge (${thresholdNote})`
+    }
+  }
+
+  /**
+   * Rebalance threshold, wider when the pair is more volatile than the reference and narrower when calmer
+   */
+  getThresholdPercent(dailyVolatilityPercent: number | null): number {
+    const base = this.config.rebalance_threshold_percent
+    if (dailyVolatilityPercent === null) return Math.min(base, MAX_THRESHOLD_PERCENT)
+
+    const scale = Math.max(
+      1 / MAX_THRESHOLD_SCALE,
+      Math.min(dailyVolatilityPercent / REFERENCE_DAILY_VOLATILITY_PERCENT, MAX_THRESHOLD_SCALE)
+    )
+    return Math.min(base * scale, MAX_THRESHOLD_PERCENT)
+  }
+
+  /**
+   * Range to reopen the position with: wide enough for rebalance_range_volatility_multiple daily moves
+   * Without price history the current width is kept
+   */
+  async getNewRange(position: PositionInfo): Promise<RebalanceRange> {
+    const dailyVolatilityPercent = position.pair_address
+      ? await this.getDailyVolatilityPercent(position.pair_address)
+      : null
+
+    let binsPerSide = MAX_BINS_PER_SIDE
+    if (dailyVolatilityPercent !== null && position.bin_step) {
+      const move = this.config.rebalance_range_volatility_multiple * dailyVolatilityPercent / 100
+      binsPerSide = Math.ceil(Math.log(1 + move) / Math.log(1 + position.bin_step / 10_000))
+    } else if (position.lower_bin_id !== null && position.upper_bin_id !== null) {
+      binsPerSide = Math.round((position.upper_bin_id - position.lower_bin_id) / 2)
+    }
+    binsPerSide = Math.max(MIN_BINS_PER_SIDE, Math.min(binsPerSide, MAX_BINS_PER_SIDE))
+
+    return {
+      binsPerSide,
+      widthPercent: position.bin_step
+        ? (Math.pow(1 + position.bin_step / 10_000, binsPerSide) - 1) * 100
+        : null,
+      dailyVolatilityPercent
+    }
+  }
+
+  /**
+   * Standard deviation of daily returns in %, from the last 72 hourly closes (cached briefly)
+   */
+  async getDailyVolatilityPercent(pairAddress: string): Promise<number | null> {
+    const cached = volatilityCache.get(pairAddress)
+    if (cached && Date.now() - cached.fetchedAt < CACHE_TTL_MS) {
+      return cached.value
+    }
+
+    const closes = (await this.fetchHourlyCloses(pairAddress)).filter(close => close > 0)
+    const returns = closes.slice(1).map((close, i) => Math.log(close / closes[i]))
+
+    let value: number | null = null
+    if (returns.length >= MIN_RETURNS) {
+      const mean = returns.reduce((sum, r) => sum + r, 0) / returns.length
+      const variance = returns.reduce((sum, r) => sum + (r - mean) ** 2, 0) / (returns.length - 1)
+      value = Math.sqrt(variance * 24) * 100
+    }
+
+    volatilityCache.set(pairAddress, { value, fetchedAt: Date.now() })
+    return value
+  }
+
+  /**
+   * Hourly close prices of a pool, oldest first
+   */
+  protected async fetchHourlyCloses(pairAddress: string): Promise<number[]> {
+    try {
+      const response = await fetch(OHLCV_URL(pairAddress), { headers: { Accept: 'application/json' } })
+      if (!response.ok) {
+        console.warn(`Price history fetch failed for ${pairAddress}: ${response.status}`)
+        return []
+      }
+
+      const data = await response.json()
+      // Candles are [timestamp, open, high, low, close, volume], newest first
+      const candles: Array<[number, number, number, number, number, number]> = data?.data?.attributes?.ohlcv_list || []
+
+      return candles
+        .slice()
+        .sort((a, b) => a[0] - b[0])
+        .map(candle => Number(candle[4]))
+    } catch (error) {
+      console.warn(`Could not fetch price history for ${pairAddress}: ${error instanceof Error ? error.message : String(error)}`)
+      return []
+    }
+  }
+}
@@ -3,14 +3,54 @@
  * Defines and evaluates automation rules
  */
 
-import { AutomationConfig, PositionInfo, RuleEvaluationResult } from './types'
+import { AutomationActionType, AutomationConfig, PositionInfo, RuleEvaluationResult } from './types'
+import { SupabaseClient } from '@supabase/supabase-js'
 import { supabase } from '@/lib/supabase'
+import { CustomRulesEvaluator } from './custom-rules'
+import { CostEstimator } from './cost-estimator'
+import { PoolSelector } from './pool-selector'
+import { PositionOverrides } from './position-overrides'
+import { RangeMonitor } from './range-monitor'
 
 export class RulesEvaluator {
-  private config: AutomationConfig
+  protected config: AutomationConfig
+  protected costEstimator: CostEstimator
+  private customRulesEvaluator: CustomRulesEvaluator
+  private poolSelector: PoolSelector
+  private positionOverrides: PositionOverrides
+  private rangeMonitor: RangeMonitor
+  private db: SupabaseClient
 
-  constructor(config: AutomationConfig) {
+  constructor(
+    config: AutomationConfig,
+    customRulesEvaluator?: CustomRulesEvaluator,
+    costEstimator?: CostEstimator,
+    poolSelector?: PoolSelector,
+    positionOverrides?: PositionOverrides,
+    db: SupabaseClient = supabase
+  ) {
     this.config = config
+    this.db = db
+    this.costEstimator = costEstimator || new CostEstimator(config.wallet_address)
+    this.customRulesEvaluator = customRulesEvaluator || new CustomRulesEvaluator(config, this.costEstimator, db)
+    this.poolSelector = poolSelector || new PoolSelector(config)
+    this.positionOverrides = positionOverrides || new PositionOverrides(config, db)
+    this.rangeMonitor = new RangeMonitor(config)
+  }
+
+  /**
+   * Current time in ms (overridden when replaying history)
+   */
+  protected now(): number {
+    return Date.now()
+  }
+
+  /**
+   * Network cost of an action in USD (built and simulated when possible)
+   */
+  protected async estimateCostUSD(actionType: AutomationActionType, position?: PositionInfo): Promise<number> {
+    const estimate = await this.costEstimator.estimate(actionType, position)
+    return estimate.costUSD
   }
 
   /**
@@ -19,9 +59,23 @@ export class RulesEvaluator {
   async evaluateRules(positions: PositionInfo[]): Promise<RuleEvaluationResult[]> {
     const results: RuleEvaluationResult[] = []
 
-    for (const position of positions) {
+    // Excluded positions still count towards max_positions, but no rule acts on them
+    const overrides = await this.positionOverrides.getAll()
+    const automated = positions.filter(p => !overrides.get(p.position_nft_address)?.excluded)
+
+    for (const position of automated) {
+      // Rule 5: Auto-Compound (claims as part of compounding, so it replaces Rule 1)
+      let compounding = false
+      if (this.config.auto_compound) {
+        const compoundResult = await this.evaluateCompoundRule(position, positions)
+        if (compoundResult.shouldExecute) {
+          results.push(compoundResult)
+          compounding = true
+        }
+      }
+
       // Rule 1: Auto-Claim Fees
-      if (this.config.auto_claim_fees) {
+      if (this.config.auto_claim_fees && !compounding) {
         const claimResult = await this.evaluateClaimFeesRule(position)
         if (claimResult.shouldExecute) {
           results.push(claimResult)
@@ -35,16 +89,37 @@ export class RulesEvaluator {
           results.push(rebalanceResult)
         }
       }
+
+      // Rule 4: Stop-Loss / Take-Profit
+      if (this.config.auto_close_position) {
+        const closeResult = await this.evaluateClosePositionRule(position)
+        if (closeResult.shouldExecute) {
+          results.push(closeResult)
+        }
+      }
     }
 
-    // Rule 3: Auto-Open Position (if no active positions)
-    if (this.config.auto_open_position && positions.length === 0) {
+    // Rule 3: Auto-Open Position (while under the position limit)
+    if (this.config.auto_open_position && positions.length < this.config.max_positions) {
       const openResult = await this.evaluateOpenPositionRule()
       if (openResult.shouldExecute) {
         results.push(openResult)
       }
     }
 
+    // User-defined rules from automation_rules
+    const customResults = await this.customRulesEvaluator.evaluateRules(automated)
+    results.push(...customResults)
+
+    // Positions set to "approve everything"
+    for (const result of results) {
+      const override = result.positionNftAddress ? overrides.get(result.positionNftAddress) : undefined
+      if (override?.require_approval && !result.requiresApproval) {
+        result.requiresApproval = true
+        result.reason += ' (position requires approval)'
+      }
+    }
+
     return results
   }
 
@@ -52,13 +127,14 @@ export class RulesEvaluator {
    * Rule 1: Auto-Claim Fees
    */
   private async evaluateClaimFeesRule(position: PositionInfo): Promise<RuleEvaluationResult> {
-    // Check if fees meet threshold
-    if (position.unclaimed_fees_usd < this.config.claim_fee_threshold_usd) {
+    // Check if fees meet threshold (the position's own threshold if overridden)
+    const thresholdUSD = await this.positionOverrides.getClaimFeeThresholdUSD(position.position_nft_address)
+    if (position.unclaimed_fees_usd < thresholdUSD) {
       return {
         shouldExecute: false,
         actionType: 'claim_fees',
-        estimatedCostUSD: 0.001 * 190, // ~$0.19 gas fee estimate
-        reason: `Unclaimed fees $${position.unclaimed_fees_usd.toFixed(2)} below threshold $${this.config.claim_fee_threshold_usd.toFixed(2)}`,
+        estimatedCostUSD: 0,
+        reason: `Unclaimed fees $${position.unclaimed_fees_usd.toFixed(2)} below threshold $${thresholdUSD.toFixed(2)}`,
         requiresApproval: false
       }
     }
@@ -67,22 +143,21 @@ export class RulesEvaluator {
     if (position.last_claim_at) {
       const lastClaimTime = new Date(position.last_claim_at).getTime()
       const cooldownMs = this.config.claim_fee_interval_hours * 60 * 60 * 1000
-      const timeSinceClaim = Date.now() - lastClaimTime
+      const timeSinceClaim = this.now() - lastClaimTime
 
       if (timeSinceClaim < cooldownMs) {
         const hoursRemaining = (cooldownMs - timeSinceClaim) / (60 * 60 * 1000)
         return {
           shouldExecute: false,
           actionType: 'claim_fees',
-          estimatedCostUSD: 0.001 * 190,
+          estimatedCostUSD: 0,
           reason: `Cooldown period active. ${hoursRemaining.toFixed(1)} hours remaining`,
           requiresApproval: false
         }
       }
     }
 
-    // Estimate gas fee (~0.001 SOL = ~$0.19)
-    const estimatedGasFeeUSD = 0.001 * 190
+    const estimatedGasFeeUSD = await this.estimateCostUSD('claim_fees', position)
 
     return {
       shouldExecute: true,
@@ -97,24 +172,26 @@ export class RulesEvaluator {
 
   /**
    * Rule 2: Auto-Rebalance
+   * Fires once the active bin drifts within the (volatility-scaled) threshold of an edge, or leaves the range
    */
   private async evaluateRebalanceRule(position: PositionInfo): Promise<RuleEvaluationResult> {
-    // Check if position is out of range
-    if (!position.is_out_of_range) {
+    const assessment = await this.rangeMonitor.assess(position)
+    if (!assessment.shouldRebalance) {
       return {
         shouldExecute: false,
         actionType: 'rebalance',
         estimatedCostUSD: 0,
-        reason: 'Position is in range, no rebalance needed',
+        reason: assessment.reason,
         requiresApproval: false
       }
     }
 
-    // Check cooldown period
+    // Check cooldown period (the position's own cooldown if overridden)
     if (position.last_rebalance_at) {
       const lastRebalanceTime = new Date(position.last_rebalance_at).getTime()
-      const cooldownMs = this.config.rebalance_cooldown_hours * 60 * 60 * 1000
-      const timeSinceRebalance = Date.now() - lastRebalanceTime
+      const cooldownHours = await this.positionOverrides.getRebalanceCooldownHours(position.position_nft_address)
+      const cooldownMs = cooldownHours * 60 * 60 * 1000
+      const timeSinceRebalance = this.now() - lastRebalanceTime
 
       if (timeSinceRebalance < cooldownMs) {
         const hoursRemaining = (cooldownMs - timeSinceRebalance) / (60 * 60 * 1000)
@@ -128,21 +205,26 @@ export class RulesEvaluator {
       }
     }
 
-    // Estimate cost (gas fees for close + open)
-    const estimatedGasFeeUSD = 0.002 * 190 // ~$0.38 for two transactions
+    const estimatedGasFeeUSD = await this.estimateCostUSD('rebalance', position)
+    const rebalanceRange = await this.rangeMonitor.getNewRange(position)
 
     // Check if requires approval
     const requiresApproval = this.config.require_manual_approval && 
                             position.total_usd > this.config.approval_threshold_usd
 
+    const rangeNote = rebalanceRange.widthPercent !== null
+      ? `New range ±${rebalanceRange.binsPerSide} bins (±${rebalanceRange.widthPercent.toFixed(1)}%)`
+      : `New range ±${rebalanceRange.binsPerSide} bins`
+
     return {
       shouldExecute: true,
       actionType: 'rebalance',
       positionAddress: position.position_address,
       positionNftAddress: position.position_nft_address,
       estimatedCostUSD: estimatedGasFeeUSD,
-      reason: `Position out of range. Value: $${position.total_usd.toFixed(2)}. Estimated gas: $${estimatedGasFeeUSD.toFixed(2)}`,
-      requiresApproval
+      reason: `${assessment.reason}. Value: $${position.total_usd.toFixed(2)}. ${rangeNote}. Estimated gas: $${estimatedGasFeeUSD.toFixed(2)}`,
+      requiresApproval,
+      rebalanceRange
     }
   }
 
@@ -151,20 +233,12 @@ export class RulesEvaluator {
    */
   private async evaluateOpenPositionRule(): Promise<RuleEvaluationResult> {
     // Check if enough time has passed since last position open
-    const { data: lastOpen } = await supabase
-      .from('automation_logs')
-      .select('created_at')
-      .eq('user_id', this.config.user_id)
-      .eq('action_type', 'open_position')
-      .eq('status', 'executed')
-      .order('created_at', { ascending: false })
-      .limit(1)
-      .single()
+    const lastOpenAt = await this.getLastOpenAt()
 
-    if (lastOpen) {
-      const lastOpenTime = new Date(lastOpen.created_at).getTime()
+    if (lastOpenAt) {
+      const lastOpenTime = new Date(lastOpenAt).getTime()
       const minIntervalMs = this.config.min_days_between_opens * 24 * 60 * 60 * 1000
-      const timeSinceOpen = Date.now() - lastOpenTime
+      const timeSinceOpen = this.now() - lastOpenTime
 
       if (timeSinceOpen < minIntervalMs) {
         const daysRemaining = (minIntervalMs - timeSinceOpen) / (24 * 60 * 60 * 1000)
@@ -179,27 +253,7 @@ export class RulesEvaluator {
     }
 
     // Check current position count
-    const { data: activePositions } = await supabase
-      .from('position_transactions')
-      .select('position_nft_address')
-      .eq('user_id', this.config.user_id)
-      .eq('wallet_address', this.config.wallet_address)
-      .eq('tx_type', 'position_open')
-      .not('position_nft_address', 'is', null)
-
-    // Get unique position count
-    const uniquePositions = new Set(activePositions?.map(p => p.position_nft_address) || [])
-    
-    // Check for closed positions
-    const { data: closedPositions } = await supabase
-      .from('position_transactions')
-      .select('position_nft_address')
-      .eq('user_id', this.config.user_id)
-      .eq('wallet_address', this.config.wallet_address)
-      .eq('tx_type', 'position_close')
-
-    const closedSet = new Set(closedPositions?.map(p => p.position_nft_address) || [])
-    const activeCount = Array.from(uniquePositions).filter(addr => !closedSet.has(addr)).length
+    const activeCount = await this.getActivePositionCount()
 
     if (activeCount >= this.config.max_positions) {
       return {
@@ -211,7 +265,21 @@ export class RulesEvaluator {
       }
     }
 
-    const estimatedCostUSD = this.config.min_position_size_usd + (0.001 * 190) // Position + gas
+    // Gas comes out of the same max_position_size_usd limit the safety check applies
+    const estimatedGasFeeUSD = await this.estimateCostUSD('open_position')
+    const { selection, rejected } = await this.poolSelector.select(estimatedGasFeeUSD)
+
+    if (!selection) {
+      return {
+        shouldExecute: false,
+        actionType: 'open_position',
+        estimatedCostUSD: 0,
+        reason: `No eligible pool. ${rejected.slice(0, 3).join('; ')}${rejected.length > 3 ? ` (+${rejected.length - 3} more)` : ''}`,
+        requiresApproval: false
+      }
+    }
+
+    const estimatedCostUSD = selection.sizeUSD + estimatedGasFeeUSD // Position + gas
     const requiresApproval = this.config.require_manual_approval && 
                             estimatedCostUSD > this.config.approval_threshold_usd
 
@@ -219,9 +287,237 @@ export class RulesEvaluator {
       shouldExecute: true,
       actionType: 'open_position',
       estimatedCostUSD,
-      reason: `No active positions. Opening new position with $${this.config.min_position_size_usd.toFixed(2)}`,
+      estimatedGasUSD: estimatedGasFeeUSD,
+      reason: `${activeCount} of ${this.config.max_positions} positions active. Opening $${selection.sizeUSD.toFixed(2)} in ${selection.poolName}`,
+      requiresApproval,
+      poolSelection: selection
+    }
+  }
+
+  /**
+   * Rule 4: Stop-Loss / Take-Profit
+   * PnL = (current value + unclaimed fees + claimed fees) - cost basis
+   */
+  private async evaluateClosePositionRule(position: PositionInfo): Promise<RuleEvaluationResult> {
+    if (position.cost_basis_usd <= 0) {
+      return {
+        shouldExecute: false,
+        actionType: 'close_position',
+        estimatedCostUSD: 0,
+        reason: 'No cost basis recorded for position, cannot evaluate stop-loss/take-profit',
+        requiresApproval: false
+      }
+    }
+
+    const pnlUSD = position.total_usd + position.unclaimed_fees_usd + position.claimed_fees_usd - position.cost_basis_usd
+    const pnlPercent = (pnlUSD / position.cost_basis_usd) * 100
+    const pnlLabel = `PnL ${pnlUSD >= 0 ? '+' : ''}$${pnlUSD.toFixed(2)} (${pnlPercent.toFixed(1)}%)`
+
+    let trigger: 'stop_loss' | 'take_profit' | null = null
+    let triggerDetail = ''
+
+    if (this.config.stop_loss_percent !== null && pnlPercent <= -Math.abs(this.config.stop_loss_percent)) {
+      trigger = 'stop_loss'
+      triggerDetail = `below stop-loss -${Math.abs(this.config.stop_loss_percent).toFixed(1)}%`
+    } else if (this.config.stop_loss_usd !== null && pnlUSD <= -Math.abs(this.config.stop_loss_usd)) {
+      trigger = 'stop_loss'
+      triggerDetail = `below stop-loss -$${Math.abs(this.config.stop_loss_usd).toFixed(2)}`
+    } else if (this.config.take_profit_percent !== null && pnlPercent >= this.config.take_profit_percent) {
+      trigger = 'take_profit'
+      triggerDetail = `above take-profit +${this.config.take_profit_percent.toFixed(1)}%`
+    } else if (this.config.take_profit_usd !== null && pnlUSD >= this.config.take_profit_usd) {
+      trigger = 'take_profit'
+      triggerDetail = `above take-profit +$${this.config.take_profit_usd.toFixed(2)}`
+    }
+
+    if (!trigger) {
+      return {
+        shouldExecute: false,
+        actionType: 'close_position',
+        estimatedCostUSD: 0,
+        reason: `${pnlLabel} within stop-loss/take-profit limits`,
+        requiresApproval: false
+      }
+    }
+
+    // Don't queue a second close while one is still waiting to go out
+    if (await this.hasActiveAction('close_position', position.position_nft_address)) {
+      return {
+        shouldExecute: false,
+        actionType: 'close_position',
+        estimatedCostUSD: 0,
+        reason: 'Close already pending for this position',
+        requiresApproval: false
+      }
+    }
+
+    const estimatedGasFeeUSD = await this.estimateCostUSD('close_position', position)
+    const requiresApproval = this.config.require_manual_approval && 
+                            position.total_usd > this.config.approval_threshold_usd
+
+    return {
+      shouldExecute: true,
+      actionType: 'close_position',
+      positionAddress: position.position_address,
+      positionNftAddress: position.position_nft_address,
+      estimatedCostUSD: estimatedGasFeeUSD,
+      reason: `${pnlLabel} ${triggerDetail}. Value: $${position.total_usd.toFixed(2)}`,
+      requiresApproval,
+      ruleName: `auto_${trigger}`
+    }
+  }
+
+  /**
+   * Rule 5: Auto-Compound
+   * Claims fees and adds them back as liquidity to the same (or configured target) position
+   */
+  private async evaluateCompoundRule(position: PositionInfo, positions: PositionInfo[]): Promise<RuleEvaluationResult> {
+    if (position.unclaimed_fees_usd < this.config.compound_threshold_usd) {
+      return {
+        shouldExecute: false,
+        actionType: 'compound',
+        estimatedCostUSD: 0,
+        reason: `Unclaimed fees $${position.unclaimed_fees_usd.toFixed(2)} below compound threshold $${this.config.compound_threshold_usd.toFixed(2)}`,
+        requiresApproval: false
+      }
+    }
+
+    const target = this.config.compound_target_position
+    if (target && !positions.some(p => p.position_nft_address === target)) {
+      return {
+        shouldExecute: false,
+        actionType: 'compound',
+        estimatedCostUSD: 0,
+        reason: `Compound target position ${target} is not active`,
+        requiresApproval: false
+      }
+    }
+
+    // Check cooldown period
+    const lastCompoundAt = await this.getLastCompoundAt(position.position_nft_address)
+    if (lastCompoundAt) {
+      const cooldownMs = this.config.compound_interval_hours * 60 * 60 * 1000
+      const timeSinceCompound = this.now() - new Date(lastCompoundAt).getTime()
+
+      if (timeSinceCompound < cooldownMs) {
+        const hoursRemaining = (cooldownMs - timeSinceCompound) / (60 * 60 * 1000)
+        return {
+          shouldExecute: false,
+          actionType: 'compound',
+          estimatedCostUSD: 0,
+          reason: `Compound cooldown active. ${hoursRemaining.toFixed(1)} hours remaining`,
+          requiresApproval: false
+        }
+      }
+    }
+
+    if (await this.hasActiveAction('compound', position.position_nft_address)) {
+      return {
+        shouldExecute: false,
+        actionType: 'compound',
+        estimatedCostUSD: 0,
+        reason: 'Compound already pending for this position',
+        requiresApproval: false
+      }
+    }
+
+    const estimatedGasFeeUSD = await this.estimateCostUSD('compound', position)
+
+    // The reinvested fees are what moves, so they decide whether approval is needed
+    const requiresApproval = this.config.require_manual_approval &&
+                            position.unclaimed_fees_usd > this.config.approval_threshold_usd
+
+    const into = target && target !== position.position_nft_address ? `position ${target}` : 'the same position'
+
+    return {
+      shouldExecute: true,
+      actionType: 'compound',
+      positionAddress: position.position_address,
+      positionNftAddress: position.position_nft_address,
+      estimatedCostUSD: estimatedGasFeeUSD,
+      reason: `Compounding $${position.unclaimed_fees_usd.toFixed(2)} of fees into ${into}. Gas fee: $${estimatedGasFeeUSD.toFixed(2)}`,
       requiresApproval
     }
   }
-}
 
+  /**
+   * Time of the last executed compound for a position
+   */
+  protected async getLastCompoundAt(positionNftAddress: string): Promise<string | null> {
+    const { data: lastCompound } = await this.db
+      .from('automation_logs')
+      .select('created_at')
+      .eq('config_id', this.config.id)
+      .eq('action_type', 'compound')
+      .eq('position_nft_address', positionNftAddress)
+      .eq('status', 'executed')
+      .order('created_at', { ascending: false })
+      .limit(1)
+      .single()
+
+    return lastCompound?.created_at || null
+  }
+
+  /**
+   * Time of the last executed open_position action
+   */
+  protected async getLastOpenAt(): Promise<string | null> {
+    const { data: lastOpen } = await this.db
+      .from('automation_logs')
+      .select('created_at')
+      .eq('user_id', this.config.user_id)
+      .eq('action_type', 'open_position')
+      .eq('status', 'executed')
+      .order('created_at', { ascending: false })
+      .limit(1)
+      .single()
+
+    return lastOpen?.created_at || null
+  }
+
+  /**
+   * Number of positions opened and not yet closed
+   */
+  protected async getActivePositionCount(): Promise<number> {
+    const { data: activePositions } = await this.db
+      .from('position_transactions')
+      .select('position_nft_address')
+      .eq('user_id', this.config.user_id)
+      .eq('wallet_address', this.config.wallet_address)
+      .eq('tx_type', 'position_open')
+      .not('position_nft_address', 'is', null)
+
+    // Get unique position count
+    const uniquePositions = new Set(activePositions?.map(p => p.position_nft_address) || [])
+    
+    // Check for closed positions
+    const { data: closedPositions } = await this.db
+      .from('position_transactions')
+      .select('position_nft_address')
+      .eq('user_id', this.config.user_id)
+      .eq('wallet_address', this.config.wallet_address)
+      .eq('tx_type', 'position_close')
+
+    const closedSet = new Set(closedPositions?.map(p => p.position_nft_address) || [])
+    return Array.from(uniquePositions).filter(addr => !closedSet.has(addr)).length
+  }
+
+  /**
+   * Whether an action of this type is already pending/approved for the position
+   */
+  protected async hasActiveAction(
+    actionType: RuleEvaluationResult['actionType'],
+    positionNftAddress: string
+  ): Promise<boolean> {
+    const { data } = await this.db
+      .from('automation_logs')
+      .select('id')
+      .eq('config_id', this.config.id)
+      .eq('action_type', actionType)
+      .eq('position_nft_address', positionNftAddress)
+      .in('status', ['pending', 'approved'])
+      .limit(1)
+
+    return !!data && data.length > 0
+  }
+}
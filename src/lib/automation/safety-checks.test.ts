@@ -0,0 +1,80 @@
+import { describe, expect, it, vi } from 'vitest'
+import { AutomationConfig, PoolSelection, PositionInfo } from './types'
+import { BudgetManager } from './budget-manager'
+import { CircuitBreaker } from './circuit-breaker'
+import { PositionOverrides } from './position-overrides'
+import { TokenRiskChecker } from './token-risk'
+import { PositionTracker } from '@/lib/positionTracker'
+
+vi.mock('@/lib/sol-price', () => ({
+  getSolPriceUSD: async () => 100
+}))
+
+const { SafetyChecker } = await import('./safety-checks')
+
+const SOL_MINT = 'So11111111111111111111111111111111111111112'
+const USDC_MINT = 'EPjFWdd5AufqSSqeM2qN1xzybapC8G4wEGGkZwyTDt1v'
+
+const config = {
+  id: 'config-1',
+  user_id: 'user-1',
+  wallet_address: 'wallet-1',
+  min_sol_reserve: 0.1,
+  min_position_size_usd: 10,
+  max_position_size_usd: 1000
+} as AutomationConfig
+
+// Everything but the SOL reserve passes
+function makeChecker(balanceSOL: number) {
+  return new SafetyChecker(
+    config,
+    { canSpend: async () => ({ allowed: true }) } as unknown as BudgetManager,
+    { getBlockingTrip: async () => null } as unknown as CircuitBreaker,
+    { isExcluded: async () => false } as unknown as PositionOverrides,
+    { check: async () => [] } as unknown as TokenRiskChecker,
+    { getSolBalance: async () => balanceSOL } as unknown as PositionTracker
+  )
+}
+
+// $200 SOL/USDC position: 1 SOL and 100 USDC
+const selection = {
+  poolAddress: 'pool-1',
+  tokenXMint: SOL_MINT,
+  tokenYMint: USDC_MINT,
+  sizeUSD: 200,
+  amountTokenX: 1,
+  amountTokenY: 100
+} as PoolSelection
+
+describe('SafetyChecker SOL reserve', () => {
+  it('subtracts the gas, rent and SOL leg of a new position, not its USD size', async () => {
+    // 1.2 SOL - 0.01 gas - 0.06 rent - 1 SOL deposit = 0.13 SOL left
+    const result = await makeChecker(1.2).checkAction('open_position', 201, undefined, 'meteora', selection, 1)
+
+    expect(result.allowed).toBe(true)
+    expect(result.warnings?.[0]).toContain('0.1300 SOL left')
+  })
+
+  it('refuses a position that would dip below the reserve', async () => {
+    const result = await makeChecker(1.1).checkAction('open_position', 201, undefined, 'meteora', selection, 1)
+
+    expect(result.allowed).toBe(false)
+    expect(result.reason).toBe(
+      'Would leave 0.0300 SOL, below the 0.1 SOL reserve (balance 1.1000 SOL, fee 0.0100 SOL, deposit and rent 1.0600 SOL)')
+  })
+
+  it('deposits no SOL into pools without a SOL leg', async () => {
+    const usdcOnly = { ...selection, tokenXMint: 'token-x', amountTokenX: 10 }
+    const result = await makeChecker(0.5).checkAction('open_position', 201, undefined, 'meteora', usdcOnly, 1)
+
+    expect(result).toEqual({ allowed: true })
+  })
+
+  it('treats the whole cost as gas when no gas estimate is given', async () => {
+    const position = { position_nft_address: 'position-1' } as PositionInfo
+    const result = await makeChecker(0.11).checkAction('close_position', 2, position)
+
+    expect(result.allowed).toBe(false)
+    expect(result.reason).toContain('fee 0.0200 SOL')
+  })
+})
@@ -3,30 +3,84 @@
  * Validates actions before execution to prevent errors and protect capital
  */
 
-import { AutomationConfig, SafetyCheckResult, PositionInfo } from './types'
+import { AutomationConfig, SafetyCheckResult, PositionInfo, PoolSelection } from './types'
 import { BudgetManager } from './budget-manager'
+import { CircuitBreaker } from './circuit-breaker'
+import { PositionOverrides } from './position-overrides'
+import { RangeMonitor } from './range-monitor'
+import { TokenRiskChecker } from './token-risk'
+import { PositionTracker } from '@/lib/positionTracker'
+import { getServerRpcUrl } from '@/lib/env-config'
+import { SOL_MINT } from '@/lib/meteora-transaction-parser'
+import { getSolPriceUSD } from '@/lib/sol-price'
+
+// Rent for a new DLMM position account (refunded when the position is closed)
+const POSITION_RENT_SOL = 0.06
+
+// Warn once the balance after an action is below this multiple of the reserve
+const RESERVE_WARNING_MULTIPLE = 2
 
 export class SafetyChecker {
   private config: AutomationConfig
   private budgetManager: BudgetManager
+  private circuitBreaker: CircuitBreaker
+  private positionOverrides: PositionOverrides
+  private rangeMonitor: RangeMonitor
+  private tokenRiskChecker: TokenRiskChecker
+  private positionTracker: PositionTracker
 
-  constructor(config: AutomationConfig) {
+  constructor(
+    config: AutomationConfig,
+    budgetManager?: BudgetManager,
+    circuitBreaker?: CircuitBreaker,
+    positionOverrides?: PositionOverrides,
+    tokenRiskChecker?: TokenRiskChecker,
+    positionTracker?: PositionTracker
+  ) {
     this.config = config
-    this.budgetManager = new BudgetManager(config)
+    this.budgetManager = budgetManager || new BudgetManager(config)
+    this.circuitBreaker = circuitBreaker || new CircuitBreaker(config)
+    this.positionOverrides = positionOverrides || new PositionOverrides(config)
+    this.rangeMonitor = new RangeMonitor(config)
+    this.tokenRiskChecker = tokenRiskChecker || new TokenRiskChecker(config)
+    this.positionTracker = positionTracker || new PositionTracker(getServerRpcUrl())
   }
 
   /**
    * Check if action can be executed safely
+   * estimatedGasUSD is the network fee part of estimatedCostUSD (the whole cost when not given)
    */
   async checkAction(
-    actionType: 'open_position' | 'claim_fees' | 'rebalance' | 'close_position',
+    actionType: 'open_position' | 'claim_fees' | 'compound' | 'rebalance' | 'close_position',
     estimatedCostUSD: number,
-    positionInfo?: PositionInfo
+    positionInfo?: PositionInfo,
+    protocol?: string,
+    poolSelection?: PoolSelection,
+    estimatedGasUSD?: number
   ): Promise<SafetyCheckResult> {
     const warnings: string[] = []
 
-    // Budget check
-    const budgetCheck = await this.budgetManager.canSpend(estimatedCostUSD)
+    // Circuit breaker: the config, this action type or this position is paused
+    const trip = await this.circuitBreaker.getBlockingTrip(actionType, positionInfo?.position_nft_address)
+    if (trip) {
+      const until = trip.resume_at ? `until ${trip.resume_at}` : 'until manually reset'
+      return {
+        allowed: false,
+        paused: true,
+        reason: `Paused by circuit breaker (${trip.scope}${trip.scope_key ? ` ${trip.scope_key}` : ''}) ${until}: ${trip.reason}`
+      }
+    }
+
+    // Position excluded from automation by its override
+    if (positionInfo && await this.positionOverrides.isExcluded(positionInfo.position_nft_address)) {
+      return {
+        allowed: false,
+        reason: 'Position is excluded from automation'
+      }
+    }
+
+    // Budget check (total, daily/weekly/monthly and matching sub-budgets)
+    const budgetCheck = await this.budgetManager.canSpend(estimatedCostUSD, actionType, protocol)
     if (!budgetCheck.allowed) {
       return {
         allowed: false,
@@ -34,14 +88,38 @@ export class SafetyChecker {
       }
     }
 
-    // Action-specific checks
+    // SOL left in the wallet for rent and fees after this action
+    const reserveCheck = await this.checkSolReserve(actionType, estimatedGasUSD ?? estimatedCostUSD, poolSelection)
+    if (!reserveCheck.allowed) {
+      return reserveCheck
+    }
+    warnings.push(...(reserveCheck.warnings || []))
+
+    const result = await this.checkActionType(actionType, estimatedCostUSD, positionInfo, poolSelection)
+    return warnings.length > 0
+      ? { ...result, warnings: [...warnings, ...(result.warnings || [])] }
+      : result
+  }
+
+  /**
+   * Action-specific checks
+   */
+  private async checkActionType(
+    actionType: 'open_position' | 'claim_fees' | 'compound' | 'rebalance' | 'close_position',
+    estimatedCostUSD: number,
+    positionInfo?: PositionInfo,
+    poolSelection?: PoolSelection
+  ): Promise<SafetyCheckResult> {
     switch (actionType) {
       case 'open_position':
-        return this.checkOpenPosition(estimatedCostUSD)
+        return this.checkOpenPosition(estimatedCostUSD, poolSelection)
       
       case 'claim_fees':
         return this.checkClaimFees(positionInfo, estimatedCostUSD)
       
+      case 'compound':
+        return this.checkCompound(positionInfo, estimatedCostUSD)
+      
       case 'rebalance':
         return this.checkRebalance(positionInfo, estimatedCostUSD)
       
@@ -53,10 +131,58 @@ export class SafetyChecker {
     }
   }
 
+  /**
+   * Check the wallet keeps min_sol_reserve after paying the fee and any SOL the action deposits
+   * Only the gas is converted from USD: the rest of a position's size is deposited in its tokens,
+   * and only its SOL leg leaves the SOL balance
+   */
+  private async checkSolReserve(
+    actionType: 'open_position' | 'claim_fees' | 'compound' | 'rebalance' | 'close_position',
+    estimatedGasUSD: number,
+    poolSelection?: PoolSelection
+  ): Promise<SafetyCheckResult> {
+    const reserveSOL = this.config.min_sol_reserve || 0
+    if (reserveSOL <= 0) {
+      return { allowed: true }
+    }
+
+    const feeSOL = estimatedGasUSD / await getSolPriceUSD()
+    let depositSOL = 0
+    if (actionType === 'open_position') {
+      depositSOL += POSITION_RENT_SOL
+      if (poolSelection?.tokenXMint === SOL_MINT) depositSOL += poolSelection.amountTokenX
+      if (poolSelection?.tokenYMint === SOL_MINT) depositSOL += poolSelection.amountTokenY
+    }
+
+    const balanceSOL = await this.positionTracker.getSolBalance(this.config.wallet_address)
+    const remainingSOL = balanceSOL - feeSOL - depositSOL
+    const breakdown = `balance ${balanceSOL.toFixed(4)} SOL, fee ${feeSOL.toFixed(4)} SOL` +
+      (depositSOL > 0 ? `, deposit and rent ${depositSOL.toFixed(4)} SOL` : '')
+
+    if (remainingSOL < reserveSOL) {
+      return {
+        allowed: false,
+        reason: `Would leave ${Math.max(remainingSOL, 0).toFixed(4)} SOL, below the ${reserveSOL} SOL reserve (${breakdown})`
+      }
+    }
+
+    if (remainingSOL < reserveSOL * RESERVE_WARNING_MULTIPLE) {
+      return {
+        allowed: true,
+        warnings: [`SOL balance is close to the reserve: ${remainingSOL.toFixed(4)} SOL left of a ${reserveSOL} SOL reserve after this action (${breakdown})`]
+      }
+    }
+
+    return { allowed: true }
+  }
+
   /**
    * Check if position can be opened
    */
-  private async checkOpenPosition(estimatedCostUSD: number): Promise<SafetyCheckResult> {
+  private async checkOpenPosition(
+    estimatedCostUSD: number,
+    poolSelection: PoolSelection | undefined
+  ): Promise<SafetyCheckResult> {
     // Check position size limits
     if (estimatedCostUSD < this.config.min_position_size_usd) {
       return {
@@ -75,7 +201,7 @@ export class SafetyChecker {
     // Check max positions (would need to query current positions)
     // This is checked in the rules evaluation
 
-    return { allowed: true }
+    return this.checkTokenRisk(poolSelection?.poolAddress)
   }
 
   /**
@@ -90,10 +216,11 @@ export class SafetyChecker {
     }
 
     // Check if position has claimable fees
-    if (positionInfo.unclaimed_fees_usd < this.config.claim_fee_threshold_usd) {
+    const thresholdUSD = await this.positionOverrides.getClaimFeeThresholdUSD(positionInfo.position_nft_address)
+    if (positionInfo.unclaimed_fees_usd < thresholdUSD) {
       return {
         allowed: false,
-        reason: `Unclaimed fees $${positionInfo.unclaimed_fees_usd.toFixed(2)} below threshold $${this.config.claim_fee_threshold_usd.toFixed(2)}`
+        reason: `Unclaimed fees $${positionInfo.unclaimed_fees_usd.toFixed(2)} below threshold $${thresholdUSD.toFixed(2)}`
       }
     }
 
@@ -109,6 +236,36 @@ export class SafetyChecker {
     return { allowed: true }
   }
 
+  /**
+   * Check if fees can be compounded
+   */
+  private async checkCompound(
+    positionInfo: PositionInfo | undefined,
+    estimatedCostUSD: number
+  ): Promise<SafetyCheckResult> {
+    if (!positionInfo) {
+      return { allowed: false, reason: 'Position info not provided' }
+    }
+
+    if (positionInfo.unclaimed_fees_usd < this.config.compound_threshold_usd) {
+      return {
+        allowed: false,
+        reason: `Unclaimed fees $${positionInfo.unclaimed_fees_usd.toFixed(2)} below compound threshold $${this.config.compound_threshold_usd.toFixed(2)}`
+      }
+    }
+
+    // Same gas rule as claims (< 10% of the fees being reinvested)
+    const gasFeePercent = (estimatedCostUSD / positionInfo.unclaimed_fees_usd) * 100
+    if (gasFeePercent > 10) {
+      return {
+        allowed: false,
+        reason: `Gas fee $${estimatedCostUSD.toFixed(2)} is ${gasFeePercent.toFixed(1)}% of compoundable fees (max 10%)`
+      }
+    }
+
+    return { allowed: true }
+  }
+
   /**
    * Check if position can be rebalanced
    */
@@ -128,11 +285,29 @@ export class SafetyChecker {
       }
     }
 
-    // Check if position is actually out of range
-    if (!positionInfo.is_out_of_range) {
+    // Check the position is out of range or drifting towards an edge
+    const assessment = await this.rangeMonitor.assess(positionInfo)
+    if (!assessment.shouldRebalance) {
+      return {
+        allowed: false,
+        reason: assessment.reason
+      }
+    }
+
+    return this.checkTokenRisk(positionInfo.pair_address)
+  }
+
+  /**
+   * Block the action if either token of the pool fails a risk check
+   */
+  private async checkTokenRisk(pairAddress: string | null | undefined): Promise<SafetyCheckResult> {
+    const risks = await this.tokenRiskChecker.check(pairAddress)
+
+    if (risks.length > 0) {
       return {
         allowed: false,
-        reason: 'Position is still in range, no rebalance needed'
+        reason: `Token risk: ${risks.join('; ')}`,
+        risks
       }
     }
 
@@ -0,0 +1,168 @@
+/**
+ * Token Risk
+ * Checks both tokens of a pool before opening or rebalancing into it: deny/allow list,
+ * mint and freeze authority, pool TVL and pool price against a reference price feed
+ */
+
+import { Connection, PublicKey } from '@solana/web3.js'
+import { AutomationConfig } from './types'
+import { PoolCandidate, toPoolCandidate, USDT_MINT } from './pool-selector'
+import { getServerRpcUrl } from '@/lib/env-config'
+import { SOL_MINT, USDC_MINT } from '@/lib/meteora-transaction-parser'
+
+// Issuers keep mint and freeze authority over stablecoins; these are trusted regardless
+const TRUSTED_MINTS = [SOL_MINT, USDC_MINT, USDT_MINT]
+
+const PRICE_URL = 'https://lite-api.jup.ag/price/v3'
+
+interface MintAuthorities {
+  mintAuthority: string | null
+  freezeAuthority: string | null
+}
+
+export class TokenRiskChecker {
+  private config: AutomationConfig
+  private connection: Connection
+
+  constructor(config: AutomationConfig, connection?: Connection) {
+    this.config = config
+    this.connection = connection || new Connection(getServerRpcUrl(), 'confirmed')
+  }
+
+  /**
+   * Risks of a pool and its two tokens (empty when every check passed)
+   */
+  async check(pairAddress: string | null | undefined): Promise<string[]> {
+    if (!pairAddress) {
+      return ['Pool unknown, token risk cannot be checked']
+    }
+
+    const pool = await this.fetchPool(pairAddress)
+    if (!pool) {
+      return [`Pool ${pairAddress} not found, token risk cannot be checked`]
+    }
+
+    const risks: string[] = []
+    const tokens = [
+      { mint: pool.tokenXMint, symbol: pool.tokenXSymbol || pool.tokenXMint },
+      { mint: pool.tokenYMint, symbol: pool.tokenYSymbol || pool.tokenYMint }
+    ]
+
+    for (const token of tokens) {
+      if (this.isListed(this.config.token_denylist, token.mint, token.symbol)) {
+        risks.push(`${token.symbol} is on the token denylist`)
+        continue
+      }
+
+      if (TRUSTED_MINTS.includes(token.mint) || this.isListed(this.config.token_allowlist, token.mint, token.symbol)) {
+        continue
+      }
+
+      const authorities = await this.fetchMintAuthorities(token.mint)
+      if (!authorities) {
+        risks.push(`${token.symbol} mint account could not be read`)
+        continue
+      }
+      if (authorities.mintAuthority) {
+        risks.push(`${token.symbol} has a mint authority (${authorities.mintAuthority}), supply can be inflated`)
+      }
+      if (authorities.freezeAuthority) {
+        risks.push(`${token.symbol} has a freeze authority (${authorities.freezeAuthority}), token accounts can be frozen`)
+      }
+    }
+
+    if (pool.tvlUSD < this.config.min_pool_tvl_usd) {
+      risks.push(`Pool TVL $${pool.tvlUSD.toFixed(0)} is below the minimum $${this.config.min_pool_tvl_usd.toFixed(0)}`)
+    }
+
+    const deviation = await this.priceDeviationPercent(pool)
+    if (deviation === null) {
+      risks.push(`No reference price for ${pool.name}, pool price cannot be verified`)
+    } else if (deviation > this.config.max_price_deviation_percent) {
+      risks.push(
+        `Pool price deviates ${deviation.toFixed(2)}% from the reference price (max ${this.config.max_price_deviation_percent}%)`
+      )
+    }
+
+    return risks
+  }
+
+  private isListed(list: string[] | null | undefined, mint: string, symbol: string): boolean {
+    const entries = (list || []).map(entry => entry.toUpperCase())
+    return entries.includes(mint.toUpperCase()) || entries.includes(symbol.toUpperCase())
+  }
+
+  /**
+   * Deviation of the pool price (token Y per token X) from the reference prices, in %
+   */
+  private async priceDeviationPercent(pool: PoolCandidate): Promise<number | null> {
+    if (pool.currentPrice <= 0) return null
+
+    const prices = await this.fetchReferencePricesUSD([pool.tokenXMint, pool.tokenYMint])
+    const tokenXUSD = prices[pool.tokenXMint]
+    const tokenYUSD = prices[pool.tokenYMint]
+    if (!tokenXUSD || !tokenYUSD) return null
+
+    const referencePrice = tokenXUSD / tokenYUSD
+    return Math.abs(pool.currentPrice / referencePrice - 1) * 100
+  }
+
+  /**
+   * Pool from the Meteora DLMM API
+   */
+  protected async fetchPool(pairAddress: string): Promise<PoolCandidate | null> {
+    try {
+      const response = await fetch(`https://dlmm-api.meteora.ag/pair/${pairAddress}`)
+      if (!response.ok) return null
+
+      const pool = toPoolCandidate(await response.json())
+      return pool.address && pool.tokenXMint && pool.tokenYMint ? pool : null
+    } catch (error: any) {
+      console.warn(`Could not fetch pool ${pairAddress}: ${error.message}`)
+      return null
+    }
+  }
+
+  /**
+   * Mint and freeze authority of a token mint (SPL Token and Token-2022)
+   */
+  protected async fetchMintAuthorities(mint: string): Promise<MintAuthorities | null> {
+    try {
+      const { value } = await this.connection.getParsedAccountInfo(new PublicKey(mint))
+      const info = value && 'parsed' in value.data ? value.data.parsed?.info : null
+      if (!info) return null
+
+      return {
+        mintAuthority: info.mintAuthority ?? null,
+        freezeAuthority: info.freezeAuthority ?? null
+      }
+    } catch (error: any) {
+      console.warn(`Could not read mint ${mint}: ${error.message}`)
+      return null
+    }
+  }
+
+  /**
+   * USD prices from the Jupiter price API (missing mints are left out)
+   */
+  protected async fetchReferencePricesUSD(mints: string[]): Promise<Record<string, number>> {
+    try {
+      const response = await fetch(`${PRICE_URL}?ids=${mints.join(',')}`)
+      if (!response.ok) {
+        console.warn(`Reference price fetch failed: ${response.status}`)
+        return {}
+      }
+
+      const data = await response.json()
+      const prices: Record<string, number> = {}
+      for (const mint of mints) {
+        const price = Number(data?.[mint]?.usdPrice)
+        if (price > 0) prices[mint] = price
+      }
+      return prices
+    } catch (error: any) {
+      console.warn(`Could not fetch reference prices: ${error.message}`)
+      return {}
+    }
+  }
+}
@@ -5,11 +5,14 @@
 
 import { Transaction } from '@solana/web3.js'
 import { getMCPClient } from '@/lib/mcp-client'
+import { AutomationLog } from './types'
 
 export interface BuildTransactionParams {
-  actionType: 'claim_fees' | 'rebalance' | 'open_position'
+  actionType: 'claim_fees' | 'compound' | 'rebalance' | 'close_position' | 'open_position'
   positionNftAddress?: string
   positionAddress?: string
+  // Position the compounded fees are added to (defaults to the source position)
+  targetPositionNftAddress?: string
   poolAddress?: string
   walletAddress: string
   // Additional params for open_position
@@ -17,6 +20,27 @@ export interface BuildTransactionParams {
   amountTokenY?: number
   tokenXMint?: string
   tokenYMint?: string
+  // Bins either side of the active bin for the reopened rebalance position
+  binsPerSide?: number
+}
+
+/**
+ * Builder params of a queued action, from what the executor stored on its log
+ */
+export function getBuildParamsFromLog(log: AutomationLog, walletAddress: string): BuildTransactionParams {
+  return {
+    actionType: log.action_type as BuildTransactionParams['actionType'],
+    positionNftAddress: log.position_nft_address || undefined,
+    positionAddress: log.position_address || undefined,
+    targetPositionNftAddress: log.metadata?.targetPositionNftAddress || undefined,
+    poolAddress: log.metadata?.poolAddress || undefined,
+    amountTokenX: log.metadata?.amountTokenX || undefined,
+    amountTokenY: log.metadata?.amountTokenY || undefined,
+    tokenXMint: log.metadata?.tokenXMint || undefined,
+    tokenYMint: log.metadata?.tokenYMint || undefined,
+    binsPerSide: log.metadata?.binsPerSide || undefined,
+    walletAddress,
+  }
 }
 
 export class TransactionBuilder {
@@ -60,11 +84,48 @@ export class TransactionBuilder {
     }
   }
 
+  /**
+   * Build a transaction for compounding fees back into a position using MCP server
+   */
+  async buildCompoundTransaction(params: BuildTransactionParams): Promise<Transaction> {
+    const { positionNftAddress, positionAddress, walletAddress, targetPositionNftAddress } = params
+
+    if (!positionNftAddress || !positionAddress) {
+      throw new Error('Position NFT address and position address are required for compounding')
+    }
+
+    try {
+      const mcpClient = await getMCPClient()
+      const result = await mcpClient.compoundFees({
+        protocol: 'meteora',
+        positionNftAddress,
+        positionAddress,
+        walletAddress,
+        targetPositionNftAddress,
+      })
+
+      if (!result.success || !result.transaction) {
+        throw new Error(result.error || 'Failed to build compound transaction')
+      }
+
+      // Deserialize transaction from base64
+      return Transaction.from(Buffer.from(result.transaction, 'base64'))
+    } catch (error: any) {
+      if (error.message?.includes('MCP client not connected') || error.message?.includes('MCP server')) {
+        throw new Error(
+          'MCP server not available. Please ensure the MCP server is running. ' +
+          'Error: ' + error.message
+        )
+      }
+      throw error
+    }
+  }
+
   /**
    * Build a transaction for rebalancing a position using MCP server
    */
   async buildRebalanceTransaction(params: BuildTransactionParams): Promise<Transaction> {
-    const { positionNftAddress, positionAddress, walletAddress } = params
+    const { positionNftAddress, positionAddress, walletAddress, binsPerSide } = params
 
     if (!positionNftAddress || !positionAddress) {
       throw new Error('Position NFT address and position address are required for rebalancing')
@@ -77,6 +138,7 @@ export class TransactionBuilder {
         positionNftAddress,
         positionAddress,
         walletAddress,
+        binsPerSide,
       })
 
       if (!result.success || !result.transaction) {
@@ -96,6 +158,43 @@ export class TransactionBuilder {
     }
   }
 
+  /**
+   * Build a transaction for closing a position using MCP server
+   */
+  async buildClosePositionTransaction(params: BuildTransactionParams): Promise<Transaction> {
+    const { positionNftAddress, positionAddress, walletAddress } = params
+
+    if (!positionNftAddress || !positionAddress) {
+      throw new Error('Position NFT address and position address are required for closing a position')
+    }
+
+    try {
+      const mcpClient = await getMCPClient()
+      const result = await mcpClient.closePosition({
+        protocol: 'meteora',
+        positionNftAddress,
+        positionAddress,
+        walletAddress,
+      })
+
+      if (!result.success || !result.transaction) {
+        throw new Error(result.error || 'Failed to build close position transaction')
+      }
+
+      // Deserialize transaction from base64
+      return Transaction.from(Buffer.from(result.transaction, 'base64'))
+    } catch (error) {
+      const message = error instanceof Error ? error.message : ''
+      if (message.includes('MCP client not connected') || message.includes('MCP server')) {
+        throw new Error(
+          'MCP server not available. Please ensure the MCP server is running. ' +
+          'Error: ' + message
+        )
+      }
+      throw error
+    }
+  }
+
   /**
    * Build a transaction for opening a new position using MCP server
    */
@@ -146,8 +245,12 @@ export class TransactionBuilder {
     switch (params.actionType) {
       case 'claim_fees':
         return this.buildClaimFeesTransaction(params)
+      case 'compound':
+        return this.buildCompoundTransaction(params)
       case 'rebalance':
         return this.buildRebalanceTransaction(params)
+      case 'close_position':
+        return this.buildClosePositionTransaction(params)
       case 'open_position':
         return this.buildOpenPositionTransaction(params)
       default:
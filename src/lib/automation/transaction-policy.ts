@@ -0,0 +1,202 @@
+/**
+ * Transaction Policy
+ * Decodes a transaction returned by the MCP server and verifies it before it reaches the wallet:
+ * fee payer, invoked programs and where tokens and SOL are sent
+ */
+
+import { Connection, PublicKey, Transaction, TransactionInstruction } from '@solana/web3.js'
+import { BuildTransactionParams } from './transaction-builder'
+import { decodeTokenAccount, TOKEN_PROGRAMS } from './transaction-simulator'
+import { getServerRpcUrl } from '@/lib/env-config'
+import { METEORA_DLMM_PROGRAM } from '@/lib/meteora-transaction-parser'
+
+export const SYSTEM_PROGRAM = '11111111111111111111111111111111'
+export const ASSOCIATED_TOKEN_PROGRAM = 'ATokenGPvbdGVxr1b2hvZbsiqW5xWH25efTNsLJA1knL'
+export const COMPUTE_BUDGET_PROGRAM = 'ComputeBudget111111111111111111111111111111'
+
+// System is needed to create the position account and to wrap SOL; its transfers are checked below
+export const ALLOWED_PROGRAMS: Record<string, string> = {
+  [METEORA_DLMM_PROGRAM]: 'Meteora DLMM',
+  [TOKEN_PROGRAMS[0]]: 'SPL Token',
+  [TOKEN_PROGRAMS[1]]: 'Token-2022',
+  [ASSOCIATED_TOKEN_PROGRAM]: 'Associated Token Account',
+  [COMPUTE_BUDGET_PROGRAM]: 'Compute Budget',
+  [SYSTEM_PROGRAM]: 'System'
+}
+
+// SPL token instruction tags
+const TOKEN_TRANSFER = 3
+const TOKEN_APPROVE = 4
+const TOKEN_SET_AUTHORITY = 6
+const TOKEN_CLOSE_ACCOUNT = 9
+const TOKEN_TRANSFER_CHECKED = 12
+const TOKEN_APPROVE_CHECKED = 13
+
+// System instruction tags (u32)
+const SYSTEM_TRANSFER = 2
+const SYSTEM_TRANSFER_WITH_SEED = 11
+
+// DLMM position account: discriminator (8) | lb_pair (32) | owner (32)
+const POSITION_LB_PAIR_OFFSET = 8
+
+export interface PolicyCheckResult {
+  allowed: boolean
+  violations: string[]
+}
+
+// An account that receives tokens or SOL, and the instruction sending them
+interface Destination {
+  address: string
+  instruction: number
+  kind: 'token' | 'sol'
+}
+
+export class TransactionPolicy {
+  private connection: Connection
+
+  constructor(connection?: Connection) {
+    this.connection = connection || new Connection(getServerRpcUrl(), 'confirmed')
+  }
+
+  /**
+   * Verify a built transaction against the action it was built for
+   * Fails closed: anything that cannot be verified is a violation
+   */
+  async check(transaction: Transaction, params: BuildTransactionParams): Promise<PolicyCheckResult> {
+    const { walletAddress } = params
+    const violations: string[] = []
+
+    const feePayer = transaction.feePayer?.toBase58()
+    if (feePayer !== walletAddress) {
+      violations.push(`Fee payer ${feePayer || '(none)'} is not the configured wallet ${walletAddress}`)
+    }
+
+    // Owners of token accounts the transaction creates itself (not on chain yet)
+    const createdAccounts = new Map<string, string>()
+    const destinations: Destination[] = []
+
+    transaction.instructions.forEach((instruction, index) => {
+      const programId = instruction.programId.toBase58()
+      if (!ALLOWED_PROGRAMS[programId]) {
+        violations.push(`Instruction ${index} invokes program ${programId}, which is not allowlisted`)
+        return
+      }
+
+      if (TOKEN_PROGRAMS.includes(programId)) {
+        violations.push(...this.checkTokenInstruction(instruction, index, walletAddress, destinations))
+      } else if (programId === SYSTEM_PROGRAM) {
+        this.collectSystemTransfer(instruction, index, destinations)
+      } else if (programId === ASSOCIATED_TOKEN_PROGRAM && instruction.keys.length >= 3) {
+        // Create / CreateIdempotent: payer, associated account, owner, mint, ...
+        createdAccounts.set(instruction.keys[1].pubkey.toBase58(), instruction.keys[2].pubkey.toBase58())
+      }
+    })
+
+    if (destinations.length === 0) {
+      return { allowed: violations.length === 0, violations }
+    }
+
+    try {
+      const pool = await this.getExpectedPool(params)
+      const allowedOwners = [walletAddress, ...(pool ? [pool] : [])]
+      const owners = await this.resolveOwners(
+        destinations.map(d => d.address).filter(address => address !== walletAddress && !createdAccounts.has(address)),
+        createdAccounts
+      )
+
+      for (const destination of destinations) {
+        if (destination.address === walletAddress) continue
+
+        const owner = owners.get(destination.address)
+        if (!owner) {
+          violations.push(
+            `Instruction ${destination.instruction} sends ${destination.kind === 'token' ? 'tokens' : 'SOL'} to ${destination.address}, which is not a token account of the wallet or pool`
+          )
+        } else if (!allowedOwners.includes(owner)) {
+          violations.push(
+            `Instruction ${destination.instruction} sends ${destination.kind === 'token' ? 'tokens' : 'SOL'} to an account owned by ${owner}, not the wallet${pool ? ' or the pool' : ''}`
+          )
+        }
+      }
+    } catch (error: any) {
+      violations.push(`Transfer destinations could not be verified: ${error.message}`)
+    }
+
+    return { allowed: violations.length === 0, violations }
+  }
+
+  /**
+   * Collect token transfer destinations; delegating or reassigning authority is never expected
+   */
+  private checkTokenInstruction(
+    instruction: TransactionInstruction,
+    index: number,
+    walletAddress: string,
+    destinations: Destination[]
+  ): string[] {
+    const keys = instruction.keys.map(key => key.pubkey.toBase58())
+
+    switch (instruction.data[0]) {
+      case TOKEN_TRANSFER:
+        if (keys[1]) destinations.push({ address: keys[1], instruction: index, kind: 'token' })
+        return []
+      case TOKEN_TRANSFER_CHECKED:
+        if (keys[2]) destinations.push({ address: keys[2], instruction: index, kind: 'token' })
+        return []
+      case TOKEN_CLOSE_ACCOUNT:
+        // Rent of a closed account (e.g. unwrapped SOL) must go back to the wallet
+        return keys[1] === walletAddress
+          ? []
+          : [`Instruction ${index} closes a token account and sends its lamports to ${keys[1]}, not the wallet`]
+      case TOKEN_APPROVE:
+      case TOKEN_APPROVE_CHECKED:
+        return [`Instruction ${index} approves a delegate over a token account`]
+      case TOKEN_SET_AUTHORITY:
+        return [`Instruction ${index} changes the authority of a token account`]
+      default:
+        return []
+    }
+  }
+
+  private collectSystemTransfer(instruction: TransactionInstruction, index: number, destinations: Destination[]): void {
+    if (instruction.data.length < 4) return
+
+    const tag = instruction.data.readUInt32LE(0)
+    const keys = instruction.keys.map(key => key.pubkey.toBase58())
+    if (tag === SYSTEM_TRANSFER && keys[1]) {
+      destinations.push({ address: keys[1], instruction: index, kind: 'sol' })
+    } else if (tag === SYSTEM_TRANSFER_WITH_SEED && keys[2]) {
+      destinations.push({ address: keys[2], instruction: index, kind: 'sol' })
+    }
+  }
+
+  /**
+   * Owner of each token account, from accounts created in the transaction or on chain
+   * Accounts that are not token accounts are left out
+   */
+  private async resolveOwners(addresses: string[], createdAccounts: Map<string, string>): Promise<Map<string, string>> {
+    const owners = new Map(createdAccounts)
+    const unique = Array.from(new Set(addresses))
+    if (unique.length === 0) return owners
+
+    const accounts = await this.connection.getMultipleAccountsInfo(unique.map(address => new PublicKey(address)))
+    accounts.forEach((account, index) => {
+      const tokenAccount = account ? decodeTokenAccount(account.owner.toBase58(), account.data) : null
+      if (tokenAccount) owners.set(unique[index], tokenAccount.owner)
+    })
+    return owners
+  }
+
+  /**
+   * Pool the action trades with: given for open_position, read from the position account otherwise
+   */
+  private async getExpectedPool(params: BuildTransactionParams): Promise<string | null> {
+    if (params.poolAddress) return params.poolAddress
+    if (!params.positionAddress) return null
+
+    const account = await this.connection.getAccountInfo(new PublicKey(params.positionAddress))
+    if (!account || account.owner.toBase58() !== METEORA_DLMM_PROGRAM) return null
+
+    return new PublicKey(account.data.subarray(POSITION_LB_PAIR_OFFSET, POSITION_LB_PAIR_OFFSET + 32)).toBase58()
+  }
+}
@@ -0,0 +1,58 @@
+import { describe, expect, it } from 'vitest'
+import { ComputeBudgetProgram, Keypair, PublicKey, Transaction, TransactionInstruction } from '@solana/web3.js'
+import { getMessageHash } from './transaction-preview'
+
+const DLMM_PROGRAM = new PublicKey('LBUZKhRxPF3XUpBCjp4YzTKgLccjZhTSDM9YuVaPwxo')
+const wallet = Keypair.generate().publicKey
+const pool = Keypair.generate().publicKey
+
+// An open-position-like build: compute budget, then a DLMM instruction signed by a fresh position keypair
+function build(options: { position?: PublicKey; pool?: PublicKey; blockhash?: string; microLamports?: number; data?: number[] } = {}) {
+  const position = options.position || Keypair.generate().publicKey
+  const transaction = new Transaction({
+    feePayer: wallet,
+    recentBlockhash: options.blockhash || Keypair.generate().publicKey.toBase58()
+  })
+  transaction.add(ComputeBudgetProgram.setComputeUnitPrice({ microLamports: options.microLamports ?? 1000 }))
+  transaction.add(new TransactionInstruction({
+    programId: DLMM_PROGRAM,
+    keys: [
+      { pubkey: wallet, isSigner: true, isWritable: true },
+      { pubkey: position, isSigner: true, isWritable: true },
+      { pubkey: options.pool || pool, isSigner: false, isWritable: true }
+    ],
+    data: Buffer.from(options.data || [1, 2, 3])
+  }))
+  return transaction
+}
+
+describe('getMessageHash', () => {
+  it('matches rebuilds with a new blockhash and position keypair', () => {
+    expect(getMessageHash(build())).toBe(getMessageHash(build()))
+  })
+
+  it('changes when the compute unit limit or price changes', () => {
+    const hash = getMessageHash(build())
+    const limited = build()
+    limited.add(ComputeBudgetProgram.setComputeUnitLimit({ units: 400_000 }))
+    const raisedLimit = build()
+    raisedLimit.add(ComputeBudgetProgram.setComputeUnitLimit({ units: 1_400_000 }))
+
+    expect(getMessageHash(build({ microLamports: 5000 }))).not.toBe(hash)
+    expect(getMessageHash(raisedLimit)).not.toBe(getMessageHash(limited))
+  })
+
+  it('changes when an account or instruction data changes', () => {
+    const hash = getMessageHash(build())
+
+    expect(getMessageHash(build({ pool: Keypair.generate().publicKey }))).not.toBe(hash)
+    expect(getMessageHash(build({ data: [1, 2, 4] }))).not.toBe(hash)
+  })
+
+  it('changes when an instruction is added', () => {
+    const transaction = build()
+    transaction.add(new TransactionInstruction({ programId: DLMM_PROGRAM, keys: [], data: Buffer.from([9]) }))
+
+    expect(getMessageHash(transaction)).not.toBe(getMessageHash(build()))
+  })
+})
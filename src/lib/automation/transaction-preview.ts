@@ -0,0 +1,238 @@
+/**
+ * Transaction Preview
+ * Human-readable view of a built transaction for approvers: instructions by program and name,
+ * the accounts they touch, the wallet's expected token changes and the estimated fee
+ */
+
+import { createHash } from 'crypto'
+import { Connection, LAMPORTS_PER_SOL, Transaction } from '@solana/web3.js'
+import { SimulationResult, TokenDelta, TOKEN_PROGRAMS } from './transaction-simulator'
+import { BuildTransactionParams } from './transaction-builder'
+import { ALLOWED_PROGRAMS, ASSOCIATED_TOKEN_PROGRAM, COMPUTE_BUDGET_PROGRAM, SYSTEM_PROGRAM } from './transaction-policy'
+import { getServerRpcUrl } from '@/lib/env-config'
+import { METEORA_DLMM_PROGRAM } from '@/lib/meteora-transaction-parser'
+import { findDlmmInstruction } from '@/lib/meteora-dlmm-idl'
+import { getKnownToken, resolveTokens } from '@/lib/token-registry'
+
+// Indexed by instruction tag
+const TOKEN_INSTRUCTIONS = [
+  'InitializeMint', 'InitializeAccount', 'InitializeMultisig', 'Transfer', 'Approve', 'Revoke',
+  'SetAuthority', 'MintTo', 'Burn', 'CloseAccount', 'FreezeAccount', 'ThawAccount',
+  'TransferChecked', 'ApproveChecked', 'MintToChecked', 'BurnChecked', 'InitializeAccount2',
+  'SyncNative', 'InitializeAccount3'
+]
+const SYSTEM_INSTRUCTIONS = [
+  'CreateAccount', 'Assign', 'Transfer', 'CreateAccountWithSeed', 'AdvanceNonceAccount',
+  'WithdrawNonceAccount', 'InitializeNonceAccount', 'AuthorizeNonceAccount', 'Allocate',
+  'AllocateWithSeed', 'AssignWithSeed', 'TransferWithSeed'
+]
+const ASSOCIATED_TOKEN_INSTRUCTIONS = ['Create', 'CreateIdempotent', 'RecoverNested']
+const COMPUTE_BUDGET_INSTRUCTIONS = ['RequestUnits', 'RequestHeapFrame', 'SetComputeUnitLimit', 'SetComputeUnitPrice']
+
+// Without a SetComputeUnitLimit instruction each instruction may use up to this many units
+const DEFAULT_UNITS_PER_INSTRUCTION = 200_000
+
+export interface PreviewAccount {
+  address: string
+  // What the account is to this action (wallet, pool, position, program)
+  label: string | null
+  signer: boolean
+  writable: boolean
+}
+
+export interface PreviewInstruction {
+  index: number
+  programId: string
+  program: string
+  name: string
+  accounts: PreviewAccount[]
+}
+
+export interface PreviewTokenChange extends TokenDelta {
+  symbol: string | null
+}
+
+export interface TransactionPreview {
+  feePayer: string | null
+  instructions: PreviewInstruction[]
+  // Every account the transaction touches, in message order
+  accounts: PreviewAccount[]
+  // From the simulation; null when the transaction was not simulated
+  tokenChanges: PreviewTokenChange[] | null
+  computeUnits: number | null
+  estimatedFeeSOL: number | null
+  // Identifies the instructions and accounts previewed (see getMessageHash)
+  messageHash: string
+  generatedAt: string
+}
+
+/**
+ * Name of an instruction of a known program ('Unknown' otherwise)
+ */
+export function decodeInstructionName(programId: string, data: Buffer): string {
+  if (programId === METEORA_DLMM_PROGRAM) {
+    return findDlmmInstruction(data)?.name || 'Unknown'
+  }
+  if (TOKEN_PROGRAMS.includes(programId)) {
+    return TOKEN_INSTRUCTIONS[data[0]] || 'Unknown'
+  }
+  if (programId === SYSTEM_PROGRAM) {
+    return data.length >= 4 ? SYSTEM_INSTRUCTIONS[data.readUInt32LE(0)] || 'Unknown' : 'Unknown'
+  }
+  if (programId === ASSOCIATED_TOKEN_PROGRAM) {
+    // An empty instruction is the original Create
+    return ASSOCIATED_TOKEN_INSTRUCTIONS[data.length === 0 ? 0 : data[0]] || 'Unknown'
+  }
+  if (programId === COMPUTE_BUDGET_PROGRAM) {
+    return COMPUTE_BUDGET_INSTRUCTIONS[data[0]] || 'Unknown'
+  }
+  return 'Unknown'
+}
+
+/**
+ * Hash of what a transaction does: its fee payer and each instruction's program, accounts and data
+ * Two builds of the same action hash the same: the blockhash is left out, signers other than the fee
+ * payer (keypairs generated per build, e.g. a new position) are numbered instead of named. Compute budget
+ * instructions are hashed with their data, so a signed transaction cannot raise the unit limit or price
+ */
+export function getMessageHash(transaction: Transaction): string {
+  const feePayer = transaction.feePayer?.toBase58() || null
+
+  const generated = new Map<string, string>()
+  for (const instruction of transaction.instructions) {
+    for (const key of instruction.keys) {
+      const address = key.pubkey.toBase58()
+      if (key.isSigner && address !== feePayer && !generated.has(address)) {
+        generated.set(address, `signer:${generated.size}`)
+      }
+    }
+  }
+
+  const instructions = transaction.instructions.map(instruction => {
+    const programId = instruction.programId.toBase58()
+    return {
+      programId,
+      accounts: instruction.keys.map(key =>
+        `${generated.get(key.pubkey.toBase58()) || key.pubkey.toBase58()}:${key.isSigner ? 's' : ''}${key.isWritable ? 'w' : ''}`),
+      data: instruction.data.toString('hex')
+    }
+  })
+
+  return createHash('sha256').update(JSON.stringify({ feePayer, instructions })).digest('hex')
+}
+
+/**
+ * Labels for the accounts an action is about, so approvers can tell them apart from the rest
+ */
+export function getAccountLabels(params: BuildTransactionParams, pairAddress?: string | null): Record<string, string> {
+  const labels: Record<string, string> = { [params.walletAddress]: 'Wallet' }
+  const pool = params.poolAddress || pairAddress
+  if (pool) labels[pool] = 'Pool'
+  if (params.positionAddress) labels[params.positionAddress] = 'Position'
+  if (params.positionNftAddress) labels[params.positionNftAddress] = 'Position NFT'
+  if (params.targetPositionNftAddress && params.targetPositionNftAddress !== params.positionNftAddress) {
+    labels[params.targetPositionNftAddress] = 'Target position NFT'
+  }
+  if (params.tokenXMint) labels[params.tokenXMint] = `${getKnownToken(params.tokenXMint)?.symbol || 'Token X'} mint`
+  if (params.tokenYMint) labels[params.tokenYMint] = `${getKnownToken(params.tokenYMint)?.symbol || 'Token Y'} mint`
+  return labels
+}
+
+export class TransactionPreviewer {
+  private connection: Connection
+
+  constructor(connection?: Connection) {
+    this.connection = connection || new Connection(getServerRpcUrl(), 'confirmed')
+  }
+
+  /**
+   * Preview a built transaction; labels name the wallet, pool and position among its accounts
+   */
+  async preview(
+    transaction: Transaction,
+    labels: Record<string, string>,
+    simulation?: SimulationResult | null
+  ): Promise<TransactionPreview> {
+    if (!transaction.recentBlockhash) {
+      transaction.recentBlockhash = (await this.connection.getLatestBlockhash('confirmed')).blockhash
+    }
+
+    const message = transaction.compileMessage()
+    const labelOf = (address: string) => labels[address] || ALLOWED_PROGRAMS[address] || null
+
+    const accounts: PreviewAccount[] = message.accountKeys.map((key, index) => ({
+      address: key.toBase58(),
+      label: labelOf(key.toBase58()),
+      signer: message.isAccountSigner(index),
+      writable: message.isAccountWritable(index)
+    }))
+
+    const instructions: PreviewInstruction[] = transaction.instructions.map((instruction, index) => {
+      const programId = instruction.programId.toBase58()
+      return {
+        index,
+        programId,
+        program: ALLOWED_PROGRAMS[programId] || 'Unknown program',
+        name: decodeInstructionName(programId, instruction.data),
+        accounts: instruction.keys.map(key => ({
+          address: key.pubkey.toBase58(),
+          label: labelOf(key.pubkey.toBase58()),
+          signer: key.isSigner,
+          writable: key.isWritable
+        }))
+      }
+    })
+
+    const tokens = simulation?.success
+      ? await resolveTokens(simulation.tokenDeltas.map(delta => delta.mint), this.connection)
+      : {}
+
+    return {
+      feePayer: transaction.feePayer?.toBase58() || null,
+      instructions,
+      accounts,
+      tokenChanges: simulation?.success
+        ? simulation.tokenDeltas.map(delta => ({ ...delta, symbol: tokens[delta.mint]?.symbol || null }))
+        : null,
+      computeUnits: simulation?.computeUnits ?? null,
+      estimatedFeeSOL: await this.estimateFeeSOL(transaction, message),
+      messageHash: getMessageHash(transaction),
+      generatedAt: new Date().toISOString()
+    }
+  }
+
+  /**
+   * Base fee from the RPC plus the priority fee set by compute budget instructions
+   */
+  private async estimateFeeSOL(transaction: Transaction, message: ReturnType<Transaction['compileMessage']>): Promise<number | null> {
+    let baseFeeLamports: number
+    try {
+      const { value } = await this.connection.getFeeForMessage(message, 'confirmed')
+      if (value === null) return null
+      baseFeeLamports = value
+    } catch (error: any) {
+      console.warn(`Could not estimate transaction fee: ${error.message}`)
+      return null
+    }
+
+    let unitLimit: number | null = null
+    let microLamportsPerUnit = 0
+    for (const instruction of transaction.instructions) {
+      if (instruction.programId.toBase58() !== COMPUTE_BUDGET_PROGRAM) continue
+
+      const name = decodeInstructionName(COMPUTE_BUDGET_PROGRAM, instruction.data)
+      if (name === 'SetComputeUnitLimit' && instruction.data.length >= 5) {
+        unitLimit = instruction.data.readUInt32LE(1)
+      } else if (name === 'SetComputeUnitPrice' && instruction.data.length >= 9) {
+        microLamportsPerUnit = Number(instruction.data.readBigUInt64LE(1))
+      }
+    }
+
+    const nonBudgetInstructions = transaction.instructions
+      .filter(instruction => instruction.programId.toBase58() !== COMPUTE_BUDGET_PROGRAM).length
+    const units = unitLimit ?? nonBudgetInstructions * DEFAULT_UNITS_PER_INSTRUCTION
+    const priorityFeeLamports = Math.ceil(units * microLamportsPerUnit / 1_000_000)
+
+    return (baseFeeLamports + priorityFeeLamports) / LAMPORTS_PER_SOL
+  }
+}
@@ -0,0 +1,212 @@
+/**
+ * Transaction Simulator
+ * Simulates an automation transaction before it is shown for approval or submitted,
+ * decodes failures into a readable reason and measures the wallet's token changes
+ */
+
+import { AccountInfo, Connection, PublicKey, SimulatedTransactionAccountInfo, Transaction, TransactionError, VersionedTransaction } from '@solana/web3.js'
+import { getServerRpcUrl } from '@/lib/env-config'
+import { SOL_MINT } from '@/lib/meteora-transaction-parser'
+
+export const TOKEN_PROGRAMS = [
+  'TokenkegQfeZyiNwAJbNbGKPFXCWuBvf9Ss623VQ5DA',
+  'TokenzQdBNbLqP5VEhdkAS6EPFLC1PVnBxXxjhs4dVQkFqd'
+]
+
+// SPL token account layout: mint (32) | owner (32) | amount (u64)
+const TOKEN_ACCOUNT_MIN_LENGTH = 72
+
+/**
+ * Change of one token in the wallet, in UI units (positive = received)
+ * Native SOL and wrapped SOL are both reported under SOL_MINT
+ */
+export interface TokenDelta {
+  mint: string
+  amount: number
+}
+
+export interface SimulationResult {
+  success: boolean
+  // Readable failure reason (failed simulations only)
+  reason?: string
+  computeUnits: number | null
+  tokenDeltas: TokenDelta[]
+  logs: string[]
+}
+
+/**
+ * What a successful simulation stores in automation_logs.metadata.simulation
+ */
+export function toSimulationMetadata(result: SimulationResult) {
+  return {
+    computeUnits: result.computeUnits,
+    tokenDeltas: result.tokenDeltas,
+    simulatedAt: new Date().toISOString()
+  }
+}
+
+/**
+ * Turn a simulation error and its program logs into a readable reason
+ */
+export function decodeSimulationError(err: TransactionError | string, logs: string[]): string {
+  const text = logs.join('\n')
+  const errText = typeof err === 'string' ? err : JSON.stringify(err)
+
+  if (/slippage/i.test(text) || /slippage/i.test(errText)) {
+    return 'Slippage exceeded: the price moved beyond the allowed tolerance'
+  }
+  if (/insufficient lamports/i.test(text) || errText.includes('InsufficientFundsForFee')) {
+    return 'Insufficient funds: not enough SOL for the transfer or fee'
+  }
+  if (errText.includes('InsufficientFundsForRent')) {
+    return 'Insufficient funds: not enough SOL to pay rent for a new account'
+  }
+  if (/insufficient funds/i.test(text)) {
+    return 'Insufficient funds: token balance is lower than the amount required'
+  }
+  if (errText.includes('AccountNotFound') || /no record of a prior credit/i.test(text) || /account not found|could not find account/i.test(text)) {
+    return 'Account not found: the wallet or an account the transaction uses does not exist'
+  }
+  if (errText.includes('BlockhashNotFound')) {
+    return 'Blockhash not found: rebuild the transaction'
+  }
+  if (/exceeded CUs meter|ComputationalBudgetExceeded/i.test(text + errText)) {
+    return 'Compute budget exceeded'
+  }
+
+  // Anchor programs log their error name and message
+  const anchor = text.match(/Error Code: (\w+)\. Error Number: (\d+)\. Error Message: ([^\n]+?)\.?$/m)
+  if (anchor) {
+    return `Program error ${anchor[1]} (${anchor[2]}): ${anchor[3]}`
+  }
+
+  if (typeof err === 'object' && err !== null && 'InstructionError' in err) {
+    const [index, detail] = (err as { InstructionError: [number, unknown] }).InstructionError
+    const custom = typeof detail === 'object' && detail !== null && 'Custom' in detail ? detail.Custom : undefined
+    const logError = text.match(/Program log: Error: ([^\n]+)/)?.[1]
+    const what = custom !== undefined
+      ? `custom program error ${custom} (0x${Number(custom).toString(16)})`
+      : typeof detail === 'string' ? detail : JSON.stringify(detail)
+    return `Instruction ${index} failed with ${what}${logError ? `: ${logError}` : ''}`
+  }
+
+  return `Simulation failed: ${errText}`
+}
+
+/**
+ * Mint, owner and raw amount of a token account, or null for any other account
+ */
+export function decodeTokenAccount(programOwner: string, data: Buffer): { mint: string; owner: string; amount: bigint } | null {
+  if (!TOKEN_PROGRAMS.includes(programOwner) || data.length < TOKEN_ACCOUNT_MIN_LENGTH) return null
+  return {
+    mint: new PublicKey(data.subarray(0, 32)).toBase58(),
+    owner: new PublicKey(data.subarray(32, 64)).toBase58(),
+    amount: data.readBigUInt64LE(64)
+  }
+}
+
+export class TransactionSimulator {
+  private connection: Connection
+
+  constructor(connection?: Connection) {
+    this.connection = connection || new Connection(getServerRpcUrl(), 'confirmed')
+  }
+
+  /**
+   * Simulate a built transaction against current chain state
+   */
+  async simulate(transaction: Transaction, walletAddress: string): Promise<SimulationResult> {
+    if (!transaction.feePayer) {
+      transaction.feePayer = new PublicKey(walletAddress)
+    }
+    if (!transaction.recentBlockhash) {
+      transaction.recentBlockhash = (await this.connection.getLatestBlockhash('confirmed')).blockhash
+    }
+
+    const message = transaction.compileMessage()
+    const writable = message.accountKeys.filter((_, index) => message.isAccountWritable(index))
+    const preAccounts = await this.connection.getMultipleAccountsInfo(writable)
+
+    const { value } = await this.connection.simulateTransaction(new VersionedTransaction(message), {
+      sigVerify: false,
+      replaceRecentBlockhash: true,
+      commitment: 'confirmed',
+      accounts: { encoding: 'base64', addresses: writable.map(key => key.toBase58()) }
+    })
+
+    const logs = value.logs || []
+    const computeUnits = value.unitsConsumed ?? null
+
+    if (value.err) {
+      return {
+        success: false,
+        reason: decodeSimulationError(value.err, logs),
+        computeUnits,
+        tokenDeltas: [],
+        logs
+      }
+    }
+
+    return {
+      success: true,
+      computeUnits,
+      tokenDeltas: await this.getTokenDeltas(walletAddress, writable, preAccounts, value.accounts || []),
+      logs
+    }
+  }
+
+  /**
+   * Wallet balance changes between the accounts before and after simulation
+   */
+  private async getTokenDeltas(
+    walletAddress: string,
+    addresses: PublicKey[],
+    preAccounts: (AccountInfo<Buffer> | null)[],
+    postAccounts: (SimulatedTransactionAccountInfo | null)[]
+  ): Promise<TokenDelta[]> {
+    const rawDeltas = new Map<string, bigint>()
+    const add = (mint: string, amount: bigint) => rawDeltas.set(mint, (rawDeltas.get(mint) ?? BigInt(0)) + amount)
+
+    addresses.forEach((address, index) => {
+      const pre = preAccounts[index]
+      const post = postAccounts[index]
+
+      if (address.toBase58() === walletAddress) {
+        add(SOL_MINT, BigInt((post?.lamports ?? 0) - (pre?.lamports ?? 0)))
+        return
+      }
+
+      const before = pre ? decodeTokenAccount(pre.owner.toBase58(), pre.data) : null
+      const after = post ? decodeTokenAccount(post.owner, Buffer.from(post.data[0], 'base64')) : null
+      const account = after || before
+      if (!account || account.owner !== walletAddress) return
+
+      add(account.mint, (after?.amount ?? BigInt(0)) - (before?.amount ?? BigInt(0)))
+    })
+
+    const mints = Array.from(rawDeltas.keys()).filter(mint => rawDeltas.get(mint) !== BigInt(0))
+    const decimals = await this.getDecimals(mints.filter(mint => mint !== SOL_MINT))
+
+    // Raw units when a mint's decimals could not be read
+    return mints.map(mint => ({
+      mint,
+      amount: Number(rawDeltas.get(mint)) / Math.pow(10, mint === SOL_MINT ? 9 : decimals[mint] ?? 0)
+    }))
+  }
+
+  private async getDecimals(mints: string[]): Promise<Record<string, number>> {
+    if (mints.length === 0) return {}
+
+    const decimals: Record<string, number> = {}
+    try {
+      const { value } = await this.connection.getMultipleParsedAccounts(mints.map(mint => new PublicKey(mint)))
+      value.forEach((account, index) => {
+        const parsed = account && 'parsed' in account.data ? account.data.parsed : null
+        if (parsed?.info?.decimals !== undefined) decimals[mints[index]] = parsed.info.decimals
+      })
+    } catch (error: any) {
+      console.warn(`Could not read mint decimals: ${error.message}`)
+    }
+    return decimals
+  }
+}
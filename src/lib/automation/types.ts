@@ -6,6 +6,7 @@
 export type AutomationActionType = 
   | 'open_position' 
   | 'claim_fees' 
+  | 'compound' 
   | 'rebalance' 
   | 'close_position' 
   | 'monitor'
@@ -20,6 +21,26 @@ export type AutomationStatus =
 
 export type TriggerSource = 'rule' | 'manual' | 'scheduled'
 
+// Fine-grained transaction lifecycle tracked alongside the coarse status
+export type ExecutionState =
+  | 'pending'
+  | 'built'
+  | 'submitted'
+  | 'confirmed'
+  | 'finalized'
+  | 'failed'
+  | 'expired'
+
+export interface ExecutionTransition {
+  from: ExecutionState
+  to: ExecutionState
+  at: string
+  attempt: number
+  signature?: string
+  blockhash?: string
+  error?: string
+}
+
 export interface AutomationConfig {
   id: string
   user_id: string
@@ -36,22 +57,73 @@ export interface AutomationConfig {
   claim_fee_threshold_usd: number
   claim_fee_interval_hours: number
   
+  // Claim fees and add them back as liquidity (takes precedence over auto-claim)
+  auto_compound: boolean
+  compound_threshold_usd: number
+  compound_interval_hours: number
+  compound_target_position: string | null // position NFT to add to (null = same position)
+  
   auto_rebalance: boolean
+  // Rebalance once the active bin is within this share of the range width from an edge
   rebalance_threshold_percent: number
   rebalance_cooldown_hours: number
+  // Widen the threshold when the pair is volatile, narrow it when calm
+  rebalance_volatility_scaling: boolean
+  // The new range covers this many daily price moves either side
+  rebalance_range_volatility_multiple: number
   
   auto_open_position: boolean
   min_days_between_opens: number
+  // Pool selection for auto-open (allowlist entries are mints or symbols, empty = any token)
+  pool_token_allowlist: string[]
+  pool_min_bin_step: number
+  pool_max_bin_step: number
+  // Extra airdrop weight (0-1) per token symbol or mint, on top of the built-in weights
+  pool_airdrop_weights: Record<string, number>
+  
+  // Token risk checks before open_position and rebalance (list entries are mints or symbols)
+  token_allowlist: string[] // trusted tokens, exempt from the mint/freeze authority checks
+  token_denylist: string[] // never opened or rebalanced
+  min_pool_tvl_usd: number
+  max_price_deviation_percent: number // pool price vs. the reference price feed
+  
+  // Stop-loss / take-profit (PnL measured against cost basis, null = disabled)
+  auto_close_position: boolean
+  stop_loss_percent: number | null
+  stop_loss_usd: number | null
+  take_profit_percent: number | null
+  take_profit_usd: number | null
   
   // Safety Controls
   max_positions: number
+  // Actions queued per run after conflict resolution (0 = no cap, monitor not counted)
+  max_actions_per_cycle: number
+  // Overrides of the default priority per action type (higher runs first)
+  action_priorities: Partial<Record<AutomationActionType, number>>
   max_daily_spend_usd: number
+  // Rolling 7- and 30-day limits (null = no limit)
+  weekly_spend_limit_usd: number | null
+  monthly_spend_limit_usd: number | null
+  // IANA timezone in which the daily limit resets (e.g. 'America/New_York')
+  budget_timezone: string
+  sub_budgets: SubBudget[]
+  // SOL kept in the wallet for rent and fees of later actions (0 = no reserve)
+  min_sol_reserve: number
+  
+  // Circuit breaker: pause after repeated failures
+  breaker_max_consecutive_failures: number
+  breaker_failure_rate_percent: number
+  breaker_window_hours: number
+  breaker_cooldown_hours: number | null // null = manual reset only
   require_manual_approval: boolean
   approval_threshold_usd: number
+  approval_reminder_hours: number | null // remind this long before an approval expires, null = no reminders
   
   // Status
   is_active: boolean
   last_run_at: string | null
+  locked_by: string | null
+  locked_until: string | null
   created_at: string
   updated_at: string
 }
@@ -68,10 +140,17 @@ export interface AutomationLog {
   amount_usd: number | null
   triggered_by: TriggerSource
   rule_name: string | null
+  protocol: string
   error_message: string | null
   cost_usd: number
   gas_fee_sol: number
   metadata: Record<string, any>
+  idempotency_key: string | null
+  execution_state: ExecutionState
+  execution_attempts: number
+  execution_history: ExecutionTransition[]
+  blockhash: string | null
+  last_valid_block_height: number | null
   created_at: string
   executed_at: string | null
   failed_at: string | null
@@ -85,6 +164,8 @@ export interface AutomationApproval {
   action_type: AutomationActionType
   details: Record<string, any>
   estimated_cost_usd: number
+  // Hash of the previewed transaction (null when no preview could be built)
+  message_hash: string | null
   status: 'pending' | 'approved' | 'rejected' | 'expired'
   created_at: string
   approved_at: string | null
@@ -93,6 +174,34 @@ export interface AutomationApproval {
   rejection_reason: string | null
 }
 
+export type AutomationNotificationType = 'approval_reminder' | 'approval_expired'
+
+export interface AutomationNotification {
+  id: string
+  user_id: string
+  config_id: string | null
+  approval_id: string | null
+  type: AutomationNotificationType
+  title: string
+  message: string
+  read_at: string | null
+  created_at: string
+}
+
+/**
+ * position_transactions columns read by automation (numeric columns may come back as strings)
+ */
+export interface PositionTransactionRow {
+  position_nft_address: string
+  tx_type: string
+  block_time: number
+  total_usd: number | string | null
+  token_x_symbol: string | null
+  token_y_symbol: string | null
+  token_x_amount: number | string | null
+  token_y_amount: number | string | null
+}
+
 export interface PositionInfo {
   position_nft_address: string
   position_address: string
@@ -103,7 +212,17 @@ export interface PositionInfo {
   total_usd: number
   unclaimed_fees_usd: number
   is_out_of_range: boolean
+  // Bin range of the position and the pool's active bin (null when the Meteora API did not return them)
+  pair_address: string | null
+  bin_step: number | null
+  lower_bin_id: number | null
+  upper_bin_id: number | null
+  active_bin_id: number | null
+  // Bins between the active bin and the nearest edge as % of the range width (50 = centered, 0 = at or past an edge)
+  edge_distance_percent: number | null
   fee_apr_24h: number
+  cost_basis_usd: number
+  claimed_fees_usd: number
   opened_at: string
   last_claim_at: string | null
   last_rebalance_at: string | null
@@ -115,8 +234,145 @@ export interface RuleEvaluationResult {
   positionAddress?: string
   positionNftAddress?: string
   estimatedCostUSD: number
+  // Network fee part of estimatedCostUSD, when the cost also includes a deposit (open_position)
+  estimatedGasUSD?: number
+  reason: string
+  requiresApproval: boolean
+  ruleName?: string
+  // Protocol the action runs against (defaults to 'meteora')
+  protocol?: string
+  // Pool, range and size chosen for open_position
+  poolSelection?: PoolSelection
+  // Range the position is reopened with for rebalance
+  rebalanceRange?: RebalanceRange
+  // Set by custom rules with an explicit priority (otherwise the action type's priority)
+  priority?: number
+}
+
+/**
+ * A rule result left out of the cycle by conflict resolution
+ */
+export interface DroppedRuleResult {
+  ruleResult: RuleEvaluationResult
   reason: string
+  // The accepted action it lost to, if any
+  droppedBy?: string
+}
+
+/**
+ * DLMM pool chosen for a new position, with the reasoning behind it
+ */
+export interface PoolSelection {
+  poolAddress: string
+  poolName: string
+  tokenXMint: string
+  tokenYMint: string
+  binStep: number
+  score: number
+  scores: {
+    feeApr: number
+    volumeToTvl: number
+    airdrop: number
+  }
+  sizeUSD: number
+  amountTokenX: number
+  amountTokenY: number
+  range: {
+    // Bins either side of the active bin
+    binsPerSide: number
+    currentPrice: number
+    lowerPrice: number
+    upperPrice: number
+  }
+  justification: string
+  // Next best candidates, for the approval screen
+  alternatives: Array<{ poolAddress: string; poolName: string; score: number }>
+}
+
+/**
+ * New range for a rebalance, sized from recent volatility
+ */
+export interface RebalanceRange {
+  // Bins either side of the active bin
+  binsPerSide: number
+  // Price move from the active bin to either edge (null when the bin step is unknown)
+  widthPercent: number | null
+  // Standard deviation of daily returns (null when no price history was available)
+  dailyVolatilityPercent: number | null
+}
+
+export type ActionDecision = 'execute' | 'approval' | 'blocked'
+
+export interface PlannedAction {
+  ruleResult: RuleEvaluationResult
+  safetyCheck: SafetyCheckResult
   requiresApproval: boolean
+  decision: ActionDecision
+}
+
+export interface AutomationRunOptions {
+  // Evaluate rules, safety and budget checks, policy and simulation without writing logs, approvals,
+  // circuit breaker changes or last_run_at
+  dryRun?: boolean
+  // Recorded as automation_logs.triggered_by (defaults to 'rule')
+  triggeredBy?: TriggerSource
+}
+
+export type RuleComparisonOperator = '>' | '>=' | '<' | '<=' | '==' | '!='
+
+export type RuleConditionField = Exclude<
+  keyof PositionInfo,
+  'position_nft_address' | 'position_address' | 'opened_at' | 'last_claim_at' | 'last_rebalance_at' | 'pair_address'
+>
+
+export interface RuleCondition {
+  field: RuleConditionField
+  operator: RuleComparisonOperator
+  value: number | boolean | string
+}
+
+export interface RuleConditionGroup {
+  logic: 'AND' | 'OR'
+  conditions: Array<RuleCondition | RuleConditionGroup>
+}
+
+export interface CustomAutomationRule {
+  id: string
+  user_id: string
+  config_id: string
+  name: string
+  description: string | null
+  conditions: RuleConditionGroup
+  action_type: AutomationActionType
+  cooldown_hours: number
+  priority: number | null // null = priority of the action type
+  requires_approval: boolean
+  is_active: boolean
+  created_at: string
+  updated_at: string
+}
+
+export type BudgetWindow = 'daily' | 'weekly' | 'monthly'
+
+/**
+ * Spend limit scoped to a protocol and/or action type, e.g. rebalances on Meteora at $20/week
+ */
+export interface SubBudget {
+  name: string
+  protocol: string | null // null = any protocol
+  action_type: AutomationActionType | null // null = any action
+  window: BudgetWindow
+  limit_usd: number
+}
+
+export interface BudgetBucket {
+  name: string
+  window: BudgetWindow | 'total'
+  protocol: string | null
+  actionType: AutomationActionType | null
+  limitUSD: number
+  spentUSD: number
+  remainingUSD: number
 }
 
 export interface BudgetState {
@@ -124,15 +380,122 @@ export interface BudgetState {
   spentUSD: number
   reservedUSD: number
   availableUSD: number
+  timezone: string
+  // Dates are local to the budget timezone
   dailySpend: Array<{
     date: string
     amount: number
   }>
+  // Total, daily, weekly and monthly limits followed by the config's sub-budgets
+  buckets: BudgetBucket[]
+}
+
+export interface SpendCheckResult {
+  allowed: boolean
+  reason?: string
+  // Name of the bucket that blocked the spend
+  blockedBy?: string
 }
 
 export interface SafetyCheckResult {
   allowed: boolean
   reason?: string
   warnings?: string[]
+  // Blocked by an open circuit breaker (no log is written for paused actions)
+  paused?: boolean
+  // Token risks that blocked the action, one entry per failed check
+  risks?: string[]
 }
 
+/**
+ * Per-position settings that take precedence over the config
+ */
+export interface PositionOverride {
+  id: string
+  user_id: string
+  config_id: string
+  position_nft_address: string
+  excluded: boolean // skipped by every rule and blocked by safety checks
+  claim_fee_threshold_usd: number | null // null = config value
+  rebalance_cooldown_hours: number | null // null = config value
+  require_approval: boolean // every action on the position needs approval
+  created_at: string
+  updated_at: string
+}
+
+export type PositionOverrideValues = Pick<
+  PositionOverride,
+  'excluded' | 'claim_fee_threshold_usd' | 'rebalance_cooldown_hours' | 'require_approval'
+>
+
+export type CircuitBreakerScope = 'config' | 'action_type' | 'position'
+
+export interface CircuitBreakerTrip {
+  id: string
+  user_id: string
+  config_id: string
+  scope: CircuitBreakerScope
+  scope_key: string // '' for config, action type or position NFT address
+  reason: string
+  consecutive_failures: number
+  failure_rate_percent: number
+  tripped_at: string
+  resume_at: string | null // null = until manually reset
+  reset_at: string | null
+}
+
+
+export interface BacktestOptions {
+  // Replay starts here (defaults to the wallet's first position transaction)
+  from?: string
+  // Evaluation interval, like the scheduler's run interval but coarser (default 6h)
+  stepHours?: number
+  // Config values to try instead of the stored ones (e.g. claim_fee_threshold_usd)
+  configOverrides?: Partial<AutomationConfig>
+}
+
+export interface BacktestAction {
+  at: string
+  actionType: AutomationActionType
+  positionNftAddress: string | null
+  ruleName: string
+  reason: string
+  decision: ActionDecision
+  blockedReason?: string
+  estimatedCostUSD: number
+  // Unclaimed fees at the time of the action (claims and compounds)
+  feesClaimedUSD?: number
+}
+
+export interface BacktestBudgetPoint {
+  date: string
+  spentUSD: number
+  cumulativeSpentUSD: number
+  availableUSD: number
+}
+
+export interface BacktestResult {
+  from: string
+  to: string
+  stepHours: number
+  positionsReplayed: number
+  actions: BacktestAction[]
+  budgetTimeline: BacktestBudgetPoint[]
+  summary: {
+    claims: number
+    compounds: number
+    rebalances: number
+    closes: number
+    monitors: number
+    pendingApproval: number
+    blocked: number
+    // Left out by conflict resolution (see DroppedRuleResult)
+    dropped: number
+    totalGasUSD: number
+    feesClaimedUSD: number
+    feesCompoundedUSD: number
+    endingAvailableUSD: number
+  }
+  assumptions: string[]
+  errors: string[]
+}
@@ -8,6 +8,7 @@ import { useWallet } from '@solana/wallet-adapter-react'
 import { Transaction } from '@solana/web3.js'
 import { Connection } from '@solana/web3.js'
 import { getRpcUrl } from '@/lib/env-config'
+import { MAX_EXECUTION_ATTEMPTS } from './execution-lifecycle'
 
 export interface ExecuteActionResult {
   success: boolean
@@ -33,47 +34,59 @@ export function useExecuteAction() {
     setError(null)
 
     try {
-      // Step 1: Build transaction
-      const buildResponse = await fetch('/api/automation/execute', {
-        method: 'POST',
-        headers: { 'Content-Type': 'application/json' },
-        body: JSON.stringify({
-          logId,
-          walletAddress: publicKey.toBase58(),
-        }),
-      })
-
-      if (!buildResponse.ok) {
-        const errorData = await buildResponse.json()
-        throw new Error(errorData.error || 'Failed to build transaction')
+      let result: any = null
+
+      // Rebuild and re-sign when the blockhash expires between build and submit
+      for (let attempt = 1; attempt <= MAX_EXECUTION_ATTEMPTS && !result; attempt++) {
+        // Step 1: Build transaction
+        const buildResponse = await fetch('/api/automation/execute', {
+          method: 'POST',
+          headers: { 'Content-Type': 'application/json' },
+          body: JSON.stringify({
+            logId,
+            walletAddress: publicKey.toBase58(),
+          }),
+        })
+
+        if (!buildResponse.ok) {
+          const errorData = await buildResponse.json()
+          throw new Error(errorData.error || 'Failed to build transaction')
+        }
+
+        const { transaction: transactionBase64 } = await buildResponse.json()
+
+        // Step 2: Deserialize transaction
+        const transaction = Transaction.from(Buffer.from(transactionBase64, 'base64'))
+
+        // Step 3: Sign transaction
+        const signedTransaction = await signTransaction(transaction)
+
+        // Step 4: Send signed transaction
+        const executeResponse = await fetch('/api/automation/execute', {
+          method: 'POST',
+          headers: { 'Content-Type': 'application/json' },
+          body: JSON.stringify({
+            logId,
+            walletAddress: publicKey.toBase58(),
+            signedTransaction: Buffer.from(signedTransaction.serialize()).toString('base64'),
+          }),
+        })
+
+        if (!executeResponse.ok) {
+          const errorData = await executeResponse.json()
+          if (errorData.rebuild && attempt < MAX_EXECUTION_ATTEMPTS) {
+            continue
+          }
+          throw new Error(errorData.error || 'Failed to execute transaction')
+        }
+
+        result = await executeResponse.json()
       }
 
-      const { transaction: transactionBase64 } = await buildResponse.json()
-
-      // Step 2: Deserialize transaction
-      const transaction = Transaction.from(Buffer.from(transactionBase64, 'base64'))
-
-      // Step 3: Sign transaction
-      const signedTransaction = await signTransaction(transaction)
-
-      // Step 4: Send signed transaction
-      const executeResponse = await fetch('/api/automation/execute', {
-        method: 'POST',
-        headers: { 'Content-Type': 'application/json' },
-        body: JSON.stringify({
-          logId,
-          walletAddress: publicKey.toBase58(),
-          signedTransaction: Buffer.from(signedTransaction.serialize()).toString('base64'),
-        }),
-      })
-
-      if (!executeResponse.ok) {
-        const errorData = await executeResponse.json()
-        throw new Error(errorData.error || 'Failed to execute transaction')
+      if (!result) {
+        throw new Error('Failed to execute transaction')
       }
 
-      const result = await executeResponse.json()
-
       return {
         success: true,
         signature: result.signature,
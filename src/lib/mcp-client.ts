@@ -15,11 +15,27 @@ export interface ClaimFeesParams {
   walletAddress: string
 }
 
+export interface CompoundParams {
+  protocol: 'meteora' | 'jupiter' | 'sanctum'
+  positionNftAddress: string
+  positionAddress: string
+  walletAddress: string
+  targetPositionNftAddress?: string
+}
+
 export interface RebalanceParams {
   protocol: 'meteora' | 'jupiter' | 'sanctum'
   positionNftAddress: string
   positionAddress: string
   walletAddress: string
+  binsPerSide?: number
+}
+
+export interface ClosePositionParams {
+  protocol: 'meteora' | 'jupiter' | 'sanctum'
+  positionNftAddress: string
+  positionAddress: string
+  walletAddress: string
 }
 
 export interface OpenPositionParams {
@@ -124,109 +140,126 @@ export class MCPClient {
    * Claim fees from a position
    */
   async claimFees(params: ClaimFeesParams): Promise<TransactionResult> {
-    if (!this.client || !this.connected) {
-      throw new Error('MCP client not connected')
+    const result = await this.callTool('claim_fees', params)
+
+    if (result.isError) {
+      return {
+        success: false,
+        error: result.text || 'Unknown error',
+      }
     }
 
-    const result = await this.client.callTool({
-      name: 'claim_fees',
-      arguments: params,
-    })
+    return JSON.parse(result.text || '{}')
+  }
+
+  /**
+   * Claim fees and add them back as liquidity
+   */
+  async compoundFees(params: CompoundParams): Promise<TransactionResult> {
+    const result = await this.callTool('compound_fees', params)
 
     if (result.isError) {
       return {
         success: false,
-        error: result.content[0]?.text || 'Unknown error',
+        error: result.text || 'Unknown error',
       }
     }
 
-    return JSON.parse(result.content[0]?.text || '{}')
+    return JSON.parse(result.text || '{}')
   }
 
   /**
    * Rebalance a position
    */
   async rebalancePosition(params: RebalanceParams): Promise<TransactionResult> {
-    if (!this.client || !this.connected) {
-      throw new Error('MCP client not connected')
+    const result = await this.callTool('rebalance_position', params)
+
+    if (result.isError) {
+      return {
+        success: false,
+        error: result.text || 'Unknown error',
+      }
     }
 
-    const result = await this.client.callTool({
-      name: 'rebalance_position',
-      arguments: params,
-    })
+    return JSON.parse(result.text || '{}')
+  }
+
+  /**
+   * Withdraw all liquidity and close a position
+   */
+  async closePosition(params: ClosePositionParams): Promise<TransactionResult> {
+    const result = await this.callTool('close_position', params)
 
     if (result.isError) {
       return {
         success: false,
-        error: result.content[0]?.text || 'Unknown error',
+        error: result.text || 'Unknown error',
       }
     }
 
-    return JSON.parse(result.content[0]?.text || '{}')
+    return JSON.parse(result.text || '{}')
   }
 
   /**
    * Open a new position
    */
   async openPosition(params: OpenPositionParams): Promise<TransactionResult> {
-    if (!this.client || !this.connected) {
-      throw new Error('MCP client not connected')
-    }
-
-    const result = await this.client.callTool({
-      name: 'open_position',
-      arguments: params,
-    })
+    const result = await this.callTool('open_position', params)
 
     if (result.isError) {
       return {
         success: false,
-        error: result.content[0]?.text || 'Unknown error',
+        error: result.text || 'Unknown error',
       }
     }
 
-    return JSON.parse(result.content[0]?.text || '{}')
+    return JSON.parse(result.text || '{}')
   }
 
   /**
    * Get positions for a wallet
    */
   async getPositions(params: GetPositionsParams): Promise<Position[]> {
-    if (!this.client || !this.connected) {
-      throw new Error('MCP client not connected')
-    }
-
-    const result = await this.client.callTool({
-      name: 'get_positions',
-      arguments: params,
-    })
+    const result = await this.callTool('get_positions', params)
 
     if (result.isError) {
-      throw new Error(result.content[0]?.text || 'Unknown error')
+      throw new Error(result.text || 'Unknown error')
     }
 
-    return JSON.parse(result.content[0]?.text || '[]')
+    return JSON.parse(result.text || '[]')
   }
 
   /**
    * Get protocol-level data (holdings/activity) for a wallet
    */
   async getProtocolData(params: GetProtocolDataParams): Promise<any> {
+    const result = await this.callTool('get_protocol_data', params)
+
+    if (result.isError) {
+      throw new Error(result.text || 'Unknown error')
+    }
+
+    return JSON.parse(result.text || '{}')
+  }
+
+  /**
+   * Call a tool and return the text of its first content block
+   */
+  private async callTool(name: string, params: object): Promise<{ isError: boolean; text?: string }> {
     if (!this.client || !this.connected) {
       throw new Error('MCP client not connected')
     }
 
     const result = await this.client.callTool({
-      name: 'get_protocol_data',
-      arguments: params,
+      name,
+      arguments: { ...params },
     })
 
-    if (result.isError) {
-      throw new Error(result.content[0]?.text || 'Unknown error')
+    const first = Array.isArray(result.content) ? result.content[0] : undefined
+    return {
+      isError: !!result.isError,
+      text: first?.type === 'text' && typeof first.text === 'string' ? first.text : undefined,
     }
-
-    return JSON.parse(result.content[0]?.text || '{}')
   }
 }
 
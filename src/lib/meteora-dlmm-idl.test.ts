@@ -0,0 +1,89 @@
+import { createHash } from 'crypto';
+import { describe, expect, it } from 'vitest';
+import { Keypair } from '@solana/web3.js';
+import { decodeDlmmEvent, findDlmmInstruction, METEORA_DLMM_EVENTS, METEORA_DLMM_IDL } from './meteora-dlmm-idl';
+
+const EVENT_IX_TAG = [228, 69, 165, 46, 81, 203, 154, 29];
+
+const sha256Prefix = (preimage: string) => Array.from(createHash('sha256').update(preimage).digest().subarray(0, 8));
+const snakeCase = (name: string) => name.replace(/[A-Z]/g, (char) => `_${char.toLowerCase()}`);
+
+// Self-CPI data of an event: tag | discriminator | lbPair | from | position | amounts | activeBinId
+function liquidityEvent(name: 'AddLiquidity' | 'RemoveLiquidity', activeBinId: number) {
+  const lbPair = Keypair.generate().publicKey;
+  const position = Keypair.generate().publicKey;
+  const fields = Buffer.alloc(116);
+  lbPair.toBuffer().copy(fields, 0);
+  Keypair.generate().publicKey.toBuffer().copy(fields, 32);
+  position.toBuffer().copy(fields, 64);
+  fields.writeInt32LE(activeBinId, 112);
+
+  const event = METEORA_DLMM_EVENTS.find((e) => e.name === name)!;
+  return { lbPair, position, data: Uint8Array.from([...EVENT_IX_TAG, ...event.discriminator, ...fields]) };
+}
+
+describe('METEORA_DLMM_IDL', () => {
+  it('uses Anchor discriminators for every instruction and event', () => {
+    for (const instruction of METEORA_DLMM_IDL.instructions) {
+      expect(instruction.discriminator, instruction.name).toEqual(sha256Prefix(`global:${snakeCase(instruction.name)}`));
+    }
+    for (const event of METEORA_DLMM_EVENTS) {
+      expect(event.discriminator, event.name).toEqual(sha256Prefix(`event:${event.name}`));
+    }
+  });
+});
+
+describe('findDlmmInstruction', () => {
+  it('finds an instruction by the discriminator in front of its arguments', () => {
+    const instruction = findDlmmInstruction(Uint8Array.from([169, 32, 79, 137, 136, 232, 70, 137, 1, 2, 3]));
+
+    expect(instruction?.name).toBe('claimFee');
+    expect(instruction?.accounts[1]).toBe('position');
+  });
+
+  it('finds the v2 instructions the SDK builds', () => {
+    const idl = METEORA_DLMM_IDL.instructions.find((instruction) => instruction.name === 'addLiquidityByStrategy2')!;
+    const instruction = findDlmmInstruction(Uint8Array.from(idl.discriminator));
+
+    expect(instruction?.name).toBe('addLiquidityByStrategy2');
+    expect(instruction?.accounts.slice(0, 2)).toEqual(['position', 'lbPair']);
+    expect(instruction?.accounts).toContain('reserveX');
+  });
+
+  it('returns null for unknown or short data', () => {
+    expect(findDlmmInstruction(Uint8Array.from([1, 2, 3, 4, 5, 6, 7, 8]))).toBeNull();
+    expect(findDlmmInstruction(Uint8Array.from([169, 32, 79]))).toBeNull();
+  });
+});
+
+describe('decodeDlmmEvent', () => {
+  it('reads the pool, position and a negative active bin from a liquidity event', () => {
+    const { lbPair, position, data } = liquidityEvent('RemoveLiquidity', -443);
+
+    expect(decodeDlmmEvent(data)).toEqual({
+      name: 'RemoveLiquidity',
+      lbPair: lbPair.toBase58(),
+      position: position.toBase58(),
+      activeBinId: -443,
+    });
+  });
+
+  it('reads the end bin of a swap, which has no position', () => {
+    const lbPair = Keypair.generate().publicKey;
+    const fields = Buffer.alloc(72);
+    lbPair.toBuffer().copy(fields, 0);
+    fields.writeInt32LE(10, 64);
+    fields.writeInt32LE(12, 68);
+    const swap = METEORA_DLMM_EVENTS.find((e) => e.name === 'Swap')!;
+
+    const event = decodeDlmmEvent(Uint8Array.from([...EVENT_IX_TAG, ...swap.discriminator, ...fields]));
+    expect(event).toEqual({ name: 'Swap', lbPair: lbPair.toBase58(), position: null, activeBinId: 12 });
+  });
+
+  it('ignores instructions that are not event self-CPIs and truncated events', () => {
+    const { data } = liquidityEvent('AddLiquidity', 5);
+
+    expect(decodeDlmmEvent(Uint8Array.from([0, ...data.subarray(1)]))).toBeNull();
+    expect(decodeDlmmEvent(data.subarray(0, 100))).toBeNull();
+  });
+});
@@ -0,0 +1,96 @@
+/**
+ * Meteora DLMM (lb_clmm) IDL
+ *
+ * Instruction and event layouts from the IDL bundled with @meteora-ag/dlmm, so every instruction the SDK
+ * emits (the v2 ones included) decodes: each instruction's Anchor discriminator and its accounts in order,
+ * and the events that record the pool's active bin
+ */
+
+import { PublicKey } from '@solana/web3.js';
+import { IDL, type LbClmm } from '@meteora-ag/dlmm';
+
+// The bundled IDL names instructions and accounts in snake_case; its type already uses camelCase
+export type DlmmInstructionName = LbClmm['instructions'][number]['name'];
+
+export interface DlmmIdlInstruction {
+  name: DlmmInstructionName;
+  discriminator: number[];
+  accounts: string[];
+}
+
+export type DlmmEventName = 'AddLiquidity' | 'RemoveLiquidity' | 'Swap';
+
+export interface DlmmIdlEvent {
+  name: DlmmEventName;
+  discriminator: number[];
+  // Byte offsets in the event fields: the position (liquidity events) and the pool's active bin id (i32)
+  positionOffset: number | null;
+  activeBinIdOffset: number;
+}
+
+export interface DlmmEvent {
+  name: DlmmEventName;
+  lbPair: string;
+  position: string | null;
+  // Active bin of the pool when the event was emitted (the bin a swap ended in)
+  activeBinId: number;
+}
+
+const camelCase = (name: string) => name.replace(/_([a-z0-9])/g, (_, char: string) => char.toUpperCase());
+
+export const METEORA_DLMM_IDL: { address: string; instructions: DlmmIdlInstruction[] } = {
+  address: IDL.address,
+  instructions: IDL.instructions.map((instruction) => ({
+    name: camelCase(instruction.name) as DlmmInstructionName,
+    discriminator: [...instruction.discriminator],
+    accounts: instruction.accounts.map((account) => camelCase(account.name)),
+  })),
+};
+
+// Events are emitted through a self-CPI whose data is Anchor's EVENT_IX_TAG, the event discriminator, then its fields
+const EVENT_IX_TAG = [228, 69, 165, 46, 81, 203, 154, 29];
+
+const eventDiscriminator = (name: DlmmEventName) => [...IDL.events.find((event) => event.name === name)!.discriminator];
+
+// AddLiquidity / RemoveLiquidity: lbPair | from | position | amounts [u64; 2] | activeBinId
+// Swap: lbPair | from | startBinId | endBinId | ...
+export const METEORA_DLMM_EVENTS: DlmmIdlEvent[] = [
+  { name: 'AddLiquidity', discriminator: eventDiscriminator('AddLiquidity'), positionOffset: 64, activeBinIdOffset: 112 },
+  { name: 'RemoveLiquidity', discriminator: eventDiscriminator('RemoveLiquidity'), positionOffset: 64, activeBinIdOffset: 112 },
+  { name: 'Swap', discriminator: eventDiscriminator('Swap'), positionOffset: null, activeBinIdOffset: 68 },
+];
+
+const INSTRUCTIONS_BY_DISCRIMINATOR = new Map(
+  METEORA_DLMM_IDL.instructions.map((instruction) => [instruction.discriminator.join(','), instruction])
+);
+
+/**
+ * IDL entry of a DLMM instruction from its data (null for anything else)
+ */
+export function findDlmmInstruction(data: Uint8Array): DlmmIdlInstruction | null {
+  if (data.length < 8) return null;
+  return INSTRUCTIONS_BY_DISCRIMINATOR.get(Array.from(data.subarray(0, 8)).join(',')) || null;
+}
+
+const EVENTS_BY_DISCRIMINATOR = new Map(METEORA_DLMM_EVENTS.map((event) => [event.discriminator.join(','), event]));
+
+/**
+ * A DLMM event from the data of its self-CPI instruction (null for anything else)
+ */
+export function decodeDlmmEvent(data: Uint8Array): DlmmEvent | null {
+  if (data.length < 16 || EVENT_IX_TAG.some((byte, i) => data[i] !== byte)) return null;
+
+  const event = EVENTS_BY_DISCRIMINATOR.get(Array.from(data.subarray(8, 16)).join(','));
+  const fields = data.subarray(16);
+  if (!event || fields.length < event.activeBinIdOffset + 4) return null;
+
+  const view = new DataView(fields.buffer, fields.byteOffset, fields.byteLength);
+  return {
+    name: event.name,
+    lbPair: new PublicKey(fields.subarray(0, 32)).toBase58(),
+    position: event.positionOffset === null
+      ? null
+      : new PublicKey(fields.subarray(event.positionOffset, event.positionOffset + 32)).toBase58(),
+    activeBinId: view.getInt32(event.activeBinIdOffset, true),
+  };
+}
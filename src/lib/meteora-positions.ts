@@ -10,6 +10,7 @@ import {
   type ParsedTransaction,
 } from './meteora-transaction-parser'
 import { Connection, PublicKey } from '@solana/web3.js'
+import { getTokenSymbol, resolveTokens } from './token-registry'
 
 export interface MeteoraPositionValue {
   positionAddress: string
@@ -232,8 +233,10 @@ export async function fetchMeteoraPositionValue(
     let unclaimedFeeY = 0
     let isOutOfRange = false
     
-    const tokenXDecimals = pairData.mint_x_decimals || 9
-    const tokenYDecimals = pairData.mint_y_decimals || 6
+    // Mint decimals from the token registry (on chain), then the pair API
+    const tokens = await resolveTokens([pairData.mint_x, pairData.mint_y])
+    const tokenXDecimals = tokens[pairData.mint_x]?.decimals ?? pairData.mint_x_decimals ?? 9
+    const tokenYDecimals = tokens[pairData.mint_y]?.decimals ?? pairData.mint_y_decimals ?? 6
     
     // Try to get token amounts by querying token accounts owned by the position NFT
     // Meteora positions may have associated token accounts holding the liquidity
@@ -424,8 +427,8 @@ export async function fetchMeteoraPositionValue(
     // Determine token prices
     const tokenXMint = pairData.mint_x
     const tokenYMint = pairData.mint_y
-    const tokenXSymbol = pairData.name?.split('-')[0] || 'Unknown'
-    const tokenYSymbol = pairData.name?.split('-')[1] || 'Unknown'
+    const tokenXSymbol = tokens[tokenXMint]?.symbol || pairData.name?.split('-')[0] || 'Unknown'
+    const tokenYSymbol = tokens[tokenYMint]?.symbol || pairData.name?.split('-')[1] || 'Unknown'
 
     // Get current SOL price from pair data (current_price is USDC per SOL for SOL-USDC pools)
     const currentPrice = Number(pairData.current_price || 132) // SOL price in USDC
@@ -630,11 +633,12 @@ async function fetchMeteoraPositionsDirect(
       
       if (!pairResponse.ok) continue
       const pairData = await pairResponse.json()
+      const tokens = await resolveTokens([pairData.mint_x, pairData.mint_y])
 
       // Process each position
       for (const pos of userPositions) {
-        const tokenXDecimals = pairData.mint_x_decimals || 9
-        const tokenYDecimals = pairData.mint_y_decimals || 6
+        const tokenXDecimals = tokens[pairData.mint_x]?.decimals ?? pairData.mint_x_decimals ?? 9
+        const tokenYDecimals = tokens[pairData.mint_y]?.decimals ?? pairData.mint_y_decimals ?? 6
         const currentPrice = Number(pairData.current_price || 133)
 
         const tokenXAmount = Number(pos.position_data?.total_x_amount || 0) / Math.pow(10, tokenXDecimals)
@@ -664,14 +668,14 @@ async function fetchMeteoraPositionsDirect(
           pairName: pairData.name || 'Unknown',
           owner: walletAddress,
           tokenX: {
-            symbol: pairData.name?.split('-')[0] || 'Unknown',
+            symbol: tokens[pairData.mint_x]?.symbol || pairData.name?.split('-')[0] || 'Unknown',
             mint: pairData.mint_x,
             amount: tokenXAmount,
             price: tokenXPrice,
             valueUSD: tokenXValueUSD,
           },
           tokenY: {
-            symbol: pairData.name?.split('-')[1] || 'Unknown',
+            symbol: tokens[pairData.mint_y]?.symbol || pairData.name?.split('-')[1] || 'Unknown',
             mint: pairData.mint_y,
             amount: tokenYAmount,
             price: tokenYPrice,
@@ -1254,21 +1258,24 @@ async function fetchMeteoraPositionsViaJupiter(
                               positionData.valueY ||
                               0
         
+        const tokenXMint = positionData.tokenX?.mint || positionData.token_x_mint || ''
+        const tokenYMint = positionData.tokenY?.mint || positionData.token_y_mint || ''
+        
         positions.push({
           positionAddress,
           pairAddress,
           pairName: element.label || positionData.pairName || positionData.name || 'Unknown',
           owner: walletAddress,
           tokenX: {
-            symbol: positionData.tokenX?.symbol || positionData.token_x_symbol || 'Unknown',
-            mint: positionData.tokenX?.mint || positionData.token_x_mint || '',
+            symbol: positionData.tokenX?.symbol || positionData.token_x_symbol || (tokenXMint ? getTokenSymbol(tokenXMint) : 'Unknown'),
+            mint: tokenXMint,
             amount: tokenXAmount,
             price: tokenXAmount > 0 ? tokenXValueUSD / tokenXAmount : 0,
             valueUSD: tokenXValueUSD,
           },
           tokenY: {
-            symbol: positionData.tokenY?.symbol || positionData.token_y_symbol || 'Unknown',
-            mint: positionData.tokenY?.mint || positionData.token_y_mint || '',
+            symbol: positionData.tokenY?.symbol || positionData.token_y_symbol || (tokenYMint ? getTokenSymbol(tokenYMint) : 'Unknown'),
+            mint: tokenYMint,
             amount: tokenYAmount,
             price: tokenYAmount > 0 ? tokenYValueUSD / tokenYAmount : 0,
             valueUSD: tokenYValueUSD,
@@ -0,0 +1,145 @@
+import bs58 from 'bs58';
+import { describe, expect, it, vi } from 'vitest';
+import { Keypair } from '@solana/web3.js';
+import type { ParsedTransaction } from './solana-rpc';
+import { METEORA_DLMM_IDL } from './meteora-dlmm-idl';
+
+vi.mock('@/lib/supabase', () => ({
+  supabase: {},
+}));
+
+const { METEORA_DLMM_PROGRAM, parseMeteoraTransaction, SOL_MINT, USDC_MINT } = await import('./meteora-transaction-parser');
+
+const address = () => Keypair.generate().publicKey.toBase58();
+const wallet = address();
+
+// A top-level DLMM instruction with its accounts named as in the IDL
+function dlmmInstruction(name: string, accounts: Record<string, string>) {
+  const idl = METEORA_DLMM_IDL.instructions.find((instruction) => instruction.name === name)!;
+  return {
+    programId: METEORA_DLMM_PROGRAM,
+    accounts: idl.accounts.map((account) => accounts[account] || address()),
+    data: bs58.encode([...idl.discriminator, 0, 0]),
+  };
+}
+
+function transfer(source: string, destination: string, mint: string, decimals: number, amount: number) {
+  return {
+    program: 'spl-token',
+    programId: 'TokenkegQfeZyiNwAJbNbGKPFXCWuBvf9Ss623VQ5DA',
+    parsed: {
+      type: 'transferChecked',
+      info: { source, destination, mint, tokenAmount: { amount: String(amount * Math.pow(10, decimals)), decimals } },
+    },
+  };
+}
+
+// Inner instructions belong to the last top-level instruction
+function transaction(instruction: object | object[], inner: object[], logMessages: string[] = []): ParsedTransaction {
+  const instructions = Array.isArray(instruction) ? instruction : [instruction];
+  return {
+    blockTime: 1_760_000_000,
+    slot: 1,
+    meta: {
+      err: null,
+      fee: 5000,
+      preBalances: [0],
+      postBalances: [0],
+      preTokenBalances: [],
+      postTokenBalances: [],
+      innerInstructions: [{ index: instructions.length - 1, instructions: inner }],
+      logMessages,
+    },
+    transaction: {
+      message: {
+        accountKeys: [{ pubkey: wallet, signer: true, writable: true }],
+        instructions,
+      },
+      signatures: ['signature-1'],
+    },
+  };
+}
+
+// A USDC/SOL pool: token X is USDC, token Y is SOL
+const pool = {
+  position: address(),
+  lbPair: address(),
+  reserveX: address(),
+  reserveY: address(),
+  userTokenX: address(),
+  userTokenY: address(),
+  tokenXMint: USDC_MINT,
+  tokenYMint: SOL_MINT,
+  sender: wallet,
+};
+
+describe('parseMeteoraTransaction', () => {
+  it('maps token X and Y to the pool mints, not the transfer order', () => {
+    const [record] = parseMeteoraTransaction(transaction(dlmmInstruction('removeLiquidity', pool), [
+      transfer(pool.reserveY, pool.userTokenY, SOL_MINT, 9, 2),
+      transfer(pool.reserveX, pool.userTokenX, USDC_MINT, 6, 300),
+    ]), 'signature-1', wallet);
+
+    expect(record).toMatchObject({
+      type: 'liquidity_remove',
+      positionNftAddress: pool.position,
+      poolAddress: pool.lbPair,
+      userAddress: wallet,
+      tokenX: { mint: USDC_MINT, amount: 300, decimals: 6 },
+      tokenY: { mint: SOL_MINT, amount: 2, decimals: 9 },
+    });
+  });
+
+  it('leaves a side the transaction did not move empty', () => {
+    const [record] = parseMeteoraTransaction(transaction(dlmmInstruction('claimFee', pool), [
+      transfer(pool.reserveY, pool.userTokenY, SOL_MINT, 9, 0.5),
+    ]), 'signature-1', wallet);
+
+    expect(record.type).toBe('fee_claim');
+    expect(record.tokenX).toBeNull();
+    expect(record.tokenY).toMatchObject({ mint: SOL_MINT, amount: 0.5 });
+  });
+
+  it('falls back to transfer order when no instruction names the pool mints', () => {
+    const rewardVault = address();
+    const rewardMint = address();
+    const [record] = parseMeteoraTransaction(transaction(dlmmInstruction('claimReward', { ...pool, rewardVault, rewardMint }), [
+      transfer(rewardVault, address(), rewardMint, 6, 7),
+    ]), 'signature-1', wallet);
+
+    expect(record.type).toBe('reward_claim');
+    expect(record.tokenX).toMatchObject({ mint: rewardMint, amount: 7 });
+    expect(record.tokenY).toBeNull();
+  });
+
+  it('decodes the v2 instructions the SDK builds to open a position', () => {
+    const [record] = parseMeteoraTransaction(transaction([
+      dlmmInstruction('initializeBinArray', { lbPair: pool.lbPair }),
+      dlmmInstruction('initializePosition2', { position: pool.position, lbPair: pool.lbPair, owner: wallet }),
+      dlmmInstruction('addLiquidityByStrategy2', pool),
+    ], [
+      transfer(pool.userTokenX, pool.reserveX, USDC_MINT, 6, 150),
+      transfer(pool.userTokenY, pool.reserveY, SOL_MINT, 9, 1),
+    ]), 'signature-1', wallet);
+
+    expect(record).toMatchObject({
+      type: 'position_open',
+      positionNftAddress: pool.position,
+      poolAddress: pool.lbPair,
+      userAddress: wallet,
+      tokenX: { mint: USDC_MINT, amount: 150 },
+      tokenY: { mint: SOL_MINT, amount: 1 },
+    });
+  });
+
+  it('falls back to the logs when only instructions without a position decode', () => {
+    const [record] = parseMeteoraTransaction(transaction(
+      [dlmmInstruction('initializeBinArray', { lbPair: pool.lbPair }), { programId: METEORA_DLMM_PROGRAM, accounts: [], data: '1111' }],
+      [],
+      [`Program ${METEORA_DLMM_PROGRAM} invoke [1]`, 'Program log: Instruction: InitializePosition2']
+    ), 'signature-1', wallet);
+
+    expect(record.type).toBe('position_open');
+    expect(record.poolAddress).toBe(pool.lbPair);
+  });
+});
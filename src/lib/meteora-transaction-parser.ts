@@ -2,10 +2,18 @@
  * Meteora DLMM Transaction Parser
  * 
  * Parses Solana transactions to identify and extract Meteora DLMM position activity
- * Detects: Position opens, fee claims, position closes, rebalances
+ * Detects: Position opens, liquidity adds/removes, fee and reward claims, position closes, rebalances
+ * DLMM instructions (including inner/CPI ones) are decoded by their IDL discriminators;
+ * balance-change heuristics are only used when no instruction data is available
+ * A transaction touching several positions (claim-all, close-and-reopen, zaps) yields one record per position
+ * USD values use token prices at the transaction's block time
  */
 
+import bs58 from 'bs58';
 import type { ParsedTransaction, TokenBalance } from './solana-rpc';
+import { decodeDlmmEvent, findDlmmInstruction, type DlmmEvent, type DlmmInstructionName } from './meteora-dlmm-idl';
+import { getTokenSymbol, resolveTokens } from './token-registry';
+import { getHistoricalPriceUSD, getPoolPriceUSD, prefetchHistoricalPrices, type HistoricalPrice } from './price-history';
 
 // Meteora DLMM Program ID
 export const METEORA_DLMM_PROGRAM = 'LBUZKhRxPF3XUpBCjp4YzTKgLccjZhTSDM9YuVaPwxo';
@@ -14,9 +22,30 @@ export const METEORA_DLMM_PROGRAM = 'LBUZKhRxPF3XUpBCjp4YzTKgLccjZhTSDM9YuVaPwxo
 export const SOL_MINT = 'So11111111111111111111111111111111111111112';
 export const USDC_MINT = 'EPjFWdd5AufqSSqeM2qN1xzybapC8G4wEGGkZwyTDt1v';
 
+// v1 and v2 (Token-2022 aware) variants; the SDK builds the v2 ones
+const OPEN_INSTRUCTIONS: DlmmInstructionName[] = [
+  'initializePosition', 'initializePosition2', 'initializePositionPda', 'initializePositionByOperator',
+];
+const ADD_LIQUIDITY_INSTRUCTIONS: DlmmInstructionName[] = [
+  'addLiquidity', 'addLiquidity2', 'addLiquidityByWeight', 'addLiquidityByStrategy', 'addLiquidityByStrategy2',
+  'addLiquidityByStrategyOneSide', 'addLiquidityOneSide', 'addLiquidityOneSidePrecise', 'addLiquidityOneSidePrecise2',
+];
+const REMOVE_LIQUIDITY_INSTRUCTIONS: DlmmInstructionName[] = [
+  'removeLiquidity', 'removeLiquidity2', 'removeLiquidityByRange', 'removeLiquidityByRange2', 'removeAllLiquidity',
+];
+const CLOSE_INSTRUCTIONS: DlmmInstructionName[] = ['closePosition', 'closePosition2', 'closePositionIfEmpty'];
+const CLAIM_FEE_INSTRUCTIONS: DlmmInstructionName[] = ['claimFee', 'claimFee2'];
+const CLAIM_REWARD_INSTRUCTIONS: DlmmInstructionName[] = ['claimReward', 'claimReward2'];
+
+// Pool-side token accounts of DLMM instructions; transfers to them are deposits, from them withdrawals
+const POOL_TOKEN_ACCOUNTS = ['reserveX', 'reserveY', 'reserve', 'rewardVault'];
+
 export type TransactionType =
   | 'position_open'
+  | 'liquidity_add'
+  | 'liquidity_remove'
   | 'fee_claim'
+  | 'reward_claim'
   | 'position_close'
   | 'rebalance'
   | 'unknown';
@@ -26,10 +55,16 @@ export interface ParsedMeteoraTransaction {
   blockTime: number;
   slot: number;
   type: TransactionType;
+  // Order of the position among those the transaction touches (0 for single-position transactions)
+  positionIndex: number;
   
   // Position information
   positionNftAddress: string | null;
   poolAddress: string | null;
+  // Position owner / signer of the DLMM instruction (null when not decoded)
+  userAddress: string | null;
+  // Active bin of the pool at the transaction, from the DLMM events it emitted (null when none were)
+  activeBinId: number | null;
   
   // Token amounts
   tokenX: {
@@ -50,11 +85,13 @@ export interface ParsedMeteoraTransaction {
     valueUSD?: number;
   } | null;
   
-  // SOL balance change for wallet
+  // SOL balance change for wallet (whole transaction; 0 on records after the first)
   solChange: number;
   
-  // Total USD value (if prices available)
+  // Total USD value at block time (null unless every token was priced)
   totalValueUSD: number | null;
+  // Where the prices came from ('pool' when any was derived from the pool's active bin, otherwise the provider)
+  priceSource: string | null;
   
   // Raw transaction for reference
   rawTransaction: ParsedTransaction;
@@ -64,6 +101,333 @@ export interface ParsedMeteoraTransaction {
   errorMessage?: string;
 }
 
+export interface DecodedDlmmInstruction {
+  name: DlmmInstructionName;
+  // IDL account name → address
+  accounts: Record<string, string>;
+  // Executed through CPI by another program
+  inner: boolean;
+  // Token transfers the instruction made through the token program
+  transfers: DlmmTokenTransfer[];
+}
+
+export interface DlmmTokenTransfer {
+  source: string;
+  destination: string;
+  mint: string | null;
+  decimals: number | null;
+  // UI units
+  amount: number;
+}
+
+type TokenChange = {
+  mint: string;
+  change: number;
+  decimals: number;
+};
+
+// An address as jsonParsed returns it (a string, or a PublicKey from web3.js)
+type JsonParsedAddress = string | { toString(): string };
+
+/**
+ * One instruction of a jsonParsed transaction: raw (programId, accounts, base58 data)
+ * or, for programs the RPC knows, parsed (program, parsed)
+ */
+interface JsonParsedInstruction {
+  programId?: JsonParsedAddress;
+  accounts?: JsonParsedAddress[];
+  data?: string;
+  program?: string;
+  parsed?: {
+    type?: string;
+    info?: JsonParsedTransferInfo;
+  };
+  // CPI depth (1 = top level); older RPC nodes leave it out
+  stackHeight?: number | null;
+}
+
+// info of a parsed spl-token transfer / transferChecked
+interface JsonParsedTransferInfo {
+  source: string;
+  destination: string;
+  mint?: string;
+  // transfer
+  amount?: string;
+  // transferChecked
+  tokenAmount?: {
+    amount: string;
+    decimals: number;
+  };
+}
+
+interface JsonParsedInnerInstructions {
+  // Index of the top-level instruction that made the calls
+  index: number;
+  instructions: JsonParsedInstruction[];
+}
+
+/**
+ * Instruction data of a jsonParsed transaction (null when it is not valid base58)
+ */
+function decodeBase58(value: string): Uint8Array | null {
+  try {
+    return bs58.decode(value);
+  } catch {
+    return null;
+  }
+}
+
+function toAddress(value: JsonParsedAddress | undefined): string {
+  return typeof value === 'string' ? value : value?.toString() || '';
+}
+
+/**
+ * Decode one instruction of a jsonParsed transaction, if it is a known DLMM instruction
+ */
+function decodeDlmmInstruction(
+  instruction: JsonParsedInstruction,
+  inner: boolean,
+  transfers: DlmmTokenTransfer[]
+): DecodedDlmmInstruction | null {
+  if (toAddress(instruction.programId) !== METEORA_DLMM_PROGRAM || typeof instruction.data !== 'string') {
+    return null;
+  }
+
+  const data = decodeBase58(instruction.data);
+  const idlInstruction = data ? findDlmmInstruction(data) : null;
+  if (!idlInstruction) return null;
+
+  const accounts: Record<string, string> = {};
+  (instruction.accounts || []).forEach((account, index) => {
+    const name = idlInstruction.accounts[index];
+    if (name) accounts[name] = toAddress(account);
+  });
+
+  return { name: idlInstruction.name, accounts, inner, transfers };
+}
+
+/**
+ * Mint and decimals of each token account in the transaction's token balances
+ */
+function getTokenAccountMints(transaction: ParsedTransaction): Map<string, { mint: string; decimals: number }> {
+  const accountKeys = transaction.transaction.message.accountKeys || [];
+  const mints = new Map<string, { mint: string; decimals: number }>();
+  [...(transaction.meta.preTokenBalances || []), ...(transaction.meta.postTokenBalances || [])].forEach((balance) => {
+    const address = toAddress(accountKeys[balance.accountIndex]?.pubkey);
+    if (address) mints.set(address, { mint: balance.mint, decimals: balance.uiTokenAmount.decimals });
+  });
+  return mints;
+}
+
+/**
+ * A jsonParsed SPL token transfer / transferChecked instruction, or null for anything else
+ */
+function decodeTokenTransfer(
+  instruction: JsonParsedInstruction,
+  mints: Map<string, { mint: string; decimals: number }>
+): DlmmTokenTransfer | null {
+  const program = instruction.program;
+  const type = instruction.parsed?.type;
+  if ((program !== 'spl-token' && program !== 'spl-token-2022') || (type !== 'transfer' && type !== 'transferChecked')) {
+    return null;
+  }
+
+  const info = instruction.parsed?.info;
+  if (!info) return null;
+
+  const known = mints.get(info.source) || mints.get(info.destination);
+  const mint = info.mint || known?.mint || null;
+  const decimals = info.tokenAmount?.decimals ?? known?.decimals ?? null;
+  const rawAmount = info.tokenAmount?.amount ?? info.amount;
+  if (rawAmount === undefined || decimals === null) return null;
+
+  return {
+    source: info.source,
+    destination: info.destination,
+    mint,
+    decimals,
+    amount: Number(rawAmount) / Math.pow(10, decimals),
+  };
+}
+
+/**
+ * Inner (CPI) instruction groups of a transaction
+ */
+function getInnerInstructions(transaction: ParsedTransaction): JsonParsedInnerInstructions[] {
+  return transaction.meta?.innerInstructions || [];
+}
+
+/**
+ * All DLMM instructions of a transaction in execution order, top-level and inner (CPI),
+ * each with the token transfers it made
+ */
+export function decodeDlmmInstructions(transaction: ParsedTransaction): DecodedDlmmInstruction[] {
+  const instructions: JsonParsedInstruction[] = transaction.transaction.message.instructions || [];
+  const innerInstructions = new Map<number, JsonParsedInstruction[]>(
+    getInnerInstructions(transaction).map((group) => [group.index, group.instructions || []])
+  );
+  const mints = getTokenAccountMints(transaction);
+  const toTransfers = (list: JsonParsedInstruction[]) =>
+    list.map((inner) => decodeTokenTransfer(inner, mints)).filter((t): t is DlmmTokenTransfer => t !== null);
+
+  const decoded: DecodedDlmmInstruction[] = [];
+  instructions.forEach((instruction, index) => {
+    const inner = innerInstructions.get(index) || [];
+
+    // Everything a top-level DLMM instruction invokes is its own
+    const topLevel = decodeDlmmInstruction(instruction, false, toTransfers(inner));
+    if (topLevel) decoded.push(topLevel);
+
+    inner.forEach((cpi, position) => {
+      if (toAddress(cpi.programId) !== METEORA_DLMM_PROGRAM) return;
+
+      // A DLMM instruction called by another program owns the deeper instructions that follow it;
+      // without stack heights, the token transfers right after it
+      let end = position + 1;
+      while (
+        end < inner.length &&
+        (cpi.stackHeight != null && inner[end].stackHeight != null
+          ? inner[end].stackHeight! > cpi.stackHeight
+          : decodeTokenTransfer(inner[end], mints) !== null)
+      ) {
+        end++;
+      }
+
+      const decodedCpi = decodeDlmmInstruction(cpi, true, toTransfers(inner.slice(position + 1, end)));
+      if (decodedCpi) decoded.push(decodedCpi);
+    });
+  });
+
+  return decoded;
+}
+
+/**
+ * DLMM events (liquidity changes and swaps) the transaction emitted, in execution order
+ */
+export function decodeDlmmEvents(transaction: ParsedTransaction): DlmmEvent[] {
+  const events: DlmmEvent[] = [];
+  for (const group of getInnerInstructions(transaction)) {
+    for (const inner of group.instructions || []) {
+      if (toAddress(inner.programId) !== METEORA_DLMM_PROGRAM || typeof inner.data !== 'string') continue;
+      const data = decodeBase58(inner.data);
+      const event = data ? decodeDlmmEvent(data) : null;
+      if (event) events.push(event);
+    }
+  }
+  return events;
+}
+
+/**
+ * Decoded instructions grouped by the position they act on, in order of first appearance
+ * Instructions without a position (swaps, bin array setup) are left out
+ */
+function groupByPosition(decoded: DecodedDlmmInstruction[]): Array<{ position: string; instructions: DecodedDlmmInstruction[] }> {
+  const groups = new Map<string, DecodedDlmmInstruction[]>();
+  for (const instruction of decoded) {
+    const position = instruction.accounts.position;
+    if (!position) continue;
+    if (!groups.has(position)) groups.set(position, []);
+    groups.get(position)!.push(instruction);
+  }
+  return Array.from(groups.entries()).map(([position, instructions]) => ({ position, instructions }));
+}
+
+/**
+ * Whether a decoded instruction acts on a position; bin array setup or swaps alone say nothing about
+ * the position activity, which is then left to the log and balance heuristics
+ */
+function hasPositionInstruction(decoded: DecodedDlmmInstruction[]): boolean {
+  return decoded.some((instruction) => instruction.accounts.position);
+}
+
+/**
+ * Net tokens moved between the wallet and the pool by the given instructions
+ * (positive = withdrawn from the pool, negative = deposited)
+ */
+function getTransferChanges(instructions: DecodedDlmmInstruction[]): TokenChange[] {
+  const changes = new Map<string, TokenChange>();
+
+  for (const instruction of instructions) {
+    const poolAccounts = POOL_TOKEN_ACCOUNTS.map((name) => instruction.accounts[name]).filter(Boolean);
+    for (const transfer of instruction.transfers) {
+      if (!transfer.mint || transfer.decimals === null) continue;
+
+      const sign = poolAccounts.includes(transfer.source) ? 1 : poolAccounts.includes(transfer.destination) ? -1 : 0;
+      if (sign === 0) continue;
+
+      const existing = changes.get(transfer.mint) || { mint: transfer.mint, change: 0, decimals: transfer.decimals };
+      existing.change += sign * transfer.amount;
+      changes.set(transfer.mint, existing);
+    }
+  }
+
+  return Array.from(changes.values()).filter((change) => Math.abs(change.change) > 0.000001);
+}
+
+/**
+ * Transaction type from decoded DLMM instructions
+ */
+function classifyDlmmInstructions(decoded: DecodedDlmmInstruction[]): TransactionType {
+  const has = (names: DlmmInstructionName[]) => decoded.some((d) => names.includes(d.name));
+  const positionsOf = (names: DlmmInstructionName[]) =>
+    new Set(decoded.filter((d) => names.includes(d.name)).map((d) => d.accounts.position));
+
+  const opened = positionsOf(OPEN_INSTRUCTIONS);
+  const withdrawn = positionsOf([...CLOSE_INSTRUCTIONS, ...REMOVE_LIQUIDITY_INSTRUCTIONS]);
+
+  // Liquidity moved out of one position into a newly opened one
+  if (opened.size > 0 && Array.from(withdrawn).some((position) => !opened.has(position))) {
+    return 'rebalance';
+  }
+  if (opened.size > 0) return 'position_open';
+  if (has(CLOSE_INSTRUCTIONS)) return 'position_close';
+  // Part of the liquidity withdrawn, the position stays open
+  if (has(REMOVE_LIQUIDITY_INSTRUCTIONS)) return 'liquidity_remove';
+  // Liquidity added to an existing position
+  if (has(ADD_LIQUIDITY_INSTRUCTIONS)) return 'liquidity_add';
+  if (has(CLAIM_FEE_INSTRUCTIONS)) return 'fee_claim';
+  if (has(CLAIM_REWARD_INSTRUCTIONS)) return 'reward_claim';
+
+  return 'unknown';
+}
+
+/**
+ * The decoded instruction that defines a transaction of the given type
+ */
+function findDefiningInstruction(
+  decoded: DecodedDlmmInstruction[],
+  type: TransactionType
+): DecodedDlmmInstruction | null {
+  const preferred: Record<TransactionType, DlmmInstructionName[]> = {
+    position_open: [...OPEN_INSTRUCTIONS, ...ADD_LIQUIDITY_INSTRUCTIONS],
+    liquidity_add: ADD_LIQUIDITY_INSTRUCTIONS,
+    liquidity_remove: REMOVE_LIQUIDITY_INSTRUCTIONS,
+    // The new position is the one that lives on after a rebalance
+    rebalance: [...OPEN_INSTRUCTIONS, ...ADD_LIQUIDITY_INSTRUCTIONS],
+    position_close: [...CLOSE_INSTRUCTIONS, ...REMOVE_LIQUIDITY_INSTRUCTIONS],
+    fee_claim: [...CLAIM_FEE_INSTRUCTIONS, ...CLAIM_REWARD_INSTRUCTIONS],
+    reward_claim: CLAIM_REWARD_INSTRUCTIONS,
+    unknown: [],
+  };
+
+  for (const name of preferred[type]) {
+    const match = decoded.find((d) => d.name === name && d.accounts.position);
+    if (match) return match;
+  }
+  return decoded.find((d) => d.accounts.position || d.accounts.lbPair) || null;
+}
+
+/**
+ * Position owner or signer of the DLMM instructions
+ */
+function extractUserAddress(decoded: DecodedDlmmInstruction[]): string | null {
+  for (const instruction of decoded) {
+    const user = instruction.accounts.owner || instruction.accounts.sender || instruction.accounts.user;
+    if (user) return user;
+  }
+  return null;
+}
+
 /**
  * Check if transaction involves Meteora DLMM program
  */
@@ -76,8 +440,9 @@ export function isMeteoraDLMMTransaction(transaction: ParsedTransaction): boolea
     (typeof key.pubkey === 'string' ? key.pubkey : key.pubkey?.toString()) === METEORA_DLMM_PROGRAM
   );
   
-  // Also check instruction program IDs (convert to string)
-  const hasMeteoraInstruction = instructions.some((inst: any) => {
+  // Also check instruction program IDs (convert to string), including CPI calls
+  const innerInstructions = getInnerInstructions(transaction).flatMap((group) => group.instructions || []);
+  const hasMeteoraInstruction = [...instructions, ...innerInstructions].some((inst: JsonParsedInstruction) => {
     const programId = typeof inst.programId === 'string' ? inst.programId : inst.programId?.toString();
     return programId === METEORA_DLMM_PROGRAM;
   });
@@ -98,6 +463,20 @@ export function isMeteoraDLMMTransaction(transaction: ParsedTransaction): boolea
  */
 export function determineTransactionType(
   transaction: ParsedTransaction
+): TransactionType {
+  const decoded = decodeDlmmInstructions(transaction);
+  if (hasPositionInstruction(decoded)) {
+    return classifyDlmmInstructions(decoded);
+  }
+
+  return guessTransactionType(transaction);
+}
+
+/**
+ * Guess the type from logs and balance changes (no decodable DLMM instruction)
+ */
+function guessTransactionType(
+  transaction: ParsedTransaction
 ): TransactionType {
   const preTokenBalances = transaction.meta.preTokenBalances || [];
   const postTokenBalances = transaction.meta.postTokenBalances || [];
@@ -110,12 +489,24 @@ export function determineTransactionType(
   );
   
   const hasClosePositionLog = logMessages.some((log: string) => 
-    log.includes('Instruction: ClosePosition') ||
-    log.includes('Instruction: RemoveLiquidity')
+    log.includes('Instruction: ClosePosition')
+  );
+  
+  // Also matches RemoveLiquidityByRange and RemoveAllLiquidity
+  const hasRemoveLiquidityInstruction = logMessages.some((log: string) => 
+    log.includes('Instruction: RemoveLiquidity') ||
+    log.includes('Instruction: RemoveAllLiquidity')
+  );
+  
+  const hasAddLiquidityInstruction = logMessages.some((log: string) => 
+    log.includes('Instruction: AddLiquidity')
   );
   
   const hasClaimFeeInstruction = logMessages.some((log: string) => 
-    log.includes('Instruction: ClaimFee') ||
+    log.includes('Instruction: ClaimFee')
+  );
+  
+  const hasClaimRewardInstruction = logMessages.some((log: string) => 
     log.includes('Instruction: ClaimReward')
   );
   
@@ -128,10 +519,22 @@ export function determineTransactionType(
     return 'position_close';
   }
   
+  if (hasRemoveLiquidityInstruction) {
+    return 'liquidity_remove';
+  }
+  
+  if (hasAddLiquidityInstruction) {
+    return 'liquidity_add';
+  }
+  
   if (hasClaimFeeInstruction) {
     return 'fee_claim';
   }
   
+  if (hasClaimRewardInstruction) {
+    return 'reward_claim';
+  }
+  
   // PRIORITY 2: Check general log messages
   const hasAddLiquidityLog = logMessages.some((log: string) => 
     log.toLowerCase().includes('addliquidity') || 
@@ -192,6 +595,11 @@ export function extractPositionNFTAddress(
   transaction: ParsedTransaction,
   type: TransactionType
 ): string | null {
+  const decoded = decodeDlmmInstructions(transaction);
+  if (hasPositionInstruction(decoded)) {
+    return findDefiningInstruction(decoded, type)?.accounts.position || null;
+  }
+
   const accountKeys = transaction.transaction.message.accountKeys;
   const postTokenBalances = transaction.meta.postTokenBalances || [];
   const preTokenBalances = transaction.meta.preTokenBalances || [];
@@ -274,6 +682,12 @@ export function extractPositionNFTAddress(
  * Extract pool address from transaction
  */
 export function extractPoolAddress(transaction: ParsedTransaction): string | null {
+  const decoded = decodeDlmmInstructions(transaction);
+  const lbPair = decoded.find((d) => d.accounts.lbPair)?.accounts.lbPair;
+  if (lbPair) {
+    return lbPair;
+  }
+
   // Pool address is usually one of the writable accounts in the transaction
   // For now, we'll need to identify it based on patterns
   // This might need refinement based on actual transaction structures
@@ -395,16 +809,6 @@ function getTokenBalanceChanges(transaction: ParsedTransaction): Array<{
   return groupedChanges;
 }
 
-/**
- * Get token symbol from mint address
- */
-function getTokenSymbol(mint: string): string {
-  if (mint === SOL_MINT) return 'SOL';
-  if (mint === USDC_MINT) return 'USDC';
-  // Add more token mappings as needed
-  return 'UNKNOWN';
-}
-
 /**
  * Calculate SOL balance change for wallet
  */
@@ -425,92 +829,161 @@ function getSOLBalanceChange(
   return (postBalance - preBalance) / 1e9;
 }
 
+/**
+ * The pool's token X and Y mints, as named by a decoded instruction on the pool (null when none names both)
+ */
+function findPoolMints(
+  decoded: DecodedDlmmInstruction[],
+  poolAddress: string | null
+): { tokenXMint: string; tokenYMint: string } | null {
+  const match = decoded.find(
+    (d) => d.accounts.tokenXMint && d.accounts.tokenYMint && (!poolAddress || d.accounts.lbPair === poolAddress)
+  );
+  return match ? { tokenXMint: match.accounts.tokenXMint, tokenYMint: match.accounts.tokenYMint } : null;
+}
+
+/**
+ * Token X and Y changes: matched to the pool's mints when known (a side the transaction did not move is
+ * left empty), otherwise the first two changes in transfer order
+ */
+function splitTokenChanges(
+  tokenChanges: TokenChange[],
+  poolMints: { tokenXMint: string; tokenYMint: string } | null
+): [TokenChange | undefined, TokenChange | undefined] {
+  if (!poolMints) return [tokenChanges[0], tokenChanges[1]];
+  return [
+    tokenChanges.find((change) => change.mint === poolMints.tokenXMint),
+    tokenChanges.find((change) => change.mint === poolMints.tokenYMint),
+  ];
+}
+
+/**
+ * Token info of a parsed record from a token change
+ */
+function toTokenAmount(change: TokenChange | undefined): ParsedMeteoraTransaction['tokenX'] {
+  if (!change) return null;
+  return {
+    mint: change.mint,
+    symbol: getTokenSymbol(change.mint),
+    amount: Math.abs(change.change),
+    decimals: change.decimals,
+  };
+}
+
+/**
+ * Fill in token prices and USD values at the record's block time; a token the price provider has no
+ * price for is priced from the pool's active bin when the transaction emitted one
+ */
+async function priceRecord(record: ParsedMeteoraTransaction): Promise<void> {
+  const tokens = [record.tokenX, record.tokenY].filter((token): token is NonNullable<typeof token> => token !== null);
+  if (tokens.length === 0 || !record.blockTime) return;
+  
+  const prices: Array<HistoricalPrice | null> = [];
+  for (const token of tokens) {
+    let price = await getHistoricalPriceUSD(token.mint, record.blockTime);
+    if (!price && record.poolAddress && record.activeBinId !== null) {
+      price = await getPoolPriceUSD(record.poolAddress, record.activeBinId, token.mint, record.blockTime);
+    }
+    if (price) {
+      token.priceUSD = price.priceUSD;
+      token.valueUSD = token.amount * price.priceUSD;
+    }
+    prices.push(price);
+  }
+  
+  if (prices.every((price) => price !== null)) {
+    record.totalValueUSD = tokens.reduce((sum, token) => sum + (token.valueUSD || 0), 0);
+    record.priceSource = prices.some((price) => price!.source === 'pool')
+      ? 'pool'
+      : prices.find((price) => price!.source !== 'peg')?.source || 'peg';
+  }
+}
+
 /**
  * Parse a Meteora DLMM transaction
  * Main function to extract all relevant information
+ * Returns one record per position the transaction acts on (empty for non-Meteora transactions)
  */
 export function parseMeteoraTransaction(
   transaction: ParsedTransaction,
   signature: string,
   walletAddress: string
-): ParsedMeteoraTransaction | null {
+): ParsedMeteoraTransaction[] {
   if (!isMeteoraDLMMTransaction(transaction)) {
-    return null; // Not a Meteora transaction
+    return []; // Not a Meteora transaction
   }
   
-  const type = determineTransactionType(transaction);
-  const tokenChanges = getTokenBalanceChanges(transaction);
   const solChange = getSOLBalanceChange(transaction, walletAddress);
-  const positionNftAddress = extractPositionNFTAddress(transaction, type);
-  const poolAddress = extractPoolAddress(transaction);
-  
-  // Extract token X and Y information (usually SOL and USDC for Meteora)
-  let tokenX = null;
-  let tokenY = null;
-  
-  if (tokenChanges.length >= 1) {
-    const firstChange = tokenChanges[0];
-    tokenX = {
-      mint: firstChange.mint,
-      symbol: getTokenSymbol(firstChange.mint),
-      amount: Math.abs(firstChange.change),
-      decimals: firstChange.decimals,
-    };
-  }
-  
-  if (tokenChanges.length >= 2) {
-    const secondChange = tokenChanges[1];
-    tokenY = {
-      mint: secondChange.mint,
-      symbol: getTokenSymbol(secondChange.mint),
-      amount: Math.abs(secondChange.change),
-      decimals: secondChange.decimals,
-    };
-  }
-  
   const success = transaction.meta.err === null;
+  const decoded = decodeDlmmInstructions(transaction);
+  const positions = groupByPosition(decoded);
+  const events = decodeDlmmEvents(transaction);
   
-  // Estimate total USD value based on token amounts
-  // Use rough price estimates: SOL ~$190, USDC $1
-  let estimatedUSD = 0;
+  // The position's own liquidity event, else any event of the pool (a swap in the same transaction)
+  const findActiveBinId = (position: string | null, pool: string | null) =>
+    (events.find((event) => position && event.position === position) ||
+      events.find((event) => pool && event.lbPair === pool))?.activeBinId ?? null;
   
-  if (tokenX) {
-    const tokenXSymbol = tokenX.symbol.toUpperCase();
-    if (tokenXSymbol === 'SOL' || tokenXSymbol === 'WSOL') {
-      estimatedUSD += tokenX.amount * 190; // Rough SOL price
-    } else if (tokenXSymbol === 'USDC' || tokenXSymbol === 'USDT') {
-      estimatedUSD += tokenX.amount;
-    }
-  }
+  const toRecord = (
+    fields: Pick<ParsedMeteoraTransaction, 'type' | 'positionIndex' | 'positionNftAddress' | 'poolAddress' | 'userAddress'>,
+    tokenChanges: TokenChange[]
+  ): ParsedMeteoraTransaction => {
+    // Token X and Y are the pool's, whatever order the transfers ran in
+    const [changeX, changeY] = splitTokenChanges(tokenChanges, findPoolMints(decoded, fields.poolAddress));
+    const tokenX = toTokenAmount(changeX);
+    const tokenY = toTokenAmount(changeY);
+    
+    return {
+      signature,
+      blockTime: transaction.blockTime || 0,
+      slot: transaction.slot,
+      ...fields,
+      tokenX,
+      tokenY,
+      activeBinId: findActiveBinId(fields.positionNftAddress, fields.poolAddress),
+      solChange: fields.positionIndex === 0 ? solChange : 0,
+      // Priced at block time by parseMeteoraTransactions
+      totalValueUSD: null,
+      priceSource: null,
+      rawTransaction: transaction,
+      success,
+      errorMessage: success ? undefined : 'Transaction failed',
+    };
+  };
   
-  if (tokenY) {
-    const tokenYSymbol = tokenY.symbol.toUpperCase();
-    if (tokenYSymbol === 'SOL' || tokenYSymbol === 'WSOL') {
-      estimatedUSD += tokenY.amount * 190; // Rough SOL price
-    } else if (tokenYSymbol === 'USDC' || tokenYSymbol === 'USDT') {
-      estimatedUSD += tokenY.amount;
-    }
+  // No decoded instruction names a position: classify the transaction as a whole
+  if (positions.length === 0) {
+    const type = determineTransactionType(transaction);
+    return [toRecord({
+      type,
+      positionIndex: 0,
+      positionNftAddress: extractPositionNFTAddress(transaction, type),
+      poolAddress: extractPoolAddress(transaction),
+      userAddress: extractUserAddress(decoded),
+    }, getTokenBalanceChanges(transaction))];
   }
   
-  return {
-    signature,
-    blockTime: transaction.blockTime || 0,
-    slot: transaction.slot,
-    type,
-    positionNftAddress,
-    poolAddress,
-    tokenX,
-    tokenY,
-    solChange,
-    totalValueUSD: estimatedUSD > 0 ? estimatedUSD : null,
-    rawTransaction: transaction,
-    success,
-    errorMessage: success ? undefined : 'Transaction failed',
-  };
+  return positions.map(({ position, instructions }, positionIndex) => {
+    // Token amounts come from the position's own transfers; a lone position falls back to
+    // wallet balance changes when the transfers are not available
+    let tokenChanges = getTransferChanges(instructions);
+    if (tokenChanges.length === 0 && positions.length === 1) {
+      tokenChanges = getTokenBalanceChanges(transaction);
+    }
+    
+    return toRecord({
+      type: classifyDlmmInstructions(instructions),
+      positionIndex,
+      positionNftAddress: position,
+      poolAddress: instructions.find((d) => d.accounts.lbPair)?.accounts.lbPair || extractPoolAddress(transaction),
+      userAddress: extractUserAddress(instructions),
+    }, tokenChanges);
+  });
 }
 
 /**
  * Parse multiple Meteora transactions from a wallet
+ * Multi-position transactions contribute one record per position
  */
 export async function parseMeteoraTransactions(
   transactions: Array<ParsedTransaction | null>,
@@ -519,20 +992,47 @@ export async function parseMeteoraTransactions(
 ): Promise<ParsedMeteoraTransaction[]> {
   const parsed: ParsedMeteoraTransaction[] = [];
   
+  // Load symbols of every mint involved, so records of any pair get them
+  const mints = transactions.flatMap((tx) =>
+    tx ? [...(tx.meta.preTokenBalances || []), ...(tx.meta.postTokenBalances || [])].map((balance) => balance.mint) : []
+  );
+  try {
+    await resolveTokens(mints);
+  } catch (error) {
+    console.warn('Could not resolve token metadata:', error);
+  }
+  
   for (let i = 0; i < transactions.length; i++) {
     const tx = transactions[i];
     if (!tx) continue; // Skip null transactions
     
     try {
-      const parsedTx = parseMeteoraTransaction(tx, signatures[i], walletAddress);
-      if (parsedTx) {
-        parsed.push(parsedTx);
-      }
+      parsed.push(...parseMeteoraTransaction(tx, signatures[i], walletAddress));
     } catch (error) {
       console.error(`Error parsing transaction ${signatures[i]}:`, error);
     }
   }
   
+  // Look up every record's prices together: one provider request per mint instead of one per record
+  try {
+    await prefetchHistoricalPrices(parsed.flatMap((record) =>
+      [record.tokenX, record.tokenY]
+        .filter((token): token is NonNullable<typeof token> => token !== null)
+        .map((token) => ({ mint: token.mint, blockTime: record.blockTime }))
+    ));
+  } catch (error) {
+    console.warn('Could not prefetch prices:', error);
+  }
+  
+  // Value each record with prices at its block time
+  for (const record of parsed) {
+    try {
+      await priceRecord(record);
+    } catch (error) {
+      console.warn(`Could not price transaction ${record.signature}:`, error);
+    }
+  }
+  
   return parsed;
 }
 
@@ -0,0 +1,111 @@
+import { beforeEach, describe, expect, it, vi } from 'vitest'
+import type { PriceProvider } from './price-history'
+
+// No stored prices and no service-role key: everything comes from the provider and is cached in memory
+vi.mock('@/lib/supabase', () => {
+  const chain = {
+    select: () => chain,
+    eq: () => chain,
+    in: async () => ({ data: [], error: null })
+  }
+  return { supabase: { from: () => chain } }
+})
+vi.mock('@/lib/supabase-admin', () => ({
+  getServiceRoleClient: () => null
+}))
+
+const { coinGeckoPriceProvider, getHistoricalPriceUSD, prefetchHistoricalPrices, setPriceProvider } = await import('./price-history')
+
+const MINT_A = 'mint-a'
+const MINT_B = 'mint-b'
+const T0 = 1_760_000_000
+
+function makeProvider(getPricesUSD: PriceProvider['getPricesUSD']) {
+  const provider = {
+    name: 'test',
+    getPriceUSD: vi.fn(async () => 2),
+    getPricesUSD: vi.fn(getPricesUSD)
+  }
+  setPriceProvider(provider)
+  return provider
+}
+
+describe('prefetchHistoricalPrices', () => {
+  beforeEach(() => {
+    vi.restoreAllMocks()
+  })
+
+  it('looks up each mint once for all of its block times', async () => {
+    const provider = makeProvider(async (_mint, blockTimes) => new Map(blockTimes.map(t => [t, 1.5])))
+
+    await prefetchHistoricalPrices([
+      { mint: MINT_A, blockTime: T0 },
+      { mint: MINT_B, blockTime: T0 },
+      { mint: MINT_A, blockTime: T0 + 86400 },
+      { mint: 'EPjFWdd5AufqSSqeM2qN1xzybapC8G4wEGGkZwyTDt1v', blockTime: T0 }
+    ])
+
+    expect(provider.getPricesUSD).toHaveBeenCalledTimes(2)
+    expect(provider.getPricesUSD).toHaveBeenCalledWith(MINT_A, [T0, T0 + 86400])
+    expect(await getHistoricalPriceUSD(MINT_A, T0 + 86400)).toMatchObject({ priceUSD: 1.5, source: 'test' })
+    expect(provider.getPriceUSD).not.toHaveBeenCalled()
+  })
+
+  it('caches misses the provider answered', async () => {
+    const provider = makeProvider(async () => new Map())
+
+    await prefetchHistoricalPrices([{ mint: MINT_A, blockTime: T0 }])
+
+    expect(await getHistoricalPriceUSD(MINT_A, T0)).toBeNull()
+    expect(provider.getPriceUSD).not.toHaveBeenCalled()
+  })
+
+  it('does not cache misses from a provider error and pauses lookups', async () => {
+    vi.spyOn(console, 'warn').mockImplementation(() => {})
+    const provider = makeProvider(async () => {
+      throw new Error('CoinGecko responded 429')
+    })
+
+    await prefetchHistoricalPrices([{ mint: MINT_A, blockTime: T0 }, { mint: MINT_B, blockTime: T0 }])
+    expect(provider.getPricesUSD).toHaveBeenCalledTimes(1)
+
+    // Paused: no per-record requests while rate limited
+    expect(await getHistoricalPriceUSD(MINT_A, T0)).toBeNull()
+    expect(provider.getPriceUSD).not.toHaveBeenCalled()
+
+    // Resumed after the backoff, and the earlier miss was not cached
+    const afterBackoff = Date.now() + 2 * 60 * 1000
+    vi.spyOn(Date, 'now').mockReturnValue(afterBackoff)
+    expect(await getHistoricalPriceUSD(MINT_A, T0)).toMatchObject({ priceUSD: 2 })
+  })
+})
+
+describe('coinGeckoPriceProvider', () => {
+  beforeEach(() => {
+    vi.restoreAllMocks()
+  })
+
+  it('prices a batch of block times from one range request', async () => {
+    const fetchMock = vi.fn(async () => new Response(JSON.stringify({
+      prices: [[T0 * 1000, 10], [(T0 + 3600) * 1000, 11], [(T0 + 30 * 86400) * 1000, 12]]
+    })))
+    vi.stubGlobal('fetch', fetchMock)
+
+    const prices = await coinGeckoPriceProvider.getPricesUSD!(MINT_A, [T0 + 3000, T0 + 10 * 86400, T0 + 30 * 86400 + 60])
+
+    expect(fetchMock).toHaveBeenCalledTimes(1)
+    expect(String((fetchMock.mock.calls[0] as unknown[])[0])).toContain(`from=${T0 + 3000 - 3600}&to=${T0 + 30 * 86400 + 60 + 3600}`)
+    // No point within an hour of the middle block time
+    expect(Array.from(prices.values())).toEqual([11, null, 12])
+    vi.unstubAllGlobals()
+  })
+
+  it('throws on rate limits and returns no prices for unlisted tokens', async () => {
+    vi.stubGlobal('fetch', vi.fn(async () => new Response('', { status: 429 })))
+    await expect(coinGeckoPriceProvider.getPriceUSD(MINT_A, T0)).rejects.toThrow('429')
+
+    vi.stubGlobal('fetch', vi.fn(async () => new Response('', { status: 404 })))
+    expect(await coinGeckoPriceProvider.getPriceUSD(MINT_A, T0)).toBeNull()
+    vi.unstubAllGlobals()
+  })
+})
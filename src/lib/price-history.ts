@@ -0,0 +1,351 @@
+/**
+ * Price History
+ * USD price of a mint at a block time from a pluggable provider (CoinGecko by default), cached in memory
+ * and in the token_price_history table; prices a provider lacks can be derived from a DLMM pool's active bin
+ * Batches of block times are prefetched with one provider lookup per mint (prefetchHistoricalPrices)
+ */
+
+import { Connection, PublicKey } from '@solana/web3.js'
+import { supabase } from '@/lib/supabase'
+import { getServiceRoleClient } from '@/lib/supabase-admin'
+import { getEnvVar, getServerRpcUrl } from '@/lib/env-config'
+import { resolveTokens } from '@/lib/token-registry'
+
+const SOL_MINT = 'So11111111111111111111111111111111111111112'
+const USDC_MINT = 'EPjFWdd5AufqSSqeM2qN1xzybapC8G4wEGGkZwyTDt1v'
+const USDT_MINT = 'Es9vMFrzaCERmJfrF4H2FYD4KCoNkY11McCe8BenwNYB'
+const METEORA_DLMM_PROGRAM = 'LBUZKhRxPF3XUpBCjp4YzTKgLccjZhTSDM9YuVaPwxo'
+
+// Stablecoins are valued at $1 without a lookup
+const PEGGED_MINTS = [USDC_MINT, USDT_MINT]
+
+// Prices are cached per mint and 5-minute bucket of block time
+const PRICE_BUCKET_SECONDS = 300
+// Lookups the provider answered without a price are retried after this long
+const MISSING_PRICE_TTL_MS = 10 * 60 * 1000
+// A provider error (rate limit, outage) pauses lookups for this long; those misses are not cached
+const PROVIDER_BACKOFF_MS = 60 * 1000
+
+// LbPair account: discriminator (8) | static parameters (32) | variable parameters (32) | bump | bin step seed | pair type | active id (i32) | bin step (u16) | ...
+const LB_PAIR_BIN_STEP_OFFSET = 80
+const LB_PAIR_TOKEN_X_MINT_OFFSET = 88
+const LB_PAIR_TOKEN_Y_MINT_OFFSET = 120
+
+const COINGECKO_API = 'https://api.coingecko.com/api/v3'
+// Coins CoinGecko does not list by Solana contract
+const COINGECKO_COIN_IDS: Record<string, string> = { [SOL_MINT]: 'solana' }
+// Range granularity is automatic: 5-minute points for ranges within the last day, hourly points for
+// other ranges up to 90 days, daily beyond that; ranges are kept under 90 days so points stay hourly
+const COINGECKO_MAX_RANGE_SECONDS = 89 * 24 * 60 * 60
+// Points further than an hourly step from the block time are not used
+const COINGECKO_MAX_POINT_DISTANCE_SECONDS = 60 * 60
+
+export interface HistoricalPrice {
+  mint: string
+  blockTime: number
+  priceUSD: number
+  // Provider name, 'peg' for stablecoins or 'pool' for prices derived from a pool's active bin
+  source: string
+}
+
+export interface PriceProvider {
+  name: string
+  // USD price of the mint at blockTime (unix seconds), or null when the provider has none
+  // Throws when the provider could not answer (rate limits, outages)
+  getPriceUSD(mint: string, blockTime: number): Promise<number | null>
+  // Prices of the mint at several block times in as few requests as possible (optional)
+  getPricesUSD?(mint: string, blockTimes: number[]): Promise<Map<number, number | null>>
+}
+
+interface PoolInfo {
+  binStep: number
+  mintX: string
+  mintY: string
+}
+
+/**
+ * Price points of a CoinGecko market chart range ([unix ms, USD] pairs), empty for coins it does not list
+ */
+async function fetchCoinGeckoRange(mint: string, from: number, to: number): Promise<Array<[number, number]>> {
+  const path = COINGECKO_COIN_IDS[mint] ? `coins/${COINGECKO_COIN_IDS[mint]}` : `coins/solana/contract/${mint}`
+  const url = `${COINGECKO_API}/${path}/market_chart/range?vs_currency=usd&from=${from}&to=${to}`
+  const apiKey = getEnvVar('COINGECKO_API_KEY')
+
+  const response = await fetch(url, { headers: apiKey ? { 'x-cg-demo-api-key': apiKey } : undefined })
+  // 404 for tokens CoinGecko does not list
+  if (response.status === 404) return []
+  if (!response.ok) {
+    throw new Error(`CoinGecko responded ${response.status}`)
+  }
+
+  const data = await response.json()
+  return Array.isArray(data.prices) ? data.prices : []
+}
+
+/**
+ * CoinGecko prices of a mint at several block times: one range request per 89 days they span
+ */
+async function getCoinGeckoPrices(mint: string, blockTimes: number[]): Promise<Map<number, number | null>> {
+  const sorted = Array.from(new Set(blockTimes)).sort((a, b) => a - b)
+  const prices = new Map<number, number | null>()
+
+  let start = 0
+  while (start < sorted.length) {
+    let end = start
+    while (end + 1 < sorted.length && sorted[end + 1] - sorted[start] <= COINGECKO_MAX_RANGE_SECONDS) end++
+
+    const points = await fetchCoinGeckoRange(
+      mint,
+      sorted[start] - COINGECKO_MAX_POINT_DISTANCE_SECONDS,
+      sorted[end] + COINGECKO_MAX_POINT_DISTANCE_SECONDS
+    )
+    for (const blockTime of sorted.slice(start, end + 1)) {
+      let nearest: [number, number] | null = null
+      for (const point of points) {
+        if (!nearest || Math.abs(point[0] - blockTime * 1000) < Math.abs(nearest[0] - blockTime * 1000)) {
+          nearest = point
+        }
+      }
+      prices.set(blockTime, nearest && Math.abs(nearest[0] - blockTime * 1000) <= COINGECKO_MAX_POINT_DISTANCE_SECONDS * 1000
+        ? nearest[1]
+        : null)
+    }
+    start = end + 1
+  }
+  return prices
+}
+
+/**
+ * Historical prices from CoinGecko's market chart range (COINGECKO_API_KEY is an optional demo key)
+ */
+export const coinGeckoPriceProvider: PriceProvider = {
+  name: 'coingecko',
+  async getPriceUSD(mint, blockTime) {
+    return (await getCoinGeckoPrices(mint, [blockTime])).get(blockTime) ?? null
+  },
+  getPricesUSD: getCoinGeckoPrices
+}
+
+let provider: PriceProvider = coinGeckoPriceProvider
+const cache = new Map<string, { price: HistoricalPrice | null; fetchedAt: number }>()
+const pools = new Map<string, PoolInfo | null>()
+let providerPausedUntil = 0
+
+/**
+ * Replace the provider historical prices are looked up with
+ */
+export function setPriceProvider(next: PriceProvider): void {
+  provider = next
+  cache.clear()
+  providerPausedUntil = 0
+}
+
+/**
+ * Look up prices for many block times ahead of getHistoricalPriceUSD: stored prices in one query per mint,
+ * the rest with one provider batch per mint rather than a request per block time
+ */
+export async function prefetchHistoricalPrices(requests: Array<{ mint: string; blockTime: number }>): Promise<void> {
+  const byMint = new Map<string, number[]>()
+  for (const { mint, blockTime } of requests) {
+    if (PEGGED_MINTS.includes(mint) || !blockTime || getCached(mint, blockTime) !== undefined) continue
+    if (!byMint.has(mint)) byMint.set(mint, [])
+    byMint.get(mint)!.push(blockTime)
+  }
+
+  for (const [mint, blockTimes] of byMint) {
+    const stored = await loadStoredBuckets(mint, blockTimes.map(toBucket))
+    const missing = blockTimes.filter(blockTime => {
+      const row = stored.get(toBucket(blockTime))
+      if (!row) return true
+      cache.set(`${mint}:${toBucket(blockTime)}`, {
+        price: { mint, blockTime, priceUSD: row.priceUSD, source: row.source },
+        fetchedAt: Date.now()
+      })
+      return false
+    })
+    if (missing.length === 0 || !provider.getPricesUSD || Date.now() < providerPausedUntil) continue
+
+    let prices: Map<number, number | null>
+    try {
+      prices = await provider.getPricesUSD(mint, missing)
+    } catch (error) {
+      pauseProvider(mint, error)
+      return
+    }
+
+    const found: HistoricalPrice[] = []
+    for (const blockTime of missing) {
+      const priceUSD = prices.get(blockTime) ?? null
+      if (isValidPrice(priceUSD)) {
+        found.push({ mint, blockTime, priceUSD, source: provider.name })
+      } else {
+        cache.set(`${mint}:${toBucket(blockTime)}`, { price: null, fetchedAt: Date.now() })
+      }
+    }
+    await savePrices(found)
+  }
+}
+
+/**
+ * USD price of a mint at a block time, or null when neither the cache nor the provider has one
+ */
+export async function getHistoricalPriceUSD(mint: string, blockTime: number): Promise<HistoricalPrice | null> {
+  if (PEGGED_MINTS.includes(mint)) {
+    return { mint, blockTime, priceUSD: 1, source: 'peg' }
+  }
+
+  const cached = getCached(mint, blockTime)
+  if (cached !== undefined) return cached
+
+  const bucket = toBucket(blockTime)
+  const stored = (await loadStoredBuckets(mint, [bucket])).get(bucket)
+  if (stored) {
+    const price = { mint, blockTime, priceUSD: stored.priceUSD, source: stored.source }
+    cache.set(`${mint}:${bucket}`, { price, fetchedAt: Date.now() })
+    return price
+  }
+
+  if (Date.now() < providerPausedUntil) return null
+
+  let priceUSD: number | null
+  try {
+    priceUSD = await provider.getPriceUSD(mint, blockTime)
+  } catch (error) {
+    pauseProvider(mint, error)
+    return null
+  }
+
+  if (!isValidPrice(priceUSD)) {
+    cache.set(`${mint}:${bucket}`, { price: null, fetchedAt: Date.now() })
+    return null
+  }
+
+  const price = { mint, blockTime, priceUSD, source: provider.name }
+  await savePrices([price])
+  return price
+}
+
+/**
+ * USD price of one of a DLMM pool's tokens at a block time, from the pool's price at its active bin
+ * and the historical price of the other token
+ */
+export async function getPoolPriceUSD(
+  poolAddress: string,
+  activeBinId: number,
+  mint: string,
+  blockTime: number
+): Promise<HistoricalPrice | null> {
+  const pool = await getPool(poolAddress)
+  if (!pool || (mint !== pool.mintX && mint !== pool.mintY)) return null
+
+  const other = await getHistoricalPriceUSD(mint === pool.mintX ? pool.mintY : pool.mintX, blockTime)
+  if (!other) return null
+
+  const tokens = await resolveTokens([pool.mintX, pool.mintY])
+  const decimalsX = tokens[pool.mintX]?.decimals
+  const decimalsY = tokens[pool.mintY]?.decimals
+  if (decimalsX === undefined || decimalsY === undefined) return null
+
+  // Token Y per token X at the active bin, in UI units
+  const binPrice = Math.pow(1 + pool.binStep / 10000, activeBinId) * Math.pow(10, decimalsX - decimalsY)
+  const priceUSD = mint === pool.mintX ? other.priceUSD * binPrice : other.priceUSD / binPrice
+  if (!Number.isFinite(priceUSD) || priceUSD <= 0) return null
+
+  const price = { mint, blockTime, priceUSD, source: 'pool' }
+  await savePrices([price])
+  return price
+}
+
+function toBucket(blockTime: number): number {
+  return Math.floor(blockTime / PRICE_BUCKET_SECONDS) * PRICE_BUCKET_SECONDS
+}
+
+function isValidPrice(priceUSD: number | null): priceUSD is number {
+  return priceUSD !== null && Number.isFinite(priceUSD) && priceUSD > 0
+}
+
+/**
+ * Cached price at a block time: null for a recent miss, undefined when it has to be looked up
+ */
+function getCached(mint: string, blockTime: number): HistoricalPrice | null | undefined {
+  const cached = cache.get(`${mint}:${toBucket(blockTime)}`)
+  if (!cached || (!cached.price && Date.now() - cached.fetchedAt >= MISSING_PRICE_TTL_MS)) return undefined
+  return cached.price && { ...cached.price, blockTime }
+}
+
+function pauseProvider(mint: string, error: unknown): void {
+  const message = error instanceof Error ? error.message : String(error)
+  console.warn(`Could not fetch ${mint} price from ${provider.name}, pausing lookups: ${message}`)
+  providerPausedUntil = Date.now() + PROVIDER_BACKOFF_MS
+}
+
+async function loadStoredBuckets(mint: string, buckets: number[]): Promise<Map<number, { priceUSD: number; source: string }>> {
+  const stored = new Map<number, { priceUSD: number; source: string }>()
+
+  const { data, error } = await supabase
+    .from('token_price_history')
+    .select('bucket_time, price_usd, source')
+    .eq('mint', mint)
+    .in('bucket_time', Array.from(new Set(buckets)))
+
+  if (error) {
+    console.warn('Could not load cached prices:', error.message)
+    return stored
+  }
+
+  for (const row of data || []) {
+    stored.set(Number(row.bucket_time), { priceUSD: Number(row.price_usd), source: row.source })
+  }
+  return stored
+}
+
+// The table is written with the service role only; without the key, prices are only cached in memory
+async function savePrices(prices: HistoricalPrice[]): Promise<void> {
+  for (const price of prices) {
+    cache.set(`${price.mint}:${toBucket(price.blockTime)}`, { price, fetchedAt: Date.now() })
+  }
+
+  const db = getServiceRoleClient()
+  if (prices.length === 0 || !db) return
+
+  const rows = new Map(prices.map(price => [`${price.mint}:${toBucket(price.blockTime)}`, {
+    mint: price.mint,
+    bucket_time: toBucket(price.blockTime),
+    price_usd: price.priceUSD,
+    source: price.source
+  }]))
+  const { error } = await db
+    .from('token_price_history')
+    .upsert(Array.from(rows.values()), { onConflict: 'mint,bucket_time' })
+
+  if (error) {
+    console.warn('Could not cache prices:', error.message)
+  }
+}
+
+/**
+ * Bin step and token mints of a DLMM pool (fixed when the pool is created, so cached for good)
+ */
+async function getPool(poolAddress: string): Promise<PoolInfo | null> {
+  if (pools.has(poolAddress)) return pools.get(poolAddress)!
+
+  let pool: PoolInfo | null = null
+  try {
+    const connection = new Connection(getServerRpcUrl(), 'confirmed')
+    const account = await connection.getAccountInfo(new PublicKey(poolAddress))
+    if (account && account.owner.toBase58() === METEORA_DLMM_PROGRAM && account.data.length >= LB_PAIR_TOKEN_Y_MINT_OFFSET + 32) {
+      pool = {
+        binStep: account.data.readUInt16LE(LB_PAIR_BIN_STEP_OFFSET),
+        mintX: new PublicKey(account.data.subarray(LB_PAIR_TOKEN_X_MINT_OFFSET, LB_PAIR_TOKEN_X_MINT_OFFSET + 32)).toBase58(),
+        mintY: new PublicKey(account.data.subarray(LB_PAIR_TOKEN_Y_MINT_OFFSET, LB_PAIR_TOKEN_Y_MINT_OFFSET + 32)).toBase58()
+      }
+    }
+  } catch (error: any) {
+    console.warn(`Could not read pool ${poolAddress}: ${error.message}`)
+    // Not cached, so an unreachable RPC is retried next time
+    return null
+  }
+
+  pools.set(poolAddress, pool)
+  return pool
+}
@@ -0,0 +1,54 @@
+import { describe, expect, it } from 'vitest'
+import { getNextCronDate, parseCron } from './cron'
+
+describe('parseCron', () => {
+  it('expands lists, ranges and steps', () => {
+    const cron = parseCron('*/15 9-17/4 1,15 * *')
+
+    expect([...cron.minutes]).toEqual([0, 15, 30, 45])
+    expect([...cron.hours]).toEqual([9, 13, 17])
+    expect([...cron.daysOfMonth]).toEqual([1, 15])
+    expect(cron.months.size).toBe(12)
+    expect(cron.dayOfMonthRestricted).toBe(true)
+    expect(cron.dayOfWeekRestricted).toBe(false)
+  })
+
+  it('treats 7 as Sunday, including inside ranges', () => {
+    expect([...parseCron('0 0 * * 7').daysOfWeek]).toEqual([0])
+    expect([...parseCron('0 0 * * 1-7').daysOfWeek].sort()).toEqual([0, 1, 2, 3, 4, 5, 6])
+    expect([...parseCron('0 0 * * 5-7').daysOfWeek].sort()).toEqual([0, 5, 6])
+    expect([...parseCron('0 0 * * *').daysOfWeek].sort()).toEqual([0, 1, 2, 3, 4, 5, 6])
+  })
+
+  it('rejects malformed expressions', () => {
+    expect(() => parseCron('* * * *')).toThrow('5 fields')
+    expect(() => parseCron('60 * * * *')).toThrow('allowed 0-59')
+    expect(() => parseCron('* * * * 8')).toThrow('allowed 0-7')
+    expect(() => parseCron('5-1 * * * *')).toThrow('Invalid cron value')
+    expect(() => parseCron('*/0 * * * *')).toThrow('Invalid cron step')
+  })
+})
+
+describe('getNextCronDate', () => {
+  // Wednesday
+  const after = new Date('2026-10-14T10:30:00Z')
+
+  it('returns the next matching minute in UTC', () => {
+    expect(getNextCronDate('*/15 * * * *', after).toISOString()).toBe('2026-10-14T10:45:00.000Z')
+    expect(getNextCronDate('0 9 * * *', after).toISOString()).toBe('2026-10-15T09:00:00.000Z')
+  })
+
+  it('runs Sunday schedules written as 7', () => {
+    expect(getNextCronDate('0 12 * * 7', after).toISOString()).toBe('2026-10-18T12:00:00.000Z')
+    expect(getNextCronDate('0 12 * * 6-7', after).toISOString()).toBe('2026-10-17T12:00:00.000Z')
+  })
+
+  it('matches either day field when both are restricted', () => {
+    // The 20th (Tuesday) or any Friday
+    expect(getNextCronDate('0 0 20 * 5', after).toISOString()).toBe('2026-10-16T00:00:00.000Z')
+  })
+
+  it('finds leap day schedules', () => {
+    expect(getNextCronDate('0 0 29 2 *', after).toISOString()).toBe('2028-02-29T00:00:00.000Z')
+  })
+})
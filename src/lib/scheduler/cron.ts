@@ -0,0 +1,141 @@
+/**
+ * Cron Expressions
+ * Minimal 5-field cron parser (minute hour day-of-month month day-of-week, UTC)
+ * Supports *, numbers, lists (1,2), ranges (1-5) and steps (*\/15, 1-10/2)
+ */
+
+interface CronField {
+  min: number
+  max: number
+}
+
+const FIELDS: CronField[] = [
+  { min: 0, max: 59 }, // minute
+  { min: 0, max: 23 }, // hour
+  { min: 1, max: 31 }, // day of month
+  { min: 1, max: 12 }, // month
+  { min: 0, max: 7 }   // day of week (0 and 7 = Sunday)
+]
+
+export interface ParsedCron {
+  minutes: Set<number>
+  hours: Set<number>
+  daysOfMonth: Set<number>
+  months: Set<number>
+  daysOfWeek: Set<number>
+  // Standard cron: when both day fields are restricted, either may match
+  dayOfMonthRestricted: boolean
+  dayOfWeekRestricted: boolean
+}
+
+function parseField(expr: string, field: CronField): Set<number> {
+  const values = new Set<number>()
+
+  for (const part of expr.split(',')) {
+    const [rangeExpr, stepExpr] = part.split('/')
+    const step = stepExpr !== undefined ? parseInt(stepExpr, 10) : 1
+
+    if (!Number.isInteger(step) || step < 1) {
+      throw new Error(`Invalid cron step "${part}"`)
+    }
+
+    let start: number
+    let end: number
+
+    if (rangeExpr === '*') {
+      start = field.min
+      end = field.max
+    } else if (rangeExpr.includes('-')) {
+      const [a, b] = rangeExpr.split('-').map(v => parseInt(v, 10))
+      start = a
+      end = b
+    } else {
+      start = parseInt(rangeExpr, 10)
+      end = stepExpr !== undefined ? field.max : start
+    }
+
+    if (!Number.isInteger(start) || !Number.isInteger(end) || start < field.min || end > field.max || start > end) {
+      throw new Error(`Invalid cron value "${part}" (allowed ${field.min}-${field.max})`)
+    }
+
+    for (let v = start; v <= end; v += step) {
+      values.add(v)
+    }
+  }
+
+  return values
+}
+
+/**
+ * Parse a 5-field cron expression
+ */
+export function parseCron(expression: string): ParsedCron {
+  const parts = expression.trim().split(/\s+/)
+  if (parts.length !== 5) {
+    throw new Error(`Cron expression must have 5 fields, got ${parts.length}: "${expression}"`)
+  }
+
+  // Accept 7 as Sunday like most cron implementations (after parsing, so ranges like 5-7 still work)
+  const daysOfWeek = new Set([...parseField(parts[4], FIELDS[4])].map(day => day % 7))
+
+  return {
+    minutes: parseField(parts[0], FIELDS[0]),
+    hours: parseField(parts[1], FIELDS[1]),
+    daysOfMonth: parseField(parts[2], FIELDS[2]),
+    months: parseField(parts[3], FIELDS[3]),
+    daysOfWeek,
+    dayOfMonthRestricted: parts[2] !== '*',
+    dayOfWeekRestricted: parts[4] !== '*'
+  }
+}
+
+function matchesDay(cron: ParsedCron, date: Date): boolean {
+  const domMatch = cron.daysOfMonth.has(date.getUTCDate())
+  const dowMatch = cron.daysOfWeek.has(date.getUTCDay())
+
+  if (cron.dayOfMonthRestricted && cron.dayOfWeekRestricted) {
+    return domMatch || dowMatch
+  }
+  return domMatch && dowMatch
+}
+
+/**
+ * Next time (strictly after `after`) matching the expression, in UTC
+ */
+export function getNextCronDate(expression: string, after: Date = new Date()): Date {
+  const cron = parseCron(expression)
+  const next = new Date(after.getTime())
+  next.setUTCSeconds(0, 0)
+  next.setUTCMinutes(next.getUTCMinutes() + 1)
+
+  // Search up to ~4 years ahead (covers Feb 29 schedules)
+  const limit = after.getTime() + 4 * 366 * 24 * 60 * 60 * 1000
+
+  while (next.getTime() <= limit) {
+    if (!cron.months.has(next.getUTCMonth() + 1)) {
+      next.setUTCMonth(next.getUTCMonth() + 1, 1)
+      next.setUTCHours(0, 0, 0, 0)
+      continue
+    }
+
+    if (!matchesDay(cron, next)) {
+      next.setUTCDate(next.getUTCDate() + 1)
+      next.setUTCHours(0, 0, 0, 0)
+      continue
+    }
+
+    if (!cron.hours.has(next.getUTCHours())) {
+      next.setUTCHours(next.getUTCHours() + 1, 0, 0, 0)
+      continue
+    }
+
+    if (!cron.minutes.has(next.getUTCMinutes())) {
+      next.setUTCMinutes(next.getUTCMinutes() + 1, 0, 0)
+      continue
+    }
+
+    return next
+  }
+
+  throw new Error(`Cron expression "${expression}" has no upcoming run`)
+}
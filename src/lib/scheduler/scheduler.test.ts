@@ -0,0 +1,123 @@
+import { describe, expect, it, vi } from 'vitest'
+import type { SupabaseClient } from '@supabase/supabase-js'
+import type { AutomationConfig, PositionInfo, RuleEvaluationResult } from '@/lib/automation/types'
+
+// Scheduled runs have no user session: anything reaching the anon client would read nothing under RLS
+vi.mock('@/lib/supabase', () => ({
+  supabase: {
+    from: (table: string) => {
+      throw new Error(`anon client used for ${table}`)
+    }
+  }
+}))
+
+const position = { position_nft_address: 'position-1', position_address: 'position-account-1' } as PositionInfo
+
+vi.mock('@/lib/automation/position-fetcher', () => ({
+  PositionFetcher: class {
+    async getActivePositions() {
+      return [position]
+    }
+  }
+}))
+
+vi.mock('@/lib/automation/rules', () => ({
+  RulesEvaluator: class {
+    async evaluateRules(): Promise<RuleEvaluationResult[]> {
+      return [{
+        shouldExecute: true,
+        actionType: 'claim_fees',
+        reason: 'Unclaimed fees above threshold',
+        estimatedCostUSD: 0.01,
+        requiresApproval: false,
+        positionNftAddress: 'position-1',
+        positionAddress: 'position-account-1'
+      }]
+    }
+  }
+}))
+
+vi.mock('@/lib/automation/safety-checks', () => ({
+  SafetyChecker: class {
+    async checkAction() {
+      return { allowed: true }
+    }
+  }
+}))
+
+const { AutomationScheduler } = await import('./scheduler')
+
+const config = {
+  id: 'config-1',
+  user_id: 'user-1',
+  wallet_address: 'wallet-1',
+  is_active: true,
+  last_run_at: null,
+  require_manual_approval: false,
+  approval_threshold_usd: 10,
+  total_budget_usd: 100,
+  spent_usd: 0,
+  max_daily_spend_usd: 10,
+  budget_timezone: 'UTC',
+  sub_budgets: [],
+  max_actions_per_cycle: 0,
+  action_priorities: {},
+  breaker_window_hours: 24,
+  breaker_max_consecutive_failures: 3,
+  breaker_failure_rate_percent: 50,
+  breaker_cooldown_hours: 6
+} as unknown as AutomationConfig
+
+// Service-role client stub: selects return the table's rows, writes are recorded
+function makeServiceRoleClient() {
+  const rows: Record<string, unknown[]> = { automation_configs: [config] }
+  const inserts: Array<{ table: string; row: Record<string, unknown> }> = []
+  const updates: Array<{ table: string; row: Record<string, unknown> }> = []
+
+  const from = (table: string) => {
+    let written: Record<string, unknown> | null = null
+    const chain: Record<string, unknown> = {
+      insert: (row: Record<string, unknown>) => {
+        written = { id: `${table}-${inserts.length + 1}`, ...row }
+        inserts.push({ table, row })
+        return chain
+      },
+      update: (row: Record<string, unknown>) => {
+        written = row
+        updates.push({ table, row })
+        return chain
+      },
+      single: async () => ({ data: written || rows[table]?.[0] || null, error: null }),
+      maybeSingle: async () => ({ data: written || rows[table]?.[0] || null, error: null }),
+      then: (resolve: (value: { data: unknown; error: null }) => unknown) =>
+        resolve({ data: written ? [written] : rows[table] || [], error: null })
+    }
+    for (const method of ['select', 'eq', 'neq', 'in', 'is', 'not', 'or', 'gt', 'gte', 'lt', 'lte', 'order', 'limit']) {
+      chain[method] = () => chain
+    }
+    return chain
+  }
+
+  return { client: { from } as unknown as SupabaseClient, inserts, updates }
+}
+
+describe('AutomationScheduler', () => {
+  it('runs due configs through the service-role client, writing the log and last_run_at', async () => {
+    const { client, inserts, updates } = makeServiceRoleClient()
+
+    const result = await new AutomationScheduler('worker-1', client).tick(new Date('2026-10-19T12:00:00Z'))
+
+    expect(result.errors).toEqual([])
+    expect(result.configsRun).toBe(1)
+
+    const logs = inserts.filter(insert => insert.table === 'automation_logs')
+    expect(logs).toHaveLength(1)
+    expect(logs[0].row).toMatchObject({
+      config_id: 'config-1',
+      action_type: 'claim_fees',
+      status: 'pending',
+      triggered_by: 'scheduled'
+    })
+    expect(updates.some(update => update.table === 'automation_configs' && 'last_run_at' in update.row)).toBe(true)
+  })
+})
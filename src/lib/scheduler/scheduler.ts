@@ -0,0 +1,387 @@
+/**
+ * Automation Scheduler
+ * Picks up due farming_schedules and active automation_configs and runs them,
+ * then expires overdue approvals and sends approval reminders
+ * Runs as a single tick (cron endpoint) or as a long-lived worker loop
+ */
+
+import { SupabaseClient } from '@supabase/supabase-js'
+import { getServiceRoleClient } from '@/lib/supabase-admin'
+import { AutomationEngine } from '@/lib/automation/engine'
+import { AutomationConfig } from '@/lib/automation/types'
+import { ApprovalLifecycle } from '@/lib/automation/approval-lifecycle'
+import { getNextCronDate } from './cron'
+import {
+  FarmingSchedule,
+  SchedulerRunStatus,
+  SchedulerRunType,
+  SchedulerTickResult
+} from './types'
+
+// Active configs are run this often even without a farming schedule
+export const AUTOMATION_RUN_INTERVAL_MINUTES = 5
+
+// A crashed worker's lock is released after this long
+const LOCK_TTL_MS = 10 * 60 * 1000
+
+// Activity types the automation engine can execute (Meteora DLMM liquidity)
+const AUTOMATABLE_ACTIVITY_TYPES = ['lp']
+
+// Supabase query errors are plain objects with a message, not Error instances
+function errorMessage(error: unknown): string {
+  return error && typeof error === 'object' && 'message' in error ? String(error.message) : String(error)
+}
+
+/**
+ * Compute the next execution time for a schedule, strictly after `now`
+ */
+export function computeNextExecution(schedule: Pick<FarmingSchedule, 'frequency' | 'cron_expression' | 'next_execution'>, now: Date = new Date()): Date {
+  if (schedule.frequency === 'custom') {
+    if (!schedule.cron_expression) {
+      throw new Error('Custom schedule is missing a cron_expression')
+    }
+    return getNextCronDate(schedule.cron_expression, now)
+  }
+
+  const stepMs = (schedule.frequency === 'weekly' ? 7 : 1) * 24 * 60 * 60 * 1000
+
+  // Keep the schedule's time of day; skip periods missed while no worker was running
+  let next = schedule.next_execution ? new Date(schedule.next_execution).getTime() : now.getTime()
+  do {
+    next += stepMs
+  } while (next <= now.getTime())
+
+  return new Date(next)
+}
+
+export class AutomationScheduler {
+  private workerId: string
+  private db: SupabaseClient
+
+  // Ticks read and lock every user's schedules and configs, so there is no user session to run under
+  constructor(workerId?: string, db?: SupabaseClient) {
+    this.workerId = workerId || `scheduler-${process.pid}-${Math.random().toString(36).slice(2, 8)}`
+    const client = db || getServiceRoleClient()
+    if (!client) {
+      throw new Error('SUPABASE_SERVICE_ROLE_KEY must be set to run the scheduler')
+    }
+    this.db = client
+  }
+
+  /**
+   * Run everything that is due once
+   */
+  async tick(now: Date = new Date()): Promise<SchedulerTickResult> {
+    const startedAt = new Date().toISOString()
+    const result: SchedulerTickResult = {
+      workerId: this.workerId,
+      startedAt,
+      finishedAt: startedAt,
+      schedulesRun: 0,
+      configsRun: 0,
+      skipped: 0,
+      approvalsExpired: 0,
+      approvalRemindersSent: 0,
+      errors: []
+    }
+
+    try {
+      await this.runDueSchedules(now, result)
+    } catch (error) {
+      result.errors.push(`Error running farming schedules: ${errorMessage(error)}`)
+    }
+
+    try {
+      await this.runDueConfigs(now, result)
+    } catch (error) {
+      result.errors.push(`Error running automation configs: ${errorMessage(error)}`)
+    }
+
+    const approvals = await new ApprovalLifecycle(() => now.getTime(), this.db).run()
+    result.approvalsExpired = approvals.expired
+    result.approvalRemindersSent = approvals.remindersSent
+    result.errors.push(...approvals.errors)
+
+    result.finishedAt = new Date().toISOString()
+    return result
+  }
+
+  /**
+   * Run ticks until the signal is aborted
+   */
+  async start(options: { intervalMs?: number; signal?: AbortSignal } = {}): Promise<void> {
+    const intervalMs = options.intervalMs ?? 60 * 1000
+    const { signal } = options
+
+    console.log(`⏱️ Scheduler ${this.workerId} started (every ${Math.round(intervalMs / 1000)}s)`)
+
+    while (!signal?.aborted) {
+      try {
+        const tick = await this.tick()
+        if (tick.errors.length > 0) {
+          console.error(`Scheduler tick finished with errors:`, tick.errors)
+        }
+      } catch (error) {
+        console.error('Scheduler tick failed:', error)
+      }
+
+      await new Promise<void>(resolve => {
+        const timer = setTimeout(resolve, intervalMs)
+        signal?.addEventListener('abort', () => {
+          clearTimeout(timer)
+          resolve()
+        }, { once: true })
+      })
+    }
+
+    console.log(`⏱️ Scheduler ${this.workerId} stopped`)
+  }
+
+  /**
+   * Farming schedules whose next_execution has passed
+   */
+  private async runDueSchedules(now: Date, result: SchedulerTickResult): Promise<void> {
+    const { data: schedules, error } = await this.db
+      .from('farming_schedules')
+      .select('*, tracked_wallets(wallet_address), farming_activities(activity_type, name)')
+      .eq('is_active', true)
+      .lte('next_execution', now.toISOString())
+      .order('next_execution', { ascending: true })
+
+    if (error) throw error
+
+    for (const row of schedules || []) {
+      const schedule = row as FarmingSchedule & {
+        tracked_wallets: { wallet_address: string } | null
+        farming_activities: { activity_type: string; name: string } | null
+      }
+
+      // Claim the schedule by advancing next_execution; another worker may win the race
+      const claimed = await this.claimSchedule(schedule, now)
+      if (!claimed) continue
+
+      const walletAddress = schedule.tracked_wallets?.wallet_address
+      const activityType = schedule.farming_activities?.activity_type
+
+      if (!walletAddress || !activityType || !AUTOMATABLE_ACTIVITY_TYPES.includes(activityType)) {
+        await this.recordSkipped('farming_schedule', schedule.user_id, schedule.id, null,
+          `No automation available for activity type '${activityType || 'unknown'}'`)
+        result.skipped++
+        continue
+      }
+
+      const { data: config } = await this.db
+        .from('automation_configs')
+        .select('*')
+        .eq('user_id', schedule.user_id)
+        .eq('wallet_address', walletAddress)
+        .maybeSingle()
+
+      if (!config || !config.is_active) {
+        await this.recordSkipped('farming_schedule', schedule.user_id, schedule.id, config?.id || null,
+          'No active automation config for wallet')
+        result.skipped++
+        continue
+      }
+
+      const ran = await this.runConfig(config as AutomationConfig, 'farming_schedule', schedule.id, result)
+      if (ran) result.schedulesRun++
+    }
+  }
+
+  /**
+   * Active automation configs not run within the run interval
+   */
+  private async runDueConfigs(now: Date, result: SchedulerTickResult): Promise<void> {
+    const dueBefore = new Date(now.getTime() - AUTOMATION_RUN_INTERVAL_MINUTES * 60 * 1000).toISOString()
+
+    const { data: configs, error } = await this.db
+      .from('automation_configs')
+      .select('*')
+      .eq('is_active', true)
+      .or(`last_run_at.is.null,last_run_at.lte.${dueBefore}`)
+
+    if (error) throw error
+
+    for (const config of (configs || []) as AutomationConfig[]) {
+      const ran = await this.runConfig(config, 'automation_config', null, result)
+      if (ran) result.configsRun++
+    }
+  }
+
+  /**
+   * Advance a schedule past now, only if no other worker has done so already
+   */
+  private async claimSchedule(schedule: FarmingSchedule, now: Date): Promise<boolean> {
+    let nextExecution: string | null
+    let isActive = true
+
+    try {
+      nextExecution = computeNextExecution(schedule, now).toISOString()
+    } catch (error) {
+      // Unschedulable (e.g. bad cron): deactivate instead of retrying every tick
+      nextExecution = null
+      isActive = false
+      await this.recordRun('farming_schedule', schedule.user_id, schedule.id, null, 'failed', {}, errorMessage(error))
+    }
+
+    const { data } = await this.db
+      .from('farming_schedules')
+      .update({
+        next_execution: nextExecution,
+        last_execution: now.toISOString(),
+        is_active: isActive,
+        updated_at: now.toISOString()
+      })
+      .eq('id', schedule.id)
+      .eq('next_execution', schedule.next_execution)
+      .select('id')
+
+    return isActive && !!data && data.length > 0
+  }
+
+  /**
+   * Run one automation cycle for a config under its lock
+   * Returns false when another worker holds the lock
+   */
+  private async runConfig(
+    config: AutomationConfig,
+    runType: SchedulerRunType,
+    scheduleId: string | null,
+    result: SchedulerTickResult
+  ): Promise<boolean> {
+    const locked = await this.acquireLock(config.id)
+    if (!locked) {
+      result.skipped++
+      return false
+    }
+
+    const runId = await this.recordRun(runType, config.user_id, scheduleId, config.id, 'running')
+
+    try {
+      const engine = new AutomationEngine(config, this.db)
+      const runResult = await engine.run({ triggeredBy: 'scheduled' })
+
+      await this.finishRun(runId, runResult.success ? 'success' : 'failed', {
+        actionsExecuted: runResult.actionsExecuted,
+        actionsPendingApproval: runResult.actionsPendingApproval,
+        droppedResults: runResult.droppedResults.map(d => ({
+          actionType: d.ruleResult.actionType,
+          positionNftAddress: d.ruleResult.positionNftAddress || null,
+          ruleName: d.ruleResult.ruleName || null,
+          reason: d.reason
+        })),
+        errors: runResult.errors
+      }, runResult.success ? null : runResult.errors.join('; '))
+
+      result.errors.push(...runResult.errors
+        .filter(e => e !== 'Automation is not active')
+        .map(e => `Config ${config.id}: ${e}`))
+      return true
+    } catch (error) {
+      await this.finishRun(runId, 'failed', {}, errorMessage(error))
+      result.errors.push(`Config ${config.id}: ${errorMessage(error)}`)
+      return true
+    } finally {
+      await this.releaseLock(config.id)
+    }
+  }
+
+  /**
+   * Take the per-config lock (expired locks can be taken over)
+   */
+  private async acquireLock(configId: string): Promise<boolean> {
+    const now = new Date()
+    const { data, error } = await this.db
+      .from('automation_configs')
+      .update({
+        locked_by: this.workerId,
+        locked_until: new Date(now.getTime() + LOCK_TTL_MS).toISOString()
+      })
+      .eq('id', configId)
+      .or(`locked_until.is.null,locked_until.lt.${now.toISOString()}`)
+      .select('id')
+
+    if (error) {
+      console.error(`Error acquiring lock for config ${configId}:`, error)
+      return false
+    }
+
+    return !!data && data.length > 0
+  }
+
+  private async releaseLock(configId: string): Promise<void> {
+    await this.db
+      .from('automation_configs')
+      .update({ locked_by: null, locked_until: null })
+      .eq('id', configId)
+      .eq('locked_by', this.workerId)
+  }
+
+  private async recordSkipped(
+    runType: SchedulerRunType,
+    userId: string,
+    scheduleId: string | null,
+    configId: string | null,
+    reason: string
+  ): Promise<void> {
+    await this.recordRun(runType, userId, scheduleId, configId, 'skipped', { reason })
+  }
+
+  /**
+   * Insert a run history row, returns its id
+   */
+  private async recordRun(
+    runType: SchedulerRunType,
+    userId: string | null,
+    scheduleId: string | null,
+    configId: string | null,
+    status: SchedulerRunStatus,
+    resultData: Record<string, unknown> = {},
+    errorMessage: string | null = null
+  ): Promise<string | null> {
+    const now = new Date().toISOString()
+    const { data, error } = await this.db
+      .from('scheduler_runs')
+      .insert({
+        user_id: userId,
+        run_type: runType,
+        schedule_id: scheduleId,
+        config_id: configId,
+        status,
+        worker_id: this.workerId,
+        result: resultData,
+        error_message: errorMessage,
+        started_at: now,
+        finished_at: status === 'running' ? null : now
+      })
+      .select('id')
+      .single()
+
+    if (error) {
+      console.error('Error recording scheduler run:', error)
+      return null
+    }
+
+    return data.id
+  }
+
+  private async finishRun(
+    runId: string | null,
+    status: SchedulerRunStatus,
+    resultData: Record<string, unknown>,
+    errorMessage: string | null
+  ): Promise<void> {
+    if (!runId) return
+
+    await this.db
+      .from('scheduler_runs')
+      .update({
+        status,
+        result: resultData,
+        error_message: errorMessage,
+        finished_at: new Date().toISOString()
+      })
+      .eq('id', runId)
+  }
+}
@@ -0,0 +1,51 @@
+/**
+ * Scheduler Types
+ * Type definitions for farming schedules and scheduled automation runs
+ */
+
+export type ScheduleFrequency = 'daily' | 'weekly' | 'custom'
+
+export type SchedulerRunType = 'farming_schedule' | 'automation_config'
+
+export type SchedulerRunStatus = 'running' | 'success' | 'failed' | 'skipped'
+
+export interface FarmingSchedule {
+  id: string
+  user_id: string
+  wallet_id: string
+  activity_id: string
+  frequency: ScheduleFrequency
+  cron_expression: string | null
+  next_execution: string | null
+  last_execution: string | null
+  is_active: boolean
+  automation_params: Record<string, unknown> | null
+  created_at: string
+  updated_at: string
+}
+
+export interface SchedulerRun {
+  id: string
+  user_id: string | null
+  run_type: SchedulerRunType
+  schedule_id: string | null
+  config_id: string | null
+  status: SchedulerRunStatus
+  worker_id: string
+  result: Record<string, unknown>
+  error_message: string | null
+  started_at: string
+  finished_at: string | null
+}
+
+export interface SchedulerTickResult {
+  workerId: string
+  startedAt: string
+  finishedAt: string
+  schedulesRun: number
+  configsRun: number
+  skipped: number
+  approvalsExpired: number
+  approvalRemindersSent: number
+  errors: string[]
+}
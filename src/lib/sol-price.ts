@@ -0,0 +1,43 @@
+/**
+ * SOL Price
+ * Current SOL/USD price from CoinGecko, cached briefly and shared by pages and automation
+ */
+
+// Used until the first successful fetch, or when CoinGecko is unreachable
+export const FALLBACK_SOL_PRICE_USD = 190
+
+const PRICE_URL = 'https://api.coingecko.com/api/v3/simple/price?ids=solana&vs_currencies=usd'
+const CACHE_TTL_MS = 60 * 1000
+
+let cached: { price: number; fetchedAt: number } | null = null
+
+/**
+ * Fetch the current SOL price, or null if it could not be fetched
+ */
+export async function fetchSolPriceUSD(): Promise<number | null> {
+  if (cached && Date.now() - cached.fetchedAt < CACHE_TTL_MS) {
+    return cached.price
+  }
+
+  try {
+    const response = await fetch(PRICE_URL)
+    if (response.ok) {
+      const data = await response.json()
+      if (data.solana?.usd) {
+        cached = { price: data.solana.usd, fetchedAt: Date.now() }
+        return cached.price
+      }
+    }
+  } catch (error) {
+    console.warn('Failed to fetch SOL price:', error)
+  }
+
+  return null
+}
+
+/**
+ * Current SOL price, falling back to the last known price and then FALLBACK_SOL_PRICE_USD
+ */
+export async function getSolPriceUSD(): Promise<number> {
+  return (await fetchSolPriceUSD()) ?? cached?.price ?? FALLBACK_SOL_PRICE_USD
+}
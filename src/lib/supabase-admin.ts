@@ -0,0 +1,29 @@
+/**
+ * Supabase Service-Role Client
+ * Server-side client for background jobs and shared caches that have no user session
+ * SECURITY: The service role key bypasses row level security - never import this from client components
+ */
+
+import { createClient, SupabaseClient } from '@supabase/supabase-js'
+import { getEnvVar } from '@/lib/env-config'
+
+let client: SupabaseClient | null = null
+
+/**
+ * Service-role client, or null when SUPABASE_SERVICE_ROLE_KEY is not set
+ */
+export function getServiceRoleClient(): SupabaseClient | null {
+  if (client) return client
+
+  const serviceRoleKey = getEnvVar('SUPABASE_SERVICE_ROLE_KEY')
+  if (!serviceRoleKey) return null
+
+  const supabaseUrl = getEnvVar('NEXT_PUBLIC_SUPABASE_URL', 'https://mcakqykdtxlythsutgpx.supabase.co')
+  client = createClient(supabaseUrl, serviceRoleKey, {
+    auth: {
+      autoRefreshToken: false,
+      persistSession: false
+    }
+  })
+  return client
+}
@@ -0,0 +1,291 @@
+/**
+ * Token Registry
+ * Resolves a mint to its symbol, name, decimals and metadata uri from on-chain mint data and
+ * Token-2022 / Metaplex metadata, cached in memory and in the token_metadata table,
+ * with the bundled seed list as a fallback
+ * Off-chain metadata is never fetched here: clients read logos from the uri themselves
+ */
+
+import { Connection, PublicKey } from '@solana/web3.js'
+import { supabase } from '@/lib/supabase'
+import { getServiceRoleClient } from '@/lib/supabase-admin'
+import { getServerRpcUrl } from '@/lib/env-config'
+import { TOKEN_SEED_LIST } from '@/lib/token-seed-list'
+
+const TOKEN_PROGRAM = 'TokenkegQfeZyiNwAJbNbGKPFXCWuBvf9Ss623VQ5DA'
+const TOKEN_2022_PROGRAM = 'TokenzQdBNbLqP5VEhdkAS6EPFLC1PVnBxXxjhs4dVQkFqd'
+const METADATA_PROGRAM = 'metaqbxxUerdq28cj1RbAWkYQm3ybzjb6a8bt518x1s'
+
+// Mint layout: mint authority (36) | supply (8) | decimals (1) | ...
+const MINT_DECIMALS_OFFSET = 44
+const MINT_SIZE = 82
+// Token-2022 extensions follow the 165-byte account base and a 1-byte account type
+const TOKEN_2022_EXTENSIONS_OFFSET = 166
+const TOKEN_METADATA_EXTENSION = 19
+// Metaplex metadata: key (1) | update authority (32) | mint (32) | name | symbol | uri
+const METAPLEX_NAME_OFFSET = 65
+
+// getMultipleAccountsInfo takes up to 100 keys: a mint and its Metaplex account each
+const MINTS_PER_REQUEST = 50
+const CACHE_TTL_MS = 7 * 24 * 60 * 60 * 1000
+
+export type TokenMetadataSource = 'token-2022' | 'metaplex' | 'mint' | 'seed'
+
+export interface TokenMetadata {
+  mint: string
+  symbol: string
+  name: string
+  decimals: number
+  // Logo of seed list tokens; for others, the image in the off-chain metadata at uri
+  logoURI: string | null
+  // Off-chain metadata JSON the on-chain metadata points to
+  uri: string | null
+  // Where symbol and name came from ('mint' when the mint has no metadata; names then come from the seed list)
+  source: TokenMetadataSource
+}
+
+interface OnChainMetadata {
+  name: string
+  symbol: string
+  uri: string
+}
+
+const SEED = new Map(TOKEN_SEED_LIST.map(token => [token.mint, token]))
+const cache = new Map<string, { token: TokenMetadata; fetchedAt: number }>()
+
+/**
+ * Short form of a mint for display when its symbol is unknown
+ */
+export function shortMint(mint: string): string {
+  return mint.length > 8 ? `${mint.slice(0, 4)}…${mint.slice(-4)}` : mint
+}
+
+/**
+ * Metadata already known without a lookup (cached or in the seed list)
+ */
+export function getKnownToken(mint: string): TokenMetadata | null {
+  const cached = cache.get(mint)
+  if (cached) return cached.token
+
+  const seed = SEED.get(mint)
+  return seed ? { ...seed, uri: null, source: 'seed' } : null
+}
+
+/**
+ * Symbol of a mint from known metadata, or its short form
+ */
+export function getTokenSymbol(mint: string): string {
+  return getKnownToken(mint)?.symbol || shortMint(mint)
+}
+
+/**
+ * Resolve metadata for several mints; mints that are not token mints are left out
+ */
+export async function resolveTokens(mints: string[], connection?: Connection): Promise<Record<string, TokenMetadata>> {
+  const resolved: Record<string, TokenMetadata> = {}
+  const now = Date.now()
+
+  let pending = Array.from(new Set(mints.filter(Boolean))).filter(mint => {
+    const cached = cache.get(mint)
+    if (cached && now - cached.fetchedAt < CACHE_TTL_MS) {
+      resolved[mint] = cached.token
+      return false
+    }
+    return true
+  })
+  if (pending.length === 0) return resolved
+
+  const stored = await loadStored(pending)
+  pending = pending.filter(mint => {
+    const row = stored.get(mint)
+    if (!row || now - row.fetchedAt >= CACHE_TTL_MS) return true
+    cache.set(mint, row)
+    resolved[mint] = row.token
+    return false
+  })
+  if (pending.length === 0) return resolved
+
+  let fetched: TokenMetadata[] = []
+  try {
+    fetched = await fetchOnChain(pending, connection || new Connection(getServerRpcUrl(), 'confirmed'))
+  } catch (error: any) {
+    console.warn(`Could not read token metadata on chain: ${error.message}`)
+  }
+
+  for (const token of fetched) {
+    cache.set(token.mint, { token, fetchedAt: now })
+    resolved[token.mint] = token
+  }
+  await saveStored(fetched)
+
+  // Unreachable RPC or accounts that are gone: stale rows, then the seed list
+  for (const mint of pending) {
+    if (resolved[mint]) continue
+    const fallback = stored.get(mint)?.token || getKnownToken(mint)
+    if (fallback) resolved[mint] = fallback
+  }
+
+  return resolved
+}
+
+/**
+ * Resolve metadata for one mint (null when it is not a token mint)
+ */
+export async function resolveToken(mint: string, connection?: Connection): Promise<TokenMetadata | null> {
+  return (await resolveTokens([mint], connection))[mint] || null
+}
+
+async function loadStored(mints: string[]): Promise<Map<string, { token: TokenMetadata; fetchedAt: number }>> {
+  const stored = new Map<string, { token: TokenMetadata; fetchedAt: number }>()
+
+  const { data, error } = await supabase
+    .from('token_metadata')
+    .select('*')
+    .in('mint', mints)
+
+  if (error) {
+    console.warn('Could not load cached token metadata:', error.message)
+    return stored
+  }
+
+  for (const row of data || []) {
+    stored.set(row.mint, {
+      token: {
+        mint: row.mint,
+        symbol: row.symbol,
+        name: row.name,
+        decimals: row.decimals,
+        logoURI: row.logo_uri,
+        uri: row.uri,
+        source: row.source
+      },
+      fetchedAt: new Date(row.updated_at).getTime()
+    })
+  }
+  return stored
+}
+
+// The table is written with the service role only; without the key, rows are resolved again after a restart
+async function saveStored(tokens: TokenMetadata[]): Promise<void> {
+  const db = getServiceRoleClient()
+  if (tokens.length === 0 || !db) return
+
+  const { error } = await db
+    .from('token_metadata')
+    .upsert(tokens.map(token => ({
+      mint: token.mint,
+      symbol: token.symbol,
+      name: token.name,
+      decimals: token.decimals,
+      logo_uri: token.logoURI,
+      uri: token.uri,
+      source: token.source,
+      updated_at: new Date().toISOString()
+    })), { onConflict: 'mint' })
+
+  if (error) {
+    console.warn('Could not cache token metadata:', error.message)
+  }
+}
+
+/**
+ * Read mints and their Metaplex metadata accounts; Token-2022 metadata lives in the mint itself
+ */
+async function fetchOnChain(mints: string[], connection: Connection): Promise<TokenMetadata[]> {
+  const valid = mints.filter(mint => {
+    try {
+      new PublicKey(mint)
+      return true
+    } catch {
+      return false
+    }
+  })
+
+  const tokens: TokenMetadata[] = []
+  for (let i = 0; i < valid.length; i += MINTS_PER_REQUEST) {
+    const chunk = valid.slice(i, i + MINTS_PER_REQUEST)
+    const keys = chunk.flatMap(mint => [new PublicKey(mint), getMetaplexAddress(new PublicKey(mint))])
+    const accounts = await connection.getMultipleAccountsInfo(keys)
+
+    for (let j = 0; j < chunk.length; j++) {
+      const mintAccount = accounts[j * 2]
+      const metaplexAccount = accounts[j * 2 + 1]
+      if (!mintAccount || mintAccount.data.length < MINT_SIZE) continue
+
+      const program = mintAccount.owner.toBase58()
+      if (program !== TOKEN_PROGRAM && program !== TOKEN_2022_PROGRAM) continue
+
+      const decimals = mintAccount.data[MINT_DECIMALS_OFFSET]
+      const token2022 = program === TOKEN_2022_PROGRAM ? decodeToken2022Metadata(mintAccount.data) : null
+      const metaplex = metaplexAccount && metaplexAccount.owner.toBase58() === METADATA_PROGRAM
+        ? decodeMetaplexMetadata(metaplexAccount.data)
+        : null
+
+      tokens.push(toTokenMetadata(chunk[j], decimals, token2022 ? 'token-2022' : metaplex ? 'metaplex' : 'mint', token2022 || metaplex))
+    }
+  }
+  return tokens
+}
+
+function toTokenMetadata(
+  mint: string,
+  decimals: number,
+  source: TokenMetadataSource,
+  metadata: OnChainMetadata | null
+): TokenMetadata {
+  const seed = SEED.get(mint)
+  return {
+    mint,
+    symbol: metadata?.symbol || seed?.symbol || shortMint(mint),
+    name: metadata?.name || seed?.name || shortMint(mint),
+    decimals,
+    logoURI: seed?.logoURI || null,
+    uri: metadata?.uri || null,
+    source
+  }
+}
+
+function getMetaplexAddress(mint: PublicKey): PublicKey {
+  const program = new PublicKey(METADATA_PROGRAM)
+  return PublicKey.findProgramAddressSync([Buffer.from('metadata'), program.toBuffer(), mint.toBuffer()], program)[0]
+}
+
+/**
+ * Borsh string (u32 length + UTF-8), with Metaplex's null padding removed
+ */
+function readString(data: Buffer, offset: number): { value: string; next: number } | null {
+  if (offset + 4 > data.length) return null
+  const length = data.readUInt32LE(offset)
+  if (offset + 4 + length > data.length) return null
+  return {
+    value: data.subarray(offset + 4, offset + 4 + length).toString('utf8').replace(/\0/g, '').trim(),
+    next: offset + 4 + length
+  }
+}
+
+function readNameSymbolUri(data: Buffer, offset: number): OnChainMetadata | null {
+  const name = readString(data, offset)
+  const symbol = name && readString(data, name.next)
+  const uri = symbol && readString(data, symbol.next)
+  return name && symbol && uri ? { name: name.value, symbol: symbol.value, uri: uri.value } : null
+}
+
+function decodeMetaplexMetadata(data: Buffer): OnChainMetadata | null {
+  return readNameSymbolUri(data, METAPLEX_NAME_OFFSET)
+}
+
+/**
+ * TokenMetadata extension of a Token-2022 mint: update authority (32) | mint (32) | name | symbol | uri | ...
+ */
+function decodeToken2022Metadata(data: Buffer): OnChainMetadata | null {
+  let offset = TOKEN_2022_EXTENSIONS_OFFSET
+  while (offset + 4 <= data.length) {
+    const type = data.readUInt16LE(offset)
+    const length = data.readUInt16LE(offset + 2)
+    if (type === TOKEN_METADATA_EXTENSION) {
+      return readNameSymbolUri(data.subarray(offset + 4, offset + 4 + length), 64)
+    }
+    offset += 4 + length
+  }
+  return null
+}
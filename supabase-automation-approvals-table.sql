@@ -8,9 +8,10 @@ CREATE TABLE IF NOT EXISTS automation_approvals (
   config_id UUID REFERENCES automation_configs(id) ON DELETE CASCADE,
   
   -- Action details
-  action_type TEXT NOT NULL CHECK (action_type IN ('open_position', 'rebalance', 'close_position')),
+  action_type TEXT NOT NULL CHECK (action_type IN ('open_position', 'claim_fees', 'compound', 'rebalance', 'close_position')),
   details JSONB NOT NULL,  -- Full action details (position address, amounts, etc.)
   estimated_cost_usd DECIMAL(12,2) NOT NULL,
+  message_hash TEXT,  -- Hash of the previewed transaction; execution requires a rebuild that matches it
   
   -- Status
   status TEXT DEFAULT 'pending' CHECK (status IN ('pending', 'approved', 'rejected', 'expired')),
@@ -0,0 +1,48 @@
+-- Table for automation circuit breaker trips
+-- A trip pauses a whole config, one action type or one position after repeated failures
+
+CREATE TABLE IF NOT EXISTS automation_circuit_breakers (
+  id UUID PRIMARY KEY DEFAULT uuid_generate_v4(),
+  user_id UUID REFERENCES auth.users(id) ON DELETE CASCADE,
+  config_id UUID REFERENCES automation_configs(id) ON DELETE CASCADE,
+  
+  -- What is paused
+  scope TEXT NOT NULL CHECK (scope IN ('config', 'action_type', 'position')),
+  scope_key TEXT NOT NULL DEFAULT '', -- '' for config, action type or position NFT address
+  
+  -- Why it tripped
+  reason TEXT NOT NULL,
+  consecutive_failures INTEGER NOT NULL DEFAULT 0,
+  failure_rate_percent DECIMAL(5,2) NOT NULL DEFAULT 0,
+  
+  -- Timestamps
+  tripped_at TIMESTAMPTZ DEFAULT NOW(),
+  resume_at TIMESTAMPTZ, -- NULL = paused until manually reset
+  reset_at TIMESTAMPTZ
+);
+
+-- Create indexes
+CREATE INDEX IF NOT EXISTS idx_automation_circuit_breakers_config ON automation_circuit_breakers(config_id, tripped_at DESC);
+
+-- Only one open trip per scope
+CREATE UNIQUE INDEX IF NOT EXISTS idx_automation_circuit_breakers_open
+  ON automation_circuit_breakers(config_id, scope, scope_key)
+  WHERE reset_at IS NULL;
+
+-- Enable RLS
+ALTER TABLE automation_circuit_breakers ENABLE ROW LEVEL SECURITY;
+
+-- Policy: Users can only see their own trips
+CREATE POLICY "Users can view own automation circuit breakers"
+  ON automation_circuit_breakers FOR SELECT
+  USING (auth.uid() = user_id);
+
+-- Policy: Engine trips and users reset their own breakers
+-- Note: In production, the scheduler should use the service role key
+CREATE POLICY "Users can insert own automation circuit breakers"
+  ON automation_circuit_breakers FOR INSERT
+  WITH CHECK (auth.uid() = user_id);
+
+CREATE POLICY "Users can update own automation circuit breakers"
+  ON automation_circuit_breakers FOR UPDATE
+  USING (auth.uid() = user_id);
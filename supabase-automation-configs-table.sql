@@ -17,22 +17,73 @@ CREATE TABLE IF NOT EXISTS automation_configs (
   claim_fee_threshold_usd DECIMAL(10,2) DEFAULT 5.00,
   claim_fee_interval_hours INTEGER DEFAULT 24,
   
+  -- Compounding: claim fees and add them back as liquidity (target NULL = same position)
+  auto_compound BOOLEAN DEFAULT false,
+  compound_threshold_usd DECIMAL(10,2) DEFAULT 10.00,
+  compound_interval_hours INTEGER DEFAULT 24,
+  compound_target_position TEXT,
+  
   auto_rebalance BOOLEAN DEFAULT true,
+  -- Rebalance when the active bin is within this % of the range width from an edge
   rebalance_threshold_percent DECIMAL(5,2) DEFAULT 20.00,
   rebalance_cooldown_hours INTEGER DEFAULT 6,
+  -- Scale the threshold by daily volatility; new range covers this many daily moves each side
+  rebalance_volatility_scaling BOOLEAN DEFAULT true,
+  rebalance_range_volatility_multiple DECIMAL(4,2) DEFAULT 2.00,
   
   auto_open_position BOOLEAN DEFAULT false,
   min_days_between_opens INTEGER DEFAULT 7,
+  -- Pool selection for auto-open (allowlist of mints/symbols, empty = any token)
+  pool_token_allowlist TEXT[] DEFAULT '{}',
+  pool_min_bin_step INTEGER DEFAULT 1,
+  pool_max_bin_step INTEGER DEFAULT 100,
+  -- Extra airdrop weight per token: { "JUP": 0.8, "<mint>": 1 }
+  pool_airdrop_weights JSONB DEFAULT '{}'::jsonb,
+  
+  -- Token risk checks before open/rebalance (lists hold mints or symbols; allowlisted
+  -- tokens skip the mint/freeze authority checks)
+  token_allowlist TEXT[] DEFAULT '{}',
+  token_denylist TEXT[] DEFAULT '{}',
+  min_pool_tvl_usd DECIMAL(14,2) DEFAULT 50000.00,
+  max_price_deviation_percent DECIMAL(5,2) DEFAULT 2.00,
+  
+  -- Stop-loss / take-profit (NULL = disabled)
+  auto_close_position BOOLEAN DEFAULT false,
+  stop_loss_percent DECIMAL(5,2),
+  stop_loss_usd DECIMAL(12,2),
+  take_profit_percent DECIMAL(7,2),
+  take_profit_usd DECIMAL(12,2),
   
   -- Safety Controls
   max_positions INTEGER DEFAULT 3,
+  -- Actions queued per run after conflict resolution (0 = no cap)
+  max_actions_per_cycle INTEGER DEFAULT 5,
+  -- Priority overrides per action type: { "claim_fees": 90 } (higher runs first)
+  action_priorities JSONB DEFAULT '{}'::jsonb,
   max_daily_spend_usd DECIMAL(12,2) DEFAULT 200.00,
+  weekly_spend_limit_usd DECIMAL(12,2), -- rolling 7 days, NULL = no limit
+  monthly_spend_limit_usd DECIMAL(12,2), -- rolling 30 days, NULL = no limit
+  budget_timezone TEXT NOT NULL DEFAULT 'UTC', -- daily limit resets at midnight here
+  -- Per-protocol / per-action limits: [{ name, protocol, action_type, window, limit_usd }]
+  sub_budgets JSONB NOT NULL DEFAULT '[]'::jsonb,
+  min_sol_reserve DECIMAL(12,9) DEFAULT 0.05, -- SOL kept for rent and fees, 0 = no reserve
   require_manual_approval BOOLEAN DEFAULT true,
   approval_threshold_usd DECIMAL(12,2) DEFAULT 100.00,
+  approval_reminder_hours DECIMAL(6,2) DEFAULT 2, -- reminder before an approval expires, NULL = none
+  
+  -- Circuit breaker (see supabase-automation-circuit-breakers-table.sql)
+  breaker_max_consecutive_failures INTEGER NOT NULL DEFAULT 3,
+  breaker_failure_rate_percent DECIMAL(5,2) NOT NULL DEFAULT 50.00,
+  breaker_window_hours INTEGER NOT NULL DEFAULT 24,
+  breaker_cooldown_hours INTEGER DEFAULT 6, -- NULL = manual reset only
   
   -- Status
   is_active BOOLEAN DEFAULT false,
   last_run_at TIMESTAMPTZ,
+  
+  -- Scheduler lock (one worker runs a config at a time)
+  locked_by TEXT,
+  locked_until TIMESTAMPTZ,
   created_at TIMESTAMPTZ DEFAULT NOW(),
   updated_at TIMESTAMPTZ DEFAULT NOW(),
   
@@ -7,7 +7,7 @@ CREATE TABLE IF NOT EXISTS automation_logs (
   config_id UUID REFERENCES automation_configs(id) ON DELETE CASCADE,
   
   -- Action details
-  action_type TEXT NOT NULL CHECK (action_type IN ('open_position', 'claim_fees', 'rebalance', 'close_position', 'monitor')),
+  action_type TEXT NOT NULL CHECK (action_type IN ('open_position', 'claim_fees', 'compound', 'rebalance', 'close_position', 'monitor')),
   status TEXT NOT NULL DEFAULT 'pending' CHECK (status IN ('pending', 'approved', 'executed', 'failed', 'rejected', 'cancelled')),
   
   -- Transaction details
@@ -19,6 +19,7 @@ CREATE TABLE IF NOT EXISTS automation_logs (
   -- Execution details
   triggered_by TEXT DEFAULT 'rule' CHECK (triggered_by IN ('rule', 'manual', 'scheduled')),
   rule_name TEXT,
+  protocol TEXT NOT NULL DEFAULT 'meteora',
   error_message TEXT,
   
   -- Budget impact
@@ -28,6 +29,14 @@ CREATE TABLE IF NOT EXISTS automation_logs (
   -- Additional metadata (JSONB for flexibility)
   metadata JSONB DEFAULT '{}'::jsonb,
   
+  -- Execution lifecycle
+  idempotency_key TEXT,
+  execution_state TEXT NOT NULL DEFAULT 'pending' CHECK (execution_state IN ('pending', 'built', 'submitted', 'confirmed', 'finalized', 'failed', 'expired')),
+  execution_attempts INTEGER NOT NULL DEFAULT 0,
+  execution_history JSONB NOT NULL DEFAULT '[]'::jsonb,
+  blockhash TEXT,
+  last_valid_block_height BIGINT,
+  
   -- Timestamps
   created_at TIMESTAMPTZ DEFAULT NOW(),
   executed_at TIMESTAMPTZ,
@@ -40,6 +49,12 @@ CREATE INDEX IF NOT EXISTS idx_automation_logs_config ON automation_logs(config_
 CREATE INDEX IF NOT EXISTS idx_automation_logs_status ON automation_logs(status);
 CREATE INDEX IF NOT EXISTS idx_automation_logs_action_type ON automation_logs(action_type);
 CREATE INDEX IF NOT EXISTS idx_automation_logs_created_at ON automation_logs(created_at DESC);
+CREATE INDEX IF NOT EXISTS idx_automation_logs_execution_state ON automation_logs(config_id, execution_state);
+
+-- Only one active (pending/approved) log per rule result, across overlapping runs
+CREATE UNIQUE INDEX IF NOT EXISTS idx_automation_logs_active_idempotency
+  ON automation_logs(idempotency_key)
+  WHERE idempotency_key IS NOT NULL AND status IN ('pending', 'approved');
 
 -- Enable RLS
 ALTER TABLE automation_logs ENABLE ROW LEVEL SECURITY;
@@ -0,0 +1,43 @@
+-- Table for automation notifications
+-- Approval reminders and expiry notices written by the approval lifecycle (scheduler tick)
+
+CREATE TABLE IF NOT EXISTS automation_notifications (
+  id UUID PRIMARY KEY DEFAULT uuid_generate_v4(),
+  user_id UUID REFERENCES auth.users(id) ON DELETE CASCADE,
+  config_id UUID REFERENCES automation_configs(id) ON DELETE CASCADE,
+  approval_id UUID REFERENCES automation_approvals(id) ON DELETE CASCADE,
+  
+  -- Content
+  type TEXT NOT NULL CHECK (type IN ('approval_reminder', 'approval_expired')),
+  title TEXT NOT NULL,
+  message TEXT NOT NULL,
+  
+  -- Timestamps
+  read_at TIMESTAMPTZ,
+  created_at TIMESTAMPTZ DEFAULT NOW(),
+  
+  -- One reminder and one expiry notice per approval, even with several workers
+  UNIQUE(approval_id, type)
+);
+
+-- Create indexes
+CREATE INDEX IF NOT EXISTS idx_automation_notifications_user ON automation_notifications(user_id, created_at DESC);
+
+-- Enable RLS
+ALTER TABLE automation_notifications ENABLE ROW LEVEL SECURITY;
+
+-- Policy: Users can only see their own notifications
+CREATE POLICY "Users can view own automation notifications"
+  ON automation_notifications FOR SELECT
+  USING (auth.uid() = user_id);
+
+-- Policy: Notifications are written by the scheduler
+-- Note: In production, the scheduler should use the service role key
+CREATE POLICY "Users can insert own automation notifications"
+  ON automation_notifications FOR INSERT
+  WITH CHECK (auth.uid() = user_id);
+
+-- Policy: Users mark their notifications read
+CREATE POLICY "Users can update own automation notifications"
+  ON automation_notifications FOR UPDATE
+  USING (auth.uid() = user_id);
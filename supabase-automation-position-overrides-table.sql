@@ -0,0 +1,46 @@
+-- Table for per-position automation overrides
+-- Settings here take precedence over the config for one position
+
+CREATE TABLE IF NOT EXISTS automation_position_overrides (
+  id UUID PRIMARY KEY DEFAULT uuid_generate_v4(),
+  user_id UUID REFERENCES auth.users(id) ON DELETE CASCADE,
+  config_id UUID REFERENCES automation_configs(id) ON DELETE CASCADE,
+  position_nft_address TEXT NOT NULL,
+  
+  -- Overrides (NULL = use the config value)
+  excluded BOOLEAN NOT NULL DEFAULT false,
+  claim_fee_threshold_usd DECIMAL(10,2),
+  rebalance_cooldown_hours INTEGER,
+  require_approval BOOLEAN NOT NULL DEFAULT false,
+  
+  -- Timestamps
+  created_at TIMESTAMPTZ DEFAULT NOW(),
+  updated_at TIMESTAMPTZ DEFAULT NOW(),
+  
+  UNIQUE(config_id, position_nft_address)
+);
+
+-- Create indexes
+CREATE INDEX IF NOT EXISTS idx_automation_position_overrides_config ON automation_position_overrides(config_id);
+
+-- Enable RLS
+ALTER TABLE automation_position_overrides ENABLE ROW LEVEL SECURITY;
+
+-- Policy: Users can only see their own overrides
+CREATE POLICY "Users can view own automation position overrides"
+  ON automation_position_overrides FOR SELECT
+  USING (auth.uid() = user_id);
+
+-- Policy: Users manage their own overrides
+-- Note: In production, the scheduler should use the service role key
+CREATE POLICY "Users can insert own automation position overrides"
+  ON automation_position_overrides FOR INSERT
+  WITH CHECK (auth.uid() = user_id);
+
+CREATE POLICY "Users can update own automation position overrides"
+  ON automation_position_overrides FOR UPDATE
+  USING (auth.uid() = user_id);
+
+CREATE POLICY "Users can delete own automation position overrides"
+  ON automation_position_overrides FOR DELETE
+  USING (auth.uid() = user_id);
@@ -0,0 +1,59 @@
+-- Table for user-defined automation rules
+-- Stores custom conditions evaluated by the automation engine next to the built-in rules
+
+CREATE TABLE IF NOT EXISTS automation_rules (
+  id UUID PRIMARY KEY DEFAULT uuid_generate_v4(),
+  user_id UUID REFERENCES auth.users(id) ON DELETE CASCADE,
+  config_id UUID REFERENCES automation_configs(id) ON DELETE CASCADE,
+
+  -- Rule definition
+  name TEXT NOT NULL,
+  description TEXT,
+  -- Condition tree over position fields, e.g.
+  -- {"logic": "AND", "conditions": [
+  --   {"field": "unclaimed_fees_usd", "operator": ">", "value": 5},
+  --   {"field": "fee_apr_24h", "operator": "<", "value": 20}
+  -- ]}
+  conditions JSONB NOT NULL,
+  action_type TEXT NOT NULL CHECK (action_type IN ('claim_fees', 'compound', 'rebalance', 'close_position', 'monitor')),
+
+  -- Execution controls
+  cooldown_hours INTEGER NOT NULL DEFAULT 24,
+  priority INTEGER, -- NULL = priority of the action type
+  requires_approval BOOLEAN DEFAULT false,
+  is_active BOOLEAN DEFAULT true,
+
+  -- Timestamps
+  created_at TIMESTAMPTZ DEFAULT NOW(),
+  updated_at TIMESTAMPTZ DEFAULT NOW(),
+
+  -- Rule names are written to automation_logs.rule_name, keep them unique per config
+  UNIQUE(config_id, name)
+);
+
+-- Create indexes
+CREATE INDEX IF NOT EXISTS idx_automation_rules_config ON automation_rules(config_id);
+CREATE INDEX IF NOT EXISTS idx_automation_rules_active ON automation_rules(config_id, is_active);
+
+-- Enable RLS
+ALTER TABLE automation_rules ENABLE ROW LEVEL SECURITY;
+
+-- Policy: Users can only see their own rules
+CREATE POLICY "Users can view own automation rules"
+  ON automation_rules FOR SELECT
+  USING (auth.uid() = user_id);
+
+-- Policy: Users can insert their own rules
+CREATE POLICY "Users can insert own automation rules"
+  ON automation_rules FOR INSERT
+  WITH CHECK (auth.uid() = user_id);
+
+-- Policy: Users can update their own rules
+CREATE POLICY "Users can update own automation rules"
+  ON automation_rules FOR UPDATE
+  USING (auth.uid() = user_id);
+
+-- Policy: Users can delete their own rules
+CREATE POLICY "Users can delete own automation rules"
+  ON automation_rules FOR DELETE
+  USING (auth.uid() = user_id);
@@ -7,12 +7,17 @@ CREATE TABLE IF NOT EXISTS position_transactions (
   wallet_address TEXT NOT NULL,
   
   -- Transaction identification
-  signature TEXT NOT NULL UNIQUE,
+  signature TEXT NOT NULL,
+  -- Order of the position within the transaction; multi-position transactions store one row per position
+  position_index INTEGER NOT NULL DEFAULT 0,
   block_time BIGINT NOT NULL,
   slot BIGINT NOT NULL,
   
   -- Transaction type and details
-  tx_type TEXT NOT NULL, -- 'position_open', 'fee_claim', 'position_close', 'rebalance', 'unknown'
+  tx_type TEXT NOT NULL CHECK (tx_type IN (
+    'position_open', 'liquidity_add', 'liquidity_remove', 'fee_claim', 'reward_claim',
+    'position_close', 'rebalance', 'unknown'
+  )),
   
   -- Position references
   position_nft_address TEXT, -- Position NFT address (for linking to manual_positions)
@@ -30,6 +35,8 @@ CREATE TABLE IF NOT EXISTS position_transactions (
   token_x_usd NUMERIC,
   token_y_usd NUMERIC,
   total_usd NUMERIC,
+  -- Where the prices came from: the price provider, 'peg' (stablecoins only) or 'pool' (derived from the pool's active bin)
+  price_source TEXT,
   
   -- SOL balance change for wallet
   sol_change NUMERIC,
@@ -46,7 +53,7 @@ CREATE TABLE IF NOT EXISTS position_transactions (
   updated_at TIMESTAMP WITH TIME ZONE DEFAULT NOW(),
   
   -- Indexes for fast queries
-  CONSTRAINT unique_signature UNIQUE (signature)
+  CONSTRAINT unique_signature_position UNIQUE (signature, position_index)
 );
 
 -- Create indexes for common queries
@@ -0,0 +1,46 @@
+-- Table for scheduler run history
+-- One row per farming schedule or automation config run by the scheduler
+
+CREATE TABLE IF NOT EXISTS scheduler_runs (
+  id UUID PRIMARY KEY DEFAULT uuid_generate_v4(),
+  user_id UUID REFERENCES auth.users(id) ON DELETE CASCADE,
+  
+  -- What was run
+  run_type TEXT NOT NULL CHECK (run_type IN ('farming_schedule', 'automation_config')),
+  schedule_id UUID REFERENCES farming_schedules(id) ON DELETE SET NULL,
+  config_id UUID REFERENCES automation_configs(id) ON DELETE SET NULL,
+  
+  -- Outcome
+  status TEXT NOT NULL DEFAULT 'running' CHECK (status IN ('running', 'success', 'failed', 'skipped')),
+  worker_id TEXT NOT NULL,
+  result JSONB DEFAULT '{}'::jsonb,
+  error_message TEXT,
+  
+  -- Timestamps
+  started_at TIMESTAMPTZ DEFAULT NOW(),
+  finished_at TIMESTAMPTZ
+);
+
+-- Create indexes
+CREATE INDEX IF NOT EXISTS idx_scheduler_runs_user ON scheduler_runs(user_id);
+CREATE INDEX IF NOT EXISTS idx_scheduler_runs_schedule ON scheduler_runs(schedule_id);
+CREATE INDEX IF NOT EXISTS idx_scheduler_runs_config ON scheduler_runs(config_id);
+CREATE INDEX IF NOT EXISTS idx_scheduler_runs_started_at ON scheduler_runs(started_at DESC);
+
+-- Enable RLS
+ALTER TABLE scheduler_runs ENABLE ROW LEVEL SECURITY;
+
+-- Policy: Users can only see their own runs
+CREATE POLICY "Users can view own scheduler runs"
+  ON scheduler_runs FOR SELECT
+  USING (auth.uid() = user_id);
+
+-- Policy: Scheduler inserts/updates runs
+-- Note: In production, the scheduler should use the service role key
+CREATE POLICY "Users can insert own scheduler runs"
+  ON scheduler_runs FOR INSERT
+  WITH CHECK (auth.uid() = user_id);
+
+CREATE POLICY "Users can update own scheduler runs"
+  ON scheduler_runs FOR UPDATE
+  USING (auth.uid() = user_id);
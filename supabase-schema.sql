@@ -76,6 +76,7 @@ CREATE TABLE IF NOT EXISTS farming_schedules (
   wallet_id UUID REFERENCES tracked_wallets(id) ON DELETE CASCADE,
   activity_id UUID REFERENCES farming_activities(id) ON DELETE CASCADE,
   frequency TEXT CHECK (frequency IN ('daily', 'weekly', 'custom')),
+  cron_expression TEXT, -- 5-field UTC cron, required when frequency = 'custom'
   next_execution TIMESTAMP WITH TIME ZONE,
   last_execution TIMESTAMP WITH TIME ZONE,
   is_active BOOLEAN DEFAULT true,
@@ -0,0 +1,38 @@
+-- Table caching token metadata (symbol, name, decimals, metadata uri) by mint
+-- Written by the token registry (service role) after reading the mint and its Token-2022 / Metaplex metadata on chain
+
+CREATE TABLE IF NOT EXISTS token_metadata (
+  mint TEXT PRIMARY KEY,
+  symbol TEXT NOT NULL,
+  name TEXT NOT NULL,
+  decimals INTEGER NOT NULL CHECK (decimals >= 0),
+  -- Seed list logo; other logos are read by clients from the off-chain metadata at uri
+  logo_uri TEXT,
+  uri TEXT,
+  -- Where symbol and name came from
+  source TEXT NOT NULL CHECK (source IN ('token-2022', 'metaplex', 'mint', 'seed')),
+  
+  -- Timestamps (updated_at decides when the row is refreshed from chain)
+  created_at TIMESTAMPTZ DEFAULT NOW(),
+  updated_at TIMESTAMPTZ DEFAULT NOW()
+);
+
+-- Enable RLS
+ALTER TABLE token_metadata ENABLE ROW LEVEL SECURITY;
+
+-- Policy: Token metadata is public chain data
+CREATE POLICY "Anyone can view token metadata"
+  ON token_metadata FOR SELECT
+  USING (true);
+
+-- Policy: Only the token registry writes metadata, with the service role key
+-- (which bypasses RLS); users must not be able to plant symbols or uris for other users to see
+CREATE POLICY "Service role can insert token metadata"
+  ON token_metadata FOR INSERT
+  TO service_role
+  WITH CHECK (true);
+
+CREATE POLICY "Service role can update token metadata"
+  ON token_metadata FOR UPDATE
+  TO service_role
+  USING (true);
@@ -0,0 +1,35 @@
+-- Table caching historical USD prices of token mints
+-- Written by the price history service (service role), one row per mint and 5-minute bucket of block time
+
+CREATE TABLE IF NOT EXISTS token_price_history (
+  mint TEXT NOT NULL,
+  -- Block time rounded down to 5 minutes (unix seconds)
+  bucket_time BIGINT NOT NULL,
+  price_usd NUMERIC NOT NULL CHECK (price_usd > 0),
+  -- Price provider name, or 'pool' for prices derived from a DLMM pool's active bin
+  source TEXT NOT NULL,
+  
+  created_at TIMESTAMPTZ DEFAULT NOW(),
+  
+  PRIMARY KEY (mint, bucket_time)
+);
+
+-- Enable RLS
+ALTER TABLE token_price_history ENABLE ROW LEVEL SECURITY;
+
+-- Policy: Historical prices are public market data
+CREATE POLICY "Anyone can view token price history"
+  ON token_price_history FOR SELECT
+  USING (true);
+
+-- Policy: Only the price history service writes prices, with the service role key
+-- (which bypasses RLS); users must not be able to plant prices other users' PnL is computed from
+CREATE POLICY "Service role can insert token price history"
+  ON token_price_history FOR INSERT
+  TO service_role
+  WITH CHECK (true);
+
+CREATE POLICY "Service role can update token price history"
+  ON token_price_history FOR UPDATE
+  TO service_role
+  USING (true);
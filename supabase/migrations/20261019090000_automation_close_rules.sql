@@ -0,0 +1,8 @@
+-- Stop-loss / take-profit settings for automation configs
+-- PnL is measured against the cost basis recorded in position_transactions
+ALTER TABLE automation_configs
+  ADD COLUMN IF NOT EXISTS auto_close_position BOOLEAN DEFAULT false,
+  ADD COLUMN IF NOT EXISTS stop_loss_percent DECIMAL(5,2),
+  ADD COLUMN IF NOT EXISTS stop_loss_usd DECIMAL(12,2),
+  ADD COLUMN IF NOT EXISTS take_profit_percent DECIMAL(7,2),
+  ADD COLUMN IF NOT EXISTS take_profit_usd DECIMAL(12,2);
@@ -0,0 +1,21 @@
+-- Execution lifecycle tracking for automation logs
+-- pending → built → submitted → confirmed → finalized, with failed/expired branches
+ALTER TABLE automation_logs
+  ADD COLUMN IF NOT EXISTS idempotency_key TEXT,
+  ADD COLUMN IF NOT EXISTS execution_state TEXT NOT NULL DEFAULT 'pending'
+    CHECK (execution_state IN ('pending', 'built', 'submitted', 'confirmed', 'finalized', 'failed', 'expired')),
+  ADD COLUMN IF NOT EXISTS execution_attempts INTEGER NOT NULL DEFAULT 0,
+  ADD COLUMN IF NOT EXISTS execution_history JSONB NOT NULL DEFAULT '[]'::jsonb,
+  ADD COLUMN IF NOT EXISTS blockhash TEXT,
+  ADD COLUMN IF NOT EXISTS last_valid_block_height BIGINT;
+
+-- Backfill states for existing rows
+UPDATE automation_logs SET execution_state = 'confirmed' WHERE status = 'executed';
+UPDATE automation_logs SET execution_state = 'failed' WHERE status IN ('failed', 'rejected', 'cancelled');
+
+CREATE INDEX IF NOT EXISTS idx_automation_logs_execution_state ON automation_logs(config_id, execution_state);
+
+-- Only one active (pending/approved) log per rule result, across overlapping runs
+CREATE UNIQUE INDEX IF NOT EXISTS idx_automation_logs_active_idempotency
+  ON automation_logs(idempotency_key)
+  WHERE idempotency_key IS NOT NULL AND status IN ('pending', 'approved');
@@ -0,0 +1,9 @@
+-- Scheduler support: custom cron schedules and per-config run locks
+ALTER TABLE farming_schedules
+  ADD COLUMN IF NOT EXISTS cron_expression TEXT;
+
+ALTER TABLE automation_configs
+  ADD COLUMN IF NOT EXISTS locked_by TEXT,
+  ADD COLUMN IF NOT EXISTS locked_until TIMESTAMPTZ;
+
+-- Run history lives in scheduler_runs (see supabase-scheduler-runs-table.sql)
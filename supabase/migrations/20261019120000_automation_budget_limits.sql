@@ -0,0 +1,12 @@
+-- Rolling weekly/monthly limits, budget timezone and sub-budgets for automation configs
+ALTER TABLE automation_configs
+  ADD COLUMN IF NOT EXISTS weekly_spend_limit_usd DECIMAL(12,2),
+  ADD COLUMN IF NOT EXISTS monthly_spend_limit_usd DECIMAL(12,2),
+  ADD COLUMN IF NOT EXISTS budget_timezone TEXT NOT NULL DEFAULT 'UTC',
+  ADD COLUMN IF NOT EXISTS sub_budgets JSONB NOT NULL DEFAULT '[]'::jsonb;
+
+-- Protocol each action ran against, so sub-budgets can be scoped per protocol
+ALTER TABLE automation_logs
+  ADD COLUMN IF NOT EXISTS protocol TEXT NOT NULL DEFAULT 'meteora';
+
+CREATE INDEX IF NOT EXISTS idx_automation_logs_spend ON automation_logs(config_id, status, created_at);
@@ -0,0 +1,8 @@
+-- Circuit breaker thresholds for automation configs
+ALTER TABLE automation_configs
+  ADD COLUMN IF NOT EXISTS breaker_max_consecutive_failures INTEGER NOT NULL DEFAULT 3,
+  ADD COLUMN IF NOT EXISTS breaker_failure_rate_percent DECIMAL(5,2) NOT NULL DEFAULT 50.00,
+  ADD COLUMN IF NOT EXISTS breaker_window_hours INTEGER NOT NULL DEFAULT 24,
+  ADD COLUMN IF NOT EXISTS breaker_cooldown_hours INTEGER DEFAULT 6;
+
+-- Trips are stored in automation_circuit_breakers (supabase-automation-circuit-breakers-table.sql)
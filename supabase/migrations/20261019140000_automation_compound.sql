@@ -0,0 +1,19 @@
+-- Fee compounding: claim fees and add them back as liquidity
+ALTER TABLE automation_configs
+  ADD COLUMN IF NOT EXISTS auto_compound BOOLEAN DEFAULT false,
+  ADD COLUMN IF NOT EXISTS compound_threshold_usd DECIMAL(10,2) DEFAULT 10.00,
+  ADD COLUMN IF NOT EXISTS compound_interval_hours INTEGER DEFAULT 24,
+  ADD COLUMN IF NOT EXISTS compound_target_position TEXT;
+
+-- Allow the new action type
+ALTER TABLE automation_logs DROP CONSTRAINT IF EXISTS automation_logs_action_type_check;
+ALTER TABLE automation_logs ADD CONSTRAINT automation_logs_action_type_check
+  CHECK (action_type IN ('open_position', 'claim_fees', 'compound', 'rebalance', 'close_position', 'monitor'));
+
+ALTER TABLE automation_approvals DROP CONSTRAINT IF EXISTS automation_approvals_action_type_check;
+ALTER TABLE automation_approvals ADD CONSTRAINT automation_approvals_action_type_check
+  CHECK (action_type IN ('open_position', 'claim_fees', 'compound', 'rebalance', 'close_position'));
+
+ALTER TABLE automation_rules DROP CONSTRAINT IF EXISTS automation_rules_action_type_check;
+ALTER TABLE automation_rules ADD CONSTRAINT automation_rules_action_type_check
+  CHECK (action_type IN ('claim_fees', 'compound', 'rebalance', 'close_position', 'monitor'));
@@ -0,0 +1,6 @@
+-- Pool selection for auto-open positions
+ALTER TABLE automation_configs
+  ADD COLUMN IF NOT EXISTS pool_token_allowlist TEXT[] DEFAULT '{}',
+  ADD COLUMN IF NOT EXISTS pool_min_bin_step INTEGER DEFAULT 1,
+  ADD COLUMN IF NOT EXISTS pool_max_bin_step INTEGER DEFAULT 100,
+  ADD COLUMN IF NOT EXISTS pool_airdrop_weights JSONB DEFAULT '{}'::jsonb;
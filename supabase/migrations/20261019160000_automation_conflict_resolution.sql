@@ -0,0 +1,8 @@
+-- Rule priorities and per-cycle action cap
+ALTER TABLE automation_configs
+  ADD COLUMN IF NOT EXISTS max_actions_per_cycle INTEGER DEFAULT 5,
+  ADD COLUMN IF NOT EXISTS action_priorities JSONB DEFAULT '{}'::jsonb;
+
+-- NULL = priority of the action type
+ALTER TABLE automation_rules
+  ADD COLUMN IF NOT EXISTS priority INTEGER;
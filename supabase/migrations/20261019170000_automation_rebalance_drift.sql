@@ -0,0 +1,4 @@
+-- Distance-to-edge rebalancing scaled by volatility
+ALTER TABLE automation_configs
+  ADD COLUMN IF NOT EXISTS rebalance_volatility_scaling BOOLEAN DEFAULT true,
+  ADD COLUMN IF NOT EXISTS rebalance_range_volatility_multiple DECIMAL(4,2) DEFAULT 2.00;
@@ -0,0 +1,6 @@
+-- Token risk checks before opening or rebalancing
+ALTER TABLE automation_configs
+  ADD COLUMN IF NOT EXISTS token_allowlist TEXT[] DEFAULT '{}',
+  ADD COLUMN IF NOT EXISTS token_denylist TEXT[] DEFAULT '{}',
+  ADD COLUMN IF NOT EXISTS min_pool_tvl_usd DECIMAL(14,2) DEFAULT 50000.00,
+  ADD COLUMN IF NOT EXISTS max_price_deviation_percent DECIMAL(5,2) DEFAULT 2.00;
@@ -0,0 +1,3 @@
+-- SOL kept in the wallet for rent and fees of later actions
+ALTER TABLE automation_configs
+  ADD COLUMN IF NOT EXISTS min_sol_reserve DECIMAL(12,9) DEFAULT 0.05;
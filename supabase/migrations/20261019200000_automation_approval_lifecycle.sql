@@ -0,0 +1,5 @@
+-- Reminder lead time before a pending approval expires (NULL = no reminders)
+ALTER TABLE automation_configs
+  ADD COLUMN IF NOT EXISTS approval_reminder_hours DECIMAL(6,2) DEFAULT 2;
+
+-- Reminders and expiry notices live in automation_notifications (see supabase-automation-notifications-table.sql)
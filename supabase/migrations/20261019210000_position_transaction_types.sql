@@ -0,0 +1,10 @@
+-- Partial withdrawals, adds to an existing position and reward claims get their own transaction types
+-- (previously recorded as position_close, position_open and fee_claim)
+ALTER TABLE position_transactions
+  DROP CONSTRAINT IF EXISTS position_transactions_tx_type_check;
+
+ALTER TABLE position_transactions
+  ADD CONSTRAINT position_transactions_tx_type_check CHECK (tx_type IN (
+    'position_open', 'liquidity_add', 'liquidity_remove', 'fee_claim', 'reward_claim',
+    'position_close', 'rebalance', 'unknown'
+  ));
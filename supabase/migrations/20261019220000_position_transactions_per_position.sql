@@ -0,0 +1,11 @@
+-- Transactions touching several positions (claim-all, close-and-reopen, zaps) store one row per position,
+-- so a signature is only unique together with the position's index in the transaction
+ALTER TABLE position_transactions
+  ADD COLUMN IF NOT EXISTS position_index INTEGER NOT NULL DEFAULT 0;
+
+ALTER TABLE position_transactions
+  DROP CONSTRAINT IF EXISTS position_transactions_signature_key,
+  DROP CONSTRAINT IF EXISTS unique_signature;
+
+ALTER TABLE position_transactions
+  ADD CONSTRAINT unique_signature_position UNIQUE (signature, position_index);
@@ -0,0 +1,4 @@
+-- USD values of position transactions are priced at block time; price_source records where the
+-- prices came from, and rows without it still hold the old fixed-SOL-price estimate
+ALTER TABLE position_transactions
+  ADD COLUMN IF NOT EXISTS price_source TEXT;
@@ -0,0 +1,4 @@
+-- Hash of the transaction an approver previewed (instructions, accounts and fee payer, not the
+-- blockhash); the execute endpoint refuses to hand the wallet a rebuild that hashes differently
+ALTER TABLE automation_approvals
+  ADD COLUMN IF NOT EXISTS message_hash TEXT;
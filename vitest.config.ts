@@ -0,0 +1,14 @@
+import { defineConfig } from 'vitest/config'
+import path from 'path'
+
+export default defineConfig({
+  resolve: {
+    alias: { '@': path.resolve(__dirname, 'src') },
+  },
+  test: {
+    include: ['src/**/*.test.ts'],
+    environment: 'node',
+    // The SDK's ESM build imports anchor's CJS directories, which Node's ESM loader rejects
+    server: { deps: { inline: ['@meteora-ag/dlmm'] } },
+  },
+})